@@ -5,6 +5,8 @@ import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { quoteSTL, decodeModelData, isQuotedTotal, parseQuantity, QuoteInputError, type PrintSettings } from '../shared/quote.js';
+import { isProCustomer } from '../shared/proPricing.js';
 
 // Initialize Stripe with the secret key
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -316,7 +318,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         quantity, 
         finalPrice, 
         stlFileData, 
-        stlFileName
+        stlFileName,
+        material,
+        layerHeight,
+        infill,
+        idToken
       } = req.body;
       
       console.log('Handling 3D print checkout with:', { 
@@ -335,6 +341,44 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         });
       }
 
+      // Recompute the total from the uploaded model so the client can't set its own price
+      if (!stlFileData || typeof stlFileData !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Model data is required to verify the price'
+        });
+      }
+
+      // The same print settings as the quote being paid for, so the totals can match
+      let verifiedTotal: number;
+      let printSettings: PrintSettings;
+      try {
+        const orderQuantity = parseQuantity(quantity);
+        const quote = quoteSTL(decodeModelData(stlFileData), {
+          material: material || 'PLA',
+          quantity: orderQuantity,
+          isPro: admin.apps.length > 0 && await isProCustomer(idToken, admin),
+          settings: { layerHeight, infill }
+        });
+
+        if (!isQuotedTotal(Number(finalPrice), quote)) {
+          console.warn(`Checkout total $${finalPrice} does not match quoted $${quote.total}`);
+          return res.status(409).json({
+            success: false,
+            message: 'The price has changed. Please recalculate before checking out.',
+            totalPrice: quote.total,
+            quote
+          });
+        }
+        verifiedTotal = quote.total;
+        printSettings = quote.settings;
+      } catch (error) {
+        if (error instanceof QuoteInputError) {
+          return res.status(400).json({ success: false, message: error.message });
+        }
+        throw error;
+      }
+
       // Variables to store STL file information
       let stlDownloadUrl = '';
       let stlFilePath = '';
@@ -389,7 +433,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Create a price for the product
       const price = await stripe.prices.create({
         product: product.id,
-        unit_amount: Math.round(finalPrice * 100), // Convert dollars to cents
+        unit_amount: Math.round(verifiedTotal * 100), // Convert dollars to cents
         currency: 'usd',
       });
       
@@ -398,7 +442,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         modelName,
         color,
         quantity: quantity.toString(),
-        finalPrice: finalPrice.toString(),
+        finalPrice: verifiedTotal.toString(),
+        layerHeight: printSettings.layerHeight.toString(),
+        infill: printSettings.infill.toString(),
         stlFileName: stlFileName || 'unknown.stl'
       };
       
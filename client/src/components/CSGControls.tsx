@@ -7,7 +7,11 @@ import {
   Loader2,
   Minus,
   XCircle,
-  Plus
+  Plus,
+  ChevronRight,
+  ChevronDown,
+  Undo2,
+  Squircle
 } from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
@@ -19,9 +23,256 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import { BOOLEAN_BACKENDS, BooleanBackendName } from "@/lib/csg";
+import { Input } from "@/components/ui/input";
+import type { Model } from "@/types/model";
 
 type CSGOperationType = 'union' | 'subtract' | 'intersect';
 
+// Picks which boolean engine the worker uses
+export function BooleanEngineSelect() {
+  const { booleanBackend, setBooleanBackend, isCSGOperationLoading } = useScene();
+  
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label htmlFor="boolean-engine" className="text-xs">Engine</Label>
+      <Select
+        value={booleanBackend}
+        onValueChange={(value) => setBooleanBackend(value as BooleanBackendName)}
+        disabled={isCSGOperationLoading}
+      >
+        <SelectTrigger id="boolean-engine" className="h-7 w-[160px] text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(BOOLEAN_BACKENDS).map(backend => (
+            <SelectItem key={backend.name} value={backend.name} className="text-xs">
+              {backend.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+const OPERATION_LABELS: Record<CSGOperationType, string> = {
+  union: 'Merge',
+  subtract: 'Cut Out',
+  intersect: 'Intersect'
+};
+
+type Vec3 = [number, number, number];
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// One input of a boolean result, with its transform editor and nested inputs
+function CSGOperandRow({ operand, path, depth, isBase }: {
+  operand: Model;
+  path: number[];
+  depth: number;
+  isBase: boolean;
+}) {
+  const { selectedModelIndex, updateCSGOperand, isCSGOperationLoading } = useScene();
+  const [isEditing, setIsEditing] = useState(false);
+  const [position, setPosition] = useState<Vec3>(operand.mesh.position.toArray() as Vec3);
+  const [rotation, setRotation] = useState<Vec3>(
+    [operand.mesh.rotation.x, operand.mesh.rotation.y, operand.mesh.rotation.z]
+      .map(r => Math.round(RAD_TO_DEG * r * 100) / 100) as Vec3
+  );
+  const [scale, setScale] = useState<Vec3>(operand.mesh.scale.toArray() as Vec3);
+  
+  const handleApply = async () => {
+    if (selectedModelIndex === null) return;
+    try {
+      await updateCSGOperand(selectedModelIndex, path, {
+        position,
+        rotation: rotation.map(r => r / RAD_TO_DEG) as Vec3,
+        scale
+      });
+      toast.success(`Updated ${operand.name} and recomputed the result`);
+      setIsEditing(false);
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast.info("Operation cancelled");
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : "Failed to recompute the result");
+    }
+  };
+  
+  const renderVectorInputs = (label: string, value: Vec3, onChange: (value: Vec3) => void, step: number) => (
+    <div className="grid grid-cols-[52px_1fr_1fr_1fr] items-center gap-1">
+      <span className="text-[10px] text-muted-foreground">{label}</span>
+      {value.map((component, axis) => (
+        <Input
+          key={axis}
+          type="number"
+          step={step}
+          value={component}
+          className="h-6 px-1 text-xs"
+          onChange={(e) => {
+            const next = [...value] as Vec3;
+            next[axis] = parseFloat(e.target.value) || 0;
+            onChange(next);
+          }}
+        />
+      ))}
+    </div>
+  );
+  
+  return (
+    <div style={{ marginLeft: depth * 12 }} className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <button
+          className="flex items-center gap-1 hover:text-primary"
+          onClick={() => setIsEditing(!isEditing)}
+          disabled={isCSGOperationLoading}
+        >
+          {isEditing ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <span className="truncate max-w-[220px]">{operand.name}</span>
+        </button>
+        <span className="text-[10px] text-muted-foreground">
+          {operand.csgTree ? OPERATION_LABELS[operand.csgTree.operation] : isBase ? 'Base' : 'Tool'}
+        </span>
+      </div>
+      
+      {isEditing && (
+        <div className="space-y-1 border rounded p-1.5">
+          {renderVectorInputs('Position', position, setPosition, 1)}
+          {renderVectorInputs('Rotation°', rotation, setRotation, 5)}
+          {renderVectorInputs('Scale', scale, setScale, 0.1)}
+          <Button
+            size="sm"
+            className="w-full h-6 text-xs"
+            onClick={handleApply}
+            disabled={isCSGOperationLoading}
+          >
+            Apply and recompute
+          </Button>
+        </div>
+      )}
+      
+      {operand.csgTree?.operands.map((child, i) => (
+        <CSGOperandRow
+          key={child.id}
+          operand={child}
+          path={[...path, i]}
+          depth={depth + 1}
+          isBase={i === 0}
+        />
+      ))}
+    </div>
+  );
+}
+
+
+// Feature tree of the selected boolean result: edit an input and the result is recomputed
+export function CSGTreePanel() {
+  const { models, selectedModelIndex, restoreCSGOperands, isCSGOperationLoading } = useScene();
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : null;
+  
+  if (!model?.csgTree) return null;
+  
+  return (
+    <div className="space-y-1.5 border-t pt-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-xs">
+          {OPERATION_LABELS[model.csgTree.operation]} history
+        </h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => selectedModelIndex !== null && restoreCSGOperands(selectedModelIndex)}
+          disabled={isCSGOperationLoading}
+        >
+          <Undo2 className="h-3 w-3 mr-1" />
+          Restore inputs
+        </Button>
+      </div>
+      <div className="max-h-[240px] overflow-y-auto space-y-1">
+        {model.csgTree.operands.map((operand, i) => (
+          <CSGOperandRow
+            key={`${model.id}-${operand.id}`}
+            operand={operand}
+            path={[i]}
+            depth={0}
+            isBase={i === 0}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Starts picking edges of the selected model to fillet or chamfer
+export function EdgeBlendControls({ onStart }: { onStart?: () => void }) {
+  const { models, selectedModelIndex, edgeBlend, startEdgeBlend, isCSGOperationLoading } = useScene();
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : null;
+  
+  const handleStart = () => {
+    if (!model) {
+      toast.error("Select a model to round its edges");
+      return;
+    }
+    
+    const count = startEdgeBlend();
+    if (count === 0) {
+      toast.error(`${model.name} has no sharp edges to blend`);
+      return;
+    }
+    onStart?.();
+  };
+  
+  return (
+    <div className="space-y-1.5 border-t pt-2">
+      <h4 className="font-medium text-xs">Edges</h4>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs"
+        onClick={handleStart}
+        disabled={!model || !!edgeBlend || isCSGOperationLoading}
+      >
+        <Squircle className="h-3 w-3 mr-1" />
+        Fillet / Chamfer Edges
+      </Button>
+      <p className="text-[10px] text-muted-foreground">
+        Rounds or bevels the sharp edges of {model ? model.name : 'the primary model'}
+      </p>
+    </div>
+  );
+}
+
+// Progress bar and cancel button for the boolean operation running in the worker
+export function CSGProgressIndicator() {
+  const { isCSGOperationLoading, csgProgress, cancelCSGOperation } = useScene();
+  
+  if (!isCSGOperationLoading || !csgProgress) return null;
+  
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{csgProgress.stage}</span>
+        <span>{Math.round(csgProgress.percent)}%</span>
+      </div>
+      <Progress value={csgProgress.percent} className="h-2" />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs"
+        onClick={cancelCSGOperation}
+      >
+        <XCircle className="h-3 w-3 mr-1" />
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
 export function ModelCombiner() {
   const { 
     models, 
@@ -64,6 +315,10 @@ export function ModelCombiner() {
       
       toast.success(`Successfully ${operationNames[operationType]}ed the models`);
     } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast.info("Operation cancelled");
+        return;
+      }
       console.error("Model combining operation failed:", error);
       toast.error("There was an error combining the models");
     } finally {
@@ -170,6 +425,8 @@ export function ModelCombiner() {
             </div>
           </div>
           
+          <BooleanEngineSelect />
+          
           <div className="grid grid-cols-1 gap-2">
             {operationButtons.map(button => (
               <Button
@@ -189,6 +446,8 @@ export function ModelCombiner() {
               </Button>
             ))}
           </div>
+          
+          <CSGProgressIndicator />
         </div>
       )}
     </div>
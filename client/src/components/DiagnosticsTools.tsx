@@ -0,0 +1,175 @@
+import { useMemo, useState } from "react";
+import { useScene } from "@/hooks/use-scene";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { getMaterialDensity, MATERIAL_NAMES } from "@shared/quote";
+import { AlertTriangle, CheckCircle2, Stethoscope } from "lucide-react";
+
+const MM_PER_INCH = 25.4;
+const CUSTOM_MATERIAL = 'custom';
+
+// Triangle counts above this make booleans and repairs noticeably slow
+const HEAVY_TRIANGLE_COUNT = 500000;
+
+// How heavy and how clean the selected model is
+export function DiagnosticsTools() {
+  const { models, selectedModelIndex, currentHistoryIndex, unit, getMeshDiagnostics } = useScene();
+  const [open, setOpen] = useState(false);
+  const [material, setMaterial] = useState('PLA');
+  const [customDensity, setCustomDensity] = useState(1.24);
+
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : undefined;
+  const density = material === CUSTOM_MATERIAL ? customDensity : getMaterialDensity(material);
+
+  // Every edit to the model is a history step, so that's when the numbers go stale
+  const diagnostics = useMemo(
+    () => (open && model ? getMeshDiagnostics(selectedModelIndex ?? undefined, density) : null),
+    [open, model, selectedModelIndex, currentHistoryIndex, density, getMeshDiagnostics]
+  );
+
+  const toUnit = (mm: number, power: 1 | 2 | 3) => unit === 'in' ? mm / Math.pow(MM_PER_INCH, power) : mm;
+  const formatCount = (count: number) => count.toLocaleString();
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={!model}
+            >
+              <Stethoscope className={model ? "text-foreground" : "text-muted-foreground"} size={16} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-3" align="center">
+            {diagnostics && (
+              <div className="space-y-3">
+                <h4 className="font-medium text-sm leading-none truncate">Diagnostics: {model?.name}</h4>
+
+                <div className="space-y-1 text-xs">
+                  <DiagnosticsRow
+                    label="Triangles"
+                    value={formatCount(diagnostics.triangleCount)}
+                    warning={diagnostics.triangleCount > HEAVY_TRIANGLE_COUNT}
+                  />
+                  <DiagnosticsRow label="Vertices" value={formatCount(diagnostics.vertexCount)} />
+                  <DiagnosticsRow label="Shells" value={formatCount(diagnostics.shellCount)} />
+                  <DiagnosticsRow
+                    label="Watertight"
+                    value={diagnostics.isWatertight ? 'Yes' : 'No'}
+                    status={diagnostics.isWatertight}
+                  />
+                  <DiagnosticsRow
+                    label="Open edges"
+                    value={formatCount(diagnostics.boundaryEdges)}
+                    warning={diagnostics.boundaryEdges > 0}
+                  />
+                  <DiagnosticsRow
+                    label="Non-manifold edges"
+                    value={formatCount(diagnostics.nonManifoldEdges)}
+                    warning={diagnostics.nonManifoldEdges > 0}
+                  />
+                </div>
+
+                <div className="space-y-1 text-xs border-t pt-2">
+                  <DiagnosticsRow
+                    label="Volume"
+                    value={unit === 'in'
+                      ? `${toUnit(diagnostics.volumeMm3, 3).toFixed(3)} in³`
+                      : `${(diagnostics.volumeMm3 / 1000).toFixed(2)} cm³`}
+                  />
+                  <DiagnosticsRow
+                    label="Surface area"
+                    value={unit === 'in'
+                      ? `${toUnit(diagnostics.surfaceAreaMm2, 2).toFixed(2)} in²`
+                      : `${(diagnostics.surfaceAreaMm2 / 100).toFixed(2)} cm²`}
+                  />
+                  {/* Width along X, depth along Z and height along Y, as on the build plate */}
+                  <DiagnosticsRow
+                    label="Size (W x D x H)"
+                    value={`${[0, 2, 1].map(axis => toUnit(diagnostics.size[axis], 1).toFixed(unit === 'in' ? 2 : 1)).join(' x ')} ${unit}`}
+                  />
+                  <DiagnosticsRow label="Weight (solid)" value={`${diagnostics.weightGrams.toFixed(1)} g`} />
+                </div>
+
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1 flex-1">
+                    <Label htmlFor="diagnostics-material" className="text-xs">Filament</Label>
+                    <Select value={material} onValueChange={setMaterial}>
+                      <SelectTrigger id="diagnostics-material" className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MATERIAL_NAMES.map(name => (
+                          <SelectItem key={name} value={name} className="text-xs">{name}</SelectItem>
+                        ))}
+                        <SelectItem value={CUSTOM_MATERIAL} className="text-xs">Custom</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1 w-24">
+                    <Label htmlFor="diagnostics-density" className="text-xs">g/cm³</Label>
+                    <Input
+                      id="diagnostics-density"
+                      type="number"
+                      min={0.1}
+                      step={0.01}
+                      value={density}
+                      disabled={material !== CUSTOM_MATERIAL}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) setCustomDensity(value);
+                      }}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                </div>
+
+                {!diagnostics.isWatertight && (
+                  <p className="text-xs text-amber-600 dark:text-amber-500">
+                    Open or non-manifold edges can make booleans, splits and slicing fail. Keep automatic mesh repair on, or fix the file before importing it.
+                  </p>
+                )}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Mesh Diagnostics</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+interface DiagnosticsRowProps {
+  label: string;
+  value: string;
+  status?: boolean; // Shows a pass or fail icon
+  warning?: boolean;
+}
+
+function DiagnosticsRow({ label, value, status, warning }: DiagnosticsRowProps) {
+  const failed = status === false || warning;
+  return (
+    <div className="flex items-center justify-between">
+      <span className="flex items-center gap-1.5">
+        {status !== undefined && (
+          status
+            ? <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+            : <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+        )}
+        {label}
+      </span>
+      <span className={cn(failed ? "text-amber-600 dark:text-amber-500" : "text-muted-foreground")}>{value}</span>
+    </div>
+  );
+}
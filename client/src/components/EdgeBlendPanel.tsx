@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from "react";
+import { BufferGeometry, Float32BufferAttribute, Group, LineBasicMaterial, LineSegments, Vector2, Vector3 } from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { useViewportClick } from "@/hooks/use-viewport-click";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import { DEFAULT_EDGE_BLEND_OPTIONS, EdgeBlendType, FeatureEdge } from "@/lib/edgeBlend";
+import { Loader2, Squircle } from "lucide-react";
+
+const OVERLAY_NAME = 'edgeBlendOverlay';
+
+const SELECTED_EDGE_COLOR = 0xff9800;
+const UNSELECTED_EDGE_COLOR = 0x64748b;
+
+// How close to an edge on screen a click has to land to pick it
+const EDGE_PICK_PX = 8;
+
+const BLEND_TYPES: { type: EdgeBlendType; label: string }[] = [
+  { type: 'fillet', label: 'Fillet' },
+  { type: 'chamfer', label: 'Chamfer' }
+];
+
+function createEdgeLines(edges: FeatureEdge[], color: number): LineSegments {
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new Float32BufferAttribute(edges.flatMap(edge => [...edge.start, ...edge.end]), 3));
+  const lines = new LineSegments(geometry, new LineBasicMaterial({ color, depthTest: false, transparent: true }));
+  lines.renderOrder = 1000;
+  lines.raycast = () => {};
+  return lines;
+}
+
+// Distance in pixels from a point to a segment on screen
+function distanceToSegment(point: Vector2, a: Vector2, b: Vector2): number {
+  const ab = b.clone().sub(a);
+  const lengthSq = ab.lengthSq();
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, point.clone().sub(a).dot(ab) / lengthSq)) : 0;
+  return a.clone().addScaledVector(ab, t).distanceTo(point);
+}
+
+// Pick the sharp edges of a model, then round or bevel them
+export function EdgeBlendPanel() {
+  const {
+    edgeBlend,
+    toggleBlendEdge,
+    setBlendEdgesSelected,
+    cancelEdgeBlend,
+    applyEdgeBlend,
+    isCSGOperationLoading,
+    models,
+    scene,
+    camera,
+    renderer
+  } = useScene();
+  const { toast } = useToast();
+  const [type, setType] = useState<EdgeBlendType>(DEFAULT_EDGE_BLEND_OPTIONS.type);
+  const [size, setSize] = useState(DEFAULT_EDGE_BLEND_OPTIONS.size);
+
+  const model = edgeBlend ? models.find(candidate => candidate.id === edgeBlend.modelId) : undefined;
+
+  // Escape leaves the edges as they are
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelEdgeBlend();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cancelEdgeBlend]);
+
+  // Draw the edges over the model, picked ones highlighted
+  useEffect(() => {
+    if (!edgeBlend || !model) return;
+
+    model.mesh.updateMatrixWorld(true);
+    const overlay = new Group();
+    overlay.name = OVERLAY_NAME;
+    overlay.matrixAutoUpdate = false;
+    overlay.matrix.copy(model.mesh.matrixWorld);
+    overlay.add(
+      createEdgeLines(edgeBlend.edges.filter((_, i) => edgeBlend.selected[i]), SELECTED_EDGE_COLOR),
+      createEdgeLines(edgeBlend.edges.filter((_, i) => !edgeBlend.selected[i]), UNSELECTED_EDGE_COLOR)
+    );
+    scene.add(overlay);
+    renderer.render(scene, camera);
+
+    return () => {
+      scene.remove(overlay);
+      overlay.children.forEach(child => {
+        const lines = child as LineSegments;
+        lines.geometry.dispose();
+        (lines.material as LineBasicMaterial).dispose();
+      });
+      renderer.render(scene, camera);
+    };
+  }, [edgeBlend, model, scene, camera, renderer]);
+
+  // Clicks near an edge pick or skip it, drags still orbit the view
+  const handleClick = useCallback((event: PointerEvent) => {
+    if (!edgeBlend || !model) return;
+
+    const rect = renderer.domElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const toScreen = (point: [number, number, number]) => {
+      const projected = new Vector3(...point).applyMatrix4(model.mesh.matrixWorld).project(camera);
+      return new Vector2((projected.x + 1) / 2 * rect.width, (1 - projected.y) / 2 * rect.height);
+    };
+    const click = new Vector2(event.clientX - rect.left, event.clientY - rect.top);
+
+    let nearest = -1;
+    let nearestDistance = EDGE_PICK_PX;
+    edgeBlend.edges.forEach((edge, i) => {
+      const distance = distanceToSegment(click, toScreen(edge.start), toScreen(edge.end));
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    if (nearest >= 0) {
+      toggleBlendEdge(nearest);
+    }
+  }, [edgeBlend, model, camera, renderer, toggleBlendEdge]);
+  useViewportClick(edgeBlend && model ? handleClick : null);
+
+  if (!edgeBlend) {
+    return null;
+  }
+
+  const selectedCount = edgeBlend.selected.filter(Boolean).length;
+  const label = type === 'fillet' ? 'Fillet' : 'Chamfer';
+
+  const handleApply = async () => {
+    try {
+      const count = await applyEdgeBlend({ ...DEFAULT_EDGE_BLEND_OPTIONS, type, size });
+      toast({
+        title: type === 'fillet' ? "Edges rounded" : "Edges chamfered",
+        description: `${count} ${count === 1 ? 'edge' : 'edges'} of ${model?.name} blended`,
+        duration: 2000,
+      });
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: `${label} cancelled`,
+          description: "The model was left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
+      toast({
+        title: `${label} failed`,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-1">
+          <span className="text-xs font-medium">Edges of {model?.name}</span>
+          <div className="flex items-center gap-0.5">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-[10px]"
+              onClick={() => setBlendEdgesSelected(true)}
+            >
+              All
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-[10px]"
+              onClick={() => setBlendEdgesSelected(false)}
+            >
+              None
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          {selectedCount} of {edgeBlend.edges.length} edges picked. Click an edge to pick or skip it.
+        </p>
+
+        <div className="grid grid-cols-2 gap-0.5 bg-muted rounded-md p-0.5">
+          {BLEND_TYPES.map(option => (
+            <Button
+              key={option.type}
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${type === option.type ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setType(option.type)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="blend-size" className="text-[10px] whitespace-nowrap">
+            {type === 'fillet' ? 'Radius' : 'Distance'} (mm)
+          </Label>
+          <Input
+            id="blend-size"
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={size}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value > 0) setSize(value);
+            }}
+            className="h-6 text-xs"
+          />
+        </div>
+
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={cancelEdgeBlend}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 flex-1 text-xs"
+            onClick={handleApply}
+            disabled={isCSGOperationLoading || selectedCount === 0}
+          >
+            {isCSGOperationLoading ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Squircle className="h-3.5 w-3.5 mr-1" />
+            )}
+            {label}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
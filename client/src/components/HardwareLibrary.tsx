@@ -0,0 +1,158 @@
+import { useState } from "react";
+import * as THREE from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createHardwareGeometry,
+  describeHardware,
+  getDefaultHardware,
+  getHardwarePart,
+  HARDWARE_PARTS,
+  HardwareKind,
+  METRIC_SIZES,
+  MetricSize,
+  normalizeHardwareParams
+} from "@/lib/hardware";
+import type { Model } from "@/types/model";
+
+// Cutters are tinted so they're easy to tell apart from the parts they go into
+const CUTTER_COLOR = '#ef4444';
+const PART_COLOR = '#94a3b8';
+
+// Screw holes, nut traps, standoffs and other functional parts, sized from metric tables
+export function HardwareLibrary() {
+  const { scene, selectModel, saveHistoryState, findPlacementOnPlate } = useScene();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<HardwareKind>('clearance-hole');
+  const [size, setSize] = useState<MetricSize>('M3');
+  const [length, setLength] = useState(getDefaultHardware('clearance-hole').length);
+  const [tolerance, setTolerance] = useState(0.2);
+
+  const part = getHardwarePart(kind);
+
+  const handleKindChange = (value: string) => {
+    const next = value as HardwareKind;
+    setKind(next);
+    setLength(getDefaultHardware(next, size).length);
+  };
+
+  const handleAdd = () => {
+    const params = normalizeHardwareParams({ kind, size, length, tolerance });
+    const material = new THREE.MeshStandardMaterial({
+      color: part.cutter ? CUTTER_COLOR : PART_COLOR,
+      metalness: 0.2,
+      roughness: 0.5
+    });
+    const mesh = new THREE.Mesh(createHardwareGeometry(params), material);
+
+    // Find free space on the build plate
+    const boundingBox = new THREE.Box3().setFromObject(mesh);
+    mesh.position.copy(findPlacementOnPlate(boundingBox));
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    scene.add(mesh);
+
+    const newModel: Model = {
+      id: `hardware-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      name: describeHardware(params),
+      type: 'hardware',
+      mesh,
+      originalPosition: mesh.position.clone(),
+      originalRotation: mesh.rotation.clone(),
+      originalScale: mesh.scale.clone()
+    };
+    const updatedModels = [...useScene.getState().models, newModel];
+    useScene.setState({ models: updatedModels });
+    selectModel(updatedModels.length - 1);
+    saveHistoryState();
+
+    setLength(params.length);
+    toast({
+      title: `${newModel.name} added`,
+      description: part.cutter
+        ? "Move it into your part, then subtract it"
+        : "Move it onto your part, then union them",
+      duration: 2000,
+    });
+  };
+
+  return (
+    <Card className="p-4">
+      <h3 className="text-lg font-medium mb-3">Hardware</h3>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="hardware-kind" className="text-xs">Part</Label>
+            <Select value={kind} onValueChange={handleKindChange}>
+              <SelectTrigger id="hardware-kind" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HARDWARE_PARTS.map(entry => (
+                  <SelectItem key={entry.kind} value={entry.kind} className="text-xs">{entry.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="hardware-size" className="text-xs">Thread</Label>
+            <Select
+              value={size}
+              onValueChange={(value) => setSize(value as MetricSize)}
+              disabled={!part.usesSize}
+            >
+              <SelectTrigger id="hardware-size" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METRIC_SIZES.map(entry => (
+                  <SelectItem key={entry} value={entry} className="text-xs">{entry}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="hardware-length" className="text-xs">{part.lengthLabel} (mm)</Label>
+            <Input
+              id="hardware-length"
+              type="number"
+              min={1}
+              step={0.5}
+              value={length}
+              onChange={(e) => setLength(parseFloat(e.target.value))}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="hardware-tolerance" className="text-xs">Fit tolerance (mm)</Label>
+            <Input
+              id="hardware-tolerance"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={tolerance}
+              onChange={(e) => setTolerance(parseFloat(e.target.value))}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {part.description}. {part.cutter
+            ? "Subtract it from your part; it sticks out slightly past both faces so the hole comes out clean."
+            : "Union it with your part."}
+        </p>
+
+        <Button variant="outline" size="sm" onClick={handleAdd} className="w-full">
+          Add {part.label}
+        </Button>
+      </div>
+    </Card>
+  );
+}
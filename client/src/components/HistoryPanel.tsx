@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useScene } from "@/hooks/use-scene";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { History, Plus, Trash2, Move, Combine, Pencil, Circle } from "lucide-react";
+
+const KIND_ICONS = {
+  add: Plus,
+  remove: Trash2,
+  transform: Move,
+  edit: Pencil,
+  csg: Combine
+};
+
+// Lists every recorded step so the user can jump straight to any of them
+export function HistoryPanel() {
+  const { history, currentHistoryIndex, jumpToHistory } = useScene();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={history.length === 0}
+            >
+              <History className={history.length > 0 ? "text-foreground" : "text-muted-foreground"} size={16} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-2" align="start">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm leading-none">History</h4>
+                <span className="text-xs text-muted-foreground">{history.length} steps</span>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto space-y-0.5">
+                <HistoryRow
+                  label="Start"
+                  icon={Circle}
+                  isCurrent={currentHistoryIndex === -1}
+                  isUndone={false}
+                  onClick={() => jumpToHistory(-1)}
+                />
+                {history.map((command, index) => (
+                  <HistoryRow
+                    key={command.id}
+                    label={command.label}
+                    icon={KIND_ICONS[command.kind]}
+                    isCurrent={index === currentHistoryIndex}
+                    isUndone={index > currentHistoryIndex}
+                    onClick={() => jumpToHistory(index)}
+                  />
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Click a step to undo or redo up to it. A new action discards the greyed-out steps.
+              </p>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>History</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+interface HistoryRowProps {
+  label: string;
+  icon: typeof Plus;
+  isCurrent: boolean;
+  isUndone: boolean;
+  onClick: () => void;
+}
+
+function HistoryRow({ label, icon: Icon, isCurrent, isUndone, onClick }: HistoryRowProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onClick}
+      className={cn(
+        "w-full h-7 justify-start px-2 text-xs font-normal",
+        isCurrent && "bg-accent font-medium",
+        isUndone && "text-muted-foreground"
+      )}
+    >
+      <Icon className="h-3.5 w-3.5 mr-2 shrink-0" />
+      <span className="truncate">{label}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from "react";
+import { Material, Points, Raycaster, Vector2, Vector3 } from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { useViewportClick } from "@/hooks/use-viewport-click";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import { DEFAULT_HOLLOW_SETTINGS } from "@/lib/hollow";
+import { createPointMarkers } from "@/lib/measurement";
+import { Loader2, SquareDashed, X } from "lucide-react";
+
+const DRAIN_HOLE_COLOR = 0x00b0ff;
+
+// Wall thickness and drain holes for hollowing a model, picked by clicking on it
+export function HollowPanel() {
+  const {
+    hollow,
+    addDrainHole,
+    removeDrainHole,
+    cancelHollow,
+    applyHollow,
+    isCSGOperationLoading,
+    models,
+    scene,
+    camera,
+    renderer
+  } = useScene();
+  const { toast } = useToast();
+  const [wallThickness, setWallThickness] = useState(DEFAULT_HOLLOW_SETTINGS.wallThickness);
+  const [holeDiameter, setHoleDiameter] = useState(DEFAULT_HOLLOW_SETTINGS.holeDiameter);
+
+  const model = hollow ? models.find(candidate => candidate.id === hollow.modelId) : undefined;
+
+  // Escape leaves the model solid
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelHollow();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cancelHollow]);
+
+  // Mark where the drain holes go
+  useEffect(() => {
+    if (!hollow || !model || hollow.holes.length === 0) return;
+
+    model.mesh.updateMatrixWorld(true);
+    const markers = createPointMarkers(
+      hollow.holes.map(hole => new Vector3(...hole.point).applyMatrix4(model.mesh.matrixWorld)),
+      DRAIN_HOLE_COLOR,
+      10
+    );
+    scene.add(markers);
+    renderer.render(scene, camera);
+
+    return () => {
+      scene.remove(markers);
+      markers.geometry.dispose();
+      (markers.material as Material).dispose();
+      renderer.render(scene, camera);
+    };
+  }, [hollow, model, scene, camera, renderer]);
+
+  // Clicks on the model add a drain hole, drags still orbit the view
+  const handleClick = useCallback((event: PointerEvent) => {
+    if (!model) return;
+
+    const rect = renderer.domElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const raycaster = new Raycaster();
+    raycaster.setFromCamera(new Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    ), camera);
+    const [hit] = raycaster.intersectObject(model.mesh, false);
+    if (!hit?.face) return;
+
+    // Face normals are already in the model's own space
+    addDrainHole({
+      point: model.mesh.worldToLocal(hit.point.clone()).toArray(),
+      normal: hit.face.normal.toArray()
+    });
+  }, [model, camera, renderer, addDrainHole]);
+  useViewportClick(hollow && model ? handleClick : null);
+
+  if (!hollow) {
+    return null;
+  }
+
+  const handleHollow = async () => {
+    try {
+      const { volumeBeforeMm3, volumeAfterMm3, priceBefore, priceAfter, cavitySpacingMm } = await applyHollow({ wallThickness, holeDiameter });
+      const savedMm3 = volumeBeforeMm3 - volumeAfterMm3;
+      const percent = volumeBeforeMm3 > 0 ? Math.round((savedMm3 / volumeBeforeMm3) * 100) : 0;
+      const price = `$${priceBefore.toFixed(2)} → $${priceAfter.toFixed(2)} per print`;
+      // Large models are traced on a coarser grid than the walls call for, so say how uneven they may be
+      const accuracy = cavitySpacingMm > wallThickness / 2
+        ? ` Walls may vary by up to ${cavitySpacingMm.toFixed(1)} mm on a model this size.`
+        : '';
+      toast({
+        title: `${model?.name} hollowed`,
+        description: (priceAfter < priceBefore
+          ? `${(savedMm3 / 1000).toFixed(1)} cm³ less material (${percent}%), ${price}.`
+          : `${(savedMm3 / 1000).toFixed(1)} cm³ less material, but the price did not drop (${price}). Try thinner walls.`) + accuracy,
+        duration: accuracy ? 5000 : 3000,
+      });
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: "Hollowing cancelled",
+          description: "The model was left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
+      toast({
+        title: "Hollowing failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
+      <div className="space-y-1.5">
+        <span className="text-xs font-medium">Hollow {model?.name}</span>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex items-center gap-1">
+            <Label htmlFor="hollow-wall" className="text-[10px] whitespace-nowrap">Wall (mm)</Label>
+            <Input
+              id="hollow-wall"
+              type="number"
+              min={0.4}
+              step={0.5}
+              value={wallThickness}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) setWallThickness(value);
+              }}
+              className="h-6 text-xs"
+            />
+          </div>
+          <div className="flex items-center gap-1">
+            <Label htmlFor="hollow-hole" className="text-[10px] whitespace-nowrap">Holes (mm)</Label>
+            <Input
+              id="hollow-hole"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={holeDiameter}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) setHoleDiameter(value);
+              }}
+              className="h-6 text-xs"
+            />
+          </div>
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          Click the model to add drain holes, so resin or powder can escape the cavity.
+        </p>
+
+        {hollow.holes.length > 0 && (
+          <div className="max-h-[96px] overflow-y-auto border rounded p-0.5">
+            {hollow.holes.map((hole, i) => (
+              <div key={i} className="flex items-center justify-between gap-1 px-1 rounded hover:bg-muted/50">
+                <span className="text-[10px] text-muted-foreground">Hole {i + 1}</span>
+                <span className="text-[10px] flex-1 truncate">
+                  ({hole.point.map(value => value.toFixed(1)).join(', ')})
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 shrink-0"
+                  onClick={() => removeDrainHole(i)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={cancelHollow}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 flex-1 text-xs" onClick={handleHollow} disabled={isCSGOperationLoading}>
+            {isCSGOperationLoading ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <SquareDashed className="h-3.5 w-3.5 mr-1" />
+            )}
+            Hollow
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -6,10 +6,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useState, useMemo } from "react";
 import * as THREE from "three";
 import { Box3, Vector3 } from "three";
+import { useScene } from "@/hooks/use-scene";
 
 const MM_PER_INCH = 25.4;
-const MAX_SIZE_INCHES = 10;
-const MAX_SIZE_MM = MAX_SIZE_INCHES * MM_PER_INCH;
 
 type ScaleMode = "fit-to-size" | "custom-scale";
 type Unit = "in" | "mm";
@@ -26,6 +25,11 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
   const [size, setSize] = useState("2");
   const [scaleFactor, setScaleFactor] = useState("1");
   const [unit, setUnit] = useState<Unit>("in");
+  const { buildPlate } = useScene();
+  
+  // Imports are capped at the longest side of the selected printer
+  const maxSizeMM = Math.max(buildPlate.width, buildPlate.depth, buildPlate.height);
+  const maxSize = unit === "in" ? maxSizeMM / MM_PER_INCH : maxSizeMM;
   
   // Calculate current model dimensions
   const bbox = new Box3();
@@ -91,8 +95,8 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
     );
     
     const maxDim = Math.max(finalSize.x, finalSize.y, finalSize.z);
-    if (maxDim > MAX_SIZE_MM) {
-      const reduction = MAX_SIZE_MM / maxDim;
+    if (maxDim > maxSizeMM) {
+      const reduction = maxSizeMM / maxDim;
       scale.multiplyScalar(reduction);
       finalSize.multiplyScalar(reduction);
     }
@@ -102,7 +106,7 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
       height: unit === "in" ? (finalSize.y / MM_PER_INCH).toFixed(2) : finalSize.y.toFixed(1),
       depth: unit === "in" ? (finalSize.z / MM_PER_INCH).toFixed(2) : finalSize.z.toFixed(1)
     };
-  }, [modelSize, scaleMode, size, scaleFactor, unit]);
+  }, [modelSize, scaleMode, size, scaleFactor, unit, maxSizeMM]);
 
   const handleScale = () => {
     let scale = new Vector3(1, 1, 1);
@@ -125,7 +129,7 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
       scale.set(factor, factor, factor);
     }
     
-    // Ensure no dimension exceeds 10 inches
+    // Ensure no dimension exceeds the printer
     const finalSize = new Vector3(
       modelSize.x * scale.x,
       modelSize.y * scale.y,
@@ -133,8 +137,8 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
     );
     
     const maxDim = Math.max(finalSize.x, finalSize.y, finalSize.z);
-    if (maxDim > MAX_SIZE_MM) {
-      const reduction = MAX_SIZE_MM / maxDim;
+    if (maxDim > maxSizeMM) {
+      const reduction = maxSizeMM / maxDim;
       scale.multiplyScalar(reduction);
     }
     
@@ -190,7 +194,7 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
                 value={size}
                 onChange={(e) => setSize(e.target.value)}
                 min={0.01}
-                max={unit === "in" ? MAX_SIZE_INCHES : MAX_SIZE_MM}
+                max={maxSize}
                 step={unit === "in" ? 0.1 : 1}
               />
               <p className="text-sm text-muted-foreground">
@@ -225,9 +229,9 @@ export function ImportScaleDialog({ isOpen, onClose, geometry, onScale }: Import
                 parseFloat(previewDimensions.width),
                 parseFloat(previewDimensions.height),
                 parseFloat(previewDimensions.depth)
-              ) >= (unit === "in" ? MAX_SIZE_INCHES : MAX_SIZE_MM) && (
+              ) >= (unit === "in" ? Number(maxSize.toFixed(2)) : Number(maxSize.toFixed(1))) && (
                 <p className="text-sm text-yellow-600">
-                  Note: Model will be automatically scaled down to fit within {unit === "in" ? MAX_SIZE_INCHES + '"' : MAX_SIZE_MM + "mm"}
+                  Note: Model will be automatically scaled down to fit within {unit === "in" ? maxSize.toFixed(1) + '"' : maxSize.toFixed(0) + "mm"}
                 </p>
               )}
             </div>
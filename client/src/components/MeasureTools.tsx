@@ -0,0 +1,109 @@
+import { useScene } from "@/hooks/use-scene";
+import { useMeasurement } from "@/hooks/use-measurement";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { formatMeasurement, MEASUREMENT_KINDS } from "@/lib/measurement";
+import { Ruler, Trash2, X } from "lucide-react";
+
+// Toolbar button that switches the measurement tool on and off
+export function MeasureButton() {
+  const { measureMode, setMeasureMode } = useScene();
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-7 w-7", measureMode && "bg-accent")}
+          onClick={() => setMeasureMode(!measureMode)}
+        >
+          <Ruler className="text-foreground" size={16} />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{measureMode ? "Stop Measuring (Esc)" : "Measure"}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Measurement type, pick progress and the dimensions left in the scene
+export function MeasurePanel() {
+  const {
+    kind,
+    setKind,
+    picks,
+    pickCount,
+    hover,
+    error,
+    unit,
+    measurements,
+    cleanup,
+    removeMeasurement,
+    clearMeasurements
+  } = useMeasurement();
+
+  const hint = MEASUREMENT_KINDS.find(entry => entry.kind === kind)?.hint;
+  const labels = Object.fromEntries(MEASUREMENT_KINDS.map(entry => [entry.kind, entry.label]));
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border w-64">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium">Measure</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={cleanup}>
+            <X size={14} />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-5 gap-0.5 bg-muted rounded-md p-0.5">
+          {MEASUREMENT_KINDS.map(entry => (
+            <Button
+              key={entry.kind}
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${kind === entry.kind ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setKind(entry.kind)}
+            >
+              {entry.label}
+            </Button>
+          ))}
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          {hint}{pickCount > 1 ? ` (${picks.length} of ${pickCount})` : ''}. Points snap to corners and edges.
+          {hover && hover.snap !== 'face' ? ` Snapping to ${hover.snap}.` : ''}
+        </p>
+        {error && <p className="text-[10px] text-destructive">{error}</p>}
+
+        {measurements.length > 0 && (
+          <div className="space-y-0.5">
+            <div className="max-h-[160px] overflow-y-auto border rounded p-0.5">
+              {measurements.map(measurement => (
+                <div key={measurement.id} className="flex items-center justify-between gap-1 px-1 rounded hover:bg-muted/50">
+                  <span className="text-[10px] text-muted-foreground w-12 shrink-0">{labels[measurement.kind]}</span>
+                  <span className="text-xs flex-1 truncate">{formatMeasurement(measurement, unit)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 shrink-0"
+                    onClick={() => removeMeasurement(measurement.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button variant="ghost" size="sm" className="h-6 w-full text-[10px]" onClick={clearMeasurements}>
+              <Trash2 className="h-3 w-3 mr-1" />
+              Clear All
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
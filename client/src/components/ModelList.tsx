@@ -7,11 +7,12 @@ import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import * as THREE from "three";
+import { isSupportedModelFile } from "@/lib/importers";
 
 export function ModelList() {
   const { 
     models, 
-    loadSTL, 
+    loadModel, 
     removeModel, 
     selectModel, 
     selectedModelIndex,
@@ -26,17 +27,17 @@ export function ModelList() {
       const file = event.target.files?.[0];
       if (!file) return;
       
-      // Check if it's an STL file
-      if (!file.name.toLowerCase().endsWith('.stl')) {
+      // Check that it's a mesh format we can import
+      if (!isSupportedModelFile(file.name)) {
         toast({
           title: "Invalid file",
-          description: "Please select an STL file",
+          description: "Please select an STL, OBJ, PLY, 3MF, GLTF/GLB or STEP file",
           variant: "destructive",
         });
         return;
       }
       
-      await loadSTL(file);
+      await loadModel(file);
       toast({
         title: "Success",
         description: `Loaded ${file.name}`,
@@ -121,7 +122,8 @@ export function ModelList() {
       originalPosition,
       originalRotation,
       originalScale,
-      ...(modelToCopy.textProps ? { textProps: { ...modelToCopy.textProps } } : {})
+      ...(modelToCopy.textProps ? { textProps: { ...modelToCopy.textProps } } : {}),
+      ...(modelToCopy.primitive ? { primitive: { ...modelToCopy.primitive } } : {})
     };
 
     // Add to scene and state
@@ -158,7 +160,7 @@ export function ModelList() {
       {models.length === 0 ? (
         <Card className="p-3 bg-muted/40 text-xs text-center">
           <p>No models imported yet</p>
-          <p className="text-muted-foreground mt-1">Import an STL file to get started</p>
+          <p className="text-muted-foreground mt-1">Import a 3D model to get started</p>
         </Card>
       ) : (
         <div className="flex flex-col gap-2">
@@ -8,6 +8,7 @@ import {
   Loader2, 
   Package 
 } from "lucide-react";
+import type { QuoteLineItem } from "@shared/quote";
 
 export interface OrderSummaryProps {
   // Price information
@@ -16,13 +17,12 @@ export interface OrderSummaryProps {
   printingCost?: number;
   shippingCost?: number;
   finalPrice: number;
+  lineItems?: QuoteLineItem[];
   complexityFactor?: number;
   printability?: {
     factor: number;
     category: string;
     hasOverhangs: boolean;
-    hasThinWalls: boolean;
-    hasFloatingIslands: boolean;
   };
   
   // Status information
@@ -49,6 +49,7 @@ export function OrderSummary({
   printingCost,
   shippingCost,
   finalPrice,
+  lineItems = [],
   complexityFactor = 1.0,
   printability,
   
@@ -184,6 +185,13 @@ export function OrderSummary({
         
         <Separator className="my-2" />
         
+        {lineItems.filter(item => item.id !== 'shipping').map(item => (
+          <div key={item.id} className="flex justify-between items-center text-sm text-muted-foreground">
+            <span>{item.label}:</span>
+            <span className={item.amount < 0 ? "text-green-600" : ""}>{formatPrice(item.amount)}</span>
+          </div>
+        ))}
+        
         <div className="flex justify-between items-center text-sm">
           <span>Per Item:</span>
           <span>{formatPrice(basePrice / quantity)}</span>
@@ -196,7 +204,7 @@ export function OrderSummary({
         
         <div className="flex justify-between items-center text-sm mt-1">
           <span>Shipping:</span>
-          <span>{basePrice > 50 ? '$10.00' : '$5.00'}</span>
+          <span>{formatPrice(shippingCost ?? 0)}</span>
         </div>
         
         <Separator className="my-2" />
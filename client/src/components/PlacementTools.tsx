@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { BuildPlate } from "@/lib/arrange";
+import { CUSTOM_PRINTER_ID, PRINTER_PROFILES } from "@/lib/printers";
+import { ArrowDownToLine, ChevronsDown, LayoutGrid, SquareDashedBottom } from "lucide-react";
+
+const PLATE_DIMENSIONS: { key: keyof BuildPlate; label: string }[] = [
+  { key: 'width', label: 'Width' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'height', label: 'Height' }
+];
+
+// Toolbar buttons that put models onto the build plate
+export function PlacementTools() {
+  const { models, selectedModelIndex, layFlatMode, setLayFlatMode, dropToBed } = useScene();
+  const { toast } = useToast();
+
+  // Escape leaves lay flat mode without touching the model
+  useEffect(() => {
+    if (!layFlatMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setLayFlatMode(false);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [layFlatMode, setLayFlatMode]);
+
+  const handleLayFlat = () => {
+    if (layFlatMode) {
+      setLayFlatMode(false);
+      return;
+    }
+
+    setLayFlatMode(true);
+    toast({
+      title: "Lay flat",
+      description: "Click a face of a model to rest it on the bed. Press Escape to cancel.",
+    });
+  };
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => dropToBed('selected')}
+            disabled={selectedModelIndex === null}
+          >
+            <ArrowDownToLine className={selectedModelIndex !== null ? "text-foreground" : "text-muted-foreground"} size={16} />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Drop to Build Plate</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => dropToBed('all')}
+            disabled={models.length === 0}
+          >
+            <ChevronsDown className={models.length > 0 ? "text-foreground" : "text-muted-foreground"} size={16} />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Drop All Models to Build Plate</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", layFlatMode && "bg-accent")}
+            onClick={handleLayFlat}
+            disabled={models.length === 0}
+          >
+            <SquareDashedBottom className={models.length > 0 ? "text-foreground" : "text-muted-foreground"} size={16} />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{layFlatMode ? "Cancel Lay Flat (Esc)" : "Lay Flat on Face"}</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <ArrangePopover />
+    </>
+  );
+}
+
+// Printer, build plate size, part spacing and the Arrange all action
+function ArrangePopover() {
+  const {
+    models,
+    printerProfileId,
+    setPrinterProfile,
+    outOfBoundsModelIds,
+    buildPlate,
+    setBuildPlate,
+    arrangeGap,
+    setArrangeGap,
+    arrangeAll
+  } = useScene();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const handleArrange = () => {
+    const { placed, unplaced } = arrangeAll();
+
+    if (unplaced.length > 0) {
+      toast({
+        title: `${unplaced.length} ${unplaced.length === 1 ? "part doesn't" : "parts don't"} fit on the plate`,
+        description: `Placed ${placed} of ${placed + unplaced.length}. Left beside the plate: ${unplaced.join(", ")}`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Models arranged",
+        description: `All ${placed} models fit on the ${buildPlate.width} x ${buildPlate.depth} mm plate`,
+      });
+    }
+  };
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+            >
+              <LayoutGrid className="text-foreground" size={16} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-3" align="start">
+            <div className="space-y-3">
+              <h4 className="font-medium text-sm leading-none">Build Plate</h4>
+
+              <div className="space-y-1">
+                <Label htmlFor="printer-profile" className="text-xs">Printer</Label>
+                <Select value={printerProfileId} onValueChange={setPrinterProfile}>
+                  <SelectTrigger id="printer-profile" className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRINTER_PROFILES.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                    {printerProfileId === CUSTOM_PRINTER_ID && (
+                      <SelectItem value={CUSTOM_PRINTER_ID} className="text-xs" disabled>
+                        Custom
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                {PLATE_DIMENSIONS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`plate-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`plate-${key}`}
+                      type="number"
+                      min={1}
+                      value={buildPlate[key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (value > 0) setBuildPlate({ [key]: value });
+                      }}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {outOfBoundsModelIds.length > 0 && (
+                <p className="text-xs text-destructive">
+                  {outOfBoundsModelIds.length} {outOfBoundsModelIds.length === 1 ? "model reaches" : "models reach"} outside the build volume
+                </p>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="arrange-gap" className="text-xs">Gap between parts (mm)</Label>
+                <Input
+                  id="arrange-gap"
+                  type="number"
+                  min={0}
+                  value={arrangeGap}
+                  onChange={(e) => setArrangeGap(parseFloat(e.target.value) || 0)}
+                  className="h-7 text-xs"
+                />
+              </div>
+
+              <Button size="sm" className="w-full" onClick={handleArrange} disabled={models.length === 0}>
+                Arrange All
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Printer and Build Plate</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
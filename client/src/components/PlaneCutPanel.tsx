@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { Vector3 } from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import type { CutKeep } from "@/lib/meshSplit";
+import { Loader2, Slice } from "lucide-react";
+
+const KEEP_OPTIONS: { keep: CutKeep; label: string }[] = [
+  { keep: 'above', label: 'Arrow side' },
+  { keep: 'below', label: 'Other side' },
+  { keep: 'both', label: 'Both' },
+  { keep: 'section', label: 'Section' }
+];
+
+const AXIS_PRESETS: { label: string; normal: [number, number, number] }[] = [
+  { label: 'X', normal: [1, 0, 0] },
+  { label: 'Y', normal: [0, 1, 0] },
+  { label: 'Z', normal: [0, 0, 1] }
+];
+
+// Settings for the cutting plane placed with the gizmo, and the cut itself
+export function PlaneCutPanel() {
+  const { cutPlane, setCutPlane, cancelPlaneCut, applyPlaneCut, isCSGOperationLoading, models } = useScene();
+  const { toast } = useToast();
+  const [keep, setKeep] = useState<CutKeep>('above');
+  const [sectionThickness, setSectionThickness] = useState(2);
+
+  // Escape puts the plane away without cutting
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelPlaneCut();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cancelPlaneCut]);
+
+  if (!cutPlane) {
+    return null;
+  }
+
+  const model = models.find(candidate => candidate.id === cutPlane.modelId);
+  const origin = new Vector3(...cutPlane.origin);
+  const normal = new Vector3(...cutPlane.normal);
+  const offset = normal.dot(origin);
+
+  // Slide the plane so it sits at the typed distance from the world origin
+  const handleOffsetChange = (value: number) => {
+    setCutPlane({ origin: origin.clone().addScaledVector(normal, value - offset).toArray() });
+  };
+
+  const handleCut = async () => {
+    try {
+      const count = await applyPlaneCut(keep, sectionThickness);
+      toast({
+        title: keep === 'section' ? "Cross-section created" : "Model cut",
+        description: count > 1 ? `${model?.name} was cut into ${count} models` : `${model?.name} was trimmed`,
+        duration: 2000,
+      });
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: "Cut cancelled",
+          description: "The model was left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
+      toast({
+        title: "Cut failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-1">
+          <span className="text-xs font-medium">Cut {model?.name}</span>
+          <div className="flex items-center gap-0.5">
+            {AXIS_PRESETS.map(preset => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-[10px]"
+                onClick={() => setCutPlane({ normal: preset.normal })}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-[10px]"
+              onClick={() => setCutPlane({ normal: normal.clone().negate().toArray() })}
+            >
+              Flip
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="cut-offset" className="text-[10px] whitespace-nowrap">Offset (mm)</Label>
+          <Input
+            id="cut-offset"
+            type="number"
+            step={0.5}
+            value={Number(offset.toFixed(2))}
+            onChange={(e) => handleOffsetChange(parseFloat(e.target.value) || 0)}
+            className="h-6 text-xs"
+          />
+          <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+            n = ({cutPlane.normal.map(value => value.toFixed(2)).join(', ')})
+          </span>
+        </div>
+
+        <div className="grid grid-cols-4 gap-0.5 bg-muted rounded-md p-0.5">
+          {KEEP_OPTIONS.map(option => (
+            <Button
+              key={option.keep}
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${keep === option.keep ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setKeep(option.keep)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {keep === 'section' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="section-thickness" className="text-[10px] whitespace-nowrap">Thickness (mm)</Label>
+            <Input
+              id="section-thickness"
+              type="number"
+              min={0.1}
+              step={0.5}
+              value={sectionThickness}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) setSectionThickness(value);
+              }}
+              className="h-6 text-xs"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={cancelPlaneCut}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 flex-1 text-xs" onClick={handleCut} disabled={isCSGOperationLoading}>
+            {isCSGOperationLoading ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Slice className="h-3.5 w-3.5 mr-1" />
+            )}
+            Cut
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { useScene } from "@/hooks/use-scene";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PRIMITIVE_FIELDS, PrimitiveField, PrimitiveParamKey } from "@/lib/primitives";
+
+const MM_PER_INCH = 25.4;
+
+// Dimensions of the selected basic shape; changing one rebuilds the shape instead of scaling it
+export function PrimitiveInspector() {
+  const { models, selectedModelIndex, unit, updatePrimitive } = useScene();
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : undefined;
+  const primitive = model?.primitive;
+
+  // Typed values are kept as text until committed, so half-typed numbers don't rebuild the mesh
+  const [drafts, setDrafts] = useState<Partial<Record<PrimitiveParamKey, string>>>({});
+  useEffect(() => {
+    setDrafts({});
+  }, [primitive, unit]);
+
+  if (!primitive || selectedModelIndex === null) {
+    return null;
+  }
+
+  const toDisplay = (field: PrimitiveField, value: number) => {
+    if (field.kind === 'count') return value.toString();
+    return unit === 'in' ? (value / MM_PER_INCH).toFixed(3) : value.toFixed(1);
+  };
+
+  const commit = (field: PrimitiveField) => {
+    const text = drafts[field.key];
+    if (text === undefined) return;
+
+    const value = parseFloat(text);
+    if (!Number.isFinite(value)) {
+      setDrafts(current => ({ ...current, [field.key]: undefined }));
+      return;
+    }
+    const mm = field.kind === 'length' && unit === 'in' ? value * MM_PER_INCH : value;
+    updatePrimitive(selectedModelIndex, { [field.key]: mm });
+    // The stored value may have been clamped, so show what was applied
+    setDrafts(current => ({ ...current, [field.key]: undefined }));
+  };
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
+      <div className="space-y-1">
+        <span className="text-xs font-medium">Shape</span>
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+          {PRIMITIVE_FIELDS[primitive.shape].map(field => (
+            <div key={field.key} className="flex items-center justify-between gap-1">
+              <Label htmlFor={`primitive-${field.key}`} className="text-xs">{field.label}</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  id={`primitive-${field.key}`}
+                  type="number"
+                  min={0}
+                  step={field.kind === 'count' ? 1 : unit === 'in' ? 0.01 : 0.5}
+                  value={drafts[field.key] ?? toDisplay(field, primitive[field.key])}
+                  onChange={(e) => setDrafts(current => ({ ...current, [field.key]: e.target.value }))}
+                  onBlur={() => commit(field)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commit(field);
+                  }}
+                  className="w-14 h-5 text-xs"
+                />
+                <span className="text-xs text-muted-foreground w-4">{field.kind === 'length' ? unit : ''}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+        {primitive.wallThickness > 0 && (
+          <p className="text-[10px] text-muted-foreground">Hollow, with a sealed cavity inside the walls</p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,10 +16,15 @@ import {
 } from "lucide-react";
 import { 
   calculatePrice, 
-  getFilaments, 
-  calculate3DPrintPrice 
+  getFilaments
 } from "@/lib/slantApi";
 import { OrderSummary } from './OrderSummary';
+import { PrintabilityPanel } from './PrintabilityPanel';
+import { fitsBuildVolume, getPrinterProfile, ORDER_PRINTER_ID } from '@/lib/printers';
+import { useSubscription } from '@/context/SubscriptionContext';
+import { getCurrentUser } from '@/lib/firebase';
+import { quoteSTLInWorker } from '@/lib/quoteWorker';
+import { decodeModelData, formatPrintTime, QuoteInputError, QuoteLineItem, MAX_ORDER_QUANTITY, DEFAULT_PRINT_SETTINGS } from '@shared/quote';
 import { FormControl, FormLabel, FormHelperText, FormItem, SimpleForm } from "@/components/ui/form";
 import { loadStripe } from '@stripe/stripe-js';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter';
@@ -60,6 +65,7 @@ const stripePromise = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY
 const Print3DTab = () => {
   const { models, selectedModelIndex, exportSelectedModelAsSTL, selectModel } = useScene();
   const { toast } = useToast();
+  const { subscription } = useSubscription();
   
   // State variables
   const [selectedFilament, setSelectedFilament] = useState<string>("");
@@ -77,20 +83,20 @@ const Print3DTab = () => {
     factor: number;
     category: string;
     hasOverhangs: boolean;
-    hasThinWalls: boolean;
-    hasFloatingIslands: boolean;
   }>({
     factor: 1.0,
     category: "Easy",
-    hasOverhangs: false,
-    hasThinWalls: false,
-    hasFloatingIslands: false
+    hasOverhangs: false
   });
+  const [lineItems, setLineItems] = useState<QuoteLineItem[]>([]);
   const [priceSource, setPriceSource] = useState<'api' | 'estimate'>('estimate');
   const [error, setError] = useState<string | null>(null);
+  const [fitsPrinter, setFitsPrinter] = useState(true); // Whether the part prints in one piece on the farm
   const [uploadedModelData, setUploadedModelData] = useState<UploadedModelData | string | null>(null);
   const [connectionAttempts, setConnectionAttempts] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  // Quotes run in a worker, so a newer request can finish before an older one
+  const latestQuoteRef = useRef(0);
   
   // Fetch filaments when component mounts
   useEffect(() => {
@@ -104,6 +110,9 @@ const Print3DTab = () => {
     }
   }, [selectedModelIndex, uploadedModelData, selectedFilament, quantity]);
   
+  // Edits like hollowing swap in new geometry, which changes the volume being priced
+  const selectedGeometry = selectedModelIndex !== null ? models[selectedModelIndex]?.mesh.geometry : undefined;
+  
   // Effect to ensure prices are recalculated when the model changes
   useEffect(() => {
     // Reset saved pricing when model is changed
@@ -113,7 +122,7 @@ const Print3DTab = () => {
     if ((selectedModelIndex !== null || uploadedModelData) && selectedFilament) {
       calculatePriceFromAPI();
     }
-  }, [selectedModelIndex, uploadedModelData]);
+  }, [selectedModelIndex, selectedGeometry, uploadedModelData]);
   
   // Effect for recalculation when filament or quantity changes
   useEffect(() => {
@@ -216,7 +225,25 @@ const Print3DTab = () => {
     }
   };
   
-  // Function to calculate the price using our advanced algorithm
+  // Get the exact STL bytes that checkout will send
+  const getModelBytes = async (): Promise<Uint8Array | null> => {
+    if (selectedModelIndex !== null && models[selectedModelIndex]) {
+      const stlBlob = exportSelectedModelAsSTL();
+      return stlBlob ? new Uint8Array(await stlBlob.arrayBuffer()) : null;
+    }
+    
+    const data = typeof uploadedModelData === 'string' ? uploadedModelData : uploadedModelData?.data;
+    if (typeof data === 'string') {
+      return decodeModelData(data);
+    }
+    if (data instanceof ArrayBuffer) {
+      // Copy, since the quote worker takes ownership of the buffer it is sent
+      return new Uint8Array(data.slice(0));
+    }
+    return null;
+  };
+  
+  // Quote the model with the same engine the server uses to verify the checkout total
   const calculatePriceFromAPI = async () => {
     if ((selectedModelIndex === null && !uploadedModelData) || !selectedFilament) {
       toast({
@@ -228,454 +255,77 @@ const Print3DTab = () => {
     }
     
     console.log('Starting price calculation');
+    const quoteId = ++latestQuoteRef.current;
     setIsPriceCalculating(true);
     setError(null);
-    setPriceSource('estimate'); // Default to estimate until calculation succeeds
+    setPriceSource('estimate'); // Checkout stays disabled until the quote succeeds
     
-    // Set reasonable fallback prices that scale with quantity
-    const calculateFallbackPrices = () => {
-      // Base price formula: More gradual scaling based on quantity with 20% increase
-      let basePriceFallback;
-      
-      if (quantity === 1) {
-        basePriceFallback = 6; // Single item (previously 5, now with 20% markup)
-      } else if (quantity <= 5) {
-        basePriceFallback = 6 + (quantity - 1) * 3.6; // $6 + $3.60 per additional up to 5
-      } else if (quantity <= 10) {
-        basePriceFallback = 20.4 + (quantity - 5) * 3; // $20.40 + $3 per additional from 6-10
-      } else {
-        basePriceFallback = 36 + (quantity - 10) * 2.4; // $36 + $2.40 per additional after 10
+    try {
+      const bytes = await getModelBytes();
+      if (!bytes) {
+        throw new Error('No model data available to price');
       }
       
-      // For backend compatibility, still calculate material and printing costs
-      const materialCostFallback = basePriceFallback * 0.4;
-      const printingCostFallback = basePriceFallback * 0.6;
-      
-      // Shipping cost varies based on order size
-      const shippingCostFallback = basePriceFallback > 50 ? 10.00 : 5.00;
-      
-      // Calculate total price 
-      const totalPriceFallback = basePriceFallback + shippingCostFallback;
+      const quote = await quoteSTLInWorker(bytes, {
+        material: selectedFilament,
+        quantity,
+        isPro: subscription.isPro,
+        settings: DEFAULT_PRINT_SETTINGS
+      });
+      if (quoteId !== latestQuoteRef.current) {
+        return;
+      }
+      const quotedMaterialCost = quote.lineItems.find(item => item.id === 'material')?.amount ?? 0;
+      
+      setBasePrice(quote.subtotal);
+      setMaterialCost(quotedMaterialCost);
+      setPrintingCost(Number((quote.subtotal - quotedMaterialCost).toFixed(2)));
+      setShippingCost(quote.shippingCost);
+      setFinalPrice(quote.total);
+      setComplexityFactor(quote.complexityFactor);
+      setPrintability(quote.printability);
+      setLineItems(quote.lineItems);
+      setPriceSource('api');
+      
+      // Orders print in one piece, so the part has to fit the farm's printers in some orientation
+      const orderPrinter = getPrinterProfile(ORDER_PRINTER_ID)!;
+      const fits = fitsBuildVolume(quote.metrics.boundingBox.size, orderPrinter.buildVolume);
+      setFitsPrinter(fits);
+      if (!fits) {
+        const [x, y, z] = quote.metrics.boundingBox.size.map(size => size.toFixed(0));
+        const { width, depth, height } = orderPrinter.buildVolume;
+        setError(`This part (${x} x ${y} x ${z} mm) is larger than the ${width} x ${depth} x ${height} mm build volume of the ${orderPrinter.name}. Scale it down or split it to order.`);
+      }
       
-      console.log('Using fallback prices:', {
-        basePriceFallback,
-        materialCostFallback,
-        printingCostFallback,
-        shippingCostFallback,
-        totalPriceFallback
+      console.log('Price calculation complete:', {
+        volumeCm3: (quote.metrics.volumeMm3 / 1000).toFixed(2),
+        filamentGrams: quote.estimate.filamentGrams.toFixed(1),
+        total: quote.total
       });
       
-      return {
-        basePrice: basePriceFallback,
-        materialCost: materialCostFallback,
-        printingCost: printingCostFallback,
-        shippingCost: shippingCostFallback,
-        totalPrice: totalPriceFallback
-      };
-    };
-    
-    // Get fallback prices as a starting point
-    const fallbackPrices = calculateFallbackPrices();
-    
-    // Set fallback values right away so UI always shows something
-    setBasePrice(fallbackPrices.basePrice);
-    setMaterialCost(fallbackPrices.materialCost);
-    setPrintingCost(fallbackPrices.printingCost);
-    setShippingCost(fallbackPrices.shippingCost);
-    setFinalPrice(fallbackPrices.totalPrice);
-    
-    toast({
-      title: "Calculating price...",
-      description: "Analyzing model geometry and materials",
-    });
-    
-    try {
-      // Calculate price based on model volume
-      if (selectedModelIndex !== null && selectedModelIndex >= 0 && selectedModelIndex < models.length) {
-        // We have a selected model from the scene
-        const model = models[selectedModelIndex];
-        if (model && model.mesh) {
-          console.log('Calculating price for model:', model.name);
-          
-          // Calculate model volume
-          const modelVolume = calculateModelVolume(model);
-          console.log('Calculated model volume:', modelVolume, 'cubic mm');
-          
-          // Calculate model complexity (polygon count, geometry details)
-          const complexityFactor = calculateModelComplexity(model);
-          console.log('Model complexity factor:', complexityFactor);
-          
-          // Assess model printability (overhangs, thin walls, etc.)
-          const printabilityAssessment = assessPrintability(model);
-          setPrintability(printabilityAssessment);
-          console.log('Model printability:', printabilityAssessment);
-          
-          // Revised pricing model without artificial caps
-          // Base prices depend on volume
-          const volumeCubicCm = modelVolume / 1000; // Convert to cubic cm
-          
-          let basePrice;
-          if (volumeCubicCm < 5) {
-            basePrice = 2; // Minimum price
-          } else if (volumeCubicCm < 50) {
-            basePrice = 2 + ((volumeCubicCm - 5) / 45) * 3; // $2-$5
-          } else if (volumeCubicCm < 200) {
-            basePrice = 5 + ((volumeCubicCm - 50) / 150) * 5; // $5-$10
-          } else if (volumeCubicCm < 1000) {
-            basePrice = 10 + ((volumeCubicCm - 200) / 800) * 20; // $10-$30
-          } else if (volumeCubicCm < 5000) {
-            basePrice = 30 + ((volumeCubicCm - 1000) / 4000) * 70; // $30-$100
-      } else {
-            // For extremely large models, continue scaling (approximately $15 per 1000 cubic cm)
-            basePrice = 100 + ((volumeCubicCm - 5000) / 1000) * 15;
-          }
-          
-          // No price cap - allow prices to reflect actual material and time costs
-          
-          // Calculate size in inches (assuming cubic root of volume, converted from cm to inches)
-          const sizeInInches = Math.pow(volumeCubicCm, 1/3) / 2.54; 
-          console.log(`Approximate model size: ${sizeInInches.toFixed(1)} inches`);
-          
-          // Apply complexity factor to base price
-          // Complex models take longer to print and have higher failure rates
-          const complexityAdjustedBasePrice = basePrice * complexityFactor;
-          console.log('Complexity-adjusted base price:', complexityAdjustedBasePrice.toFixed(2));
-          
-          // Apply printability factor to the price
-          // Hard-to-print models require more supports, have higher failure rates, etc.
-          const printabilityAdjustedBasePrice = complexityAdjustedBasePrice * printabilityAssessment.factor;
-          console.log('Printability-adjusted base price:', printabilityAdjustedBasePrice.toFixed(2));
-          
-          // Apply material pricing factor based on selected filament
-          // Premium materials cost more
-          let materialFactor = 1.0; // Default for standard materials
-          if (selectedFilament.includes('Premium') || 
-              selectedFilament.includes('Metallic') || 
-              selectedFilament.includes('Wood')) {
-            materialFactor = 1.25; // 25% premium for specialty materials
-          }
-          
-          const materialAdjustedBasePrice = printabilityAdjustedBasePrice * materialFactor;
-          console.log('Material-adjusted base price:', materialAdjustedBasePrice.toFixed(2));
-          
-          // Apply quantity discount
-          let quantityFactor = 1.0;
-          if (quantity > 1) {
-            // First item is full price, additional items get progressively cheaper
-            const firstItemPrice = materialAdjustedBasePrice;
-            let additionalItemsPrice = 0;
-            
-            // Apply progressive discounts
-            for (let i = 1; i < quantity; i++) {
-              // Each subsequent item gets cheaper (up to 40% off)
-              const discount = Math.min(0.40, 0.15 + (i * 0.025));
-              additionalItemsPrice += materialAdjustedBasePrice * (1 - discount);
-            }
-            
-            const totalBeforeShipping = firstItemPrice + additionalItemsPrice;
-            const effectiveUnitPrice = totalBeforeShipping / quantity;
-            
-            // Calculate equivalent quantity factor
-            quantityFactor = effectiveUnitPrice / materialAdjustedBasePrice * quantity;
-            
-            console.log(`Quantity ${quantity}: equivalent factor ${quantityFactor.toFixed(2)}`);
-          }
-          
-          const quantityAdjustedBasePrice = materialAdjustedBasePrice * quantityFactor;
-          console.log('Quantity-adjusted total price:', quantityAdjustedBasePrice.toFixed(2));
-          
-          // Shipping calculation - base fee plus per-item cost, with volume consideration
-          const shippingBase = 5.00;
-          const shippingPerItem = 0.50;
-          const volumeFactor = Math.min(3.0, Math.max(1.0, volumeCubicCm / 200));
-          
-          const shipping = (shippingBase + (shippingPerItem * quantity)) * volumeFactor;
-          console.log('Shipping cost:', shipping.toFixed(2));
-          
-          // Final price component breakdown
-          const materialCost = quantityAdjustedBasePrice * 0.4; // 40% of base for materials
-          const printingCost = quantityAdjustedBasePrice * 0.6; // 60% of base for printing process
-          
-          // Set state with calculated values
-          setBasePrice(Number(quantityAdjustedBasePrice.toFixed(2)));
-          setMaterialCost(Number(materialCost.toFixed(2)));
-          setPrintingCost(Number(printingCost.toFixed(2)));
-          setShippingCost(Number(shipping.toFixed(2)));
-          setFinalPrice(Number((quantityAdjustedBasePrice + shipping).toFixed(2)));
-          setComplexityFactor(complexityFactor);
-          setPriceSource('api');
-          
-          console.log('Price calculation complete:', {
-            basePrice: quantityAdjustedBasePrice.toFixed(2),
-            materialCost: materialCost.toFixed(2),
-            printingCost: printingCost.toFixed(2),
-            shipping: shipping.toFixed(2),
-            finalPrice: (quantityAdjustedBasePrice + shipping).toFixed(2)
-          });
-          
-          toast({
-            title: "Price calculated",
-            description: "Based on model geometry, complexity, and material",
-            variant: "default",
-          });
-        }
-      } else if (uploadedModelData) {
-        // Handle uploaded model data
-        // Since we can't easily analyze geometry, use fallback based on model data size
-        let modelDataSize = 0;
-        if (typeof uploadedModelData === 'string') {
-          modelDataSize = uploadedModelData.length;
-        } else if (uploadedModelData instanceof ArrayBuffer) {
-          modelDataSize = uploadedModelData.byteLength;
-        }
-        
-        // Rough estimate - larger files generally mean more complex/larger models
-        const estimatedVolume = modelDataSize / 50; // Very rough approximation
-        console.log('Estimated volume from data size:', estimatedVolume);
-        
-        // Use more aggressive fallback prices for uploaded models since we have less info
-        const basePrice = fallbackPrices.basePrice * 1.2; // 20% higher due to unknown geometry
-        
-        setBasePrice(Number(basePrice.toFixed(2)));
-        setMaterialCost(Number((basePrice * 0.4).toFixed(2)));
-        setPrintingCost(Number((basePrice * 0.6).toFixed(2)));
-        setFinalPrice(Number((basePrice + fallbackPrices.shippingCost).toFixed(2)));
-        
-        toast({
-          title: "Estimated price calculated",
-          description: "Based on limited information from uploaded model",
-          variant: "default",
-        });
-      }
+      toast({
+        title: "Price calculated",
+        description: `${quote.estimate.filamentGrams.toFixed(0)} g of filament, about ${formatPrintTime(quote.estimate.printTimeMinutes)} per item`,
+        variant: "default",
+      });
     } catch (error) {
+      if (quoteId !== latestQuoteRef.current) {
+        return;
+      }
       console.error('Error calculating price:', error);
-      setError('Failed to calculate accurate price. Using estimates.');
+      setError(error instanceof QuoteInputError
+        ? error.message
+        : 'Failed to calculate price. Please try again.');
       
       toast({
-        title: "Using estimated pricing",
-        description: "Could not analyze model in detail. Using size-based estimates.",
+        title: "Could not calculate price",
+        description: error instanceof Error ? error.message : "Could not analyze the model geometry.",
         variant: "destructive",
       });
     } finally {
-      setIsPriceCalculating(false);
-    }
-  };
-
-  // Calculate the volume of a 3D model in cubic millimeters
-  const calculateModelVolume = (model: any) => {
-    try {
-      if (!model || !model.mesh) {
-        console.error('Invalid model for volume calculation');
-        return 0;
-      }
-      
-      // Make sure the model's geometry is up to date
-      model.mesh.updateMatrixWorld(true);
-      
-      if (model.mesh.geometry) {
-        // Clone the geometry to avoid modifying the original
-        const geometry = model.mesh.geometry.clone();
-        
-        // Apply the model's transformation to the geometry
-        geometry.applyMatrix4(model.mesh.matrixWorld);
-        
-        // Compute the volume
-        if (geometry.isBufferGeometry) {
-          // For buffer geometry, we need to compute volume from vertices and faces
-          const position = geometry.getAttribute('position');
-          const index = geometry.getIndex();
-          
-          let volume = 0;
-          
-          // If we have an indexed geometry
-          if (index) {
-            for (let i = 0; i < index.count; i += 3) {
-              const a = new THREE.Vector3(
-                position.getX(index.getX(i)),
-                position.getY(index.getX(i)),
-                position.getZ(index.getX(i))
-              );
-              const b = new THREE.Vector3(
-                position.getX(index.getX(i+1)),
-                position.getY(index.getX(i+1)),
-                position.getZ(index.getX(i+1))
-              );
-              const c = new THREE.Vector3(
-                position.getX(index.getX(i+2)),
-                position.getY(index.getX(i+2)),
-                position.getZ(index.getX(i+2))
-              );
-              
-              // Calculate signed volume of tetrahedron formed by triangle and origin
-              const tetraVolume = (a.dot(b.cross(c))) / 6;
-              volume += Math.abs(tetraVolume);
-            }
-          } else {
-            // Non-indexed geometry
-            for (let i = 0; i < position.count; i += 3) {
-              const a = new THREE.Vector3(
-                position.getX(i),
-                position.getY(i),
-                position.getZ(i)
-              );
-              const b = new THREE.Vector3(
-                position.getX(i+1),
-                position.getY(i+1),
-                position.getZ(i+1)
-              );
-              const c = new THREE.Vector3(
-                position.getX(i+2),
-                position.getY(i+2),
-                position.getZ(i+2)
-              );
-              
-              // Calculate signed volume of tetrahedron formed by triangle and origin
-              const tetraVolume = (a.dot(b.cross(c))) / 6;
-              volume += Math.abs(tetraVolume);
-            }
-          }
-          
-          // Return volume in cubic millimeters with reasonable bounds
-          // Ensure volume is at least 1 cubic cm (1000 cubic mm) for minimum price
-          return Math.max(1000, volume);
-        }
-      }
-      
-      // Fallback - use bounding box volume
-      const boundingBox = new THREE.Box3().setFromObject(model.mesh);
-    const size = new THREE.Vector3();
-      boundingBox.getSize(size);
-      
-      // Return volume in cubic millimeters with reasonable bounds
-      return Math.max(1000, size.x * size.y * size.z);
-    } catch (error) {
-      console.error('Error calculating model volume:', error);
-      return 1000; // Fallback value: 1 cubic cm
-    }
-  };
-  
-  // Calculate a complexity factor for the model based on geometry
-  const calculateModelComplexity = (model: any) => {
-    try {
-      if (!model || !model.mesh || !model.mesh.geometry) {
-        return 1.0; // Default complexity factor
-      }
-      
-      const geometry = model.mesh.geometry;
-      
-      // Get face count as measure of complexity
-      let faceCount = 0;
-      if (geometry.index) {
-        faceCount = geometry.index.count / 3;
-      } else {
-        const position = geometry.getAttribute('position');
-        faceCount = position.count / 3;
-      }
-      
-      // Calculate normalized complexity factor
-      // Simple models: <1000 faces
-      // Medium complexity: 1000-10,000 faces
-      // Complex models: 10,000-100,000 faces
-      // Very complex models: >100,000 faces
-      
-      let complexityFactor;
-      if (faceCount < 1000) {
-        complexityFactor = 1.0; // Normal pricing for simple models
-      } else if (faceCount < 10000) {
-        complexityFactor = 1.0 + ((faceCount - 1000) / 9000) * 0.2; // Up to 20% more for medium complexity
-      } else if (faceCount < 100000) {
-        complexityFactor = 1.2 + ((faceCount - 10000) / 90000) * 0.3; // Up to 50% more for complex models
-      } else {
-        complexityFactor = 1.5 + Math.min(0.5, ((faceCount - 100000) / 900000) * 0.5); // Up to 100% more for very complex models
+      if (quoteId === latestQuoteRef.current) {
+        setIsPriceCalculating(false);
       }
-      
-      console.log(`Model complexity: ${faceCount} faces, factor: ${complexityFactor.toFixed(2)}`);
-      return complexityFactor;
-    } catch (error) {
-      console.error('Error calculating complexity factor:', error);
-      return 1.0; // Default complexity factor
-    }
-  };
-  
-  // Assess the printability of a model
-  const assessPrintability = (model: any) => {
-    try {
-      if (!model || !model.mesh || !model.mesh.geometry) {
-        return {
-          factor: 1.0,
-          category: "Unknown",
-          hasOverhangs: false,
-          hasThinWalls: false,
-          hasFloatingIslands: false
-        };
-      }
-      
-      // Get the geometry
-      const geometry = model.mesh.geometry;
-      const position = geometry.getAttribute('position');
-      
-      // Calculate the bounding box
-      const bbox = new THREE.Box3().setFromBufferAttribute(position);
-      const dimensions = new THREE.Vector3();
-      bbox.getSize(dimensions);
-      
-      // Look for potential overhangs (negative Z-normals if upward is Z)
-      let hasOverhangs = false;
-      let hasThinWalls = false;
-      let hasFloatingIslands = false;
-      
-      // Check for overhangs using normals
-      if (geometry.getAttribute('normal')) {
-        const normals = geometry.getAttribute('normal');
-        let downwardNormalCount = 0;
-        
-        for (let i = 0; i < normals.count; i++) {
-          const z = normals.getZ(i);
-          if (z < -0.7) { // Steep downward normal
-            downwardNormalCount++;
-          }
-        }
-        
-        // If more than 10% of normals point downward, consider it has overhangs
-        hasOverhangs = downwardNormalCount > normals.count * 0.1;
-      }
-      
-      // Simple heuristic for thin walls - if any dimension is much smaller than others
-      const minDimension = Math.min(dimensions.x, dimensions.y, dimensions.z);
-      const maxDimension = Math.max(dimensions.x, dimensions.y, dimensions.z);
-      hasThinWalls = minDimension < maxDimension * 0.05;
-      
-      // We can't reliably detect floating islands without more complex analysis
-      hasFloatingIslands = false; // Simplified assumption
-      
-      // Determine printability category and factor
-      let category = "Easy";
-      let factor = 1.0;
-      
-      if (hasOverhangs && hasThinWalls) {
-        category = "Difficult";
-        factor = 1.5; // 50% price increase for difficult prints
-      } else if (hasOverhangs || hasThinWalls) {
-        category = "Moderate";
-        factor = 1.25; // 25% price increase for moderately difficult prints
-      }
-      
-      return {
-        factor,
-        category,
-        hasOverhangs,
-        hasThinWalls,
-        hasFloatingIslands
-      };
-    } catch (error) {
-      console.error('Error assessing printability:', error);
-      return {
-        factor: 1.0,
-        category: "Unknown",
-        hasOverhangs: false,
-        hasThinWalls: false,
-        hasFloatingIslands: false
-      };
     }
   };
 
@@ -781,6 +431,15 @@ const Print3DTab = () => {
       return;
     }
     
+    if (!fitsPrinter) {
+      toast({
+        title: "Model too large to print",
+        description: "The part doesn't fit the printer's build volume in one piece. Scale it down or split it before ordering.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     // Set loading state
     setIsLoading(true);
     
@@ -801,7 +460,8 @@ const Print3DTab = () => {
         color: colorName,
         quantity: quantity,
         finalPrice: finalPrice,
-        userId: "guest", // Replace with actual user ID if available
+        material: selectedFilament, // The server re-quotes with the same material and settings
+        ...DEFAULT_PRINT_SETTINGS,
         email: "guest@example.com", // Replace with actual email if available
         type: "3d_print", // Specify this is a 3D print checkout
         stlFileName,
@@ -820,19 +480,25 @@ const Print3DTab = () => {
       // Use a single endpoint directly
       const endpoint = '/api/create-checkout-session';
       
-      // Call the checkout endpoint
-      fetch(endpoint, {
+      // The server only gives Pro pricing against a verified sign-in, so send the ID token
+      Promise.resolve(getCurrentUser()?.getIdToken())
+      .then(idToken => fetch(endpoint, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(checkoutData),
-      })
-      .then(response => {
+        body: JSON.stringify({ ...checkoutData, idToken }),
+      }))
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
         if (!response.ok) {
-          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+          // A 409 means the server's quote differs from ours, so show the fresh total
+          if (response.status === 409 && typeof data.totalPrice === 'number') {
+            setFinalPrice(data.totalPrice);
+          }
+          throw new Error(data.message || `Server returned ${response.status}: ${response.statusText}`);
         }
-        return response.json();
+        return data;
       })
       .then(data => {
         if (data.url) {
@@ -1129,14 +795,18 @@ const Print3DTab = () => {
               id="quantity"
               type="number"
               value={quantity}
-              onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+              onChange={(e) => setQuantity(Math.min(MAX_ORDER_QUANTITY, Math.max(1, parseInt(e.target.value) || 1)))}
               className="w-full"
               min={1}
+              max={MAX_ORDER_QUANTITY}
               />
             </div>
         </div>
             </div>
             
+      {/* Overhang, thin wall and island heatmaps for the selected model */}
+      <PrintabilityPanel />
+            
       {/* Order Summary */}
       <OrderSummary 
         basePrice={basePrice}
@@ -1144,6 +814,7 @@ const Print3DTab = () => {
         printingCost={printingCost}
         shippingCost={shippingCost}
         finalPrice={finalPrice}
+        lineItems={lineItems}
         complexityFactor={complexityFactor}
         printability={printability}
         priceSource={priceSource}
@@ -1181,7 +852,7 @@ const Print3DTab = () => {
         
           <Button 
           onClick={handleCheckout}
-          disabled={isLoading || isPriceCalculating || !selectedFilament || (selectedModelIndex === null && !uploadedModelData) || priceSource === 'estimate'}
+          disabled={isLoading || isPriceCalculating || !selectedFilament || (selectedModelIndex === null && !uploadedModelData) || priceSource === 'estimate' || !fitsPrinter}
           className="bg-primary hover:bg-primary/90"
             >
               {isLoading ? (
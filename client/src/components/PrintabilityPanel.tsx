@@ -0,0 +1,130 @@
+import { useScene } from "@/hooks/use-scene";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PrintabilityOverlayMode } from "@/lib/printability";
+import { AlertTriangle, CheckCircle2, EyeOff, ScanSearch } from "lucide-react";
+
+const MODES: { mode: PrintabilityOverlayMode; label: string }[] = [
+  { mode: 'overhang', label: 'Overhangs' },
+  { mode: 'thickness', label: 'Thin walls' },
+  { mode: 'islands', label: 'Islands' }
+];
+
+const LEGENDS: Record<PrintabilityOverlayMode, { color: string; label: string }[]> = {
+  overhang: [
+    { color: '#2196f3', label: 'On the bed' },
+    { color: '#4caf50', label: 'Prints unsupported' },
+    { color: '#ffc107', label: 'Near 45°' },
+    { color: '#f44336', label: 'Needs support' }
+  ],
+  thickness: [
+    { color: '#4caf50', label: 'Solid' },
+    { color: '#ffc107', label: 'Thin' },
+    { color: '#f44336', label: 'Too thin to print' }
+  ],
+  islands: [
+    { color: '#4caf50', label: 'Touches the bed' },
+    { color: '#f44336', label: 'Floating' }
+  ]
+};
+
+// Heatmap controls for the selected model: where it will need support, break or print in mid-air
+export function PrintabilityPanel() {
+  const { models, selectedModelIndex, printabilityOverlay, showPrintabilityOverlay, clearPrintabilityOverlay } = useScene();
+
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : undefined;
+  if (!model || selectedModelIndex === null) {
+    return null;
+  }
+
+  const overlay = printabilityOverlay?.modelId === model.id ? printabilityOverlay : null;
+  const summary = overlay?.summary;
+
+  return (
+    <div className="bg-card rounded-md border p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">Printability</h2>
+        {printabilityOverlay && (
+          <Button variant="ghost" size="sm" onClick={clearPrintabilityOverlay}>
+            <EyeOff className="h-4 w-4 mr-1.5" />
+            Hide
+          </Button>
+        )}
+      </div>
+
+      {!overlay ? (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => showPrintabilityOverlay(selectedModelIndex, 'overhang')}
+        >
+          <ScanSearch className="h-4 w-4 mr-2" />
+          Analyze {model.name}
+        </Button>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-1">
+            {MODES.map(({ mode, label }) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={overlay.mode === mode ? "default" : "outline"}
+                onClick={() => showPrintabilityOverlay(selectedModelIndex, mode)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {LEGENDS[overlay.mode].map(({ color, label }) => (
+              <span key={label} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: color }} />
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {summary && (
+            <div className="space-y-1 text-sm">
+              <PrintabilityRow
+                ok={!summary.hasOverhangs}
+                label="Overhangs"
+                value={summary.overhangArea > 0 ? `${summary.overhangArea.toFixed(0)} mm² need support` : 'None'}
+              />
+              <PrintabilityRow
+                ok={!summary.hasThinWalls}
+                label="Thinnest wall"
+                value={Number.isFinite(summary.minThickness) ? `${summary.minThickness.toFixed(2)} mm` : 'Open mesh'}
+              />
+              <PrintabilityRow
+                ok={!summary.hasFloatingIslands}
+                label="Floating islands"
+                value={`${summary.floatingIslandCount} of ${summary.islandCount}`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PrintabilityRowProps {
+  ok: boolean;
+  label: string;
+  value: string;
+}
+
+function PrintabilityRow({ ok, label, value }: PrintabilityRowProps) {
+  const Icon = ok ? CheckCircle2 : AlertTriangle;
+  return (
+    <div className="flex items-center justify-between">
+      <span className="flex items-center gap-1.5">
+        <Icon className={cn("h-4 w-4", ok ? "text-green-500" : "text-amber-500")} />
+        {label}
+      </span>
+      <span className="text-muted-foreground">{value}</span>
+    </div>
+  );
+}
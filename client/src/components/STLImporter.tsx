@@ -67,7 +67,7 @@ export function STLImporter() {
   const [isReady, setIsReady] = useState(false);
   
   // Get the scene functions
-  const { loadSTL, selectModel, models } = useScene();
+  const { loadSTL, loadModel, selectModel, models } = useScene();
   
   // Initialize socket connection
   useEffect(() => {
@@ -582,7 +582,7 @@ export function STLImporter() {
       try {
         // Load the model into the scene
         const modelUrl = `${API_BASE_URL}/models/${importId}`;
-        await loadSTL(modelUrl, job.fileName);
+        await loadModel(modelUrl, job.fileName);
         
         // Select the newly added model
         selectModel(models.length - 1);
@@ -637,7 +637,7 @@ export function STLImporter() {
       socket.off('import-completed', handleImportCompleted);
       socket.off('import-failed', handleImportFailed);
     };
-  }, [socket, activeImports, loadSTL, selectModel, models]);
+  }, [socket, activeImports, loadModel, selectModel, models]);
   
   // Helper function to send a response to the origin
   const sendResponseToOrigin = (origin: string, data: any) => {
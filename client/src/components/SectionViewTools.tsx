@@ -0,0 +1,127 @@
+import * as THREE from "three";
+import { useScene } from "@/hooks/use-scene";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { FlipVertical2, SquareSplitHorizontal } from "lucide-react";
+
+type SectionAxis = 'x' | 'y' | 'z';
+
+const SECTION_AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+// Clip every model along an axis to look at wall thickness and internal cavities
+export function SectionViewTools() {
+  const { models, sectionView, setSectionView } = useScene();
+
+  // Range of the slider, covering every model along the axis
+  const getAxisRange = (axis: SectionAxis): [number, number] => {
+    const bounds = new THREE.Box3();
+    models.forEach(model => {
+      model.mesh.updateMatrixWorld(true);
+      bounds.union(new THREE.Box3().setFromObject(model.mesh, true));
+    });
+    if (bounds.isEmpty()) {
+      return [-50, 50];
+    }
+    return [Math.floor(bounds.min[axis]), Math.ceil(bounds.max[axis])];
+  };
+
+  const [min, max] = getAxisRange(sectionView.axis);
+
+  // A new axis, or switching on, starts at the middle of the models
+  const centreOn = (axis: SectionAxis) => {
+    const [low, high] = getAxisRange(axis);
+    return Number(((low + high) / 2).toFixed(1));
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    setSectionView(enabled ? { enabled, position: centreOn(sectionView.axis) } : { enabled });
+  };
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-7 w-7", sectionView.enabled && "bg-accent")}
+            >
+              <SquareSplitHorizontal className="text-foreground" size={16} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-3" align="end">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm leading-none">Section View</h4>
+                <Switch
+                  checked={sectionView.enabled}
+                  onCheckedChange={handleToggle}
+                  disabled={models.length === 0}
+                />
+              </div>
+
+              <div className="flex items-center gap-1">
+                <div className="grid grid-cols-3 gap-0.5 bg-muted rounded-md p-0.5 flex-1">
+                  {SECTION_AXES.map(axis => (
+                    <Button
+                      key={axis}
+                      variant="ghost"
+                      size="sm"
+                      className={`h-6 px-1 text-[10px] rounded-sm ${sectionView.axis === axis ? 'bg-background shadow-sm' : ''}`}
+                      onClick={() => setSectionView({ axis, position: centreOn(axis) })}
+                    >
+                      {axis.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className={cn("h-7 w-7", sectionView.flipped && "bg-accent")}
+                  onClick={() => setSectionView({ flipped: !sectionView.flipped })}
+                >
+                  <FlipVertical2 size={14} />
+                </Button>
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="section-position" className="text-xs whitespace-nowrap">Position (mm)</Label>
+                  <Input
+                    id="section-position"
+                    type="number"
+                    step={0.5}
+                    value={sectionView.position}
+                    onChange={(e) => setSectionView({ position: parseFloat(e.target.value) || 0 })}
+                    className="h-7 text-xs"
+                  />
+                </div>
+                <Slider
+                  min={min}
+                  max={max}
+                  step={0.1}
+                  value={[Math.min(Math.max(sectionView.position, min), max)]}
+                  onValueChange={([position]) => setSectionView({ position })}
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {sectionView.flipped ? 'Showing the part above the plane.' : 'Showing the part below the plane.'} Cut faces are filled so walls and cavities stand out.
+              </p>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Section View</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
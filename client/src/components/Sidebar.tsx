@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { useScene } from "@/hooks/use-scene";
-import { Download, Trash, Box, Type, Paintbrush, Upload, Shapes, Bot, Circle, Triangle, CircleDot, Layers, Droplets, Badge, Sparkles, Zap, Pencil, Printer, X, FileText, Layout, Undo, Redo, Image as ImageIcon, Crown, LibraryBig, PencilRuler, Palette } from "lucide-react";
+import { Download, Trash, Box, Type, Paintbrush, Upload, Shapes, Bot, Circle, Triangle, CircleDot, Layers, Droplets, Badge, Sparkles, Zap, Pencil, Printer, X, FileText, Layout, Undo, Redo, Image as ImageIcon, Crown, LibraryBig, PencilRuler, Palette, Save, FolderOpen } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { ModelList } from "./ModelList";
@@ -22,10 +22,15 @@ import type { Model } from "@/types/model";
 import { TaiyakiLibrary } from "@/components/TaiyakiLibrary";
 import { MagicFishAI } from "@/components/MagicFishAI";
 import { AssetLibrary } from "@/components/AssetLibrary";
+import { HardwareLibrary } from "@/components/HardwareLibrary";
 import { imageToSvg } from "@/lib/imageToSvg";
 import { useSubscription } from '@/context/SubscriptionContext';
 import { ThangsEmbed } from "@/components/ThangsEmbed";
 import { ThingiverseEmbed } from "@/components/ThingiverseEmbed";
+import { PROJECT_FILE_EXTENSION } from "@/lib/project";
+import { isSupportedModelFile, MODEL_FILE_ACCEPT } from "@/lib/importers";
+import { formatRepairReport, repairChangedMesh } from "@/lib/meshRepair";
+import { createPrimitiveGeometry, getDefaultPrimitive, PrimitiveParams } from "@/lib/primitives";
 
 // Font options with their display names and paths
 const FONTS = [
@@ -34,59 +39,6 @@ const FONTS = [
   { name: "Courier", path: "https://threejs.org/examples/fonts/droid/droid_serif_regular.typeface.json" }
 ];
 
-// Add this helper function before the Sidebar component
-const findNonCollidingPosition = (models: Array<Model>, newBoundingBox: THREE.Box3): THREE.Vector3 => {
-  const position = new THREE.Vector3(0, 0, 0);
-  
-  // If no models exist, return origin
-  if (models.length === 0) return position;
-  
-  // Check if position is available at origin first
-  let hasCollision = false;
-  for (const model of models) {
-    const modelBounds = new THREE.Box3().setFromObject(model.mesh);
-    if (newBoundingBox.intersectsBox(modelBounds)) {
-      hasCollision = true;
-      break;
-    }
-  }
-  
-  // If no collision at origin, use that
-  if (!hasCollision) return position;
-  
-  // Otherwise, find the first available position in a spiral pattern
-  const spacing = 60; // ~2.36 inches
-  let ring = 1;
-  let angle = 0;
-  
-  while (ring < 10) { // Limit search to reasonable area
-    for (angle = 0; angle < Math.PI * 2; angle += Math.PI / 4) {
-      position.x = Math.cos(angle) * (spacing * ring);
-      position.z = Math.sin(angle) * (spacing * ring);
-      
-      // Move bounding box to test position
-      const testBox = newBoundingBox.clone().translate(position);
-      
-      // Check for collisions
-      hasCollision = false;
-      for (const model of models) {
-        const modelBounds = new THREE.Box3().setFromObject(model.mesh);
-        if (testBox.intersectsBox(modelBounds)) {
-          hasCollision = true;
-          break;
-        }
-      }
-      
-      if (!hasCollision) {
-        return position;
-      }
-    }
-    ring++;
-  }
-  
-  return position;
-};
-
 // Define styles for the premium crown icons
 const premiumIconBaseStyle = {
   position: "absolute" as const,
@@ -111,9 +63,12 @@ const aiPremiumIconStyle = {
 
 export function Sidebar({ onClose }: { onClose?: () => void }) {
   const { 
-    loadSTL, 
+    loadModel, 
     loadSVG,
     exportSelectedModelAsSTL, 
+    exportSceneAs3MF,
+    saveProject,
+    loadProject,
     selectedModelIndex,
     removeModel,
     scene,
@@ -127,8 +82,11 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
     setShowGrid,
     showAxes,
     setShowAxes,
+    autoRepairMeshes,
+    setAutoRepairMeshes,
     camera,
-    performCSGOperation
+    performCSGOperation,
+    findPlacementOnPlate
   } = useScene();
   const { toast } = useToast();
   const { subscription } = useSubscription();
@@ -397,7 +355,8 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
       originalRotation,
       originalScale,
       // Copy any additional properties if needed
-      ...(copiedModel.textProps ? { textProps: { ...copiedModel.textProps } } : {})
+      ...(copiedModel.textProps ? { textProps: { ...copiedModel.textProps } } : {}),
+      ...(copiedModel.primitive ? { primitive: { ...copiedModel.primitive } } : {})
     };
     
     // Add to models array
@@ -624,7 +583,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
   };
 
   // Function to create a new model with the correct type
-  const createModel = (mesh: THREE.Mesh, type: Model['type'], name: string) => {
+  const createModel = (mesh: THREE.Mesh, type: Model['type'], name: string, primitive?: PrimitiveParams) => {
     const originalPosition = mesh.position.clone();
     const originalRotation = mesh.rotation.clone();
     const originalScale = mesh.scale.clone();
@@ -636,25 +595,27 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
       mesh,
       originalPosition,
       originalRotation,
-      originalScale
+      originalScale,
+      ...(primitive ? { primitive } : {})
     } as Model;
   };
 
   const handleAddCube = () => {
-    const geometry = new THREE.BoxGeometry(50.8, 50.8, 50.8);
+    const primitive = getDefaultPrimitive('cube');
+    const geometry = createPrimitiveGeometry(primitive);
     const material = createFunMaterial();
     const mesh = new THREE.Mesh(geometry, material);
     
-    // Calculate bounding box and find position
+    // Find free space on the build plate
     const boundingBox = new THREE.Box3().setFromObject(mesh);
-    const position = findNonCollidingPosition(models, boundingBox);
+    const position = findPlacementOnPlate(boundingBox);
     mesh.position.copy(position);
     
     mesh.castShadow = true;
     mesh.receiveShadow = true;
     scene.add(mesh);
 
-    const newModel = createModel(mesh, 'cube', 'Cube');
+    const newModel = createModel(mesh, 'cube', 'Cube', primitive);
     const updatedModels = [...models, newModel];
     useScene.setState({ models: updatedModels });
     selectModel(updatedModels.length - 1);
@@ -667,20 +628,21 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
   };
 
   const handleAddSphere = () => {
-    const geometry = new THREE.SphereGeometry(25.4, 32, 32);
+    const primitive = getDefaultPrimitive('sphere');
+    const geometry = createPrimitiveGeometry(primitive);
     const material = createFunMaterial();
     const mesh = new THREE.Mesh(geometry, material);
     
-    // Calculate bounding box and find position
+    // Find free space on the build plate
     const boundingBox = new THREE.Box3().setFromObject(mesh);
-    const position = findNonCollidingPosition(models, boundingBox);
+    const position = findPlacementOnPlate(boundingBox);
     mesh.position.copy(position);
     
     mesh.castShadow = true;
     mesh.receiveShadow = true;
     scene.add(mesh);
 
-    const newModel = createModel(mesh, 'sphere', 'Sphere');
+    const newModel = createModel(mesh, 'sphere', 'Sphere', primitive);
     const updatedModels = [...models, newModel];
     useScene.setState({ models: updatedModels });
     selectModel(updatedModels.length - 1);
@@ -693,7 +655,8 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
   };
 
   const handleAddCylinder = () => {
-    const geometry = new THREE.CylinderGeometry(25.4, 25.4, 50.8, 32, 2, false); // Increased segments, closed ends
+    const primitive = getDefaultPrimitive('cylinder');
+    const geometry = createPrimitiveGeometry(primitive);
     const material = createFunMaterial();
     const mesh = new THREE.Mesh(geometry, material);
     mesh.position.set(0, 0, 0);
@@ -701,7 +664,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
     mesh.receiveShadow = true;
     scene.add(mesh);
     
-    const newModel = createModel(mesh, 'cylinder', 'Cylinder');
+    const newModel = createModel(mesh, 'cylinder', 'Cylinder', primitive);
     const updatedModels = [...models, newModel];
     useScene.setState({ models: updatedModels });
     selectModel(updatedModels.length - 1);
@@ -714,7 +677,8 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
   };
 
   const handleAddCone = () => {
-    const geometry = new THREE.ConeGeometry(25.4, 50.8, 32, 2, false);
+    const primitive = getDefaultPrimitive('cone');
+    const geometry = createPrimitiveGeometry(primitive);
     const material = createFunMaterial();
     const mesh = new THREE.Mesh(geometry, material);
     mesh.position.set(0, 0, 0);
@@ -722,7 +686,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
     mesh.receiveShadow = true;
     scene.add(mesh);
     
-    const newModel = createModel(mesh, 'cone', 'Cone');
+    const newModel = createModel(mesh, 'cone', 'Cone', primitive);
     const updatedModels = [...models, newModel];
     useScene.setState({ models: updatedModels });
     selectModel(updatedModels.length - 1);
@@ -983,7 +947,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
   const handleImportClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.stl,.svg,.jpg,.jpeg,.png,.gif,.webp';
+    input.accept = `${MODEL_FILE_ACCEPT},.svg,.jpg,.jpeg,.png,.gif,.webp`;
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
@@ -991,11 +955,14 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
       try {
         const fileExt = file.name.split('.').pop()?.toLowerCase();
         
-        if (fileExt === 'stl') {
-          await loadSTL(file);
+        if (isSupportedModelFile(file.name)) {
+          await loadModel(file);
+          const repairReport = useScene.getState().lastRepairReport;
           toast({
             title: "Import Successful",
-            description: `Imported STL: ${file.name}`
+            description: repairReport && repairChangedMesh(repairReport)
+              ? `Imported ${file.name}. ${formatRepairReport(repairReport)}`
+              : `Imported ${fileExt?.toUpperCase()}: ${file.name}`
           });
         } else if (fileExt === 'svg') {
           await loadSVG(file);
@@ -1030,7 +997,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
         } else {
           toast({
             title: "Import Failed",
-            description: "Unsupported file format. Please use STL, SVG, or common image formats.",
+            description: "Unsupported file format. Please use STL, OBJ, PLY, 3MF, GLTF/GLB, STEP, SVG, or common image formats.",
             variant: "destructive",
           });
         }
@@ -1038,7 +1005,7 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
         console.error("Import error:", error);
         toast({
           title: "Import Failed",
-          description: "There was an error importing your file",
+          description: error instanceof Error ? error.message : "There was an error importing your file",
           variant: "destructive",
         });
       }
@@ -1094,6 +1061,91 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
     input.click();
   };
   
+  const handleExport3MF = () => {
+    try {
+      const blob = exportSceneAs3MF();
+      if (!blob) {
+        throw new Error("Failed to generate 3MF file");
+      }
+      
+      // Create a download link
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `scene-export-${Date.now()}.3mf`;
+      link.click();
+      
+      // Clean up
+      URL.revokeObjectURL(url);
+      
+      toast({
+        title: "Export Successful",
+        description: `Exported ${models.length} model${models.length === 1 ? '' : 's'} as 3MF`
+      });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: "There was an error exporting your scene",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleSaveProject = () => {
+    try {
+      const blob = saveProject();
+      
+      // Create a download link
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `project-${Date.now()}${PROJECT_FILE_EXTENSION}`;
+      link.click();
+      
+      // Clean up
+      URL.revokeObjectURL(url);
+      
+      toast({
+        title: "Project Saved",
+        description: `Saved ${models.length} model${models.length === 1 ? '' : 's'} to a project file`
+      });
+    } catch (error) {
+      console.error("Save project error:", error);
+      toast({
+        title: "Save Failed",
+        description: "There was an error saving your project",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleOpenProject = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${PROJECT_FILE_EXTENSION},.json`;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      
+      try {
+        await loadProject(file);
+        toast({
+          title: "Project Opened",
+          description: `Opened ${file.name}`
+        });
+      } catch (error) {
+        console.error("Open project error:", error);
+        toast({
+          title: "Open Failed",
+          description: error instanceof Error ? error.message : "There was an error opening your project",
+          variant: "destructive",
+        });
+      }
+    };
+    input.click();
+  };
+  
   const handleExportModel = () => {
     if (selectedModelIndex !== null) {
       try {
@@ -1564,14 +1616,9 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
         // Apply default scale of 1
         lastModel.mesh.scale.set(1, 1, 1);
         
-        // Calculate bounding box and find position
+        // Move the model into free space on the build plate
         const boundingBox = new THREE.Box3().setFromObject(lastModel.mesh);
-        const position = findNonCollidingPosition(currentModels.slice(0, -1), boundingBox);
-        
-        // Center the model at the found position
-        const center = new THREE.Vector3();
-        boundingBox.getCenter(center);
-        lastModel.mesh.position.copy(position).sub(center);
+        lastModel.mesh.position.add(findPlacementOnPlate(boundingBox, [lastModel.mesh]));
         
         // Update original properties
         lastModel.originalPosition.copy(lastModel.mesh.position);
@@ -1714,9 +1761,20 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
                   onClick={handleImportClick}
                 >
                   <Upload className="mr-1 h-4 w-4" />
-                  Import STL, SVG or Image
+                  Import Model, SVG or Image
                 </Button>
                 
+                <div className="flex items-center space-x-2 px-1">
+                  <Checkbox
+                    id="auto-repair-meshes"
+                    checked={autoRepairMeshes}
+                    onCheckedChange={(checked) => setAutoRepairMeshes(checked === true)}
+                  />
+                  <Label htmlFor="auto-repair-meshes" className="text-xs">
+                    Repair meshes on import and before combining
+                  </Label>
+                </div>
+                
                 <Button
                   variant="outline"
                   size="sm"
@@ -1727,6 +1785,40 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
                   <Download className="mr-1 h-4 w-4" />
                   Export STL
                 </Button>
+                
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="justify-start"
+                  onClick={handleExport3MF}
+                  disabled={models.length === 0}
+                >
+                  <Download className="mr-1 h-4 w-4" />
+                  Export Scene as 3MF
+                </Button>
+                
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="justify-start"
+                    onClick={handleOpenProject}
+                  >
+                    <FolderOpen className="mr-1 h-4 w-4" />
+                    Open Project
+                  </Button>
+                  
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="justify-start"
+                    onClick={handleSaveProject}
+                    disabled={models.length === 0}
+                  >
+                    <Save className="mr-1 h-4 w-4" />
+                    Save Project
+                  </Button>
+                </div>
               </div>
               
               <div className="text-xs text-muted-foreground mt-1 mb-2">
@@ -1811,6 +1903,9 @@ export function Sidebar({ onClose }: { onClose?: () => void }) {
                   </div>
                 </Card>
 
+                {/* Functional parts for enclosures */}
+                <HardwareLibrary />
+
                 {/* Description Card */}
                 <Card className="p-4 bg-muted/40">
                   <p className="text-sm text-muted-foreground">
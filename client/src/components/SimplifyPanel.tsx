@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Mesh } from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import { DEFAULT_SIMPLIFY_OPTIONS, SimplifyTarget } from "@/lib/meshSimplify";
+import { Loader2, Shrink } from "lucide-react";
+
+const PREVIEW_NAME = 'simplifyPreview';
+
+const SIMPLIFY_TARGETS: { target: SimplifyTarget; label: string }[] = [
+  { target: 'triangles', label: 'Triangles' },
+  { target: 'tolerance', label: 'Tolerance' }
+];
+
+const formatCount = (count: number) => count.toLocaleString();
+
+// Decimate or remesh a heavy model, comparing the result with the original before keeping it
+export function SimplifyPanel() {
+  const {
+    simplify,
+    previewSimplify,
+    setSimplifyPreviewShown,
+    cancelSimplify,
+    applySimplify,
+    isCSGOperationLoading,
+    models,
+    scene,
+    camera,
+    renderer
+  } = useScene();
+  const { toast } = useToast();
+  const [target, setTarget] = useState<SimplifyTarget>(DEFAULT_SIMPLIFY_OPTIONS.target);
+  const [triangleCount, setTriangleCount] = useState(() =>
+    Math.min(DEFAULT_SIMPLIFY_OPTIONS.triangleCount, Math.max(4, Math.round((simplify?.trianglesBefore ?? 0) / 4)))
+  );
+  const [tolerance, setTolerance] = useState(DEFAULT_SIMPLIFY_OPTIONS.tolerance);
+  const [remesh, setRemesh] = useState(DEFAULT_SIMPLIFY_OPTIONS.remesh);
+  const [edgeLength, setEdgeLength] = useState(DEFAULT_SIMPLIFY_OPTIONS.edgeLength);
+
+  const model = simplify ? models.find(candidate => candidate.id === simplify.modelId) : undefined;
+
+  // Escape leaves the model as it was
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelSimplify();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cancelSimplify]);
+
+  // Show the preview in place of the model; the store owns the preview geometry
+  useEffect(() => {
+    if (!simplify?.preview || !simplify.showPreview || !model) return;
+
+    model.mesh.updateMatrixWorld(true);
+    const preview = new Mesh(simplify.preview, model.mesh.material);
+    preview.name = PREVIEW_NAME;
+    preview.matrixAutoUpdate = false;
+    preview.matrix.copy(model.mesh.matrixWorld);
+    preview.raycast = () => {};
+    model.mesh.visible = false;
+    scene.add(preview);
+    renderer.render(scene, camera);
+
+    return () => {
+      scene.remove(preview);
+      model.mesh.visible = true;
+      renderer.render(scene, camera);
+    };
+  }, [simplify, model, scene, camera, renderer]);
+
+  if (!simplify) {
+    return null;
+  }
+
+  const handlePreview = async () => {
+    try {
+      await previewSimplify({ target, triangleCount, tolerance, remesh, edgeLength });
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: "Simplify cancelled",
+          description: "The model was left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
+      toast({
+        title: "Simplify failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleApply = () => {
+    const { trianglesBefore, trianglesAfter } = simplify;
+    applySimplify();
+    toast({
+      title: `${model?.name} simplified`,
+      description: `${formatCount(trianglesBefore)} → ${formatCount(trianglesAfter ?? 0)} triangles`,
+      duration: 3000,
+    });
+  };
+
+  return (
+    <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-1">
+          <span className="text-xs font-medium">Simplify {model?.name}</span>
+          <span className="text-[10px] text-muted-foreground">{formatCount(simplify.trianglesBefore)} triangles</span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-0.5 bg-muted rounded-md p-0.5">
+          {SIMPLIFY_TARGETS.map(option => (
+            <Button
+              key={option.target}
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${target === option.target ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setTarget(option.target)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {target === 'triangles' ? (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="simplify-count" className="text-[10px] whitespace-nowrap">Keep (triangles)</Label>
+            <Input
+              id="simplify-count"
+              type="number"
+              min={4}
+              step={1000}
+              value={triangleCount}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (value >= 4) setTriangleCount(value);
+              }}
+              className="h-6 text-xs"
+            />
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="simplify-tolerance" className="text-[10px] whitespace-nowrap">Max deviation (mm)</Label>
+            <Input
+              id="simplify-tolerance"
+              type="number"
+              min={0.001}
+              step={0.01}
+              value={tolerance}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) setTolerance(value);
+              }}
+              className="h-6 text-xs"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            <Switch id="simplify-remesh" checked={remesh} onCheckedChange={setRemesh} />
+            <Label htmlFor="simplify-remesh" className="text-[10px] whitespace-nowrap">Remesh</Label>
+          </div>
+          {remesh && (
+            <>
+              <Label htmlFor="simplify-edge" className="text-[10px] whitespace-nowrap">Edge (mm)</Label>
+              <Input
+                id="simplify-edge"
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={edgeLength}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setEdgeLength(value);
+                }}
+                className="h-6 text-xs"
+              />
+            </>
+          )}
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          Remeshing rebuilds closed models from even triangles, which booleans and repairs handle best.
+        </p>
+
+        {simplify.preview && (
+          <div className="grid grid-cols-2 gap-0.5 bg-muted rounded-md p-0.5">
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${!simplify.showPreview ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setSimplifyPreviewShown(false)}
+            >
+              Before: {formatCount(simplify.trianglesBefore)}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-6 px-1 text-[10px] rounded-sm ${simplify.showPreview ? 'bg-background shadow-sm' : ''}`}
+              onClick={() => setSimplifyPreviewShown(true)}
+            >
+              After: {formatCount(simplify.trianglesAfter ?? 0)}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={cancelSimplify}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 flex-1 text-xs"
+            onClick={handlePreview}
+            disabled={isCSGOperationLoading}
+          >
+            {isCSGOperationLoading ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Shrink className="h-3.5 w-3.5 mr-1" />
+            )}
+            Preview
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 flex-1 text-xs"
+            onClick={handleApply}
+            disabled={isCSGOperationLoading || !simplify.preview}
+          >
+            Apply
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import * as THREE from "three";
+import { useScene } from "@/hooks/use-scene";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { CSGCancelledError } from "@/lib/csgWorker";
+import {
+  ConnectorOptions,
+  ConnectorType,
+  DEFAULT_CONNECTOR_OPTIONS,
+  getFitSplitPlanes,
+  SplitPlane
+} from "@/lib/meshSplit";
+import type { Vec3Tuple } from "@shared/quote";
+import { CSGProgressIndicator } from "./CSGControls";
+import { Loader2, Plus, Scissors, X } from "lucide-react";
+
+type CutAxis = 'x' | 'y' | 'z';
+
+// A cut across one world axis at a position in mm
+interface AxisCut {
+  axis: CutAxis;
+  position: number;
+}
+
+const AXIS_NORMALS: Record<CutAxis, Vec3Tuple> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1]
+};
+
+const CONNECTOR_TYPES: { type: ConnectorType; label: string }[] = [
+  { type: 'none', label: 'None' },
+  { type: 'peg', label: 'Pegs and holes' },
+  { type: 'dovetail', label: 'Dovetail' }
+];
+
+const CONNECTOR_DIMENSIONS: { key: 'size' | 'depth' | 'clearance'; label: string; step: number }[] = [
+  { key: 'size', label: 'Size', step: 0.5 },
+  { key: 'depth', label: 'Depth', step: 0.5 },
+  { key: 'clearance', label: 'Play', step: 0.05 }
+];
+
+function toSplitPlane(cut: AxisCut): SplitPlane {
+  return { normal: AXIS_NORMALS[cut.axis], offset: cut.position };
+}
+
+// Cuts found by the fit-to-printer search are always axis aligned
+function toAxisCut(plane: SplitPlane): AxisCut {
+  const axis = (Object.keys(AXIS_NORMALS) as CutAxis[]).find(key => AXIS_NORMALS[key].every((value, i) => value === plane.normal[i])) ?? 'x';
+  return { axis, position: plane.offset };
+}
+
+// Cut the selected model into printable pieces with optional alignment connectors
+export function SplitTools() {
+  const { models, selectedModelIndex, buildPlate, splitModel, setSplitPreview, isCSGOperationLoading } = useScene();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [cuts, setCuts] = useState<AxisCut[]>([]);
+  const [connectors, setConnectors] = useState<ConnectorOptions>(DEFAULT_CONNECTOR_OPTIONS);
+
+  const model = selectedModelIndex !== null ? models[selectedModelIndex] : undefined;
+
+  const getModelBounds = () => {
+    if (!model) return null;
+    model.mesh.updateMatrixWorld(true);
+    return new THREE.Box3().setFromObject(model.mesh, true);
+  };
+
+  // Start from the cuts that make the model fit the printer
+  const fitToPrinter = (announce = true) => {
+    const bounds = getModelBounds();
+    if (!bounds) return;
+
+    const margin = connectors.type === 'none' ? 0 : connectors.depth;
+    const fitted = getFitSplitPlanes(bounds, buildPlate, margin).map(toAxisCut);
+    setCuts(fitted);
+
+    if (announce && fitted.length === 0) {
+      toast({
+        title: "Already fits",
+        description: `${model?.name} fits the ${buildPlate.width} x ${buildPlate.depth} x ${buildPlate.height} mm build volume`,
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fitToPrinter(false);
+    }
+  }, [open, selectedModelIndex]);
+
+  // Keep the cut planes visible in the viewport while the popover is open
+  useEffect(() => {
+    setSplitPreview(open ? selectedModelIndex : null, cuts.map(toSplitPlane));
+  }, [open, selectedModelIndex, cuts]);
+
+  const addCut = () => {
+    const bounds = getModelBounds();
+    const centre = bounds ? bounds.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+    setCuts([...cuts, { axis: 'x', position: Number(centre.x.toFixed(1)) }]);
+  };
+
+  const updateCut = (index: number, cut: Partial<AxisCut>) => {
+    setCuts(cuts.map((existing, i) => {
+      if (i !== index) return existing;
+      // A new axis starts at the middle of the model along it
+      if (cut.axis && cut.axis !== existing.axis) {
+        const centre = getModelBounds()?.getCenter(new THREE.Vector3());
+        return { axis: cut.axis, position: centre ? Number(centre[cut.axis].toFixed(1)) : 0 };
+      }
+      return { ...existing, ...cut };
+    }));
+  };
+
+  const handleSplit = async () => {
+    if (selectedModelIndex === null || cuts.length === 0) return;
+
+    try {
+      const { pieceCount, connectorCount, skippedFaces } = await splitModel(selectedModelIndex, cuts.map(toSplitPlane), connectors);
+      setOpen(false);
+      setCuts([]);
+
+      const connectorNote = connectors.type === 'none'
+        ? ''
+        : ` with ${connectorCount} ${connectorCount === 1 ? 'connector' : 'connectors'}`;
+      toast({
+        title: `Split into ${pieceCount} pieces`,
+        description: skippedFaces > 0
+          ? `Cut${connectorNote}. ${skippedFaces} cut ${skippedFaces === 1 ? 'face was' : 'faces were'} too small for a connector.`
+          : `Cut${connectorNote}. Use Arrange All to lay the pieces out on the plate.`,
+      });
+    } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: "Split cancelled",
+          description: "The model was left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
+      toast({
+        title: "Split failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={!model}
+            >
+              <Scissors className={model ? "text-foreground" : "text-muted-foreground"} size={16} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-3" align="center">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm leading-none">Split {model?.name}</h4>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => fitToPrinter()}>
+                  Fit to Printer
+                </Button>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label className="text-xs">Cuts (mm)</Label>
+                {cuts.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No cuts. Add one or fit the model to the printer.</p>
+                )}
+                {cuts.map((cut, index) => (
+                  <div key={index} className="flex items-center gap-1.5">
+                    <Select value={cut.axis} onValueChange={(axis) => updateCut(index, { axis: axis as CutAxis })}>
+                      <SelectTrigger className="h-7 w-16 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(AXIS_NORMALS) as CutAxis[]).map(axis => (
+                          <SelectItem key={axis} value={axis} className="text-xs">{axis.toUpperCase()}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step={1}
+                      value={cut.position}
+                      onChange={(e) => updateCut(index, { position: parseFloat(e.target.value) || 0 })}
+                      className="h-7 text-xs"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => setCuts(cuts.filter((_, i) => i !== index))}
+                    >
+                      <X size={14} />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" className="h-7 w-full text-xs" onClick={addCut}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Cut
+                </Button>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="connector-type" className="text-xs">Connectors</Label>
+                <Select
+                  value={connectors.type}
+                  onValueChange={(type) => setConnectors({ ...connectors, type: type as ConnectorType })}
+                >
+                  <SelectTrigger id="connector-type" className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONNECTOR_TYPES.map(({ type, label }) => (
+                      <SelectItem key={type} value={type} className="text-xs">{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {connectors.type !== 'none' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {CONNECTOR_DIMENSIONS.map(({ key, label, step }) => (
+                      <div key={key} className="space-y-1">
+                        <Label htmlFor={`connector-${key}`} className="text-xs">{label}</Label>
+                        <Input
+                          id={`connector-${key}`}
+                          type="number"
+                          min={0}
+                          step={step}
+                          value={connectors[key]}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value >= 0) setConnectors({ ...connectors, [key]: value });
+                          }}
+                          className="h-7 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <CSGProgressIndicator />
+
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={handleSplit}
+                disabled={cuts.length === 0 || isCSGOperationLoading}
+              >
+                {isCSGOperationLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Scissors className="h-4 w-4 mr-2" />
+                )}
+                Split into Pieces
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Split Model</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -22,6 +22,15 @@ import { useAuth } from "@/context/AuthContext";
 import { uploadAsset } from '@/lib/firebase';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
 import { eventBus, EVENTS } from '@/lib/events';
+import { formatRepairReport, repairChangedMesh } from '@/lib/meshRepair';
+import { CSGCancelledError } from '@/lib/csgWorker';
+import { CSGProgressIndicator, BooleanEngineSelect, CSGTreePanel, EdgeBlendControls } from './CSGControls';
+import { HistoryPanel } from './HistoryPanel';
+import { PlacementTools } from './PlacementTools';
+import { SplitTools } from './SplitTools';
+import { SectionViewTools } from './SectionViewTools';
+import { MeasureButton } from './MeasureTools';
+import { DiagnosticsTools } from './DiagnosticsTools';
 
 export const ToolBar = () => {
   const { 
@@ -29,6 +38,8 @@ export const ToolBar = () => {
     redo, 
     canUndo, 
     canRedo, 
+    history,
+    currentHistoryIndex,
     renderingMode, 
     setRenderingMode,
     cameraView, 
@@ -54,12 +65,19 @@ export const ToolBar = () => {
   const [combineOptionsOpen, setCombineOptionsOpen] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [isSavingToDrafts, setIsSavingToDrafts] = useState(false);
+  // Additional tool models for N-ary booleans, beyond the primary and secondary selection
+  const [extraOperandIndices, setExtraOperandIndices] = useState<number[]>([]);
+  const validExtraOperands = extraOperandIndices.filter(index =>
+    index < models.length && index !== selectedModelIndex && index !== secondaryModelIndex
+  );
 
   const handleUndo = () => {
     if (canUndo) {
+      const step = history[currentHistoryIndex];
       undo();
       toast({
         title: "Action undone",
+        description: step?.label,
         duration: 2000,
       });
     }
@@ -67,9 +85,11 @@ export const ToolBar = () => {
 
   const handleRedo = () => {
     if (canRedo) {
+      const step = history[currentHistoryIndex + 1];
       redo();
       toast({
         title: "Action redone",
+        description: step?.label,
         duration: 2000,
       });
     }
@@ -125,16 +145,28 @@ export const ToolBar = () => {
     });
     
     try {
-      await performCSGOperation(operationType);
+      await performCSGOperation(operationType, [selectedModelIndex, secondaryModelIndex, ...validExtraOperands]);
+      setExtraOperandIndices([]);
+      const repairReport = useScene.getState().lastRepairReport;
       toast({
         title: "Operation complete",
-        description: `${operationNames[operationType]} operation was successful`,
+        description: repairReport && repairChangedMesh(repairReport)
+          ? `${operationNames[operationType]} operation was successful. ${formatRepairReport(repairReport)}`
+          : `${operationNames[operationType]} operation was successful`,
         duration: 2000,
       });
       
       // Close popover when done
       setCombineOptionsOpen(false);
     } catch (error) {
+      if (error instanceof CSGCancelledError) {
+        toast({
+          title: "Operation cancelled",
+          description: "Your models were left unchanged",
+          duration: 2000,
+        });
+        return;
+      }
       toast({
         title: "Operation failed",
         description: error instanceof Error ? error.message : "Unknown error",
@@ -186,7 +218,8 @@ export const ToolBar = () => {
       originalPosition,
       originalRotation,
       originalScale,
-      ...(modelToCopy.textProps ? { textProps: { ...modelToCopy.textProps } } : {})
+      ...(modelToCopy.textProps ? { textProps: { ...modelToCopy.textProps } } : {}),
+      ...(modelToCopy.primitive ? { primitive: { ...modelToCopy.primitive } } : {})
     };
 
     // Add to scene and state
@@ -341,6 +374,8 @@ export const ToolBar = () => {
         </TooltipContent>
       </Tooltip>
 
+      <HistoryPanel />
+
       <Separator orientation="vertical" className="h-6 mx-0.5" />
       
       <Tooltip>
@@ -379,6 +414,10 @@ export const ToolBar = () => {
 
       <Separator orientation="vertical" className="h-6 mx-0.5" />
 
+      <PlacementTools />
+
+      <Separator orientation="vertical" className="h-6 mx-0.5" />
+
       {/* Save to Drafts Button */}
       <Tooltip>
         <TooltipTrigger asChild>
@@ -463,7 +502,7 @@ export const ToolBar = () => {
                     <div 
                       key={`model-${index}`}
                       className={`flex items-center justify-between p-1 rounded mb-1 text-xs ${
-                        index === selectedModelIndex || index === secondaryModelIndex
+                        index === selectedModelIndex || index === secondaryModelIndex || validExtraOperands.includes(index)
                         ? 'bg-muted/80'
                         : 'hover:bg-muted/50'
                       }`}
@@ -471,7 +510,7 @@ export const ToolBar = () => {
                       <div className="flex items-center space-x-1.5">
                         <Checkbox 
                           id={`model-${index}`}
-                          checked={index === selectedModelIndex || index === secondaryModelIndex}
+                          checked={index === selectedModelIndex || index === secondaryModelIndex || validExtraOperands.includes(index)}
                           onCheckedChange={(checked) => {
                             if (checked) {
                               if (selectedModelIndex === null) {
@@ -479,8 +518,8 @@ export const ToolBar = () => {
                               } else if (secondaryModelIndex === null) {
                                 selectSecondaryModel(index);
                               } else {
-                                // If both are already selected, update the secondary selection
-                                selectSecondaryModel(index);
+                                // If both are already selected, add it as another tool
+                                setExtraOperandIndices([...validExtraOperands, index]);
                               }
                             } else {
                               // Deselect the appropriate model
@@ -488,6 +527,8 @@ export const ToolBar = () => {
                                 selectModel(null);
                               } else if (index === secondaryModelIndex) {
                                 selectSecondaryModel(null);
+                              } else {
+                                setExtraOperandIndices(validExtraOperands.filter(i => i !== index));
                               }
                             }
                           }}
@@ -502,6 +543,11 @@ export const ToolBar = () => {
                             {index === selectedModelIndex ? "Primary" : "Secondary"}
                           </span>
                         )}
+                        {validExtraOperands.includes(index) && (
+                          <span className="text-xs bg-muted text-muted-foreground px-1.5 py-0.5 rounded mr-1.5 text-[10px]">
+                            Tool
+                          </span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -509,6 +555,8 @@ export const ToolBar = () => {
                 
                 <Separator className="my-1" />
                 
+                <BooleanEngineSelect />
+                
                 <div className="grid grid-cols-3 gap-1.5">
                   <Button
                     variant="outline"
@@ -535,6 +583,12 @@ export const ToolBar = () => {
                     {isCSGOperationLoading ? <span className="animate-pulse">Processing...</span> : "Intersect"}
                   </Button>
                 </div>
+                
+                <CSGProgressIndicator />
+                
+                <CSGTreePanel />
+                
+                <EdgeBlendControls onStart={() => setCombineOptionsOpen(false)} />
               </div>
             </PopoverContent>
           </Popover>
@@ -544,6 +598,10 @@ export const ToolBar = () => {
         </TooltipContent>
       </Tooltip>
 
+      <SplitTools />
+
+      <DiagnosticsTools />
+
       <Separator orientation="vertical" className="h-6 mx-0.5" />
 
       {/* Model List */}
@@ -621,6 +679,8 @@ export const ToolBar = () => {
 
       {/* Rendering Mode */}
       <div className="flex items-center space-x-1.5">
+        <MeasureButton />
+        <SectionViewTools />
         <Select value={renderingMode} onValueChange={handleRenderingModeChange}>
           <SelectTrigger className="w-[110px] h-7 text-xs px-2">
             <SelectValue placeholder="Rendering Mode" />
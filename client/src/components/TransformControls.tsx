@@ -21,7 +21,11 @@ import {
   ArrowDown,
   MousePointer,
   Ruler,
-  Box
+  Box,
+  Wand2,
+  Slice,
+  SquareDashed,
+  Shrink
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -35,6 +39,12 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Box3, Vector3 } from "three";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { PlaneCutPanel } from "./PlaneCutPanel";
+import { EdgeBlendPanel } from "./EdgeBlendPanel";
+import { HollowPanel } from "./HollowPanel";
+import { SimplifyPanel } from "./SimplifyPanel";
+import { PrimitiveInspector } from "./PrimitiveInspector";
 
 const TRANSFORM_MODES = [
   { id: "translate", label: "Move", icon: MoveIcon },
@@ -65,6 +75,17 @@ export function TransformControls({ className }: { className?: string }) {
     setTransformMode, 
     applyTransform, 
     resetTransform,
+    optimizeOrientation,
+    cutPlane,
+    startPlaneCut,
+    cancelPlaneCut,
+    edgeBlend,
+    hollow,
+    startHollow,
+    cancelHollow,
+    simplify,
+    startSimplify,
+    cancelSimplify,
     selectedModelIndex,
     models,
     setModelPosition,
@@ -77,6 +98,10 @@ export function TransformControls({ className }: { className?: string }) {
     setUnit,
     convertValue
   } = useScene();
+  const { toast } = useToast();
+  
+  // The plane cut, edge blend, hollow and simplify panels take the place of the transform cards
+  const toolPanelOpen = !!(cutPlane || edgeBlend || hollow || simplify);
   
   // State for direct input values
   const [positionValues, setPositionValues] = useState({ x: 0, y: 0, z: 0 });
@@ -158,6 +183,18 @@ export function TransformControls({ className }: { className?: string }) {
     }
   }, [selectedModelIndex, models]);
   
+  // Find the pose that needs the least support and report what changed
+  const handleOptimizeOrientation = () => {
+    const result = optimizeOrientation();
+    if (!result) return;
+    
+    const { best, current } = result;
+    toast({
+      title: best === current ? "Already in the best orientation" : "Orientation optimized",
+      description: `Support area ${current.supportArea.toFixed(0)} → ${best.supportArea.toFixed(0)} mm², height ${current.height.toFixed(1)} → ${best.height.toFixed(1)} mm`,
+    });
+  };
+  
   // Handle transform operations
   const handleTransform = (operation: string, direction: number) => {
     applyTransform(operation as any, direction as any);
@@ -410,6 +447,70 @@ export function TransformControls({ className }: { className?: string }) {
                     </TooltipContent>
                   </Tooltip>
                   
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 w-7"
+                        onClick={handleOptimizeOrientation}
+                      >
+                        <Wand2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Optimize Orientation for Printing</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn("h-7 w-7", cutPlane && "bg-accent")}
+                        onClick={() => cutPlane ? cancelPlaneCut() : startPlaneCut()}
+                      >
+                        <Slice className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{cutPlane ? "Cancel Plane Cut (Esc)" : "Cut with Plane"}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn("h-7 w-7", hollow && "bg-accent")}
+                        onClick={() => hollow ? cancelHollow() : startHollow()}
+                      >
+                        <SquareDashed className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{hollow ? "Cancel Hollow (Esc)" : "Hollow to Save Material"}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn("h-7 w-7", simplify && "bg-accent")}
+                        onClick={() => simplify ? cancelSimplify() : startSimplify()}
+                      >
+                        <Shrink className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{simplify ? "Cancel Simplify (Esc)" : "Simplify Mesh"}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <div className="flex items-center space-x-1">
@@ -461,7 +562,17 @@ export function TransformControls({ className }: { className?: string }) {
                   </div>
                 </div>
 
-                {transformMode === "translate" && (
+                {cutPlane && <PlaneCutPanel />}
+
+                {edgeBlend && <EdgeBlendPanel />}
+
+                {hollow && <HollowPanel />}
+
+                {simplify && <SimplifyPanel />}
+
+                {!toolPanelOpen && <PrimitiveInspector />}
+
+                {!toolPanelOpen && transformMode === "translate" && (
                   <div className="space-y-1.5">
                     <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
                       <div className="space-y-1">
@@ -543,7 +654,7 @@ export function TransformControls({ className }: { className?: string }) {
                   </div>
                 )}
                 
-                {transformMode === "rotate" && (
+                {!toolPanelOpen && transformMode === "rotate" && (
                   <div className="space-y-1.5">
                     <Card className="bg-background/80 backdrop-blur-sm p-1.5 border">
                       <div className="space-y-1">
@@ -625,7 +736,7 @@ export function TransformControls({ className }: { className?: string }) {
                   </div>
                 )}
                 
-                {transformMode === "scale" && (
+                {!toolPanelOpen && transformMode === "scale" && (
                   <div className="space-y-1.5">
                     <div className="flex items-center space-x-2 justify-between">
                       <div className="flex items-center">
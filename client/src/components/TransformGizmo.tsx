@@ -23,7 +23,8 @@ export function TransformGizmo() {
     setModelPosition,
     orbitControls,
     saveHistoryState,
-    syncTransformUIState
+    syncTransformUIState,
+    cutPlane
   } = useScene();
 
   // Create our custom transform controls when component mounts
@@ -112,6 +113,9 @@ export function TransformGizmo() {
     const handleMouseDown = (event: MouseEvent) => {
       if (selectedModelIndex === null || !models[selectedModelIndex]) return;
       
+      // The cutting plane gizmo takes over while a cut is being placed
+      if (useScene.getState().cutPlane) return;
+      
       // Get mouse position in normalized device coordinates (-1 to +1)
       const rect = renderer.domElement.getBoundingClientRect();
       mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -272,7 +276,7 @@ export function TransformGizmo() {
     console.log("TransformGizmo: Selection changed", { selectedModelIndex });
     
     // Hide or show the transform group based on selection
-    if (selectedModelIndex !== null && models[selectedModelIndex]) {
+    if (selectedModelIndex !== null && models[selectedModelIndex] && !cutPlane) {
       // Show controls
       transformGroupRef.current.visible = true;
       
@@ -289,10 +293,13 @@ export function TransformGizmo() {
         renderer.render(scene, camera);
       }
     } else {
-      // Hide controls if no model is selected
+      // Hide controls if no model is selected or a cut is being placed
       transformGroupRef.current.visible = false;
+      if (renderer && camera) {
+        renderer.render(scene, camera);
+      }
     }
-  }, [selectedModelIndex, models, scene, camera, renderer]);
+  }, [selectedModelIndex, models, scene, camera, renderer, cutPlane]);
   
   // Update controls based on transform mode
   useEffect(() => {
@@ -310,5 +317,187 @@ export function TransformGizmo() {
   }, [transformMode, scene, camera, renderer]);
   
   // This component doesn't render any DOM elements
+  return <CutPlaneGizmo />;
+} 
+const CUT_PLANE_COLOR = 0xff9800;
+const CUT_RING_COLORS = [0xff4081, 0x40c4ff];
+
+// Point on the line through origin along direction that passes closest to the ray, as a distance along the line
+function closestAlongLine(origin: THREE.Vector3, direction: THREE.Vector3, ray: THREE.Ray): number | null {
+  const w = new THREE.Vector3().subVectors(origin, ray.origin);
+  const b = direction.dot(ray.direction);
+  const denominator = 1 - b * b;
+  // Looking straight down the line gives no usable position
+  if (denominator < 1e-6) return null;
+  return (b * ray.direction.dot(w) - direction.dot(w)) / denominator;
+}
+
+function isPartOf(object: THREE.Object3D | null, root: THREE.Object3D): boolean {
+  for (let current = object; current; current = current.parent) {
+    if (current === root) return true;
+  }
+  return false;
+}
+
+// Cutting plane for the plane cut tool. Drag its arrow to slide it along its
+// normal, drag a ring to tilt it about that ring's axis.
+function CutPlaneGizmo() {
+  const { scene, camera, renderer, orbitControls, models, selectedModelIndex, cutPlane, setCutPlane, cancelPlaneCut } = useScene();
+  const gizmoRef = useRef<THREE.Group | null>(null);
+
+  const model = cutPlane ? models.find(candidate => candidate.id === cutPlane.modelId) : undefined;
+  const modelId = model?.id;
+
+  // Drop the cut when its model goes away, e.g. after an undo, or another model is selected
+  useEffect(() => {
+    if (cutPlane && (!model || selectedModelIndex === null || models[selectedModelIndex] !== model)) {
+      cancelPlaneCut();
+    }
+  }, [cutPlane, model, models, selectedModelIndex, cancelPlaneCut]);
+
+  // Build the handles once per model, sized to cover it
+  useEffect(() => {
+    if (!scene || !camera || !renderer || !model) return;
+
+    model.mesh.updateMatrixWorld(true);
+    const size = new THREE.Box3().setFromObject(model.mesh, true).getSize(new THREE.Vector3()).length() || 10;
+
+    const group = new THREE.Group();
+    group.name = 'cutPlaneGizmo';
+
+    // The plane lies in the group's XY plane with the normal along +Z
+    const plane = new THREE.Mesh(
+      new THREE.PlaneGeometry(size * 1.2, size * 1.2),
+      new THREE.MeshBasicMaterial({ color: CUT_PLANE_COLOR, transparent: true, opacity: 0.25, side: THREE.DoubleSide, depthWrite: false })
+    );
+    plane.add(new THREE.LineSegments(new THREE.EdgesGeometry(plane.geometry), new THREE.LineBasicMaterial({ color: CUT_PLANE_COLOR })));
+    group.add(plane);
+
+    // The arrow points at the side kept by 'Keep arrow side'
+    const arrow = new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), new THREE.Vector3(), size * 0.45, CUT_PLANE_COLOR, size * 0.08, size * 0.05);
+    group.add(arrow);
+
+    // Tilt rings about the plane's own X and Y axes
+    const rings = CUT_RING_COLORS.map((color, i) => {
+      const ring = new THREE.Mesh(
+        new THREE.TorusGeometry(size * 0.35, Math.max(size * 0.012, 0.3), 8, 64),
+        new THREE.MeshBasicMaterial({ color })
+      );
+      if (i === 0) ring.rotation.y = Math.PI / 2;
+      else ring.rotation.x = Math.PI / 2;
+      group.add(ring);
+      return ring;
+    });
+    const ringAxes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0)];
+
+    scene.add(group);
+    gizmoRef.current = group;
+
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const updateRay = (event: PointerEvent) => {
+      const rect = renderer.domElement.getBoundingClientRect();
+      pointer.set(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+    };
+
+    type Drag =
+      | { kind: 'slide'; origin: THREE.Vector3; normal: THREE.Vector3; start: number }
+      | { kind: 'tilt'; origin: THREE.Vector3; normal: THREE.Vector3; axis: THREE.Vector3; start: THREE.Vector3 };
+    let drag: Drag | null = null;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!drag) return;
+      updateRay(event);
+
+      if (drag.kind === 'slide') {
+        const along = closestAlongLine(drag.origin, drag.normal, raycaster.ray);
+        if (along === null) return;
+        setCutPlane({ origin: drag.origin.clone().addScaledVector(drag.normal, along - drag.start).toArray() });
+        return;
+      }
+
+      const hit = raycaster.ray.intersectPlane(new THREE.Plane().setFromNormalAndCoplanarPoint(drag.axis, drag.origin), new THREE.Vector3());
+      if (!hit) return;
+      const from = drag.start.clone().sub(drag.origin);
+      const to = hit.sub(drag.origin);
+      // Whole degrees keep typed-in and dragged angles tidy
+      const angle = THREE.MathUtils.degToRad(Math.round(THREE.MathUtils.radToDeg(
+        Math.atan2(drag.axis.dot(new THREE.Vector3().crossVectors(from, to)), from.dot(to))
+      )));
+      setCutPlane({ normal: drag.normal.clone().applyAxisAngle(drag.axis, angle).toArray() });
+    };
+
+    const handlePointerUp = () => {
+      drag = null;
+      setGizmoActive(false);
+      if (orbitControls) {
+        orbitControls.enabled = true;
+      }
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+
+    // Runs in the capture phase so a grabbed handle doesn't also start an orbit or a model drag
+    const handlePointerDown = (event: PointerEvent) => {
+      const current = useScene.getState().cutPlane;
+      if (event.button !== 0 || !current) return;
+
+      updateRay(event);
+      // The plane itself isn't a handle, so the view can still be orbited through it
+      const hit = raycaster.intersectObjects([arrow, ...rings], true)[0];
+      if (!hit) return;
+
+      event.stopImmediatePropagation();
+      event.preventDefault();
+      setGizmoActive(true);
+      if (orbitControls) {
+        orbitControls.enabled = false;
+      }
+
+      const origin = new THREE.Vector3().fromArray(current.origin);
+      const normal = new THREE.Vector3().fromArray(current.normal);
+      const ringIndex = rings.findIndex(ring => isPartOf(hit.object, ring));
+
+      if (ringIndex !== -1) {
+        const axis = ringAxes[ringIndex].clone().applyQuaternion(group.quaternion);
+        const start = raycaster.ray.intersectPlane(new THREE.Plane().setFromNormalAndCoplanarPoint(axis, origin), new THREE.Vector3()) ?? hit.point.clone();
+        drag = { kind: 'tilt', origin, normal, axis, start };
+      } else {
+        drag = { kind: 'slide', origin, normal, start: closestAlongLine(origin, normal, raycaster.ray) ?? 0 };
+      }
+
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+    };
+
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown, true);
+
+    return () => {
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown, true);
+      handlePointerUp();
+
+      scene.remove(group);
+      group.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+      gizmoRef.current = null;
+      renderer.render(scene, camera);
+    };
+  }, [scene, camera, renderer, orbitControls, modelId, setCutPlane]);
+
+  // Follow the plane as it is dragged or typed in
+  useEffect(() => {
+    const group = gizmoRef.current;
+    if (!group || !cutPlane) return;
+
+    group.position.fromArray(cutPlane.origin);
+    group.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), new THREE.Vector3().fromArray(cutPlane.normal));
+    renderer.render(scene, camera);
+  }, [cutPlane, modelId, scene, camera, renderer]);
+
   return null;
-} 
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import { useScene } from "@/hooks/use-scene";
 import { ViewCube } from "./ViewCube";
 import { TransformGizmo } from "./TransformGizmo";
+import { MeasurePanel } from "./MeasureTools";
 
 export function Viewport() {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -10,12 +11,14 @@ export function Viewport() {
     camera, 
     renderer, 
     initializeScene, 
+    restoreAutosave,
     models, 
     selectedModelIndex,
     cameraView,
     showGrid,
     showAxes,
-    setCameraView
+    setCameraView,
+    measureMode
   } = useScene();
   
   // Initialize scene when component mounts
@@ -27,9 +30,14 @@ export function Viewport() {
     // Initialize the scene with our container element
     const cleanup = initializeScene(containerRef.current);
     
+    // Bring back the last autosaved workspace on a fresh page load
+    if (useScene.getState().models.length === 0) {
+      restoreAutosave();
+    }
+    
     // Clean up when component unmounts
     return cleanup;
-  }, [initializeScene]);
+  }, [initializeScene, restoreAutosave]);
 
   // Add debug listener for mouse movement
   useEffect(() => {
@@ -151,6 +159,12 @@ export function Viewport() {
         </div>
       )}
       
+      {measureMode && (
+        <div className="absolute bottom-3 left-3 z-10">
+          <MeasurePanel />
+        </div>
+      )}
+      
       {/* Make sure TransformGizmo is the last component added */}
       <TransformGizmo />
     </div>
@@ -1,144 +1,230 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Vector3, Vector2, Raycaster, Camera, Scene, ArrowHelper, Line, BufferGeometry, LineBasicMaterial, Object3D } from 'three';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Vector3, Vector2, Raycaster, Group, Line, Points, BufferGeometry, LineBasicMaterial, Material } from 'three';
 import { useScene } from './use-scene';
+import { useViewportClick } from './use-viewport-click';
+import {
+  createMeasurement,
+  createPointMarkers,
+  getPickCount,
+  MEASUREMENT_COLOR,
+  MeasurementKind,
+  MeasurementPick,
+  snapIntersection,
+  SnapKind
+} from '@/lib/measurement';
 
-interface MeasurementPoint {
-  position: Vector3;
-  object?: Object3D;
-}
+const PREVIEW_NAME = 'measurementPreview';
+
+// Hover marker colors, so it's clear what a click will snap to
+const SNAP_COLORS: Record<SnapKind, number> = {
+  vertex: 0x00e676,
+  edge: 0x00b0ff,
+  face: 0xffffff
+};
 
 export function useMeasurement() {
-  const { scene, camera } = useScene();
-  const [isActive, setIsActive] = useState(false);
-  const [points, setPoints] = useState<MeasurementPoint[]>([]);
-  const [measurementLine, setMeasurementLine] = useState<Line | null>(null);
-  const [distance, setDistance] = useState<number | null>(null);
-  const [unit, setUnit] = useState('units');
-
-  // Initialize the measurement functionality
+  const {
+    scene,
+    camera,
+    renderer,
+    unit,
+    measureMode,
+    setMeasureMode,
+    measurements,
+    addMeasurement,
+    removeMeasurement,
+    clearMeasurements
+  } = useScene();
+  const [kind, setKindState] = useState<MeasurementKind>('distance');
+  const [picks, setPicks] = useState<MeasurementPick[]>([]);
+  const [hover, setHover] = useState<MeasurementPick | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Listeners read the latest picks without being rebound on every click
+  const picksRef = useRef<MeasurementPick[]>([]);
+  const kindRef = useRef<MeasurementKind>('distance');
+
+  const updatePicks = useCallback((next: MeasurementPick[]) => {
+    picksRef.current = next;
+    setPicks(next);
+  }, []);
+
+  const setKind = useCallback((next: MeasurementKind) => {
+    kindRef.current = next;
+    setKindState(next);
+    setError(null);
+    updatePicks([]);
+  }, [updatePicks]);
+
   const initialize = useCallback(() => {
-    if (!scene || !camera) return;
-    
-    setIsActive(true);
-    setPoints([]);
-    setDistance(null);
-    
-    // Clean up any existing measurement visual aids
-    if (measurementLine && scene) {
-      scene.remove(measurementLine);
-      setMeasurementLine(null);
-    }
-    
-    console.log('Measurement mode initialized');
-  }, [scene, camera]);
+    updatePicks([]);
+    setError(null);
+    setMeasureMode(true);
+  }, [setMeasureMode, updatePicks]);
 
-  // Clean up the measurement functionality
   const cleanup = useCallback(() => {
-    setIsActive(false);
-    setPoints([]);
-    setDistance(null);
-    
-    // Remove measurement visual aids
-    if (measurementLine && scene) {
-      scene.remove(measurementLine);
-      setMeasurementLine(null);
-    }
-    
-    console.log('Measurement mode cleaned up');
-  }, [scene, measurementLine]);
-
-  // Add a point to the measurement
-  const addPoint = useCallback((x: number, y: number) => {
-    if (!isActive || !scene || !camera) return;
-    
-    const raycaster = new Raycaster();
+    updatePicks([]);
+    setHover(null);
+    setMeasureMode(false);
+  }, [setMeasureMode, updatePicks]);
+
+  // Drop the points picked so far for the measurement in progress
+  const clearPending = useCallback(() => {
+    updatePicks([]);
+    setError(null);
+  }, [updatePicks]);
+
+  // Raycast the models under a screen position and snap the hit to a corner or edge
+  const pickAt = useCallback((clientX: number, clientY: number): MeasurementPick | null => {
+    const canvas = renderer.domElement;
+    const rect = canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+
     const mouse = new Vector2(
-      (x / window.innerWidth) * 2 - 1,
-      -(y / window.innerHeight) * 2 + 1
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
     );
-    
+    const raycaster = new Raycaster();
     raycaster.setFromCamera(mouse, camera);
-    const intersects = raycaster.intersectObjects(scene.children, true);
-    
-    if (intersects.length > 0) {
-      const intersect = intersects[0];
-      const point: MeasurementPoint = {
-        position: intersect.point.clone(),
-        object: intersect.object
-      };
-      
-      // Add the point
-      setPoints(prevPoints => {
-        const newPoints = [...prevPoints, point];
-        
-        // If we have two points, calculate the distance
-        if (newPoints.length === 2) {
-          const dist = newPoints[0].position.distanceTo(newPoints[1].position);
-          setDistance(parseFloat(dist.toFixed(2)));
-          
-          // Draw a line between the points
-          drawMeasurementLine(newPoints[0].position, newPoints[1].position);
-        }
-        
-        // Limit to two points for now
-        return newPoints.slice(0, 2);
-      });
-      
-      return true;
+
+    const meshes = useScene.getState().models.map(model => model.mesh).filter(mesh => mesh.visible);
+    const [hit] = raycaster.intersectObjects(meshes, false);
+    if (!hit) return null;
+
+    const toScreen = (point: Vector3) => {
+      const projected = point.clone().project(camera);
+      return new Vector2((projected.x + 1) / 2 * rect.width, (1 - projected.y) / 2 * rect.height);
+    };
+    return snapIntersection(hit, toScreen);
+  }, [camera, renderer]);
+
+  const addPick = useCallback((pick: MeasurementPick) => {
+    const next = [...picksRef.current, pick];
+    const currentKind = kindRef.current;
+    if (next.length < getPickCount(currentKind)) {
+      updatePicks(next);
+      setError(null);
+      return;
     }
-    
-    return false;
-  }, [isActive, scene, camera]);
-
-  // Draw a line between two measurement points
-  const drawMeasurementLine = useCallback((start: Vector3, end: Vector3) => {
-    if (!scene) return;
-    
-    // Remove existing line
-    if (measurementLine) {
-      scene.remove(measurementLine);
+
+    const measurement = createMeasurement(currentKind, next);
+    updatePicks([]);
+    if (!measurement) {
+      setError(currentKind === 'radius'
+        ? 'The points are in a line, pick three points around the arc'
+        : currentKind === 'edge'
+          ? 'That isn\'t a sharp edge of the model, pick where two faces meet'
+          : 'Those points don\'t make a measurement');
+      return;
     }
-    
-    // Create line geometry
-    const geometry = new BufferGeometry().setFromPoints([start, end]);
-    const material = new LineBasicMaterial({ color: 0xffff00, linewidth: 2 });
-    const line = new Line(geometry, material);
-    
-    // Add to scene
-    scene.add(line);
-    setMeasurementLine(line);
-    
-  }, [scene, measurementLine]);
-
-  // Clear the current measurement
-  const clearMeasurement = useCallback(() => {
-    setPoints([]);
-    setDistance(null);
-    
-    if (measurementLine && scene) {
-      scene.remove(measurementLine);
-      setMeasurementLine(null);
+    setError(null);
+    addMeasurement(measurement);
+  }, [addMeasurement, updatePicks]);
+
+  // Clicks pick points, drags still orbit the view
+  const handleClick = useCallback((event: PointerEvent) => {
+    const pick = pickAt(event.clientX, event.clientY);
+    if (pick) {
+      addPick(pick);
     }
-  }, [scene, measurementLine]);
+  }, [pickAt, addPick]);
+  useViewportClick(measureMode ? handleClick : null);
 
-  // Clean up on unmount
+  // Hovering shows what a click would snap to, and Escape backs out of the tool
   useEffect(() => {
+    if (!measureMode) return;
+
+    const canvas = renderer.domElement;
+    let hoverFrame: number | null = null;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.buttons !== 0 || hoverFrame !== null) return;
+      hoverFrame = requestAnimationFrame(() => {
+        hoverFrame = null;
+        setHover(pickAt(event.clientX, event.clientY));
+      });
+    };
+
+    // Escape drops the points picked so far, then leaves the tool
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (picksRef.current.length > 0) {
+        clearPending();
+      } else {
+        cleanup();
+      }
+    };
+
+    canvas.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('keydown', handleKeyDown);
+
     return () => {
-      if (measurementLine && scene) {
-        scene.remove(measurementLine);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('keydown', handleKeyDown);
+      if (hoverFrame !== null) {
+        cancelAnimationFrame(hoverFrame);
+      }
+      setHover(null);
+    };
+  }, [measureMode, renderer, pickAt, clearPending, cleanup]);
+
+  // Show the picked points and what the cursor would snap to
+  useEffect(() => {
+    const preview = new Group();
+    preview.name = PREVIEW_NAME;
+
+    if (picks.length > 0) {
+      preview.add(createPointMarkers(picks.map(pick => pick.point)));
+    }
+    if (hover) {
+      preview.add(createPointMarkers([hover.point], SNAP_COLORS[hover.snap], 10));
+      // Edge mode measures the whole triangle edge, so show which one
+      if (kind === 'edge' && hover.edge) {
+        const edge = new Line(
+          new BufferGeometry().setFromPoints(hover.edge),
+          new LineBasicMaterial({ color: MEASUREMENT_COLOR, depthTest: false, transparent: true })
+        );
+        edge.renderOrder = 1000;
+        edge.raycast = () => {};
+        preview.add(edge);
       }
+    }
+
+    scene.add(preview);
+    renderer.render(scene, camera);
+
+    return () => {
+      scene.remove(preview);
+      preview.traverse(child => {
+        if (child instanceof Line || child instanceof Points) {
+          child.geometry.dispose();
+          (child.material as Material).dispose();
+        }
+      });
+    };
+  }, [scene, camera, renderer, picks, hover, kind]);
+
+  // Leave the tool when the component using it goes away
+  useEffect(() => {
+    return () => {
+      useScene.getState().setMeasureMode(false);
     };
-  }, [scene, measurementLine]);
+  }, []);
 
   return {
-    isActive,
-    points,
-    distance,
+    isActive: measureMode,
+    kind,
+    setKind,
+    picks,
+    pickCount: getPickCount(kind),
+    hover,
+    error,
     unit,
-    setUnit,
+    measurements,
     initialize,
     cleanup,
-    addPoint,
-    clearMeasurement
+    clearPending,
+    removeMeasurement,
+    clearMeasurements
   };
-} 
\ No newline at end of file
+}
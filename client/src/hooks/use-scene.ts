@@ -3,7 +3,6 @@ import * as THREE from "three";
 import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
 import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { CSG } from 'three-csg-ts';
 import { SVGLoader } from "three/examples/jsm/loaders/SVGLoader.js";
 import { FontLoader } from "three/examples/jsm/loaders/FontLoader.js";
 import { TextGeometry, TextGeometryParameters } from "three/examples/jsm/geometries/TextGeometry.js";
@@ -14,10 +13,65 @@ import { Vector3 } from "three";
 import * as React from 'react';
 import * as BufferGeometryUtils from "three/examples/jsm/utils/BufferGeometryUtils.js";
 import { isGizmoBeingDragged } from '@/lib/dragState';
+import {
+  serializeProject,
+  deserializeModel,
+  projectToBlob,
+  readProjectFile,
+  saveAutosave,
+  loadAutosave,
+  getMeshColor,
+  ProjectFile
+} from '@/lib/project';
+import { export3MF } from '@/lib/threemf';
+import type { BooleanOperationType, CSGTree } from '@/types/model';
+import { detectModelFormat, parseModelFile } from '@/lib/importers';
+import { DEFAULT_BOOLEAN_BACKEND, BooleanBackendName } from '@/lib/csg';
+import {
+  runBlendInWorker,
+  runBooleanInWorker,
+  runCutInWorker,
+  runHollowInWorker,
+  runSimplifyInWorker,
+  runSplitInWorker,
+  CSGCancelledError,
+  CSGProgress
+} from '@/lib/csgWorker';
+import { ConnectorOptions, CutKeep, DEFAULT_CONNECTOR_OPTIONS, SplitPlane } from '@/lib/meshSplit';
+import {
+  repairGeometry,
+  repairChangedMesh,
+  formatRepairReport,
+  MeshRepairReport
+} from '@/lib/meshRepair';
+import {
+  analyzeMeshPrintability,
+  createPrintabilityOverlay,
+  MeshPrintabilityAnalysis,
+  PrintabilityOverlayMode,
+  PrintabilitySummary
+} from '@/lib/printability';
+import { findBestOrientation, OrientationResult } from '@/lib/orientation';
+import {
+  BuildPlate,
+  DEFAULT_ARRANGE_GAP,
+  DEFAULT_BUILD_PLATE,
+  findFreeSpot,
+  packFootprints,
+  PlateRect
+} from '@/lib/arrange';
+import { CUSTOM_PRINTER_ID, DEFAULT_PRINTER_ID, getPrinterProfile, PRINTER_PROFILES } from '@/lib/printers';
+import { createMeasurementAnnotation, formatMeasurement, Measurement } from '@/lib/measurement';
+import { analyzeMeshDiagnostics, estimateWeightGrams, MeshDiagnostics } from '@/lib/meshDiagnostics';
+import { calculateQuote, computeMeshMetrics, getMaterialDensity } from '@shared/quote';
+import { createPrimitiveGeometry, normalizePrimitiveParams, PrimitiveParams } from '@/lib/primitives';
+import { EdgeBlendOptions, FeatureEdge, findFeatureEdges, transformFeatureEdge } from '@/lib/edgeBlend';
+import { DrainHole, getCavitySpacing, HollowSettings } from '@/lib/hollow';
+import { countTriangles, SimplifyOptions } from '@/lib/meshSimplify';
 
 // Scene configuration
-const GRID_SIZE = 500; // Much larger grid for better visibility
-const GRID_DIVISIONS = 100; // More divisions for finer grid
+const GRID_CELL_SIZE = 10; // One grid square per centimetre
+const GRID_PLATE_MARGIN = 2; // The grid spans twice the build plate so parts beside it stay on the grid
 const BACKGROUND_COLOR = 0x333333; // Dark gray
 
 // Define an array of vibrant, fun colors
@@ -131,10 +185,7 @@ const createFunMaterial = () => {
   });
 };
 
-// Maximum model size in inches - set to exactly 10 inches
-const MAX_SIZE_INCHES = 10;
 const MM_PER_INCH = 25.4;
-const MAX_SIZE_MM = MAX_SIZE_INCHES * MM_PER_INCH; // 254mm
 
 // Helper constants for transformation
 const TRANSFORM_STEP = 5.0;
@@ -143,16 +194,102 @@ const SCALE_STEP = 0.2;
 const SNAP_THRESHOLD = 1.0;
 const SNAP_GRID_SIZE = 2.0;
 
+// Height of the build plate; parts dropped onto the bed rest their lowest point here
+const BED_HEIGHT = 0;
+
+// Delay before the scene is autosaved after the last change
+const AUTOSAVE_DELAY_MS = 2000;
+
+// History commands only reference shared meshes, so many steps cost little memory
+const MAX_HISTORY_STEPS = 200;
+
 // Type for our 3D models
 type Model = {
   id: string;
   name: string;
-  type: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'text' | 'model' | 'torusknot' | 'octahedron' | 'icosahedron' | 'dodecahedron' | 'capsule' | 'pyramid' | 'svg';
+  type: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'text' | 'model' | 'torusknot' | 'octahedron' | 'icosahedron' | 'dodecahedron' | 'capsule' | 'pyramid' | 'svg' | 'hardware';
   mesh: THREE.Mesh;
   originalPosition: THREE.Vector3;
   originalRotation: THREE.Euler;
   originalScale: THREE.Vector3;
   textProps?: TextProps;
+  csgTree?: CSGTree;
+  primitive?: PrimitiveParams;
+};
+
+// New transform for an input of a boolean result (rotation in radians)
+type CSGOperandTransform = {
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: [number, number, number];
+};
+
+// Outcome of splitting a model into printable pieces
+type SplitModelResult = {
+  pieceCount: number;
+  connectorCount: number;
+  skippedFaces: number; // Cut faces too small for a connector
+};
+
+// Cutting plane being placed through a model, in world space
+type CutPlaneState = {
+  modelId: string;
+  origin: [number, number, number];
+  normal: [number, number, number]; // Unit length, points to the 'above' side
+};
+
+type SectionAxis = 'x' | 'y' | 'z';
+
+// Clipping plane across every model, for looking inside walls and cavities
+type SectionViewState = {
+  enabled: boolean;
+  axis: SectionAxis;
+  position: number; // mm along the axis, in world space
+  flipped: boolean; // Keep the side above the position instead of below
+};
+
+// Sharp edges of a model offered for filleting or chamfering, in the model's own space
+type EdgeBlendState = {
+  modelId: string;
+  edges: FeatureEdge[];
+  selected: boolean[]; // Parallel to edges
+};
+
+// Model being hollowed, with drain holes picked on it in the model's own space
+type HollowState = {
+  modelId: string;
+  holes: DrainHole[];
+};
+
+// Material taken out by hollowing, in world space, and what it does to the price of one PLA print
+type HollowResult = {
+  volumeBeforeMm3: number;
+  volumeAfterMm3: number;
+  priceBefore: number;
+  priceAfter: number;
+  cavitySpacingMm: number; // Grid the cavity was traced on; coarser than half the wall on large models
+};
+
+// Model being simplified, with the last previewed result in the model's own space
+type SimplifyState = {
+  modelId: string;
+  trianglesBefore: number;
+  preview: THREE.BufferGeometry | null;
+  trianglesAfter: number | null;
+  showPreview: boolean; // Show the preview in place of the model, or the model as it is
+};
+
+// Outcome of arranging every model on the build plate
+type ArrangeResult = {
+  placed: number;
+  unplaced: string[]; // Names of the models that didn't fit
+};
+
+// Diagnostics of a model, with its solid weight in a filament of the given density
+type ModelDiagnostics = MeshDiagnostics & {
+  modelId: string;
+  density: number; // g/cm³
+  weightGrams: number;
 };
 
 // Type for our transform operations
@@ -160,12 +297,47 @@ type TransformOperation = 'translateX' | 'translateY' | 'translateZ' |
                          'rotateX' | 'rotateY' | 'rotateZ' | 
                          'scaleX' | 'scaleY' | 'scaleZ';
 
-// Type for history tracking
-type HistoryRecord = {
-  models: Model[];
+// Lightweight record of one model's state for history. The mesh and geometry are
+// shared with the scene rather than cloned, so actions must assign new geometry
+// instead of editing the existing buffers in place.
+type ModelSnapshot = {
+  model: Model;
+  mesh: THREE.Mesh;
+  geometry: THREE.BufferGeometry;
+  color: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+  name: string;
+  textProps?: TextProps;
+  csgTree?: CSGTree;
+  primitive?: PrimitiveParams;
+};
+
+// State of the whole scene as of a history step
+type SceneSnapshot = {
+  order: string[];
+  models: Map<string, ModelSnapshot>;
   selectedModelIndex: number | null;
 };
 
+type HistoryCommandKind = 'add' | 'remove' | 'transform' | 'edit' | 'csg';
+
+// One undoable step. Only the models it touched are stored, keyed by model id;
+// a model missing from `before` was added by the step, one missing from `after` was removed.
+type HistoryCommand = {
+  id: number;
+  kind: HistoryCommandKind;
+  label: string;
+  timestamp: number;
+  before: Map<string, ModelSnapshot>;
+  after: Map<string, ModelSnapshot>;
+  orderBefore: string[];
+  orderAfter: string[];
+  selectionBefore: number | null;
+  selectionAfter: number | null;
+};
+
 // Type for our snap settings
 type SnapSettings = {
   enabled: boolean;
@@ -253,9 +425,21 @@ type SceneState = {
   
   // Loading states
   isCSGOperationLoading: boolean;
+  csgProgress: CSGProgress | null;
+  
+  // Mesh repair (runs on import and before boolean operations)
+  autoRepairMeshes: boolean;
+  lastRepairReport: MeshRepairReport | null;
+  setAutoRepairMeshes: (enabled: boolean) => void;
+  
+  // Printability heatmap drawn over one model; cleared whenever the scene changes
+  printabilityOverlay: { modelId: string; mode: PrintabilityOverlayMode; summary: PrintabilitySummary } | null;
+  showPrintabilityOverlay: (modelIndex: number, mode: PrintabilityOverlayMode) => PrintabilitySummary | null;
+  clearPrintabilityOverlay: () => void;
+  getMeshDiagnostics: (modelIndex?: number, density?: number) => ModelDiagnostics | null;
   
-  // History tracking for undo/redo
-  history: HistoryRecord[];
+  // History tracking for undo/redo; currentHistoryIndex is the last applied command, -1 at the start
+  history: HistoryCommand[];
   currentHistoryIndex: number;
   canUndo: boolean;
   canRedo: boolean;
@@ -269,16 +453,44 @@ type SceneState = {
   
   // Model management
   loadSTL: (file: File | string, name?: string) => Promise<void>;
+  loadModel: (file: File | string, name?: string) => Promise<void>;
   loadSVG: (file: File | string, extrudeDepth?: number) => Promise<void>;
   loadText: (text: string, options?: TextOptions) => Promise<void>;
   removeModel: (index: number) => void;
   selectModel: (index: number | null) => void;
   selectSecondaryModel: (index: number | null) => void;
+  updatePrimitive: (modelIndex: number, params: Partial<PrimitiveParams>) => void;
   
   // Transform operations - direct transforms without controls
   setTransformMode: (mode: "translate" | "rotate" | "scale") => void;
   applyTransform: (operation: TransformOperation, direction: 1 | -1) => void;
   resetTransform: () => void;
+  optimizeOrientation: (modelIndex?: number) => OrientationResult | null;
+  
+  // Build plate placement
+  layFlatMode: boolean; // While on, clicking a face rests that face on the bed
+  setLayFlatMode: (enabled: boolean) => void;
+  dropToBed: (target?: 'selected' | 'all') => void;
+  layFlatOnFace: (modelIndex: number, worldNormal: THREE.Vector3) => void;
+  
+  // Measurement tool; dimensions stay in the scene until removed
+  measureMode: boolean; // While on, clicks on models pick measurement points instead of selecting
+  setMeasureMode: (enabled: boolean) => void;
+  measurements: Measurement[];
+  addMeasurement: (measurement: Measurement) => void;
+  removeMeasurement: (id: string) => void;
+  clearMeasurements: () => void;
+  
+  // Build plate size and nesting; the plate follows the selected printer profile
+  printerProfileId: string;
+  setPrinterProfile: (id: string) => void;
+  outOfBoundsModelIds: string[]; // Models reaching outside the build volume
+  buildPlate: BuildPlate;
+  arrangeGap: number; // mm between parts when arranging
+  setBuildPlate: (plate: Partial<BuildPlate>) => void;
+  setArrangeGap: (gap: number) => void;
+  arrangeAll: () => ArrangeResult;
+  findPlacementOnPlate: (bounds: THREE.Box3, exclude?: THREE.Object3D[]) => THREE.Vector3;
   
   // Direct transform methods
   setModelPosition: (x: number, y: number, z: number) => void;
@@ -286,12 +498,45 @@ type SceneState = {
   setModelScale: (x: number, y: number, z: number) => void;
   
   // CSG operations
-  performCSGOperation: (operationType: 'union' | 'subtract' | 'intersect') => Promise<void>;
+  performCSGOperation: (operationType: 'union' | 'subtract' | 'intersect', operandIndices?: number[]) => Promise<void>;
+  updateCSGOperand: (modelIndex: number, path: number[], transform: CSGOperandTransform) => Promise<void>;
+  restoreCSGOperands: (modelIndex: number) => void;
+  cancelCSGOperation: () => void;
+  splitModel: (modelIndex: number, planes: SplitPlane[], connectors?: ConnectorOptions) => Promise<SplitModelResult>;
+  setSplitPreview: (modelIndex: number | null, planes?: SplitPlane[]) => void;
+  cutPlane: CutPlaneState | null; // Set while the plane cut gizmo is shown
+  startPlaneCut: (modelIndex?: number) => void;
+  setCutPlane: (plane: Partial<Pick<CutPlaneState, 'origin' | 'normal'>>) => void;
+  cancelPlaneCut: () => void;
+  applyPlaneCut: (keep: CutKeep, sectionThickness?: number) => Promise<number>;
+  sectionView: SectionViewState;
+  setSectionView: (settings: Partial<SectionViewState>) => void;
+  edgeBlend: EdgeBlendState | null; // Set while picking edges to fillet or chamfer
+  startEdgeBlend: (modelIndex?: number) => number;
+  toggleBlendEdge: (edgeIndex: number) => void;
+  setBlendEdgesSelected: (selected: boolean) => void;
+  cancelEdgeBlend: () => void;
+  applyEdgeBlend: (options: EdgeBlendOptions) => Promise<number>;
+  hollow: HollowState | null; // Set while setting up a hollow and picking drain holes
+  startHollow: (modelIndex?: number) => void;
+  addDrainHole: (hole: DrainHole) => void;
+  removeDrainHole: (holeIndex: number) => void;
+  cancelHollow: () => void;
+  applyHollow: (settings: HollowSettings) => Promise<HollowResult>;
+  simplify: SimplifyState | null; // Set while previewing a simplified version of a model
+  startSimplify: (modelIndex?: number) => void;
+  previewSimplify: (options: SimplifyOptions) => Promise<number>;
+  setSimplifyPreviewShown: (shown: boolean) => void;
+  cancelSimplify: () => void;
+  applySimplify: () => void;
+  booleanBackend: BooleanBackendName;
+  setBooleanBackend: (backend: BooleanBackendName) => void;
   
   // History operations
-  saveHistoryState: () => void;
+  saveHistoryState: (label?: string) => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (index: number) => void;
   
   // Snap operations
   toggleSnap: () => void;
@@ -300,6 +545,12 @@ type SceneState = {
   
   // Export
   exportSelectedModelAsSTL: () => Blob | null;
+  exportSceneAs3MF: () => Blob | null;
+
+  // Project files
+  saveProject: () => Blob;
+  loadProject: (file: File | Blob | string) => Promise<void>;
+  restoreAutosave: () => Promise<boolean>;
 
   // Add function to update grid position based on models
   updateGridPosition: () => void;
@@ -316,11 +567,201 @@ export const useScene = create<SceneState>((set, get) => {
     antialias: true,
     alpha: true,
     preserveDrawingBuffer: true,
-    precision: "highp"
+    precision: "highp",
+    stencil: true // Section view caps are masked with the stencil buffer
   });
   const raycaster = new THREE.Raycaster();
   const mouse = new THREE.Vector2();
 
+  // Set up loading state, progress reporting and cancellation for a boolean operation
+  const startCSGTask = () => {
+    set({ isCSGOperationLoading: true, csgProgress: { stage: "Starting", percent: 0 } });
+    
+    // Allow the operation to be cancelled from the UI; starting another one cancels it too
+    csgAbortController?.abort();
+    const controller = new AbortController();
+    csgAbortController = controller;
+    const { signal } = controller;
+    
+    const reportProgress = (stage: string, percent: number) => {
+      if (csgAbortController !== controller) return;
+      console.log(`Boolean operation progress: ${stage} - ${percent.toFixed(1)}%`);
+      set({ csgProgress: { stage, percent } });
+    };
+    
+    // Apply the task's changes, clearing the loading state only if no newer task has started since
+    const finishTask = (changes: Partial<SceneState> = {}) => {
+      if (csgAbortController === controller) {
+        csgAbortController = null;
+        set({ ...changes, isCSGOperationLoading: false, csgProgress: null });
+      } else {
+        set(changes);
+      }
+    };
+    
+    return { signal, reportProgress, finishTask };
+  };
+  
+  // Swap in a model-space geometry produced by an edit, keeping the old one alive for undo
+  const replaceModelGeometry = (
+    model: Model,
+    geometry: THREE.BufferGeometry,
+    label: string,
+    changes: Partial<SceneState> = {}
+  ) => {
+    // The scene stays editable while a worker runs, so the model may have moved in the list or gone
+    const models = get().models;
+    const modelIndex = models.findIndex(candidate => candidate.id === model.id);
+    const current = models[modelIndex];
+    if (!current) {
+      set(changes);
+      throw new Error(`${model.name} was removed before the change finished`);
+    }
+    
+    current.mesh.geometry = geometry;
+    
+    // The shape no longer matches its dimensions or boolean inputs, so it can't be regenerated from them
+    const { primitive: _primitive, csgTree: _csgTree, ...rest } = current;
+    const updatedModels = [...models];
+    updatedModels[modelIndex] = rest;
+    set({ ...changes, models: updatedModels });
+    
+    const { scene, renderer, camera } = get();
+    renderer.render(scene, camera);
+    get().saveHistoryState(label);
+  };
+  
+  // Run a boolean on the world-space geometry of each operand and return the result geometry
+  const computeCSGGeometry = async (
+    operationType: 'union' | 'subtract' | 'intersect',
+    operands: Model[],
+    signal: AbortSignal,
+    reportProgress: (stage: string, percent: number) => void
+  ): Promise<THREE.BufferGeometry> => {
+    const geometries = operands.map(operand => {
+      operand.mesh.updateMatrixWorld(true);
+      const geometry = operand.mesh.geometry.clone();
+      geometry.applyMatrix4(operand.mesh.matrixWorld);
+      return geometry;
+    });
+    
+    // Run the boolean in a worker so the UI stays responsive; the worker repairs the
+    // operands into closed, consistently wound shells first and validates the result
+    const resultGeometry = await runBooleanInWorker(geometries, operationType, {
+      backend: get().booleanBackend,
+      repair: get().autoRepairMeshes,
+      onRepair: report => {
+        console.log(`Pre-boolean repair: ${formatRepairReport(report)}`);
+        set({ lastRepairReport: report });
+      },
+      signal,
+      onProgress: ({ stage, percent }) => reportProgress(stage, percent)
+    });
+    
+    // Post-process the result geometry
+    try {
+      resultGeometry.computeVertexNormals();
+      resultGeometry.computeBoundingBox();
+      resultGeometry.computeBoundingSphere();
+      console.log("Final result vertices:", resultGeometry.attributes.position.count);
+    } catch (e) {
+      console.warn("Error during result post-processing:", e);
+    }
+    
+    return resultGeometry;
+  };
+
+  // Shared import path: ask for a scale, then place the geometry on the grid as a new model
+  const addImportedGeometry = async (geometry: THREE.BufferGeometry, name: string) => {
+    // Fix holes, winding and degenerate triangles before the mesh enters the scene
+    if (get().autoRepairMeshes) {
+      const { geometry: repaired, report } = repairGeometry(geometry);
+      console.log(`Repair of ${name}: ${formatRepairReport(report)}`);
+      if (repairChangedMesh(report)) {
+        geometry = repaired;
+      }
+      set({ lastRepairReport: report });
+    } else {
+      set({ lastRepairReport: null });
+    }
+    
+    // Show scaling dialog
+    const dialogRoot = document.createElement('div');
+    dialogRoot.id = 'scale-dialog-root';
+    document.body.appendChild(dialogRoot);
+    
+    // Create a promise that resolves when scaling is complete
+    const scale = await new Promise<THREE.Vector3>((resolve) => {
+      const root = createRoot(dialogRoot);
+      root.render(
+        React.createElement(ImportScaleDialog, {
+          isOpen: true,
+          onClose: () => {
+            root.unmount();
+            dialogRoot.remove();
+            resolve(new THREE.Vector3(1, 1, 1)); // Default scale if dialog is closed
+          },
+          geometry: geometry,
+          onScale: (scale) => {
+            root.unmount();
+            dialogRoot.remove();
+            resolve(scale);
+          }
+        })
+      );
+    });
+    
+    // Keep the file's own colors, otherwise pick a random fun color
+    const material = geometry.getAttribute('color')
+      ? new THREE.MeshStandardMaterial({ color: 0xffffff, vertexColors: true, roughness: 0.7, metalness: 0.2 })
+      : createFunMaterial();
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+
+    // Apply the chosen scale
+    mesh.scale.copy(scale);
+
+    // Center geometry
+    geometry.computeBoundingBox();
+    geometry.center();
+
+    // Find suitable position
+    const box = new THREE.Box3().setFromObject(mesh);
+    const size = new THREE.Vector3();
+    box.getSize(size);
+    const position = findSuitablePosition(get().models, size);
+    mesh.position.copy(position);
+
+    // Add to scene
+    scene.add(mesh);
+      
+    // Store original transform
+    const originalPosition = mesh.position.clone();
+    const originalRotation = mesh.rotation.clone();
+    const originalScale = mesh.scale.clone();
+      
+    // Create model object
+    const model: Model = {
+      id: `model-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      name,
+      type: 'model',
+      mesh,
+      originalPosition,
+      originalRotation,
+      originalScale
+    };
+      
+    // Update state
+    const updatedModels = [...get().models, model];
+    set({ 
+      models: updatedModels,
+      selectedModelIndex: updatedModels.length - 1 
+    });
+    get().saveHistoryState();
+    get().updateGridPosition();
+  };
+
   return {
     // Scene components
     scene,
@@ -337,6 +778,13 @@ export const useScene = create<SceneState>((set, get) => {
     selectedModelIndex: null,
     secondaryModelIndex: null,
     transformMode: "scale",
+    layFlatMode: false,
+    measureMode: false,
+    measurements: [],
+    printerProfileId: DEFAULT_PRINTER_ID,
+    outOfBoundsModelIds: [],
+    buildPlate: getPrinterProfile(DEFAULT_PRINTER_ID)?.buildVolume ?? DEFAULT_BUILD_PLATE,
+    arrangeGap: DEFAULT_ARRANGE_GAP,
 
     // Rendering mode
     renderingMode: 'standard',
@@ -346,6 +794,9 @@ export const useScene = create<SceneState>((set, get) => {
     setUnit: (unit: 'mm' | 'in') => {
       set({ unit });
       console.log(`Changed unit system to ${unit}`);
+      
+      // Dimension labels are written in the current unit
+      updateMeasurementAnnotations();
     },
     convertValue: (value: number, from: 'mm' | 'in', to: 'mm' | 'in'): number => {
       if (from === to) return value;
@@ -368,6 +819,19 @@ export const useScene = create<SceneState>((set, get) => {
 
     // Loading states
     isCSGOperationLoading: false,
+    csgProgress: null,
+    cutPlane: null,
+    sectionView: { enabled: false, axis: 'y', position: 0, flipped: false },
+    edgeBlend: null,
+    hollow: null,
+    simplify: null,
+    
+    // Mesh repair
+    autoRepairMeshes: true,
+    lastRepairReport: null,
+    
+    // Printability analysis
+    printabilityOverlay: null,
     
     // History tracking for undo/redo
     history: [],
@@ -406,6 +870,7 @@ export const useScene = create<SceneState>((set, get) => {
       renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
       renderer.shadowMap.enabled = true;
       renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+      renderer.localClippingEnabled = true;
       
       // Style canvas
       const canvas = renderer.domElement;
@@ -448,15 +913,17 @@ export const useScene = create<SceneState>((set, get) => {
       
       set({ orbitControls });
       
-      // Add a grid helper and give it a name for later reference
-      const gridHelper = new THREE.GridHelper(GRID_SIZE, GRID_DIVISIONS);
-      gridHelper.name = 'gridHelper';
+      // Add a grid helper sized to the build plate and give it a name for later reference
+      const gridHelper = createGrid(get().buildPlate);
       gridHelper.visible = get().showGrid;
-      gridHelper.position.y = -25; // Start grid lower initially
+      gridHelper.position.y = BED_HEIGHT;
       scene.add(gridHelper);
       
+      // Outline the printable space of the printer
+      scene.add(createBuildVolumeOutline(get().buildPlate));
+      
       // Add axes helper
-      const axesHelper = new THREE.AxesHelper(GRID_SIZE / 2); // Larger axes for better visibility
+      const axesHelper = new THREE.AxesHelper(getGridSize(get().buildPlate) / 2); // Larger axes for better visibility
       axesHelper.name = 'axesHelper';
       axesHelper.visible = get().showAxes;
       scene.add(axesHelper);
@@ -483,6 +950,11 @@ export const useScene = create<SceneState>((set, get) => {
         // This avoids potential conflicts between selection and transformation
         const isTransformActive = false; // Allow selection to work for debugging
         
+        // While a cutting plane is placed, measuring or picking edges or drain holes, clicks on the model only orbit the view
+        if (currentState.cutPlane || currentState.measureMode || currentState.edgeBlend || currentState.hollow) {
+          return;
+        }
+        
         // Only handle selection when orbit controls are enabled
         if (orbitControls.enabled && !isTransformActive) {
           // Prevent default to avoid any browser handling
@@ -517,6 +989,15 @@ export const useScene = create<SceneState>((set, get) => {
               console.log(`Clicked on model ${modelIndex}:`, currentModels[modelIndex].name);
               get().selectModel(modelIndex);
               
+              // In lay flat mode the click picks the face to rest on the bed instead of starting a drag
+              const clickedFace = intersects[0].face;
+              if (currentState.layFlatMode && clickedFace) {
+                const normalMatrix = new THREE.Matrix3().getNormalMatrix(clickedMesh.matrixWorld);
+                const worldNormal = clickedFace.normal.clone().applyMatrix3(normalMatrix).normalize();
+                get().layFlatOnFace(modelIndex, worldNormal);
+                return;
+              }
+              
               // Initialize free dragging if a model is selected
               const selectedModel = currentModels[modelIndex];
               
@@ -617,6 +1098,9 @@ export const useScene = create<SceneState>((set, get) => {
           axesHelper.visible = state.showAxes;
         }
         
+        // Materials get replaced by selection and rendering mode changes, so reclip every frame
+        updateSectionView();
+        
         renderer.render(scene, camera);
       }
       
@@ -669,7 +1153,7 @@ export const useScene = create<SceneState>((set, get) => {
       if (!gridHelper) return;
 
       // Find the lowest point among all models
-      let lowestY = 0;
+      let lowestY = BED_HEIGHT;
       let hasModels = false;
 
       state.models.forEach(model => {
@@ -687,8 +1171,8 @@ export const useScene = create<SceneState>((set, get) => {
         }
       });
 
-      // Position grid 50mm below the lowest point or at -50 if no models
-      const gridY = hasModels ? lowestY - 50 : -50;
+      // The grid is the build plate; drop it further only when a model reaches below the bed
+      const gridY = hasModels ? Math.min(BED_HEIGHT, lowestY) : BED_HEIGHT;
       gridHelper.position.y = gridY;
 
       // Force scene update
@@ -724,81 +1208,49 @@ export const useScene = create<SceneState>((set, get) => {
         geometry = loader.parse(arrayBuffer);
       }
       
-      // Show scaling dialog
-      const dialogRoot = document.createElement('div');
-      dialogRoot.id = 'scale-dialog-root';
-      document.body.appendChild(dialogRoot);
-      
-      // Create a promise that resolves when scaling is complete
-      const scale = await new Promise<THREE.Vector3>((resolve) => {
-        const root = createRoot(dialogRoot);
-        root.render(
-          React.createElement(ImportScaleDialog, {
-            isOpen: true,
-            onClose: () => {
-              root.unmount();
-              dialogRoot.remove();
-              resolve(new THREE.Vector3(1, 1, 1)); // Default scale if dialog is closed
-            },
-            geometry: geometry,
-            onScale: (scale) => {
-              root.unmount();
-              dialogRoot.remove();
-              resolve(scale);
-            }
-          })
-        );
-      });
-      
-      // Create mesh with random color and apply scale
-      const material = createFunMaterial();
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
+      await addImportedGeometry(
+        geometry,
+        name || (typeof file === 'string' ? file.split('/').pop() || 'Model from URL' : file.name)
+      );
+    },
+
+    // Load any supported model file (STL, OBJ, PLY, 3MF, GLTF/GLB, tessellated STEP or SVG)
+    loadModel: async (file: File | string, name?: string) => {
+      const fileName = name || (typeof file === 'string' ? file.split('/').pop() || 'Model from URL' : file.name);
 
-      // Apply the chosen scale
-      mesh.scale.copy(scale);
+      // SVGs are extruded rather than imported as meshes
+      if (fileName.toLowerCase().endsWith('.svg')) {
+        return get().loadSVG(file);
+      }
 
-      // Center geometry
-      geometry.computeBoundingBox();
-      const center = new THREE.Vector3();
-      geometry.boundingBox!.getCenter(center);
-      geometry.center();
+      let arrayBuffer: ArrayBuffer;
+      if (typeof file === 'string') {
+        try {
+          const response = await fetch(file);
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          arrayBuffer = await response.arrayBuffer();
+        } catch (error) {
+          console.error("Error loading model from URL:", error);
+          throw new Error(`Failed to load model from URL: ${error}`);
+        }
+      } else {
+        arrayBuffer = await file.arrayBuffer();
+      }
 
-      // Find suitable position
-      const box = new THREE.Box3().setFromObject(mesh);
-      const size = new THREE.Vector3();
-      box.getSize(size);
-      const position = findSuitablePosition(get().models, size);
-      mesh.position.copy(position);
+      const format = detectModelFormat(fileName, arrayBuffer);
+      console.log(`Importing ${fileName} as ${format}`);
 
-      // Add to scene
-      scene.add(mesh);
-        
-        // Store original transform
-        const originalPosition = mesh.position.clone();
-        const originalRotation = mesh.rotation.clone();
-        const originalScale = mesh.scale.clone();
-        
-        // Create model object
-      const model: Model = {
-          id: `model-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-          name: name || (typeof file === 'string' ? file.split('/').pop() || 'Model from URL' : file.name),
-          type: 'model',
-          mesh,
-          originalPosition,
-          originalRotation,
-          originalScale
-        };
-        
-      // Update state
-      const updatedModels = [...get().models, model];
-      set({ 
-        models: updatedModels,
-        selectedModelIndex: updatedModels.length - 1 
-      });
-        get().saveHistoryState();
-      get().updateGridPosition();
+      let geometry: THREE.BufferGeometry;
+      try {
+        geometry = await parseModelFile(arrayBuffer, format);
+      } catch (error) {
+        console.error(`Error parsing ${format} file:`, error);
+        throw new Error(`Failed to import ${fileName}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      await addImportedGeometry(geometry, fileName);
     },
 
     // Remove a model
@@ -922,6 +1374,37 @@ export const useScene = create<SceneState>((set, get) => {
       state.renderer.render(state.scene, state.camera);
     },
     
+    // Rebuild a basic shape from new dimensions, keeping its transform and the height of its base
+    updatePrimitive: (modelIndex: number, params: Partial<PrimitiveParams>) => {
+      const { models, scene, renderer, camera } = get();
+      const model = models[modelIndex];
+      if (!model?.primitive) {
+        console.warn("Only basic shapes can be edited by their dimensions");
+        return;
+      }
+      
+      const primitive = normalizePrimitiveParams({ ...model.primitive, ...params });
+      if (JSON.stringify(primitive) === JSON.stringify(model.primitive)) {
+        return;
+      }
+      
+      const before = new THREE.Box3().setFromObject(model.mesh);
+      // The old geometry stays alive for undo
+      model.mesh.geometry = createPrimitiveGeometry(primitive);
+      model.mesh.updateMatrixWorld(true);
+      const after = new THREE.Box3().setFromObject(model.mesh);
+      model.mesh.position.y += before.min.y - after.min.y;
+      model.mesh.updateMatrix();
+      
+      const updatedModels = [...models];
+      updatedModels[modelIndex] = { ...model, primitive };
+      set({ models: updatedModels });
+      
+      get().updateGridPosition();
+      renderer.render(scene, camera);
+      get().saveHistoryState(`Edit ${model.name} dimensions`);
+    },
+    
     // Set transform mode (affects how applyTransform works)
     setTransformMode: (mode: "translate" | "rotate" | "scale") => {
       const { clearSnapIndicators } = get();
@@ -943,8 +1426,8 @@ export const useScene = create<SceneState>((set, get) => {
       const model = models[selectedModelIndex];
       const mesh = model.mesh;
       
-      // Convert max size to current unit
-      const maxSizeInCurrentUnit = unit === 'in' ? MAX_SIZE_INCHES : MAX_SIZE_INCHES * MM_PER_INCH;
+      // Parts can't grow past the longest side of the printer
+      const maxSize = getMaxModelSize(state.buildPlate);
       
       // Apply the requested transform
       switch(operation) {
@@ -1017,9 +1500,9 @@ export const useScene = create<SceneState>((set, get) => {
             // Check if any dimension would exceed the max size
             const maxDimension = Math.max(proposedWidth, proposedHeight, proposedDepth);
             
-            if (direction > 0 && maxDimension > maxSizeInCurrentUnit) {
+            if (direction > 0 && maxDimension > maxSize) {
               // If scaling up and any dimension would exceed max size, don't scale
-              console.log(`Cannot scale further - max dimension would be ${(maxDimension/MM_PER_INCH).toFixed(2)} inches`);
+              console.log(`Cannot scale further - max dimension would be ${maxDimension.toFixed(1)} mm`);
               return;
             } else if (direction < 0) {
               // If scaling down, ensure we don't go below minimum
@@ -1147,7 +1630,7 @@ export const useScene = create<SceneState>((set, get) => {
       let validY = Math.max(minScale, y);
       let validZ = Math.max(minScale, z);
       
-      // Apply exact 10-inch size limit
+      // Limit the size to the longest side of the printer
       mesh.geometry.computeBoundingBox();
       const boundingBox = mesh.geometry.boundingBox;
       
@@ -1164,10 +1647,10 @@ export const useScene = create<SceneState>((set, get) => {
         const finalHeight = originalHeight * validY;
         const finalDepth = originalDepth * validZ;
         
-        // Check if any dimension would exceed 10 inches (254mm)
-        const maxAllowedSize = MAX_SIZE_MM; // 254mm (10 inches)
+        // Check if any dimension would exceed the printer
+        const maxAllowedSize = getMaxModelSize(state.buildPlate);
         
-        // Calculate scale factors that would achieve exactly 10 inches for each dimension
+        // Calculate scale factors that would reach exactly the limit for each dimension
         const maxScaleX = originalWidth > 0 ? maxAllowedSize / originalWidth : Infinity;
         const maxScaleY = originalHeight > 0 ? maxAllowedSize / originalHeight : Infinity;
         const maxScaleZ = originalDepth > 0 ? maxAllowedSize / originalDepth : Infinity;
@@ -1224,227 +1707,296 @@ export const useScene = create<SceneState>((set, get) => {
       }
     },
     
-    // Perform CSG operations between selected and secondary models
-    performCSGOperation: async (operationType: 'union' | 'subtract' | 'intersect') => {
+    // Rotate a model to the pose that needs the least support and rest it on the bed
+    optimizeOrientation: (modelIndex?: number) => {
+      const { models, selectedModelIndex, scene, renderer, camera } = get();
+      const index = modelIndex ?? selectedModelIndex;
+      const model = index !== null ? models[index] : undefined;
+      
+      if (!model) {
+        console.warn("No model selected for orientation");
+        return null;
+      }
+      
+      const result = findBestOrientation(model.mesh);
+      console.log(`Tried ${result.candidateCount} orientations for ${model.name}:`, {
+        supportArea: `${result.current.supportArea.toFixed(0)} → ${result.best.supportArea.toFixed(0)} mm²`,
+        footprintArea: `${result.current.footprintArea.toFixed(0)} → ${result.best.footprintArea.toFixed(0)} mm²`,
+        height: `${result.current.height.toFixed(1)} → ${result.best.height.toFixed(1)} mm`
+      });
+      
+      rotateMeshAboutCentre(model.mesh, result.best.rotation);
+      dropMeshToBed(model.mesh);
+      
+      get().updateGridPosition();
+      renderer.render(scene, camera);
+      get().saveHistoryState(`Optimize orientation of ${model.name}`);
+      
+      return result;
+    },
+    
+    setLayFlatMode: (enabled: boolean) => {
+      set({ layFlatMode: enabled, ...(enabled ? { measureMode: false } : {}) });
+      console.log(`Lay flat mode ${enabled ? 'enabled' : 'disabled'}`);
+    },
+    
+    setMeasureMode: (enabled: boolean) => {
+      set({ measureMode: enabled, ...(enabled ? { layFlatMode: false } : {}) });
+      console.log(`Measure mode ${enabled ? 'enabled' : 'disabled'}`);
+    },
+    
+    addMeasurement: (measurement: Measurement) => {
+      const { unit, renderer, scene, camera } = get();
+      set({ measurements: [...get().measurements, measurement] });
+      console.log(`Measured ${measurement.kind}: ${formatMeasurement(measurement, unit)}`);
+      
+      updateMeasurementAnnotations();
+      scheduleAutosave();
+      renderer.render(scene, camera);
+    },
+    
+    removeMeasurement: (id: string) => {
+      const { renderer, scene, camera } = get();
+      set({ measurements: get().measurements.filter(measurement => measurement.id !== id) });
+      
+      updateMeasurementAnnotations();
+      scheduleAutosave();
+      renderer.render(scene, camera);
+    },
+    
+    clearMeasurements: () => {
+      const { renderer, scene, camera } = get();
+      set({ measurements: [] });
+      
+      updateMeasurementAnnotations();
+      scheduleAutosave();
+      renderer.render(scene, camera);
+    },
+    
+    // Move the selected model, or every model, straight down onto the build plate
+    dropToBed: (target: 'selected' | 'all' = 'selected') => {
+      const { models, selectedModelIndex, scene, renderer, camera } = get();
+      const targets = target === 'all'
+        ? models
+        : selectedModelIndex !== null && models[selectedModelIndex] ? [models[selectedModelIndex]] : [];
+      
+      if (targets.length === 0) {
+        console.warn("No model to drop onto the bed");
+        return;
+      }
+      
+      targets.forEach(model => dropMeshToBed(model.mesh));
+      
+      get().updateGridPosition();
+      renderer.render(scene, camera);
+      get().saveHistoryState(target === 'all' ? "Drop all models to bed" : `Drop ${targets[0].name} to bed`);
+    },
+    
+    // Rotate a model so the face with the given world normal points down, then rest it on the bed
+    layFlatOnFace: (modelIndex: number, worldNormal: THREE.Vector3) => {
+      const { models, scene, renderer, camera } = get();
+      const model = models[modelIndex];
+      
+      if (!model) {
+        console.warn("No model to lay flat");
+        return;
+      }
+      
+      const rotation = new THREE.Quaternion().setFromUnitVectors(worldNormal.clone().normalize(), new THREE.Vector3(0, -1, 0));
+      rotateMeshAboutCentre(model.mesh, rotation);
+      dropMeshToBed(model.mesh);
+      
+      // One face per activation, like the other placement tools
+      set({ layFlatMode: false });
+      
+      get().updateGridPosition();
+      renderer.render(scene, camera);
+      get().saveHistoryState(`Lay ${model.name} flat`);
+    },
+    
+    setPrinterProfile: (id: string) => {
+      const profile = getPrinterProfile(id);
+      if (!profile) {
+        console.warn(`Unknown printer profile: ${id}`);
+        return;
+      }
+      
+      get().setBuildPlate(profile.buildVolume);
+      set({ printerProfileId: profile.id });
+      console.log(`Printer set to ${profile.name}`);
+    },
+    
+    // Resize the plate; sizes that match no profile make it a custom printer
+    setBuildPlate: (plate: Partial<BuildPlate>) => {
+      const { scene, renderer, camera } = get();
+      const buildPlate = { ...get().buildPlate, ...plate };
+      const profile = PRINTER_PROFILES.find(candidate =>
+        candidate.buildVolume.width === buildPlate.width &&
+        candidate.buildVolume.depth === buildPlate.depth &&
+        candidate.buildVolume.height === buildPlate.height
+      );
+      set({ buildPlate, printerProfileId: profile?.id ?? CUSTOM_PRINTER_ID });
+      
+      const outline = scene.getObjectByName(BUILD_VOLUME_OUTLINE_NAME);
+      if (outline) {
+        scene.remove(outline);
+        disposeHelper(outline);
+      }
+      scene.add(createBuildVolumeOutline(buildPlate));
+      
+      // Keep the grid's height and visibility, only its size changes
+      const oldGrid = scene.getObjectByName('gridHelper');
+      if (oldGrid) {
+        const grid = createGrid(buildPlate);
+        grid.position.copy(oldGrid.position);
+        grid.visible = oldGrid.visible;
+        scene.remove(oldGrid);
+        disposeHelper(oldGrid);
+        scene.add(grid);
+      }
+      
+      updateOutOfBoundsHighlights();
+      renderer.render(scene, camera);
+      
+      console.log(`Build plate set to ${buildPlate.width} x ${buildPlate.depth} x ${buildPlate.height} mm`);
+    },
+    
+    setArrangeGap: (gap: number) => {
+      set({ arrangeGap: Math.max(0, gap) });
+    },
+    
+    // Pack every model's footprint onto the build plate and rest it on the bed
+    arrangeAll: () => {
+      const { models, buildPlate, arrangeGap, scene, renderer, camera } = get();
+      
+      const bounds = models.map(model => {
+        model.mesh.updateMatrixWorld(true);
+        return new THREE.Box3().setFromObject(model.mesh, true);
+      });
+      const footprints = bounds.map(box => ({ width: box.max.x - box.min.x, depth: box.max.z - box.min.z }));
+      const { placements, unplaced } = packFootprints(footprints, buildPlate, arrangeGap);
+      
+      // Parts that don't fit wait in a row beside the plate
+      let overflowX = buildPlate.width / 2 + arrangeGap * 4;
+      models.forEach((model, i) => {
+        const placement = placements[i] ?? { x: overflowX, z: -buildPlate.depth / 2 };
+        if (!placements[i]) {
+          overflowX += footprints[i].width + arrangeGap;
+        }
+        
+        model.mesh.position.x += placement.x - bounds[i].min.x;
+        model.mesh.position.z += placement.z - bounds[i].min.z;
+        dropMeshToBed(model.mesh);
+      });
+      
+      get().updateGridPosition();
+      renderer.render(scene, camera);
+      get().saveHistoryState("Arrange all models");
+      
+      const result = { placed: models.length - unplaced.length, unplaced: unplaced.map(i => models[i].name) };
+      console.log(`Arranged ${result.placed} of ${models.length} models on the build plate`);
+      return result;
+    },
+    
+    // Offset that moves a new part into free space on the plate with its base on the bed
+    findPlacementOnPlate: (bounds: THREE.Box3, exclude: THREE.Object3D[] = []) => {
+      const { models, buildPlate, arrangeGap } = get();
+      
+      const occupied: PlateRect[] = models
+        .filter(model => !exclude.includes(model.mesh))
+        .map(model => {
+          const box = new THREE.Box3().setFromObject(model.mesh);
+          return { minX: box.min.x, minZ: box.min.z, maxX: box.max.x, maxZ: box.max.z };
+        });
+      const footprint = { width: bounds.max.x - bounds.min.x, depth: bounds.max.z - bounds.min.z };
+      const spot = findFreeSpot(occupied, footprint, buildPlate, arrangeGap);
+      
+      return new THREE.Vector3(spot.x - bounds.min.x, BED_HEIGHT - bounds.min.y, spot.z - bounds.min.z);
+    },
+    
+    // Perform CSG operations between the selected models. Extra operand indices make the
+    // operation N-ary (union of all, or subtract every tool from the primary model)
+    performCSGOperation: async (operationType: 'union' | 'subtract' | 'intersect', operandIndices?: number[]) => {
       const state = get();
       const { selectedModelIndex, secondaryModelIndex, models, scene } = state;
       
-      // Set loading state
-      set({ isCSGOperationLoading: true });
-      
-      // Add progress tracking system
-      const reportProgress = (stage: string, percent: number) => {
-        console.log(`Boolean operation progress: ${stage} - ${percent.toFixed(1)}%`);
-      };
+      const { signal, reportProgress, finishTask } = startCSGTask();
       
       try {
-        if (selectedModelIndex === null) {
-          throw new Error("Primary model not selected for boolean operation");
-        }
+        const indices = operandIndices ?? [selectedModelIndex, secondaryModelIndex].filter((i): i is number => i !== null);
+        const uniqueIndices = indices.filter((index, i) => indices.indexOf(index) === i && models[index]);
         
-        if (secondaryModelIndex === null) {
-          throw new Error("Secondary model not selected for boolean operation");
+        if (uniqueIndices.length < 2) {
+          throw new Error(selectedModelIndex === null
+            ? "Primary model not selected for boolean operation"
+            : "Secondary model not selected for boolean operation");
         }
         
-        // Get the models
-        const modelA = models[selectedModelIndex];
-        const modelB = models[secondaryModelIndex];
+        // Get the models - the first one is the base for subtraction
+        const operands = uniqueIndices.map(index => models[index]);
+        const operandIds = operands.map(model => model.id);
         
-        console.log(`Performing CSG ${operationType} between models:`, modelA.name, modelB.name);
+        // Copy the inputs as they are now, since the scene stays editable while the worker runs
+        const csgTree: CSGTree = {
+          operation: operationType,
+          operands: operands.map(cloneCSGOperand)
+        };
         
-        // Create working copies of meshes
-        const meshA = modelA.mesh.clone();
-        const meshB = modelB.mesh.clone();
+        console.log(`Performing CSG ${operationType} between models:`, operands.map(model => model.name));
         
-        // Apply world matrices to transform geometries into world space
-        meshA.updateWorldMatrix(true, false);
-        meshB.updateWorldMatrix(true, false);
+        const resultGeometry = await computeCSGGeometry(operationType, operands, signal, reportProgress);
         
-        // Clone and transform geometries
-        const geomA = modelA.mesh.geometry.clone();
-        const geomB = modelB.mesh.geometry.clone();
+        // Find the inputs again by id; if one was deleted or undone meanwhile the result is stale
+        const currentModels = get().models;
+        const currentOperands = currentModels.filter(model => operandIds.includes(model.id));
+        if (currentOperands.length !== operandIds.length) {
+          resultGeometry.dispose();
+          throw new Error("A model in the boolean was removed before it finished");
+        }
         
-        geomA.applyMatrix4(meshA.matrixWorld);
-        geomB.applyMatrix4(meshB.matrixWorld);
+        // Setup final material properties
+        const material = new THREE.MeshStandardMaterial({
+          color: getMeshColor(operands[0].mesh),
+          metalness: 0.1,
+          roughness: 0.8,
+          side: THREE.DoubleSide,
+          flatShading: false
+        });
         
-        // Ensure geometries are manifold (watertight)
-        const processedGeomA = ensureManifoldGeometry(geomA);
-        const processedGeomB = ensureManifoldGeometry(geomB);
+        const resultMesh = new THREE.Mesh(resultGeometry, material);
+        resultMesh.castShadow = true;
+        resultMesh.receiveShadow = true;
         
-        // Pre-processing feedback
-        console.log("Pre-processed geometries:", {
-          meshA: { 
-            original: geomA.attributes.position.count,
-            processed: processedGeomA.attributes.position.count 
-          },
-          meshB: { 
-            original: geomB.attributes.position.count,
-            processed: processedGeomB.attributes.position.count
-          }
-        });
+        // Remove the original models from the scene - they live on in the result's CSG tree
+        currentOperands.forEach(model => scene.remove(model.mesh));
         
-        // Create temporary meshes with material configuration suitable for CSG
-        const tempMeshA = new THREE.Mesh(
-          processedGeomA,
-          new THREE.MeshStandardMaterial({
-            color: meshA.material instanceof THREE.Material ? 
-                  (meshA.material as THREE.MeshStandardMaterial).color.clone() : 
-                  (meshA.material[0] as THREE.MeshStandardMaterial).color.clone(),
-            side: THREE.DoubleSide
-          })
-        );
+        // Add the result to the scene
+        scene.add(resultMesh);
         
-        const tempMeshB = new THREE.Mesh(
-          processedGeomB,
-          new THREE.MeshStandardMaterial({
-            color: meshB.material instanceof THREE.Material ? 
-                  (meshB.material as THREE.MeshStandardMaterial).color.clone() : 
-                  (meshB.material[0] as THREE.MeshStandardMaterial).color.clone(),
-            side: THREE.DoubleSide
-          })
-        );
+        // Create a new model for the result
+        const newModel: Model = {
+          id: `csg-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+          name: `${operationType}_${operands.map(model => model.name).join('_')}`,
+          type: 'model',
+          mesh: resultMesh,
+          originalPosition: resultMesh.position.clone(),
+          originalRotation: resultMesh.rotation.clone(),
+          originalScale: resultMesh.scale.clone(),
+          csgTree
+        };
         
-        // Reset positions since transforms are now baked into the geometry
-        tempMeshA.position.set(0, 0, 0);
-        tempMeshA.rotation.set(0, 0, 0);
-        tempMeshA.scale.set(1, 1, 1);
-        tempMeshB.position.set(0, 0, 0);
-        tempMeshB.rotation.set(0, 0, 0);
-        tempMeshB.scale.set(1, 1, 1);
+        // Update models array: remove the used models and add the result
+        const updatedModels = currentModels.filter(model => !operandIds.includes(model.id));
+        updatedModels.push(newModel);
         
-        // Add a small delay to allow the UI to show loading state
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // Update state
+        finishTask({ 
+          models: updatedModels,
+          selectedModelIndex: updatedModels.length - 1, // Select the new model
+          secondaryModelIndex: null // Reset secondary selection
+        });
         
-        // Perform the operation based on type
-        let resultMesh: THREE.Mesh;
-        let operationSucceeded = false;
-        let errorMessage = "";
-        
-        // Try different approaches, starting with the most reliable for each operation type
-        try {
-          if (operationType === 'union') {
-            // For union operations, use our robust union approach
-            try {
-              console.log("Performing robust union operation");
-              resultMesh = robustMeshUnion(tempMeshA, tempMeshB);
-              operationSucceeded = true;
-              console.log("Robust union successful");
-            } catch (e: any) {
-              console.error("Union operation failed:", e);
-              throw new Error(`Union operation failed: ${e.message}`);
-            }
-          } else if (operationType === 'subtract') {
-            // Use our specialized robust subtraction function
-            try {
-              console.log("Performing robust subtraction operation");
-              resultMesh = robustMeshSubtract(tempMeshA, tempMeshB);
-              operationSucceeded = true;
-              console.log("Robust subtraction successful");
-            } catch (e: any) {
-              console.error("Subtraction operation failed:", e);
-              throw new Error(`Subtraction operation failed: ${e.message}`);
-            }
-          } else if (operationType === 'intersect') {
-            // Use our specialized robust intersection function
-            try {
-              console.log("Performing robust intersection operation");
-              resultMesh = robustMeshIntersect(tempMeshA, tempMeshB);
-              operationSucceeded = true;
-              console.log("Robust intersection successful");
-            } catch (e: any) {
-              console.error("Intersection operation failed:", e);
-              throw new Error(`Intersection operation failed: ${e.message}`);
-            }
-          } else {
-            throw new Error(`Unknown operation type: ${operationType}`);
-          }
-        } catch (error: any) {
-          console.error("All CSG approaches failed:", error);
-          errorMessage = error.message || "Operation failed";
-          throw error;
-        }
-        
-        // If we made it here, we have a result mesh
-        if (!operationSucceeded || !resultMesh) {
-          throw new Error(errorMessage || "Boolean operation failed with no specific error");
-        }
-        
-        // Validate the result mesh
-        if (!validateResultMesh(resultMesh)) {
-          throw new Error("The boolean operation produced an invalid mesh. Try with simpler models or a different operation.");
-        }
-        
-        // Post-process the result geometry
-        if (resultMesh.geometry) {
-          console.log("Post-processing result geometry");
-          
-          try {
-            // Compute normals for proper lighting
-            resultMesh.geometry.computeVertexNormals();
-            
-            // Update bounding info
-            resultMesh.geometry.computeBoundingBox();
-            resultMesh.geometry.computeBoundingSphere();
-            
-            // For union operations, be careful with vertex merging
-            if (operationType === 'union' && BufferGeometryUtils.mergeVertices) {
-              // Use a small tolerance to avoid losing detail
-              resultMesh.geometry = BufferGeometryUtils.mergeVertices(resultMesh.geometry, 0.0001);
-            }
-            
-            console.log("Final result vertices:", resultMesh.geometry.attributes.position.count);
-          } catch (e) {
-            console.warn("Error during result post-processing:", e);
-            // Still continue with the operation
-          }
-        }
-        
-        // Setup final material properties
-        const material = new THREE.MeshStandardMaterial({
-          color: meshA.material instanceof THREE.Material ? 
-                 (meshA.material as THREE.MeshStandardMaterial).color.clone() : 
-                 (meshA.material[0] as THREE.MeshStandardMaterial).color.clone(),
-          metalness: 0.1,
-          roughness: 0.8,
-          side: THREE.DoubleSide,
-          flatShading: false
-        });
-        
-        resultMesh.material = material;
-        resultMesh.castShadow = true;
-        resultMesh.receiveShadow = true;
-        
-        // Remove the original models from the scene
-        scene.remove(modelA.mesh);
-        scene.remove(modelB.mesh);
-        
-        // Add the result to the scene
-        scene.add(resultMesh);
-        
-        // Create a new model for the result
-        const newModel: Model = {
-          id: `csg-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-          name: `${operationType}_${modelA.name}_${modelB.name}`,
-          type: 'model',
-          mesh: resultMesh,
-          originalPosition: resultMesh.position.clone(),
-          originalRotation: resultMesh.rotation.clone(),
-          originalScale: resultMesh.scale.clone()
-        };
-        
-        // Update models array: remove the two used models and add the result
-        const updatedModels = models.filter((_, i) => i !== selectedModelIndex && i !== secondaryModelIndex);
-        updatedModels.push(newModel);
-        
-        // Update state
-        set({ 
-          models: updatedModels,
-          selectedModelIndex: updatedModels.length - 1, // Select the new model
-          secondaryModelIndex: null, // Reset secondary selection
-          isCSGOperationLoading: false
-        });
-        
-        console.log(`CSG operation successful, created: ${newModel.name}`);
+        console.log(`CSG operation successful, created: ${newModel.name}`);
         
         // Render to show changes
         state.renderer.render(state.scene, state.camera);
@@ -1453,333 +2005,793 @@ export const useScene = create<SceneState>((set, get) => {
         get().saveHistoryState();
         
       } catch (error) {
-        console.error(`Error during CSG ${operationType} operation:`, error);
-        set({ isCSGOperationLoading: false });
-        
-        // Create a user-friendly error message
-        let userErrorMessage = `The ${operationType} operation failed.`;
-        
-        if (error && typeof error === 'object' && 'message' in error) {
-          const errorMessage = error.message as string;
-          if (errorMessage.includes("non-manifold") || errorMessage.includes("watertight")) {
-            userErrorMessage += " The models have gaps or overlaps that prevent a clean operation.";
-          } else if (errorMessage.includes("intersect") || errorMessage.includes("overlap")) {
-            userErrorMessage += " The models don't intersect properly.";
-          } else if (errorMessage.includes("complex")) {
-            userErrorMessage += " The models are too complex for this operation.";
-          }
-        }
-        
-        userErrorMessage += " Try repositioning the models or using simpler shapes.";
-        
-        throw new Error(userErrorMessage);
+        finishTask();
+        throw toCSGError(operationType, error);
       }
     },
     
-    // Save the current state to history
-    saveHistoryState: () => {
-      const { models, selectedModelIndex, history, currentHistoryIndex } = get();
+    // Move, rotate or scale an input of a boolean result and recompute it.
+    // The path walks down the CSG tree: [2] is the third operand, [2, 0] that operand's first input.
+    updateCSGOperand: async (modelIndex: number, path: number[], transform: CSGOperandTransform) => {
+      const { models, renderer, scene, camera } = get();
+      const model = models[modelIndex];
+      if (!model?.csgTree || path.length === 0) {
+        throw new Error("The selected model has no boolean inputs to edit");
+      }
       
-      // Create a deep clone of the models array for history
-      const modelsCopy: Model[] = models.map(model => {
-        // Create a clone of the mesh
-        const meshClone = model.mesh.clone(false); // false means don't clone children
-        
-        // Clone materials properly
-        if (Array.isArray(model.mesh.material)) {
-          meshClone.material = model.mesh.material.map(mat => mat.clone());
-        } else if (model.mesh.material) {
-          meshClone.material = (model.mesh.material as THREE.Material).clone();
-        }
+      const { signal, reportProgress, finishTask } = startCSGTask();
+      const operation = model.csgTree.operation;
+      
+      try {
+        // Rebuild the tree along the path with fresh nodes so history snapshots stay untouched
+        const rebuild = async (node: Model, remaining: number[]): Promise<Model> => {
+          if (remaining.length === 0) {
+            const edited = cloneCSGOperand(node);
+            if (transform.position) edited.mesh.position.fromArray(transform.position);
+            if (transform.rotation) edited.mesh.rotation.set(transform.rotation[0], transform.rotation[1], transform.rotation[2]);
+            if (transform.scale) edited.mesh.scale.fromArray(transform.scale);
+            edited.mesh.updateMatrix();
+            return edited;
+          }
+          
+          const { csgTree, geometry } = await recompute(node, remaining);
+          const updated = cloneCSGOperand(node);
+          updated.csgTree = csgTree;
+          updated.mesh.geometry = geometry;
+          return updated;
+        };
         
-        return {
-          id: model.id,
-          name: model.name,
-          type: model.type,
-          mesh: meshClone,
-          originalPosition: model.originalPosition.clone(),
-          originalRotation: model.originalRotation.clone(),
-          originalScale: model.originalScale.clone()
+        // The boolean of a node with the input along the path edited
+        const recompute = async (node: Model, remaining: number[]): Promise<{ csgTree: CSGTree; geometry: THREE.BufferGeometry }> => {
+          const tree = node.csgTree;
+          const childIndex = remaining[0];
+          if (!tree || !tree.operands[childIndex]) {
+            throw new Error("That boolean input no longer exists");
+          }
+          
+          const operands = [...tree.operands];
+          operands[childIndex] = await rebuild(operands[childIndex], remaining.slice(1));
+          
+          reportProgress(`Recomputing ${node.name}`, 5);
+          const geometry = await computeCSGGeometry(tree.operation, operands, signal, reportProgress);
+          return { csgTree: { operation: tree.operation, operands }, geometry };
         };
-      });
-      
-      // Create the history record
-      const newRecord: HistoryRecord = {
-        models: modelsCopy,
-        selectedModelIndex
-      };
-      
-      // If we're in the middle of the history and perform a new action,
-      // we need to truncate the history after the current index
-      if (currentHistoryIndex < history.length - 1) {
-        const newHistory = history.slice(0, currentHistoryIndex + 1);
-        newHistory.push(newRecord);
         
-        set({
-          history: newHistory,
-          currentHistoryIndex: newHistory.length - 1,
-          canUndo: newHistory.length > 1,
-          canRedo: false
-        });
-      } else {
-        // Otherwise just append to history
-        const newHistory = [...history, newRecord];
+        const { csgTree, geometry } = await recompute(model, path);
         
-        // Cap history at 30 steps to avoid memory issues
-        if (newHistory.length > 30) {
-          newHistory.shift();
+        // The scene stays editable while the worker runs, so find the result again by id;
+        // if it was removed or its inputs changed meanwhile, this recompute is stale
+        const currentModels = get().models;
+        const currentIndex = currentModels.findIndex(candidate => candidate.id === model.id);
+        const current = currentModels[currentIndex];
+        if (!current || current.csgTree !== model.csgTree) {
+          geometry.dispose();
+          throw new Error(`${model.name} changed before its boolean was recomputed`);
         }
         
-        set({
-          history: newHistory,
-          currentHistoryIndex: newHistory.length - 1,
-          canUndo: newHistory.length > 1,
-          canRedo: false
-        });
+        // Swap the geometry on the live mesh so its transform and material are kept
+        current.mesh.geometry = geometry;
+        const updatedModels = [...currentModels];
+        updatedModels[currentIndex] = { ...current, csgTree };
+        
+        finishTask({ models: updatedModels });
+        renderer.render(scene, camera);
+        get().saveHistoryState();
+        get().updateGridPosition();
+      } catch (error) {
+        finishTask();
+        throw toCSGError(operation, error);
       }
-      
-      console.log(`Saved history state. History length: ${get().history.length}, Current index: ${get().currentHistoryIndex}`);
     },
     
-    // Undo the last operation
-    undo: () => {
-      const { history, currentHistoryIndex, scene, renderer, camera } = get();
+    // Replace a boolean result with its inputs, placed where the result currently is
+    restoreCSGOperands: (modelIndex: number) => {
+      const { models, scene, renderer, camera } = get();
+      const model = models[modelIndex];
+      if (!model?.csgTree) return;
       
-      if (currentHistoryIndex <= 0) {
-        console.warn("Cannot undo: at the beginning of history");
-        return;
-      }
+      model.mesh.updateMatrix();
+      const restored = model.csgTree.operands.map(operand => {
+        const copy = cloneCSGOperand(operand);
+        // Carry over any move of the result itself
+        copy.mesh.updateMatrix();
+        copy.mesh.matrix.premultiply(model.mesh.matrix);
+        copy.mesh.matrix.decompose(copy.mesh.position, copy.mesh.quaternion, copy.mesh.scale);
+        scene.add(copy.mesh);
+        return copy;
+      });
+      
+      scene.remove(model.mesh);
       
-      // Move back in history
-      const newIndex = currentHistoryIndex - 1;
-      const targetState = history[newIndex];
+      const updatedModels = models.filter((_, i) => i !== modelIndex);
+      updatedModels.push(...restored);
       
-      // Clear current models from scene
-      get().models.forEach(model => {
-        scene.remove(model.mesh);
+      set({
+        models: updatedModels,
+        selectedModelIndex: updatedModels.length - restored.length,
+        secondaryModelIndex: null
       });
       
-      // Add models from history state to the scene
-      // These are clones in history, so we need to clone them again to avoid modifying history
-      const restoredModels: Model[] = targetState.models.map(historyModel => {
-        const restoredGeometry = (historyModel.mesh.geometry as THREE.BufferGeometry).clone();
+      renderer.render(scene, camera);
+      get().saveHistoryState();
+      get().updateGridPosition();
+    },
+    
+    booleanBackend: DEFAULT_BOOLEAN_BACKEND,
+    
+    setBooleanBackend: (backend: BooleanBackendName) => {
+      set({ booleanBackend: backend });
+      console.log(`Boolean engine set to: ${backend}`);
+    },
+    
+    // Stop a running boolean operation; the worker is terminated and the scene is untouched.
+    // The task's own error handling clears the loading state once it has settled.
+    cancelCSGOperation: () => {
+      csgAbortController?.abort();
+    },
+    
+    // Cut a model into closed pieces, each added as its own model in place of the original
+    splitModel: async (modelIndex: number, planes: SplitPlane[], connectors: ConnectorOptions = DEFAULT_CONNECTOR_OPTIONS) => {
+      const model = get().models[modelIndex];
+      if (!model) {
+        throw new Error("Select a model to split");
+      }
+      if (planes.length === 0) {
+        throw new Error("Add at least one cut plane");
+      }
+      
+      const { signal, reportProgress, finishTask } = startCSGTask();
+      
+      try {
+        model.mesh.updateMatrixWorld(true);
+        const geometry = model.mesh.geometry.clone();
+        geometry.applyMatrix4(model.mesh.matrixWorld);
+        
+        // The cut needs a closed shell to produce closed pieces, so the worker repairs it first
+        console.log(`Splitting ${model.name} along ${planes.length} plane(s) with ${connectors.type} connectors`);
+        const result = await runSplitInWorker(geometry, planes, connectors, {
+          repair: get().autoRepairMeshes,
+          onRepair: report => {
+            console.log(`Pre-split repair of ${model.name}: ${formatRepairReport(report)}`);
+            set({ lastRepairReport: report });
+          },
+          signal,
+          onProgress: ({ stage, percent }) => reportProgress(stage, percent)
+        });
         
-        // Clone materials
-        let restoredMaterial: THREE.Material | THREE.Material[];
-        if (Array.isArray(historyModel.mesh.material)) {
-          restoredMaterial = historyModel.mesh.material.map(mat => mat.clone());
-        } else {
-          restoredMaterial = (historyModel.mesh.material as THREE.Material).clone();
+        if (result.geometries.length < 2) {
+          throw new Error("None of the cut planes pass through the model");
         }
         
-        // Create the restored mesh
-        const restoredMesh = new THREE.Mesh(restoredGeometry, restoredMaterial);
-        
-        // Copy transform properties
-        restoredMesh.position.copy(historyModel.mesh.position);
-        restoredMesh.rotation.copy(historyModel.mesh.rotation);
-        restoredMesh.scale.copy(historyModel.mesh.scale);
-        
-        // Ensure casting shadows
-        restoredMesh.castShadow = true;
-        restoredMesh.receiveShadow = true;
+        const color = getMeshColor(model.mesh);
+        const pieces = result.geometries.map((pieceGeometry, i) =>
+          createPieceModel(pieceGeometry, `${model.name}_part${i + 1}`, color)
+        );
         
-        // Add to scene
-        scene.add(restoredMesh);
+        removeSplitPreview();
+        replaceModelWithPieces(model, pieces);
+        finishTask();
+        get().saveHistoryState(`Split ${model.name} into ${pieces.length} pieces`);
         
+        console.log(`Split ${model.name} into ${pieces.length} pieces with ${result.connectorCount} connectors`);
         return {
-          id: historyModel.id,
-          name: historyModel.name,
-          type: historyModel.type,
-          mesh: restoredMesh,
-          originalPosition: historyModel.originalPosition.clone(),
-          originalRotation: historyModel.originalRotation.clone(),
-          originalScale: historyModel.originalScale.clone()
+          pieceCount: pieces.length,
+          connectorCount: result.connectorCount,
+          skippedFaces: result.skippedFaces
         };
-      });
+      } catch (error) {
+        finishTask();
+        if (error instanceof CSGCancelledError) {
+          console.log(`Split of ${model.name} cancelled`);
+          throw error;
+        }
+        
+        console.error(`Error splitting ${model.name}:`, error);
+        const reason = error instanceof Error ? ` ${error.message}.` : '';
+        throw new Error(`Could not split ${model.name}.${reason}`);
+      }
+    },
+    
+    // Show the cutting plane gizmo through the middle of a model, facing up
+    startPlaneCut: (modelIndex?: number) => {
+      const { models, selectedModelIndex } = get();
+      const model = models[modelIndex ?? selectedModelIndex ?? -1];
+      if (!model) {
+        console.warn("No model selected to cut");
+        return;
+      }
       
-      // Update state
+      get().cancelSimplify();
+      model.mesh.updateMatrixWorld(true);
+      const centre = new THREE.Box3().setFromObject(model.mesh, true).getCenter(new THREE.Vector3());
       set({
-        models: restoredModels,
-        selectedModelIndex: targetState.selectedModelIndex,
-        currentHistoryIndex: newIndex,
-        canUndo: newIndex > 0,
-        canRedo: true
+        cutPlane: { modelId: model.id, origin: centre.toArray(), normal: [0, 1, 0] },
+        edgeBlend: null,
+        hollow: null,
+        layFlatMode: false
       });
+      console.log(`Placing a cutting plane through ${model.name}`);
+    },
+    
+    setCutPlane: (plane: Partial<Pick<CutPlaneState, 'origin' | 'normal'>>) => {
+      const { cutPlane } = get();
+      if (!cutPlane) return;
       
-      // Reapply highlighting to the selected model
-      if (targetState.selectedModelIndex !== null) {
-        const selectedModel = restoredModels[targetState.selectedModelIndex];
-        if (selectedModel) {
-          const material = selectedModel.mesh.material;
-          // Check if material is a MeshStandardMaterial or MeshPhysicalMaterial before setting emissive
-          if (material instanceof THREE.MeshStandardMaterial || 
-              material instanceof THREE.MeshPhysicalMaterial) {
-            material.emissive.set(0x444444);
-          }
-        }
-      }
-      
-      // Force a render
-      renderer.render(scene, camera);
+      const normal = plane.normal ? new THREE.Vector3(...plane.normal) : null;
+      if (normal && normal.lengthSq() === 0) return;
       
-      console.log(`Undo to history index ${newIndex}. Can undo: ${newIndex > 0}, Can redo: true`);
+      set({
+        cutPlane: {
+          ...cutPlane,
+          ...(plane.origin ? { origin: plane.origin } : {}),
+          ...(normal ? { normal: normal.normalize().toArray() } : {})
+        }
+      });
     },
     
-    // Redo the last undone operation
-    redo: () => {
-      const { history, currentHistoryIndex, scene, renderer, camera } = get();
-      
-      if (currentHistoryIndex >= history.length - 1) {
-        console.warn("Cannot redo: at the end of history");
-        return;
+    cancelPlaneCut: () => {
+      set({ cutPlane: null });
+    },
+    
+    // Cut the model with the placed plane; returns how many models the cut left behind
+    applyPlaneCut: async (keep: CutKeep, sectionThickness = 2) => {
+      const { cutPlane, models } = get();
+      const model = cutPlane ? models.find(candidate => candidate.id === cutPlane.modelId) : undefined;
+      if (!cutPlane || !model) {
+        throw new Error("Place a cutting plane through a model first");
       }
       
-      // Move forward in history
-      const newIndex = currentHistoryIndex + 1;
-      const targetState = history[newIndex];
+      const normal = new THREE.Vector3(...cutPlane.normal);
+      const plane: SplitPlane = {
+        normal: cutPlane.normal,
+        offset: normal.dot(new THREE.Vector3(...cutPlane.origin))
+      };
       
-      // Clear current models from scene
-      get().models.forEach(model => {
-        scene.remove(model.mesh);
-      });
+      const { signal, reportProgress, finishTask } = startCSGTask();
       
-      // Add models from history state to the scene
-      const restoredModels: Model[] = targetState.models.map(historyModel => {
-        const restoredGeometry = (historyModel.mesh.geometry as THREE.BufferGeometry).clone();
-        
-        // Clone materials
-        let restoredMaterial: THREE.Material | THREE.Material[];
-        if (Array.isArray(historyModel.mesh.material)) {
-          restoredMaterial = historyModel.mesh.material.map(mat => mat.clone());
-        } else {
-          restoredMaterial = (historyModel.mesh.material as THREE.Material).clone();
-        }
-        
-        // Create the restored mesh
-        const restoredMesh = new THREE.Mesh(restoredGeometry, restoredMaterial);
+      try {
+        model.mesh.updateMatrixWorld(true);
+        const geometry = model.mesh.geometry.clone();
+        geometry.applyMatrix4(model.mesh.matrixWorld);
+        
+        console.log(`Cutting ${model.name}, keeping ${keep}`);
+        const geometries = await runCutInWorker(geometry, plane, keep, sectionThickness, {
+          signal,
+          onProgress: ({ stage, percent }) => reportProgress(stage, percent)
+        });
         
-        // Copy transform properties
-        restoredMesh.position.copy(historyModel.mesh.position);
-        restoredMesh.rotation.copy(historyModel.mesh.rotation);
-        restoredMesh.scale.copy(historyModel.mesh.scale);
+        const names: Record<CutKeep, string[]> = {
+          above: [`${model.name}_trimmed`],
+          below: [`${model.name}_trimmed`],
+          both: [`${model.name}_part1`, `${model.name}_part2`],
+          section: [`${model.name}_section`]
+        };
+        const color = getMeshColor(model.mesh);
+        const pieces = geometries.map((pieceGeometry, i) => createPieceModel(pieceGeometry, names[keep][i] ?? model.name, color));
         
-        // Ensure casting shadows
-        restoredMesh.castShadow = true;
-        restoredMesh.receiveShadow = true;
+        replaceModelWithPieces(model, pieces);
+        finishTask({ cutPlane: null });
+        get().saveHistoryState(keep === 'section' ? `Cross-section of ${model.name}` : `Cut ${model.name}`);
         
-        // Add to scene
-        scene.add(restoredMesh);
+        return pieces.length;
+      } catch (error) {
+        finishTask();
+        if (error instanceof CSGCancelledError) {
+          console.log(`Cut of ${model.name} cancelled`);
+          throw error;
+        }
         
-        return {
-          id: historyModel.id,
-          name: historyModel.name,
-          type: historyModel.type,
-          mesh: restoredMesh,
-          originalPosition: historyModel.originalPosition.clone(),
-          originalRotation: historyModel.originalRotation.clone(),
-          originalScale: historyModel.originalScale.clone()
-        };
-      });
-      
-      // Update state
-      set({
-        models: restoredModels,
-        selectedModelIndex: targetState.selectedModelIndex,
-        currentHistoryIndex: newIndex,
-        canUndo: true,
-        canRedo: newIndex < history.length - 1
-      });
+        console.error(`Error cutting ${model.name}:`, error);
+        const reason = error instanceof Error ? ` ${error.message}.` : '';
+        throw new Error(`Could not cut ${model.name}.${reason}`);
+      }
+    },
+    
+    // Show translucent cut planes across a model, or hide them with a null index
+    setSplitPreview: (modelIndex: number | null, planes: SplitPlane[] = []) => {
+      const { models, scene, renderer, camera } = get();
+      removeSplitPreview();
       
-      // Reapply highlighting to the selected model
-      if (targetState.selectedModelIndex !== null) {
-        const selectedModel = restoredModels[targetState.selectedModelIndex];
-        if (selectedModel) {
-          const material = selectedModel.mesh.material;
-          // Check if material is a MeshStandardMaterial or MeshPhysicalMaterial before setting emissive
-          if (material instanceof THREE.MeshStandardMaterial || 
-              material instanceof THREE.MeshPhysicalMaterial) {
-            material.emissive.set(0x444444);
-          }
-        }
+      const model = modelIndex !== null ? models[modelIndex] : undefined;
+      if (model && planes.length > 0) {
+        model.mesh.updateMatrixWorld(true);
+        scene.add(createSplitPreview(planes, new THREE.Box3().setFromObject(model.mesh, true)));
       }
+      renderer.render(scene, camera);
+    },
+    
+    setSectionView: (settings: Partial<SectionViewState>) => {
+      const { sectionView, scene, renderer, camera } = get();
+      const next = { ...sectionView, ...settings };
+      set({ sectionView: next });
       
-      // Force a render
+      if (next.enabled !== sectionView.enabled) {
+        console.log(next.enabled ? `Section view on ${next.axis.toUpperCase()} at ${next.position.toFixed(1)} mm` : "Section view off");
+      }
+      updateSectionView();
       renderer.render(scene, camera);
+    },
+    
+    // Find the sharp edges of a model and offer them all for blending; returns how many were found
+    startEdgeBlend: (modelIndex?: number) => {
+      const { models, selectedModelIndex } = get();
+      const model = models[modelIndex ?? selectedModelIndex ?? -1];
+      if (!model) {
+        console.warn("No model selected to blend");
+        return 0;
+      }
       
-      console.log(`Redo to history index ${newIndex}. Can undo: true, Can redo: ${newIndex < history.length - 1}`);
+      get().cancelSimplify();
+      const edges = findFeatureEdges(model.mesh.geometry);
+      set({
+        edgeBlend: edges.length > 0 ? { modelId: model.id, edges, selected: edges.map(() => true) } : null,
+        cutPlane: null,
+        hollow: null,
+        measureMode: false,
+        layFlatMode: false
+      });
+      console.log(`Found ${edges.length} sharp edges on ${model.name}`);
+      return edges.length;
     },
     
-    // Export the selected model as STL
-    exportSelectedModelAsSTL: () => {
-      const { selectedModelIndex, models } = get();
+    toggleBlendEdge: (edgeIndex: number) => {
+      const { edgeBlend } = get();
+      if (!edgeBlend || edgeIndex < 0 || edgeIndex >= edgeBlend.edges.length) return;
       
-      if (selectedModelIndex === null || !models[selectedModelIndex]) {
-        console.warn("No model selected for export");
-        return null;
+      const selected = [...edgeBlend.selected];
+      selected[edgeIndex] = !selected[edgeIndex];
+      set({ edgeBlend: { ...edgeBlend, selected } });
+    },
+    
+    setBlendEdgesSelected: (selected: boolean) => {
+      const { edgeBlend } = get();
+      if (!edgeBlend) return;
+      set({ edgeBlend: { ...edgeBlend, selected: edgeBlend.edges.map(() => selected) } });
+    },
+    
+    cancelEdgeBlend: () => {
+      set({ edgeBlend: null });
+    },
+    
+    // Fillet or chamfer the picked edges in place; returns how many edges were blended
+    applyEdgeBlend: async (options: EdgeBlendOptions) => {
+      const { edgeBlend, models } = get();
+      const model = edgeBlend ? models.find(candidate => candidate.id === edgeBlend.modelId) : undefined;
+      if (!edgeBlend || !model) {
+        throw new Error("Pick the edges of a model to blend first");
+      }
+      
+      const picked = edgeBlend.edges.filter((_, i) => edgeBlend.selected[i]);
+      if (picked.length === 0) {
+        throw new Error("Pick at least one edge");
       }
       
+      const { signal, reportProgress, finishTask } = startCSGTask();
+      
       try {
-        const selectedModel = models[selectedModelIndex];
-        
-        // Clone the mesh to preserve the original
-        const meshToExport = selectedModel.mesh.clone();
-        
-        // Create an STL exporter
-        const exporter = new STLExporter();
-        
-        // Export the model as STL binary format
-        const result = exporter.parse(meshToExport, { binary: true });
-        
-        // Create a blob from the result
-        const blob = new Blob([result], { type: result instanceof Uint8Array ? 'application/octet-stream' : 'text/plain' });
-        
-        // Return the blob
-        return blob;
+        // Blend in world space so sizes are true millimetres on scaled models
+        model.mesh.updateMatrixWorld(true);
+        const matrix = model.mesh.matrixWorld.clone();
+        const geometry = model.mesh.geometry.clone();
+        geometry.applyMatrix4(matrix);
+        
+        const label = options.type === 'fillet' ? 'Fillet' : 'Chamfer';
+        console.log(`${label} ${picked.length} edges of ${model.name} at ${options.size} mm`);
+        const blended = await runBlendInWorker(
+          geometry,
+          picked.map(edge => transformFeatureEdge(edge, matrix)),
+          options,
+          { signal, onProgress: ({ stage, percent }) => reportProgress(stage, percent) }
+        );
         
+        finishTask({ edgeBlend: null });
+        replaceModelGeometry(model, toModelSpace(blended, matrix), `${label} edges of ${model.name}`);
+        return picked.length;
       } catch (error) {
-        console.error("Error exporting STL:", error);
-        throw new Error("Failed to export STL file");
+        finishTask();
+        throw toModelEditError(`blend the edges of ${model.name}`, error);
       }
     },
     
-    // Toggle snap on/off
-    toggleSnap: () => {
-      const { snapSettings, clearSnapIndicators } = get();
-      
-      // Toggle the enabled state
-      const newEnabledState = !snapSettings.enabled;
+    // Start setting up a hollow for a model, with no drain holes yet
+    startHollow: (modelIndex?: number) => {
+      const { models, selectedModelIndex } = get();
+      const model = models[modelIndex ?? selectedModelIndex ?? -1];
+      if (!model) {
+        console.warn("No model selected to hollow");
+        return;
+      }
       
+      get().cancelSimplify();
       set({
-        snapSettings: {
-          ...snapSettings,
-          enabled: newEnabledState
-        }
+        hollow: { modelId: model.id, holes: [] },
+        cutPlane: null,
+        edgeBlend: null,
+        measureMode: false,
+        layFlatMode: false
       });
-      
-      // If turning off snap mode, clear indicators
-      if (!newEnabledState) {
-        clearSnapIndicators();
-      }
-      
-      console.log(`Snap mode ${newEnabledState ? 'enabled' : 'disabled'}`);
+      console.log(`Setting up a hollow for ${model.name}`);
     },
     
-    // Update snap settings
-    updateSnapSettings: (settings: Partial<SnapSettings>) => {
-      const { snapSettings } = get();
-      set({ 
-        snapSettings: { 
-          ...snapSettings, 
-          ...settings
-        } 
-      });
-      console.log("Updated snap settings:", { ...snapSettings, ...settings });
+    addDrainHole: (hole: DrainHole) => {
+      const { hollow } = get();
+      if (!hollow) return;
+      set({ hollow: { ...hollow, holes: [...hollow.holes, hole] } });
     },
     
-    // Clear snap indicators
-    clearSnapIndicators: () => {
-      const { scene, snapIndicators } = get();
+    removeDrainHole: (holeIndex: number) => {
+      const { hollow } = get();
+      if (!hollow) return;
+      set({ hollow: { ...hollow, holes: hollow.holes.filter((_, i) => i !== holeIndex) } });
+    },
+    
+    cancelHollow: () => {
+      set({ hollow: null });
+    },
+    
+    // Hollow the model in place, drilling the picked drain holes; reports the material saved
+    applyHollow: async (settings: HollowSettings) => {
+      const { hollow, models } = get();
+      const model = hollow ? models.find(candidate => candidate.id === hollow.modelId) : undefined;
+      if (!hollow || !model) {
+        throw new Error("Pick a model to hollow first");
+      }
+      
+      const { signal, reportProgress, finishTask } = startCSGTask();
+      
+      try {
+        // Hollow in world space so the wall thickness is true millimetres on scaled models
+        model.mesh.updateMatrixWorld(true);
+        const matrix = model.mesh.matrixWorld.clone();
+        const normalMatrix = new THREE.Matrix3().getNormalMatrix(matrix);
+        const geometry = model.mesh.geometry.clone();
+        geometry.applyMatrix4(matrix);
+        const volumeBeforeMm3 = analyzeMeshDiagnostics(geometry).volumeMm3;
+        const priceBefore = quoteUnitPrice(geometry);
+        const cavitySpacingMm = getCavitySpacing(geometry, settings);
+        
+        const holes: DrainHole[] = hollow.holes.map(hole => ({
+          point: new THREE.Vector3(...hole.point).applyMatrix4(matrix).toArray(),
+          normal: new THREE.Vector3(...hole.normal).applyMatrix3(normalMatrix).normalize().toArray()
+        }));
+        
+        console.log(`Hollowing ${model.name} with ${settings.wallThickness} mm walls and ${holes.length} drain holes`);
+        const hollowed = await runHollowInWorker(geometry, settings, holes, {
+          signal,
+          onProgress: ({ stage, percent }) => reportProgress(stage, percent)
+        });
+        const volumeAfterMm3 = analyzeMeshDiagnostics(hollowed).volumeMm3;
+        const priceAfter = quoteUnitPrice(hollowed);
+        if (priceAfter >= priceBefore) {
+          console.warn(`Hollowing ${model.name} did not lower its price: $${priceBefore} -> $${priceAfter}`);
+        }
+        
+        finishTask({ hollow: null });
+        replaceModelGeometry(model, toModelSpace(hollowed, matrix), `Hollow ${model.name}`);
+        return { volumeBeforeMm3, volumeAfterMm3, priceBefore, priceAfter, cavitySpacingMm };
+      } catch (error) {
+        finishTask();
+        throw toModelEditError(`hollow ${model.name}`, error);
+      }
+    },
+    
+    // Start simplifying a model, before anything has been previewed
+    startSimplify: (modelIndex?: number) => {
+      const { models, selectedModelIndex } = get();
+      const model = models[modelIndex ?? selectedModelIndex ?? -1];
+      if (!model) {
+        console.warn("No model selected to simplify");
+        return;
+      }
+      
+      get().cancelSimplify();
+      const trianglesBefore = countTriangles(model.mesh.geometry);
+      set({
+        simplify: { modelId: model.id, trianglesBefore, preview: null, trianglesAfter: null, showPreview: false },
+        cutPlane: null,
+        edgeBlend: null,
+        hollow: null,
+        measureMode: false,
+        layFlatMode: false
+      });
+      console.log(`Simplifying ${model.name}, ${trianglesBefore} triangles`);
+    },
+    
+    // Work out the simplified model and show it in place of the original; returns its triangle count
+    previewSimplify: async (options: SimplifyOptions) => {
+      const { simplify, models } = get();
+      const model = simplify ? models.find(candidate => candidate.id === simplify.modelId) : undefined;
+      if (!simplify || !model) {
+        throw new Error("Pick a model to simplify first");
+      }
+      
+      const { signal, reportProgress, finishTask } = startCSGTask();
+      
+      try {
+        // Simplify in world space so the tolerance and edge length are true millimetres on scaled models
+        model.mesh.updateMatrixWorld(true);
+        const matrix = model.mesh.matrixWorld.clone();
+        const geometry = model.mesh.geometry.clone();
+        geometry.applyMatrix4(matrix);
+        
+        console.log(`Previewing ${model.name} simplified`, options);
+        const simplified = await runSimplifyInWorker(geometry, options, {
+          signal,
+          onProgress: ({ stage, percent }) => reportProgress(stage, percent)
+        });
+        
+        // Only one preview is kept; an earlier one is never shown again
+        const current = get().simplify;
+        current?.preview?.dispose();
+        const preview = toModelSpace(simplified, matrix);
+        const trianglesAfter = countTriangles(preview);
+        finishTask({ simplify: current ? { ...current, preview, trianglesAfter, showPreview: true } : null });
+        return trianglesAfter;
+      } catch (error) {
+        finishTask();
+        throw toModelEditError(`simplify ${model.name}`, error);
+      }
+    },
+    
+    setSimplifyPreviewShown: (shown: boolean) => {
+      const { simplify } = get();
+      if (!simplify?.preview) return;
+      set({ simplify: { ...simplify, showPreview: shown } });
+    },
+    
+    cancelSimplify: () => {
+      get().simplify?.preview?.dispose();
+      set({ simplify: null });
+    },
+    
+    // Replace the model with the previewed result
+    applySimplify: () => {
+      const { simplify, models } = get();
+      const model = simplify ? models.find(candidate => candidate.id === simplify.modelId) : undefined;
+      if (!simplify?.preview || !model) {
+        console.warn("Nothing previewed to apply");
+        return;
+      }
+      
+      replaceModelGeometry(model, simplify.preview, `Simplify ${model.name}`, { simplify: null });
+      console.log(`Simplified ${model.name} from ${simplify.trianglesBefore} to ${simplify.trianglesAfter} triangles`);
+    },
+    
+    // Record everything that changed since the last step as one undoable command
+    saveHistoryState: (label?: string) => {
+      const { history, currentHistoryIndex } = get();
+      
+      const snapshot = captureSceneSnapshot();
+      const command = createHistoryCommand(historySnapshot, snapshot, label);
+      historySnapshot = snapshot;
+      
+      // Selection changes alone are not undoable steps
+      if (!command) {
+        return;
+      }
+      
+      // The heatmap describes the scene as it was before this change
+      get().clearPrintabilityOverlay();
+      updateOutOfBoundsHighlights();
+      
+      // A new action discards any steps that were undone
+      const newHistory = [...history.slice(0, currentHistoryIndex + 1), command];
+      if (newHistory.length > MAX_HISTORY_STEPS) {
+        newHistory.splice(0, newHistory.length - MAX_HISTORY_STEPS);
+      }
+      
+      set({
+        history: newHistory,
+        currentHistoryIndex: newHistory.length - 1,
+        canUndo: true,
+        canRedo: false
+      });
+      
+      console.log(`Saved history step "${command.label}". History length: ${newHistory.length}`);
+      
+      // Persist the scene so a refresh or crash doesn't lose work
+      scheduleAutosave();
+    },
+    
+    // Undo the last operation
+    undo: () => {
+      const { currentHistoryIndex } = get();
+      
+      if (currentHistoryIndex < 0) {
+        console.warn("Cannot undo: at the beginning of history");
+        return;
+      }
+      
+      get().jumpToHistory(currentHistoryIndex - 1);
+    },
+    
+    // Redo the last undone operation
+    redo: () => {
+      const { history, currentHistoryIndex } = get();
+      
+      if (currentHistoryIndex >= history.length - 1) {
+        console.warn("Cannot redo: at the end of history");
+        return;
+      }
+      
+      get().jumpToHistory(currentHistoryIndex + 1);
+    },
+    
+    // Undo or redo until the given step is the last applied one (-1 is the start of history)
+    jumpToHistory: (index: number) => {
+      const { history, currentHistoryIndex, scene, renderer, camera } = get();
+      const targetIndex = Math.max(-1, Math.min(index, history.length - 1));
+      
+      if (targetIndex === currentHistoryIndex) {
+        return;
+      }
+      
+      let selection = get().selectedModelIndex;
+      
+      // Walk backwards applying each command's before state
+      for (let i = currentHistoryIndex; i > targetIndex; i--) {
+        const command = history[i];
+        applyHistoryState(command, command.orderBefore, command.before);
+        selection = command.selectionBefore;
+      }
+      
+      // Or forwards applying each command's after state
+      for (let i = currentHistoryIndex + 1; i <= targetIndex; i++) {
+        const command = history[i];
+        applyHistoryState(command, command.orderAfter, command.after);
+        selection = command.selectionAfter;
+      }
+      
+      historySnapshot = captureSceneSnapshot();
+      get().clearPrintabilityOverlay();
+      updateOutOfBoundsHighlights();
+      
+      set({
+        currentHistoryIndex: targetIndex,
+        canUndo: targetIndex >= 0,
+        canRedo: targetIndex < history.length - 1
+      });
+      
+      // Reapply highlighting to the restored selection
+      const restoredModels = get().models;
+      get().selectModel(selection !== null && selection < restoredModels.length ? selection : null);
+      get().updateGridPosition();
+      
+      // Force a render
+      renderer.render(scene, camera);
+      
+      console.log(`Moved to history index ${targetIndex}. Can undo: ${targetIndex >= 0}, Can redo: ${targetIndex < history.length - 1}`);
+      
+      scheduleAutosave();
+    },
+    
+    // Export the selected model as STL, in the scene's Y-up coordinates that the quote measures along
+    exportSelectedModelAsSTL: () => {
+      const { selectedModelIndex, models } = get();
+      
+      if (selectedModelIndex === null || !models[selectedModelIndex]) {
+        console.warn("No model selected for export");
+        return null;
+      }
+      
+      try {
+        const selectedModel = models[selectedModelIndex];
+        
+        // Clone the mesh to preserve the original
+        const meshToExport = selectedModel.mesh.clone();
+        
+        // Create an STL exporter
+        const exporter = new STLExporter();
+        
+        // Export the model as STL binary format
+        const result = exporter.parse(meshToExport, { binary: true });
+        
+        // Create a blob from the result
+        const blob = new Blob([result], { type: result instanceof Uint8Array ? 'application/octet-stream' : 'text/plain' });
+        
+        // Return the blob
+        return blob;
+        
+      } catch (error) {
+        console.error("Error exporting STL:", error);
+        throw new Error("Failed to export STL file");
+      }
+    },
+
+    // Export every model in the scene as a multi-object 3MF
+    exportSceneAs3MF: () => {
+      const { models } = get();
+      
+      if (models.length === 0) {
+        console.warn("No models to export");
+        return null;
+      }
+      
+      try {
+        const data = export3MF(models);
+        return new Blob([data], { type: 'model/3mf' });
+      } catch (error) {
+        console.error("Error exporting 3MF:", error);
+        throw new Error("Failed to export 3MF file");
+      }
+    },
+    
+    // Serialize every model in the scene into a project file
+    saveProject: () => {
+      const { models, unit, measurements } = get();
+      const project = serializeProject(models, unit, measurements);
+      console.log(`Saved project with ${project.models.length} models`);
+      return projectToBlob(project);
+    },
+    
+    // Replace the current scene with the contents of a project file
+    loadProject: async (file: File | Blob | string) => {
+      let project: ProjectFile;
+      try {
+        project = await readProjectFile(file);
+      } catch (error) {
+        console.error("Error reading project file:", error);
+        throw new Error(`Failed to open project: ${error instanceof Error ? error.message : error}`);
+      }
+      
+      applyProject(project);
+      console.log(`Loaded project with ${project.models.length} models`);
+    },
+    
+    // Restore the last autosaved scene, if there is one
+    restoreAutosave: async () => {
+      try {
+        const project = await loadAutosave();
+        if (!project || project.models.length === 0) {
+          return false;
+        }
+        
+        applyProject(project);
+        console.log(`Restored autosaved project with ${project.models.length} models`);
+        return true;
+      } catch (error) {
+        console.warn("Could not restore autosaved project:", error);
+        return false;
+      }
+    },
+    
+    // Toggle snap on/off
+    toggleSnap: () => {
+      const { snapSettings, clearSnapIndicators } = get();
+      
+      // Toggle the enabled state
+      const newEnabledState = !snapSettings.enabled;
+      
+      set({
+        snapSettings: {
+          ...snapSettings,
+          enabled: newEnabledState
+        }
+      });
+      
+      // If turning off snap mode, clear indicators
+      if (!newEnabledState) {
+        clearSnapIndicators();
+      }
+      
+      console.log(`Snap mode ${newEnabledState ? 'enabled' : 'disabled'}`);
+    },
+    
+    // Update snap settings
+    updateSnapSettings: (settings: Partial<SnapSettings>) => {
+      const { snapSettings } = get();
+      set({ 
+        snapSettings: { 
+          ...snapSettings, 
+          ...settings
+        } 
+      });
+      console.log("Updated snap settings:", { ...snapSettings, ...settings });
+    },
+    
+    // Clear snap indicators
+    clearSnapIndicators: () => {
+      const { scene, snapIndicators } = get();
       
       // Remove all existing snap indicators from the scene
       snapIndicators.forEach(indicator => {
@@ -1870,6 +2882,65 @@ export const useScene = create<SceneState>((set, get) => {
       
       console.log(`Axes visibility set to: ${show}`);
     },
+    
+    setAutoRepairMeshes: (enabled: boolean) => {
+      set({ autoRepairMeshes: enabled });
+      console.log(`Automatic mesh repair ${enabled ? 'enabled' : 'disabled'}`);
+    },
+    
+    // Analyze a model and color it by overhang, wall thickness or floating islands
+    showPrintabilityOverlay: (modelIndex: number, mode: PrintabilityOverlayMode) => {
+      const { models, scene, renderer, camera } = get();
+      const model = models[modelIndex];
+      
+      if (!model) {
+        console.warn("No model to analyze for printability");
+        return null;
+      }
+      
+      // Reuse the analysis when only the overlay mode changes
+      if (!printabilityAnalysis || printabilityAnalysis.modelId !== model.id) {
+        console.log(`Analyzing printability of ${model.name}`);
+        printabilityAnalysis = { modelId: model.id, analysis: analyzeMeshPrintability(model.mesh) };
+      }
+      
+      removePrintabilityOverlayMesh();
+      printabilityOverlayMesh = createPrintabilityOverlay(printabilityAnalysis.analysis, mode);
+      scene.add(printabilityOverlayMesh);
+      
+      const { summary } = printabilityAnalysis.analysis;
+      set({ printabilityOverlay: { modelId: model.id, mode, summary } });
+      renderer.render(scene, camera);
+      
+      return summary;
+    },
+    
+    clearPrintabilityOverlay: () => {
+      const { scene, renderer, camera } = get();
+      
+      removePrintabilityOverlayMesh();
+      printabilityAnalysis = null;
+      set({ printabilityOverlay: null });
+      renderer.render(scene, camera);
+    },
+    
+    // Counts, watertightness, volume and size of a model (the selected one by default)
+    getMeshDiagnostics: (modelIndex?: number, density = getMaterialDensity('PLA')) => {
+      const { models, selectedModelIndex } = get();
+      const model = models[modelIndex ?? selectedModelIndex ?? -1];
+      if (!model) {
+        return null;
+      }
+      
+      model.mesh.updateMatrixWorld(true);
+      const diagnostics = analyzeMeshDiagnostics(model.mesh.geometry, model.mesh.matrixWorld);
+      return {
+        ...diagnostics,
+        modelId: model.id,
+        density,
+        weightGrams: estimateWeightGrams(diagnostics.volumeMm3, density)
+      };
+    },
 
     // Add function to set rendering mode
     setRenderingMode: (mode: 'standard' | 'wireframe' | 'metallic' | 'glass-like' | 'xray') => {
@@ -2243,153 +3314,938 @@ declare global {
   }
 }
 
-// Helper function to merge geometries for the fallback union approach
-function mergeGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry {
-  // Create a new BufferGeometry to store the merged result
-  const mergedGeometry = new THREE.BufferGeometry();
+// Abort handle for the boolean operation currently running in the worker
+let csgAbortController: AbortController | null = null;
+
+// Price of one PLA print of a world-space geometry, as the checkout would quote it
+function quoteUnitPrice(geometry: THREE.BufferGeometry): number {
+  const triangles = geometry.index ? geometry.toNonIndexed() : geometry;
+  const metrics = computeMeshMetrics(triangles.getAttribute('position').array);
+  if (triangles !== geometry) {
+    triangles.dispose();
+  }
+  return calculateQuote({ material: 'PLA', quantity: 1, metrics }).unitPrice;
+}
+
+// Copy a CSG operand (or result) so edits never touch meshes shared with history or other trees
+function cloneCSGOperand(model: Model): Model {
+  const mesh = model.mesh.clone(false);
+  mesh.material = Array.isArray(model.mesh.material)
+    ? model.mesh.material.map(mat => mat.clone())
+    : model.mesh.material.clone();
   
-  // First, determine total counts
-  let totalVertices = 0;
-  let totalIndices = 0;
+  // Operands are stored without the selection highlight
+  if (mesh.material instanceof THREE.MeshStandardMaterial) {
+    mesh.material.emissive.set(0x000000);
+  }
   
-  geometries.forEach(geometry => {
-    totalVertices += geometry.attributes.position.count;
-    if (geometry.index) {
-      totalIndices += geometry.index.count;
-    } else {
-      // If no indices, we'll create one triangle per 3 vertices
-      totalIndices += geometry.attributes.position.count;
-    }
-  });
+  return {
+    ...model,
+    mesh,
+    originalPosition: model.originalPosition.clone(),
+    originalRotation: model.originalRotation.clone(),
+    originalScale: model.originalScale.clone()
+  };
+}
+
+// Bring a world-space edit result back into the space of the model it came from
+function toModelSpace(geometry: THREE.BufferGeometry, matrixWorld: THREE.Matrix4): THREE.BufferGeometry {
+  geometry.applyMatrix4(matrixWorld.clone().invert());
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// Turn a failed model edit into an error that names it; cancellation passes through untouched
+function toModelEditError(action: string, error: unknown): Error {
+  if (error instanceof CSGCancelledError) {
+    console.log(`Cancelled: ${action}`);
+    return error;
+  }
   
-  // Create arrays to hold the merged data
-  const positions = new Float32Array(totalVertices * 3);
-  const normals = new Float32Array(totalVertices * 3);
-  const indices = new Uint32Array(totalIndices);
+  console.error(`Could not ${action}:`, error);
+  const reason = error instanceof Error ? ` ${error.message}.` : '';
+  return new Error(`Could not ${action}.${reason}`);
+}
+
+// Turn a failed boolean into a user-friendly error; cancellation passes through untouched
+function toCSGError(operationType: 'union' | 'subtract' | 'intersect', error: unknown): Error {
+  // Cancelling leaves the scene exactly as it was
+  if (error instanceof CSGCancelledError) {
+    console.log(`CSG ${operationType} operation cancelled`);
+    return error;
+  }
   
-  let vertexOffset = 0;
-  let indexOffset = 0;
+  console.error(`Error during CSG ${operationType} operation:`, error);
   
-  // Process each geometry
-  geometries.forEach(geometry => {
-    const positionAttribute = geometry.attributes.position;
-    
-    // Get position data - need to handle different ways of accessing the data
-    for (let i = 0; i < positionAttribute.count; i++) {
-      const x = positionAttribute.getX(i);
-      const y = positionAttribute.getY(i);
-      const z = positionAttribute.getZ(i);
-      
-      positions[vertexOffset * 3] = x;
-      positions[vertexOffset * 3 + 1] = y;
-      positions[vertexOffset * 3 + 2] = z;
-      
-      vertexOffset++;
+  // Create a user-friendly error message
+  let userErrorMessage = `The ${operationType} operation failed.`;
+  
+  if (error && typeof error === 'object' && 'message' in error) {
+    const errorMessage = error.message as string;
+    if (errorMessage.includes("non-manifold") || errorMessage.includes("watertight")) {
+      userErrorMessage += " The models have gaps or overlaps that prevent a clean operation.";
+    } else if (errorMessage.includes("intersect") || errorMessage.includes("overlap")) {
+      userErrorMessage += " The models don't intersect properly.";
+    } else if (errorMessage.includes("complex")) {
+      userErrorMessage += " The models are too complex for this operation.";
     }
-    
-    // Ensure normals exist
-    if (!geometry.attributes.normal) {
-      geometry.computeVertexNormals();
+  }
+  
+  userErrorMessage += " Try repositioning the models or using simpler shapes.";
+  
+  return new Error(userErrorMessage);
+}
+
+// Scene state as of the last recorded history step
+let historySnapshot: SceneSnapshot = { order: [], models: new Map(), selectedModelIndex: null };
+let nextHistoryCommandId = 1;
+
+const HISTORY_OPERATION_LABELS: Record<BooleanOperationType, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect'
+};
+
+function snapshotModel(model: Model): ModelSnapshot {
+  const { mesh } = model;
+  return {
+    model,
+    mesh,
+    geometry: mesh.geometry,
+    color: getMeshColor(mesh).getHex(),
+    position: mesh.position.clone(),
+    quaternion: mesh.quaternion.clone(),
+    scale: mesh.scale.clone(),
+    name: model.name,
+    ...(model.textProps ? { textProps: { ...model.textProps } } : {}),
+    ...(model.csgTree ? { csgTree: model.csgTree } : {}),
+    ...(model.primitive ? { primitive: { ...model.primitive } } : {})
+  };
+}
+
+function captureSceneSnapshot(): SceneSnapshot {
+  const { models, selectedModelIndex } = useScene.getState();
+  return {
+    order: models.map(model => model.id),
+    models: new Map(models.map(model => [model.id, snapshotModel(model)])),
+    selectedModelIndex
+  };
+}
+
+function isSameTransform(a: ModelSnapshot, b: ModelSnapshot): boolean {
+  return a.position.equals(b.position) && a.quaternion.equals(b.quaternion) && a.scale.equals(b.scale);
+}
+
+function isSameContent(a: ModelSnapshot, b: ModelSnapshot): boolean {
+  return a.mesh === b.mesh &&
+    a.geometry === b.geometry &&
+    a.color === b.color &&
+    a.name === b.name &&
+    a.csgTree === b.csgTree &&
+    JSON.stringify(a.textProps) === JSON.stringify(b.textProps) &&
+    JSON.stringify(a.primitive) === JSON.stringify(b.primitive);
+}
+
+// Describe a step for the history panel
+function describeHistoryCommand(
+  added: ModelSnapshot[],
+  removed: ModelSnapshot[],
+  changed: Array<[ModelSnapshot, ModelSnapshot]>
+): { kind: HistoryCommandKind; label: string } {
+  const target = (snapshots: ModelSnapshot[]) =>
+    snapshots.length === 1 ? snapshots[0].name : `${snapshots.length} models`;
+  
+  // A boolean result replaces its inputs, and restoring the inputs does the reverse
+  const csgResult = added.find(snapshot => snapshot.csgTree);
+  if (csgResult?.csgTree && removed.length > 0) {
+    return {
+      kind: 'csg',
+      label: `${HISTORY_OPERATION_LABELS[csgResult.csgTree.operation]} ${csgResult.csgTree.operands.length} models`
+    };
+  }
+  const restoredResult = removed.find(snapshot => snapshot.csgTree);
+  if (restoredResult && added.length > 0) {
+    return { kind: 'csg', label: `Restore inputs of ${restoredResult.name}` };
+  }
+  
+  if (changed.length === 0) {
+    if (added.length > 0 && removed.length === 0) {
+      return { kind: 'add', label: `Add ${target(added)}` };
     }
-    
-    // Get normal data
-    const normalAttribute = geometry.attributes.normal;
-    const normalCount = normalAttribute.count;
-    
-    for (let i = 0; i < normalCount; i++) {
-      const x = normalAttribute.getX(i);
-      const y = normalAttribute.getY(i);
-      const z = normalAttribute.getZ(i);
-      
-      // Calculate the target position in the normals array
-      const targetIndex = (vertexOffset - normalCount + i) * 3;
-      
-      normals[targetIndex] = x;
-      normals[targetIndex + 1] = y;
-      normals[targetIndex + 2] = z;
+    if (removed.length > 0 && added.length === 0) {
+      return { kind: 'remove', label: `Delete ${target(removed)}` };
+    }
+    if (added.length === 0) {
+      return { kind: 'edit', label: 'Reorder models' };
+    }
+  }
+  
+  if (added.length === 0 && removed.length === 0) {
+    const changedModels = changed.map(([, after]) => after);
+    
+    if (changed.every(([before, after]) => isSameContent(before, after))) {
+      const moved = changed.some(([before, after]) => !before.position.equals(after.position));
+      const rotated = changed.some(([before, after]) => !before.quaternion.equals(after.quaternion));
+      const scaled = changed.some(([before, after]) => !before.scale.equals(after.scale));
+      const verb = [moved, rotated, scaled].filter(Boolean).length > 1
+        ? 'Transform'
+        : moved ? 'Move' : rotated ? 'Rotate' : 'Scale';
+      return { kind: 'transform', label: `${verb} ${target(changedModels)}` };
     }
     
-    // Handle indices - either copy existing or create sequential ones
-    const indexBase = vertexOffset - positionAttribute.count;
-    
-    if (geometry.index) {
-      // Copy existing indices with offset
-      for (let i = 0; i < geometry.index.count; i++) {
-        indices[indexOffset++] = geometry.index.getX(i) + indexBase;
+    if (changed.length === 1) {
+      const [before, after] = changed[0];
+      if (before.csgTree !== after.csgTree) {
+        return { kind: 'csg', label: `Edit inputs of ${after.name}` };
       }
-    } else {
-      // Create sequential indices (assuming triangles)
-      for (let i = 0; i < positionAttribute.count; i++) {
-        indices[indexOffset++] = i + indexBase;
+      if (JSON.stringify(before.textProps) !== JSON.stringify(after.textProps)) {
+        return { kind: 'edit', label: `Edit text ${after.name}` };
       }
+      if (JSON.stringify(before.primitive) !== JSON.stringify(after.primitive)) {
+        return { kind: 'edit', label: `Edit ${after.name} dimensions` };
+      }
+      if (before.name !== after.name) {
+        return { kind: 'edit', label: `Rename ${before.name} to ${after.name}` };
+      }
+      if (before.color !== after.color && before.geometry === after.geometry) {
+        return { kind: 'edit', label: `Recolor ${after.name}` };
+      }
+    }
+    return { kind: 'edit', label: `Edit ${target(changedModels)}` };
+  }
+  
+  return { kind: 'edit', label: `Edit ${added.length + removed.length + changed.length} models` };
+}
+
+// Diff two scene snapshots into a command, or null when nothing undoable changed
+function createHistoryCommand(
+  previous: SceneSnapshot,
+  next: SceneSnapshot,
+  label?: string
+): HistoryCommand | null {
+  const before = new Map<string, ModelSnapshot>();
+  const after = new Map<string, ModelSnapshot>();
+  const added: ModelSnapshot[] = [];
+  const removed: ModelSnapshot[] = [];
+  const changed: Array<[ModelSnapshot, ModelSnapshot]> = [];
+  
+  previous.models.forEach((snapshot, id) => {
+    const current = next.models.get(id);
+    if (!current) {
+      removed.push(snapshot);
+      before.set(id, snapshot);
+    } else if (!isSameContent(snapshot, current) || !isSameTransform(snapshot, current)) {
+      changed.push([snapshot, current]);
+      before.set(id, snapshot);
+      after.set(id, current);
     }
   });
   
-  // Set up the attributes
-  mergedGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-  mergedGeometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
-  mergedGeometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  next.models.forEach((snapshot, id) => {
+    if (!previous.models.has(id)) {
+      added.push(snapshot);
+      after.set(id, snapshot);
+    }
+  });
   
-  // Compute bounds
-  mergedGeometry.computeBoundingBox();
-  mergedGeometry.computeBoundingSphere();
+  const reordered = previous.order.join('\n') !== next.order.join('\n');
+  if (before.size === 0 && after.size === 0 && !reordered) {
+    return null;
+  }
   
-  return mergedGeometry;
+  const description = describeHistoryCommand(added, removed, changed);
+  return {
+    id: nextHistoryCommandId++,
+    kind: description.kind,
+    label: label ?? description.label,
+    timestamp: Date.now(),
+    before,
+    after,
+    orderBefore: previous.order,
+    orderAfter: next.order,
+    selectionBefore: previous.selectedModelIndex,
+    selectionAfter: next.selectedModelIndex
+  };
 }
 
-// Helper function to snap a model's position based on snap settings
-function snapModelPosition(modelIndex: number) {
-  const state = useScene.getState();
-  const { models, snapSettings, scene, clearSnapIndicators } = state;
+// Put a model's mesh back into the recorded state
+function restoreModelSnapshot(snapshot: ModelSnapshot): Model {
+  const { mesh } = snapshot;
+  mesh.geometry = snapshot.geometry;
+  mesh.position.copy(snapshot.position);
+  mesh.quaternion.copy(snapshot.quaternion);
+  mesh.scale.copy(snapshot.scale);
   
-  // Clear any previous snap indicators
-  clearSnapIndicators();
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  materials.forEach(material => {
+    if (material && 'color' in material && material.color instanceof THREE.Color) {
+      material.color.setHex(snapshot.color);
+    }
+  });
   
-  if (!snapSettings.enabled || modelIndex === null || !models[modelIndex]) {
+  const { textProps, csgTree, primitive, ...model } = snapshot.model;
+  return {
+    ...model,
+    mesh,
+    name: snapshot.name,
+    ...(snapshot.textProps ? { textProps: { ...snapshot.textProps } } : {}),
+    ...(snapshot.csgTree ? { csgTree: snapshot.csgTree } : {}),
+    ...(snapshot.primitive ? { primitive: { ...snapshot.primitive } } : {})
+  };
+}
+
+// Apply one side of a command to the scene. Models the command never touched
+// keep their current state, including any that were never recorded.
+function applyHistoryState(command: HistoryCommand, order: string[], snapshots: Map<string, ModelSnapshot>) {
+  const { models, scene } = useScene.getState();
+  const currentModels = new Map(models.map(model => [model.id, model]));
+  
+  const restoredModels = order
+    .map(id => {
+      const snapshot = snapshots.get(id);
+      return snapshot ? restoreModelSnapshot(snapshot) : currentModels.get(id);
+    })
+    .filter((model): model is Model => !!model);
+  
+  const orderedIds = new Set(order);
+  models.forEach(model => {
+    if (!orderedIds.has(model.id) && !command.before.has(model.id) && !command.after.has(model.id)) {
+      restoredModels.push(model);
+    }
+  });
+  
+  const restoredMeshes = new Set(restoredModels.map(model => model.mesh));
+  models.forEach(model => {
+    if (!restoredMeshes.has(model.mesh)) {
+      scene.remove(model.mesh);
+    }
+  });
+  restoredModels.forEach(model => {
+    if (model.mesh.parent !== scene) {
+      scene.add(model.mesh);
+    }
+  });
+  
+  useScene.setState({ models: restoredModels, selectedModelIndex: null, secondaryModelIndex: null });
+}
+
+// Latest printability analysis and the heatmap drawn from it
+let printabilityAnalysis: { modelId: string; analysis: MeshPrintabilityAnalysis } | null = null;
+let printabilityOverlayMesh: THREE.Mesh | null = null;
+
+function removePrintabilityOverlayMesh() {
+  if (!printabilityOverlayMesh) {
     return;
   }
   
-  const selectedModel = models[modelIndex];
-  const selectedMesh = selectedModel.mesh;
+  printabilityOverlayMesh.parent?.remove(printabilityOverlayMesh);
+  printabilityOverlayMesh.geometry.dispose();
+  (printabilityOverlayMesh.material as THREE.Material).dispose();
+  printabilityOverlayMesh = null;
+}
+
+const BUILD_VOLUME_OUTLINE_NAME = 'buildVolumeOutline';
+const OUT_OF_BOUNDS_NAME = 'outOfBoundsHighlights';
+const OUT_OF_BOUNDS_COLOR = 0xff3b30;
+
+// Slack so parts resting exactly on the bed or touching a wall still count as inside
+const BUILD_VOLUME_TOLERANCE = 0.01;
+
+function getGridSize(plate: BuildPlate): number {
+  const size = Math.max(plate.width, plate.depth) * GRID_PLATE_MARGIN;
+  return Math.ceil(size / GRID_CELL_SIZE) * GRID_CELL_SIZE;
+}
+
+function createGrid(plate: BuildPlate): THREE.GridHelper {
+  const size = getGridSize(plate);
+  const grid = new THREE.GridHelper(size, size / GRID_CELL_SIZE);
+  grid.name = 'gridHelper';
+  return grid;
+}
+
+// Longest part the printer can take, lying along its longest side
+function getMaxModelSize(plate: BuildPlate): number {
+  return Math.max(plate.width, plate.depth, plate.height);
+}
+
+// World space box of the printable space, centred on the origin and standing on the bed
+function getBuildVolumeBox(plate: BuildPlate): THREE.Box3 {
+  return new THREE.Box3(
+    new THREE.Vector3(-plate.width / 2, BED_HEIGHT, -plate.depth / 2),
+    new THREE.Vector3(plate.width / 2, BED_HEIGHT + plate.height, plate.depth / 2)
+  ).expandByScalar(BUILD_VOLUME_TOLERANCE);
+}
+
+// Wireframe of the printable space, lifted a hair so the plate edge isn't hidden by the grid
+function createBuildVolumeOutline(plate: BuildPlate): THREE.LineSegments {
+  const box = new THREE.BoxGeometry(plate.width, plate.height, plate.depth);
+  box.translate(0, plate.height / 2, 0);
   
-  // Create a list to store potential snap points for visualization
-  const potentialSnapPoints: { position: THREE.Vector3, distance: number }[] = [];
+  const outline = new THREE.LineSegments(
+    new THREE.EdgesGeometry(box),
+    new THREE.LineBasicMaterial({ color: 0x4fc3f7, transparent: true, opacity: 0.6 })
+  );
+  box.dispose();
+  outline.name = BUILD_VOLUME_OUTLINE_NAME;
+  outline.position.y = BED_HEIGHT + 0.05;
+  // Keep the outline out of selection and measurement picking
+  outline.raycast = () => {};
+  return outline;
+}
+
+function disposeHelper(helper: THREE.Object3D) {
+  helper.traverse(child => {
+    if (child instanceof THREE.Line || child instanceof THREE.Mesh || child instanceof THREE.Points) {
+      child.geometry.dispose();
+      (Array.isArray(child.material) ? child.material : [child.material]).forEach(material => material.dispose());
+    }
+    // Sprites share one quad geometry, so only their own material and texture go
+    if (child instanceof THREE.Sprite) {
+      child.material.map?.dispose();
+      child.material.dispose();
+    }
+  });
+}
+
+// Outline every model that reaches outside the build volume in red
+function updateOutOfBoundsHighlights() {
+  const { scene, models, buildPlate, outOfBoundsModelIds } = useScene.getState();
+  const volume = getBuildVolumeBox(buildPlate);
   
-  // 1. Snap to grid if enabled
-  if (snapSettings.snapToGrid) {
-    // Snap position to grid
-    selectedMesh.position.x = Math.round(selectedMesh.position.x / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
-    selectedMesh.position.y = Math.round(selectedMesh.position.y / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
-    selectedMesh.position.z = Math.round(selectedMesh.position.z / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
+  const previous = scene.getObjectByName(OUT_OF_BOUNDS_NAME);
+  if (previous) {
+    scene.remove(previous);
+    disposeHelper(previous);
   }
   
-  // Only check face/edge snapping if enabled and there are other models
-  if ((snapSettings.snapToFaces || snapSettings.snapToEdges) && models.length > 1) {
-    // Get the bounding box of the selected model
-    selectedMesh.geometry.computeBoundingBox();
-    if (!selectedMesh.geometry.boundingBox) {
-      console.warn("Selected mesh has no bounding box, skipping snap");
-      return;
+  const highlights = new THREE.Group();
+  highlights.name = OUT_OF_BOUNDS_NAME;
+  const outOfBounds: string[] = [];
+  
+  models.forEach(model => {
+    model.mesh.updateMatrixWorld(true);
+    const bounds = new THREE.Box3().setFromObject(model.mesh, true);
+    if (bounds.isEmpty() || volume.containsBox(bounds)) return;
+    
+    outOfBounds.push(model.id);
+    const helper = new THREE.Box3Helper(bounds, OUT_OF_BOUNDS_COLOR);
+    helper.raycast = () => {};
+    highlights.add(helper);
+  });
+  
+  if (outOfBounds.length > 0) {
+    scene.add(highlights);
+  }
+  
+  // Avoid re-rendering subscribers when nothing changed
+  if (outOfBounds.join() !== outOfBoundsModelIds.join()) {
+    useScene.setState({ outOfBoundsModelIds: outOfBounds });
+  }
+}
+
+// New model for one piece of a cut, centred on its own origin so it rotates about itself
+function createPieceModel(geometry: THREE.BufferGeometry, name: string, color: THREE.Color): Model {
+  geometry.computeBoundingBox();
+  const centre = geometry.boundingBox!.getCenter(new THREE.Vector3());
+  geometry.translate(-centre.x, -centre.y, -centre.z);
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+    color,
+    metalness: 0.1,
+    roughness: 0.8,
+    side: THREE.DoubleSide
+  }));
+  mesh.position.copy(centre);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  
+  return {
+    id: `piece-${Date.now()}-${Math.floor(Math.random() * 100000)}`,
+    name,
+    type: 'model',
+    mesh,
+    originalPosition: mesh.position.clone(),
+    originalRotation: mesh.rotation.clone(),
+    originalScale: mesh.scale.clone()
+  };
+}
+
+// Swap a model for the pieces cut from it and select the first piece
+function replaceModelWithPieces(model: Model, pieces: Model[]) {
+  const { scene, renderer, camera, models } = useScene.getState();
+  scene.remove(model.mesh);
+  pieces.forEach(piece => scene.add(piece.mesh));
+  
+  const updatedModels = [...models.filter(other => other !== model), ...pieces];
+  useScene.setState({
+    models: updatedModels,
+    selectedModelIndex: updatedModels.length - pieces.length,
+    secondaryModelIndex: null
+  });
+  renderer.render(scene, camera);
+}
+
+const SPLIT_PREVIEW_NAME = 'splitPreview';
+
+// Translucent squares showing where a model will be cut, sized to cover it
+function createSplitPreview(planes: SplitPlane[], bounds: THREE.Box3): THREE.Group {
+  const group = new THREE.Group();
+  group.name = SPLIT_PREVIEW_NAME;
+  
+  const centre = bounds.getCenter(new THREE.Vector3());
+  const size = bounds.getSize(new THREE.Vector3()).length() * 1.1 || 1;
+  const material = new THREE.MeshBasicMaterial({
+    color: 0xff9800,
+    transparent: true,
+    opacity: 0.3,
+    side: THREE.DoubleSide,
+    depthWrite: false
+  });
+  
+  planes.forEach(plane => {
+    const normal = new THREE.Vector3(...plane.normal);
+    const distance = plane.offset / normal.length();
+    normal.normalize();
+    
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material);
+    quad.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+    // Centre each square on the point of its plane nearest the model
+    quad.position.copy(centre).addScaledVector(normal, distance - normal.dot(centre));
+    quad.raycast = () => {};
+    group.add(quad);
+  });
+  
+  return group;
+}
+
+function removeSplitPreview() {
+  const { scene } = useScene.getState();
+  const preview = scene.getObjectByName(SPLIT_PREVIEW_NAME);
+  if (preview) {
+    scene.remove(preview);
+    disposeHelper(preview);
+  }
+}
+
+const MEASUREMENTS_NAME = 'measurements';
+
+// Redraw every dimension left in the scene, e.g. after the unit changes
+function updateMeasurementAnnotations() {
+  const { scene, measurements, unit } = useScene.getState();
+  
+  const previous = scene.getObjectByName(MEASUREMENTS_NAME);
+  if (previous) {
+    scene.remove(previous);
+    disposeHelper(previous);
+  }
+  if (measurements.length === 0) {
+    return;
+  }
+  
+  const group = new THREE.Group();
+  group.name = MEASUREMENTS_NAME;
+  measurements.forEach(measurement => group.add(createMeasurementAnnotation(measurement, unit)));
+  scene.add(group);
+}
+
+const SECTION_CAPS_NAME = 'sectionCaps';
+const SECTION_CAP_SHADE = 0.75; // Caps are darker than the model so cut faces stand out
+
+// Clipping plane shared by every model material while the section view is on
+const sectionPlane = new THREE.Plane();
+const sectionClippingPlanes = [sectionPlane];
+let sectionViewActive = false;
+
+// Stencil passes that mark where a model's inside is exposed, and the cap filling it
+type SectionCap = {
+  back: THREE.Mesh;
+  front: THREE.Mesh;
+  cap: THREE.Mesh;
+};
+const sectionCaps = new Map<THREE.Mesh, SectionCap>();
+
+function setClippingPlanes(material: THREE.Material | THREE.Material[], planes: THREE.Plane[] | null) {
+  (Array.isArray(material) ? material : [material]).forEach(entry => {
+    if (entry.clippingPlanes !== planes) {
+      entry.clippingPlanes = planes;
     }
+  });
+}
+
+function createSectionCap(mesh: THREE.Mesh): SectionCap {
+  // Back faces count up and front faces count down, leaving non-zero stencil where the cut is open
+  const createStencilMaterial = (side: THREE.Side, operation: THREE.StencilOp) => new THREE.MeshBasicMaterial({
+    side,
+    clippingPlanes: sectionClippingPlanes,
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    stencilFail: operation,
+    stencilZFail: operation,
+    stencilZPass: operation
+  });
+  
+  const back = new THREE.Mesh(mesh.geometry, createStencilMaterial(THREE.BackSide, THREE.IncrementWrapStencilOp));
+  const front = new THREE.Mesh(mesh.geometry, createStencilMaterial(THREE.FrontSide, THREE.DecrementWrapStencilOp));
+  const cap = new THREE.Mesh(
+    new THREE.PlaneGeometry(1, 1),
+    new THREE.MeshStandardMaterial({
+      side: THREE.DoubleSide,
+      roughness: 0.8,
+      metalness: 0.1,
+      stencilWrite: true,
+      stencilRef: 0,
+      stencilFunc: THREE.NotEqualStencilFunc,
+      stencilFail: THREE.ReplaceStencilOp,
+      stencilZFail: THREE.ReplaceStencilOp,
+      stencilZPass: THREE.ReplaceStencilOp
+    })
+  );
+  // Start the next model's stencil passes from a clean buffer
+  cap.onAfterRender = (renderer) => renderer.clearStencil();
+  
+  // The stencil passes follow the model's world matrix directly
+  back.matrixAutoUpdate = false;
+  front.matrixAutoUpdate = false;
+  [back, front, cap].forEach(object => {
+    object.raycast = () => {};
+  });
+  
+  return { back, front, cap };
+}
+
+function removeSectionCap(mesh: THREE.Mesh, sectionCap: SectionCap) {
+  const { back, front, cap } = sectionCap;
+  [back, front, cap].forEach(object => {
+    object.parent?.remove(object);
+    (object.material as THREE.Material).dispose();
+  });
+  // The stencil passes share the model's geometry, only the cap quad is ours
+  cap.geometry.dispose();
+  setClippingPlanes(mesh.material, null);
+  sectionCaps.delete(mesh);
+}
+
+// Clip every model at the section plane and fill the cut with caps, or undo it all once switched off
+function updateSectionView() {
+  const { scene, models, sectionView } = useScene.getState();
+  if (!sectionView.enabled && !sectionViewActive) {
+    return;
+  }
+  sectionViewActive = sectionView.enabled;
+  
+  // Keep the side below the position, or above it when flipped
+  const normal = new THREE.Vector3();
+  normal[sectionView.axis] = sectionView.flipped ? 1 : -1;
+  sectionPlane.set(normal, sectionView.flipped ? -sectionView.position : sectionView.position);
+  
+  const clippingPlanes = sectionView.enabled ? sectionClippingPlanes : null;
+  models.forEach(model => setClippingPlanes(model.mesh.material, clippingPlanes));
+  if (printabilityOverlayMesh) {
+    setClippingPlanes(printabilityOverlayMesh.material, clippingPlanes);
+  }
+  
+  const meshes = new Set(sectionView.enabled ? models.map(model => model.mesh) : []);
+  Array.from(sectionCaps.entries()).forEach(([mesh, sectionCap]) => {
+    if (!meshes.has(mesh)) {
+      removeSectionCap(mesh, sectionCap);
+    }
+  });
+  
+  let group = scene.getObjectByName(SECTION_CAPS_NAME);
+  if (!sectionView.enabled) {
+    if (group) {
+      scene.remove(group);
+    }
+    return;
+  }
+  if (!group) {
+    group = new THREE.Group();
+    group.name = SECTION_CAPS_NAME;
+    scene.add(group);
+  }
+  
+  const sphere = new THREE.Sphere();
+  models.forEach((model, index) => {
+    const { mesh } = model;
+    let sectionCap = sectionCaps.get(mesh);
+    if (!sectionCap) {
+      sectionCap = createSectionCap(mesh);
+      sectionCaps.set(mesh, sectionCap);
+      group.add(sectionCap.back, sectionCap.front, sectionCap.cap);
+    }
+    const { back, front, cap } = sectionCap;
     
-    const selectedBox = selectedMesh.geometry.boundingBox.clone();
-    selectedBox.applyMatrix4(selectedMesh.matrixWorld);
-    
-    // Find closest snap point
-    let closestDistance = snapSettings.snapThreshold;
-    let closestSnapPoint = null;
+    mesh.updateWorldMatrix(true, false);
+    back.geometry = mesh.geometry;
+    front.geometry = mesh.geometry;
+    back.matrix.copy(mesh.matrixWorld);
+    front.matrix.copy(mesh.matrixWorld);
+    
+    // Stencil passes of one model must run right before its own cap
+    back.renderOrder = index + 1;
+    front.renderOrder = index + 1;
+    cap.renderOrder = index + 1.5;
+    
+    // Size the cap to cover the model where the plane crosses it
+    if (!mesh.geometry.boundingSphere) {
+      mesh.geometry.computeBoundingSphere();
+    }
+    sphere.copy(mesh.geometry.boundingSphere!).applyMatrix4(mesh.matrixWorld);
+    sectionPlane.projectPoint(sphere.center, cap.position);
+    cap.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), sectionPlane.normal);
+    cap.scale.setScalar(Math.max(sphere.radius * 2, 1e-3));
+    
+    const visible = mesh.visible && Math.abs(sectionPlane.distanceToPoint(sphere.center)) < sphere.radius;
+    back.visible = visible;
+    front.visible = visible;
+    cap.visible = visible;
+    
+    const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+    const capMaterial = cap.material as THREE.MeshStandardMaterial;
+    if (material && 'color' in material && material.color instanceof THREE.Color) {
+      capMaterial.color.copy(material.color).multiplyScalar(SECTION_CAP_SHADE);
+    }
+  });
+}
+
+// Apply a world space rotation about the centre of a mesh's bounds so it doesn't jump sideways
+function rotateMeshAboutCentre(mesh: THREE.Mesh, rotation: THREE.Quaternion) {
+  mesh.updateMatrixWorld(true);
+  const centre = new THREE.Box3().setFromObject(mesh, true).getCenter(new THREE.Vector3());
+  
+  mesh.position.sub(centre).applyQuaternion(rotation).add(centre);
+  mesh.quaternion.premultiply(rotation);
+  mesh.updateMatrixWorld(true);
+}
+
+// Move a mesh vertically so its lowest vertex rests on the build plate
+function dropMeshToBed(mesh: THREE.Mesh) {
+  mesh.updateMatrixWorld(true);
+  const bounds = new THREE.Box3().setFromObject(mesh, true);
+  if (bounds.isEmpty()) {
+    return;
+  }
+  
+  mesh.position.y += BED_HEIGHT - bounds.min.y;
+  mesh.updateMatrixWorld(true);
+}
+
+// Pending autosave timer
+let autosaveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Debounce writes of the scene to IndexedDB
+function scheduleAutosave() {
+  if (autosaveTimeout) {
+    clearTimeout(autosaveTimeout);
+  }
+  
+  autosaveTimeout = setTimeout(() => {
+    autosaveTimeout = null;
+    const { models, unit, measurements } = useScene.getState();
     
-    // Check against all other models
-    models.forEach((otherModel, idx) => {
-      if (idx === modelIndex) return; // Skip the model we're moving
-      
-      const otherMesh = otherModel.mesh;
-      
-      // Get the bounding box of the other model
-      otherMesh.geometry.computeBoundingBox();
-      if (!otherMesh.geometry.boundingBox) {
-        return; // Skip this model if it has no bounding box
-      }
+    try {
+      saveAutosave(serializeProject(models, unit, measurements)).catch(error => {
+        console.warn("Autosave failed:", error);
+      });
+    } catch (error) {
+      console.warn("Autosave failed:", error);
+    }
+  }, AUTOSAVE_DELAY_MS);
+}
+
+// Swap the scene contents for the models in a project file
+function applyProject(project: ProjectFile) {
+  const state = useScene.getState();
+  const { scene, renderer, camera, renderingMode } = state;
+  
+  // Build every model first so a corrupt entry leaves the scene untouched
+  const models: Model[] = project.models.map(data => deserializeModel(data));
+  
+  state.models.forEach(model => scene.remove(model.mesh));
+  state.clearPrintabilityOverlay();
+  
+  models.forEach(model => {
+    if (renderingMode !== 'standard') {
+      updateModelMaterial(model.mesh, renderingMode);
+    }
+    scene.add(model.mesh);
+  });
+  
+  useScene.setState({
+    models,
+    unit: project.unit,
+    measurements: project.measurements ?? [],
+    selectedModelIndex: null,
+    secondaryModelIndex: null,
+    history: [],
+    currentHistoryIndex: -1,
+    canUndo: false,
+    canRedo: false
+  });
+  
+  // The loaded project is the start of history, not an undoable step
+  historySnapshot = captureSceneSnapshot();
+  updateOutOfBoundsHighlights();
+  updateMeasurementAnnotations();
+  scheduleAutosave();
+  state.updateGridPosition();
+  renderer.render(scene, camera);
+}
+
+// Helper function to merge geometries for the fallback union approach
+function mergeGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry {
+  // Create a new BufferGeometry to store the merged result
+  const mergedGeometry = new THREE.BufferGeometry();
+  
+  // First, determine total counts
+  let totalVertices = 0;
+  let totalIndices = 0;
+  
+  geometries.forEach(geometry => {
+    totalVertices += geometry.attributes.position.count;
+    if (geometry.index) {
+      totalIndices += geometry.index.count;
+    } else {
+      // If no indices, we'll create one triangle per 3 vertices
+      totalIndices += geometry.attributes.position.count;
+    }
+  });
+  
+  // Create arrays to hold the merged data
+  const positions = new Float32Array(totalVertices * 3);
+  const normals = new Float32Array(totalVertices * 3);
+  const indices = new Uint32Array(totalIndices);
+  
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  
+  // Process each geometry
+  geometries.forEach(geometry => {
+    const positionAttribute = geometry.attributes.position;
+    
+    // Get position data - need to handle different ways of accessing the data
+    for (let i = 0; i < positionAttribute.count; i++) {
+      const x = positionAttribute.getX(i);
+      const y = positionAttribute.getY(i);
+      const z = positionAttribute.getZ(i);
+      
+      positions[vertexOffset * 3] = x;
+      positions[vertexOffset * 3 + 1] = y;
+      positions[vertexOffset * 3 + 2] = z;
+      
+      vertexOffset++;
+    }
+    
+    // Ensure normals exist
+    if (!geometry.attributes.normal) {
+      geometry.computeVertexNormals();
+    }
+    
+    // Get normal data
+    const normalAttribute = geometry.attributes.normal;
+    const normalCount = normalAttribute.count;
+    
+    for (let i = 0; i < normalCount; i++) {
+      const x = normalAttribute.getX(i);
+      const y = normalAttribute.getY(i);
+      const z = normalAttribute.getZ(i);
+      
+      // Calculate the target position in the normals array
+      const targetIndex = (vertexOffset - normalCount + i) * 3;
+      
+      normals[targetIndex] = x;
+      normals[targetIndex + 1] = y;
+      normals[targetIndex + 2] = z;
+    }
+    
+    // Handle indices - either copy existing or create sequential ones
+    const indexBase = vertexOffset - positionAttribute.count;
+    
+    if (geometry.index) {
+      // Copy existing indices with offset
+      for (let i = 0; i < geometry.index.count; i++) {
+        indices[indexOffset++] = geometry.index.getX(i) + indexBase;
+      }
+    } else {
+      // Create sequential indices (assuming triangles)
+      for (let i = 0; i < positionAttribute.count; i++) {
+        indices[indexOffset++] = i + indexBase;
+      }
+    }
+  });
+  
+  // Set up the attributes
+  mergedGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  mergedGeometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  mergedGeometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  
+  // Compute bounds
+  mergedGeometry.computeBoundingBox();
+  mergedGeometry.computeBoundingSphere();
+  
+  return mergedGeometry;
+}
+
+// Helper function to snap a model's position based on snap settings
+function snapModelPosition(modelIndex: number) {
+  const state = useScene.getState();
+  const { models, snapSettings, scene, clearSnapIndicators } = state;
+  
+  // Clear any previous snap indicators
+  clearSnapIndicators();
+  
+  if (!snapSettings.enabled || modelIndex === null || !models[modelIndex]) {
+    return;
+  }
+  
+  const selectedModel = models[modelIndex];
+  const selectedMesh = selectedModel.mesh;
+  
+  // Create a list to store potential snap points for visualization
+  const potentialSnapPoints: { position: THREE.Vector3, distance: number }[] = [];
+  
+  // 1. Snap to grid if enabled
+  if (snapSettings.snapToGrid) {
+    // Snap position to grid
+    selectedMesh.position.x = Math.round(selectedMesh.position.x / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
+    selectedMesh.position.y = Math.round(selectedMesh.position.y / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
+    selectedMesh.position.z = Math.round(selectedMesh.position.z / SNAP_GRID_SIZE) * SNAP_GRID_SIZE;
+  }
+  
+  // Only check face/edge snapping if enabled and there are other models
+  if ((snapSettings.snapToFaces || snapSettings.snapToEdges) && models.length > 1) {
+    // Get the bounding box of the selected model
+    selectedMesh.geometry.computeBoundingBox();
+    if (!selectedMesh.geometry.boundingBox) {
+      console.warn("Selected mesh has no bounding box, skipping snap");
+      return;
+    }
+    
+    const selectedBox = selectedMesh.geometry.boundingBox.clone();
+    selectedBox.applyMatrix4(selectedMesh.matrixWorld);
+    
+    // Find closest snap point
+    let closestDistance = snapSettings.snapThreshold;
+    let closestSnapPoint = null;
+    
+    // Check against all other models
+    models.forEach((otherModel, idx) => {
+      if (idx === modelIndex) return; // Skip the model we're moving
+      
+      const otherMesh = otherModel.mesh;
+      
+      // Get the bounding box of the other model
+      otherMesh.geometry.computeBoundingBox();
+      if (!otherMesh.geometry.boundingBox) {
+        return; // Skip this model if it has no bounding box
+      }
       
       const otherBox = otherMesh.geometry.boundingBox.clone();
       otherBox.applyMatrix4(otherMesh.matrixWorld);
@@ -2537,1524 +4393,200 @@ function snapModelPosition(modelIndex: number) {
           }
         }
         
-        // Check for alignment in Z direction as well (similar to above)
-        // This can be expanded for more edge alignment cases as needed
-      }
-    });
-    
-    // Create visual indicators for potential snap points
-    const snapIndicators: THREE.Object3D[] = [];
-    
-    potentialSnapPoints.forEach(({ position, distance }) => {
-      // Create a visual indicator for this snap point
-      const geometry = new THREE.SphereGeometry(0.05, 16, 16);
-      const material = new THREE.MeshBasicMaterial({ 
-        color: distance === closestDistance ? 0x00ff00 : 0xffaa00,
-        transparent: true,
-        opacity: 0.7
-      });
-      const indicator = new THREE.Mesh(geometry, material);
-      indicator.position.copy(position);
-      
-      // Add to scene and track it
-      scene.add(indicator);
-      snapIndicators.push(indicator);
-    });
-    
-    // Update the state with the new indicators
-    state.snapIndicators = snapIndicators;
-    
-    // Apply the snap if we found a good snap point
-    if (closestSnapPoint) {
-      console.log("Snapping to point, distance:", closestDistance);
-      selectedMesh.position.copy(closestSnapPoint);
-    }
-  }
-}
-
-// Helper function to check if two boxes overlap in a specified plane
-function boxesOverlapInPlane(box1: THREE.Box3, box2: THREE.Box3, plane: 'xy' | 'xz' | 'yz'): boolean {
-  switch (plane) {
-    case 'xy':
-      return (
-        box1.max.x > box2.min.x &&
-        box1.min.x < box2.max.x &&
-        box1.max.y > box2.min.y &&
-        box1.min.y < box2.max.y
-      );
-    case 'xz':
-      return (
-        box1.max.x > box2.min.x &&
-        box1.min.x < box2.max.x &&
-        box1.max.z > box2.min.z &&
-        box1.min.z < box2.max.z
-      );
-    case 'yz':
-      return (
-        box1.max.y > box2.min.y &&
-        box1.min.y < box2.max.y &&
-        box1.max.z > box2.min.z &&
-        box1.min.z < box2.max.z
-      );
-  }
-}
-
-// Helper function to check if two lines overlap
-function isLineOverlapping(min1: number, max1: number, min2: number, max2: number): boolean {
-  return max1 >= min2 && max2 >= min1;
-}
-
-// Helper function to update model material based on rendering mode
-function updateModelMaterial(mesh: THREE.Mesh, mode: 'standard' | 'wireframe' | 'metallic' | 'glass-like' | 'xray') {
-  // Get the current color from the mesh's material
-  let currentColor = new THREE.Color(0x3498db); // Default blue color
-  
-  // Try to get the color from the existing material if possible
-  if (mesh.material instanceof THREE.MeshBasicMaterial || 
-      mesh.material instanceof THREE.MeshStandardMaterial ||
-      mesh.material instanceof THREE.MeshPhysicalMaterial) {
-    currentColor = mesh.material.color;
-  } else if (Array.isArray(mesh.material) && mesh.material.length > 0) {
-    // Handle material arrays
-    const firstMaterial = mesh.material[0];
-    if (firstMaterial instanceof THREE.MeshBasicMaterial || 
-        firstMaterial instanceof THREE.MeshStandardMaterial || 
-        firstMaterial instanceof THREE.MeshPhysicalMaterial) {
-      currentColor = firstMaterial.color;
-    }
-  }
-  
-  // Check if the current material is highlighted (emissive)
-  const isHighlighted = mesh.material instanceof THREE.MeshStandardMaterial || 
-                        mesh.material instanceof THREE.MeshPhysicalMaterial 
-                        ? (mesh.material.emissive && mesh.material.emissive.r > 0) 
-                        : false;
-  
-  // Store the highlight state to restore after changing material
-  const emissiveColor = isHighlighted ? new THREE.Color(0x222222) : new THREE.Color(0x000000);
-  
-  // Create the new material based on rendering mode
-  let newMaterial: THREE.Material | null = null;
-  
-  switch (mode) {
-    case 'standard':
-      newMaterial = new THREE.MeshStandardMaterial({
-        color: currentColor,
-        roughness: 0.7,
-        metalness: 0.2,
-        emissive: emissiveColor
-      });
-      break;
-      
-    case 'wireframe':
-      newMaterial = new THREE.MeshBasicMaterial({
-        color: currentColor,
-        wireframe: true
-      });
-      break;
-      
-    case 'metallic':
-      newMaterial = new THREE.MeshStandardMaterial({
-        color: currentColor,
-        roughness: 0.3,
-        metalness: 0.9,
-        emissive: emissiveColor
-      });
-      break;
-      
-    case 'glass-like':
-      newMaterial = new THREE.MeshPhysicalMaterial({
-        color: currentColor,
-        roughness: 0.0,
-        metalness: 0.1,
-        transmission: 0.9,
-        transparent: true,
-        opacity: 0.5,
-        clearcoat: 1.0,
-        clearcoatRoughness: 0.1,
-        emissive: emissiveColor
-      });
-      break;
-      
-    case 'xray':
-      newMaterial = new THREE.MeshBasicMaterial({
-        color: currentColor,
-        transparent: true,
-        opacity: 0.5,
-        side: THREE.DoubleSide
-      });
-      break;
-  }
-  
-  // Only replace material if we have a new one and it's different from the current one
-  if (newMaterial) {
-    mesh.material = newMaterial;
-    newMaterial.needsUpdate = true;
-  }
-}
-
-// ... existing code ...
-type TextProps = {
-  text: string;
-  fontSize: number;
-  height: number;
-  curveSegments: number;
-  bevelEnabled: boolean;
-  bevelThickness: number;
-  bevelSize: number;
-  bevelSegments: number;
-  fontPath: string;
-};
-
-// Helper function to find a suitable position for a new model
-const findSuitablePosition = (models: Model[], newModelSize: THREE.Vector3): THREE.Vector3 => {
-  if (models.length === 0) {
-    return new THREE.Vector3(0, 0, 0);
-  }
-
-  // Find the rightmost point of all models
-  let maxX = -Infinity;
-  models.forEach(model => {
-    const box = new THREE.Box3().setFromObject(model.mesh);
-    maxX = Math.max(maxX, box.max.x);
-  });
-
-  // Position the new model to the right of the rightmost model
-  // Add a 50mm gap between models
-  const newX = maxX + 50;
-  return new THREE.Vector3(newX, 0, 0);
-};
-
-// Add this helper function at the top level, outside of the store definition
-function ensureManifoldGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
-  // Clone the geometry to avoid modifying the original
-  const processedGeometry = geometry.clone();
-  
-  try {
-    const startVertexCount = processedGeometry.attributes.position.count;
-    console.log(`Starting manifold repair for geometry with ${startVertexCount} vertices`);
-    
-    // Step 1: Basic attribute checks and computation
-    // Ensure the geometry has computed attributes
-    if (!processedGeometry.getAttribute('normal')) {
-      processedGeometry.computeVertexNormals();
-    }
-    
-    // Make sure we have a bounding box
-    if (!processedGeometry.boundingBox) {
-      processedGeometry.computeBoundingBox();
-    }
-    
-    // Step 2: Index handling - ensure indexed geometry
-    // Check if the geometry has an index, if not create one
-    if (!processedGeometry.index) {
-      console.log("Creating index for non-indexed geometry");
-      processedGeometry.setIndex(
-        Array.from({ length: processedGeometry.attributes.position.count }, (_, i) => i)
-      );
-    }
-    
-    // Step 3: Normal validation and repair
-    // Make sure we don't have any invalid normals (NaN values)
-    const normals = processedGeometry.getAttribute('normal');
-    if (normals) {
-      const normalsArray = normals.array;
-      let hasInvalidNormals = false;
-      
-      for (let i = 0; i < normalsArray.length; i++) {
-        if (isNaN(normalsArray[i])) {
-          hasInvalidNormals = true;
-          normalsArray[i] = 0; // Replace NaN with 0
-        }
-      }
-      
-      if (hasInvalidNormals) {
-        console.warn("Fixed invalid normals in geometry");
-        processedGeometry.computeVertexNormals(); // Recompute all normals
-      }
-    }
-    
-    // Step 4: Position validation and repair
-    // Check for NaN or infinite values in positions
-    const positions = processedGeometry.getAttribute('position');
-    if (positions) {
-      const posArray = positions.array;
-      let hasInvalidPositions = false;
-      
-      for (let i = 0; i < posArray.length; i++) {
-        if (isNaN(posArray[i]) || !isFinite(posArray[i])) {
-          console.warn(`Found invalid position value at index ${i}`);
-          hasInvalidPositions = true;
-          
-          // Replace invalid values with 0 (better than NaN)
-          posArray[i] = 0;
-        }
-      }
-      
-      if (hasInvalidPositions) {
-        console.warn("Fixed invalid positions in geometry");
-        positions.needsUpdate = true;
-      }
-    }
-    
-    // Step 5: Detect and fix self-intersections
-    // Self-intersecting geometries cause many boolean operation failures
-    const repairedGeometry = repairSelfIntersections(processedGeometry);
-    console.log("Self-intersection repair complete");
-    
-    // Step 6: Degenerate triangle removal
-    // Check and filter out degenerate triangles (where all points are the same or collinear)
-    let fixedDegenerateTriangles = false;
-    if (repairedGeometry.index && positions) {
-      const indices = repairedGeometry.index.array;
-      const posArray = positions.array;
-      const validIndices = [];
-      
-      for (let i = 0; i < indices.length; i += 3) {
-        const i1 = indices[i] * 3;
-        const i2 = indices[i + 1] * 3;
-        const i3 = indices[i + 2] * 3;
-        
-        // Extract vertex positions for this triangle
-        const p1x = posArray[i1], p1y = posArray[i1 + 1], p1z = posArray[i1 + 2];
-        const p2x = posArray[i2], p2y = posArray[i2 + 1], p2z = posArray[i2 + 2];
-        const p3x = posArray[i3], p3y = posArray[i3 + 1], p3z = posArray[i3 + 2];
-        
-        // Check if triangle is degenerate (all points are the same or collinear)
-        const isDifferent = 
-          (p1x !== p2x || p1y !== p2y || p1z !== p2z) && 
-          (p1x !== p3x || p1y !== p3y || p1z !== p3z) && 
-          (p2x !== p3x || p2y !== p3y || p2z !== p3z);
-        
-        // Check for collinearity using cross product near-zero
-        let isNonCollinear = true;
-        if (isDifferent) {
-          // Compute edge vectors
-          const v1x = p2x - p1x, v1y = p2y - p1y, v1z = p2z - p1z;
-          const v2x = p3x - p1x, v2y = p3y - p1y, v2z = p3z - p1z;
-          
-          // Compute cross product
-          const cpx = v1y * v2z - v1z * v2y;
-          const cpy = v1z * v2x - v1x * v2z;
-          const cpz = v1x * v2y - v1y * v2x;
-          
-          // Check if the magnitude of the cross product is nearly zero
-          const cpLengthSq = cpx * cpx + cpy * cpy + cpz * cpz;
-          isNonCollinear = cpLengthSq > 1e-10; // Small epsilon for floating point errors
-        }
-        
-        if (isDifferent && isNonCollinear) {
-          validIndices.push(indices[i], indices[i + 1], indices[i + 2]);
-        } else {
-          fixedDegenerateTriangles = true;
-        }
-      }
-      
-      if (validIndices.length < indices.length) {
-        console.warn(`Removed ${(indices.length - validIndices.length) / 3} degenerate triangles`);
-        repairedGeometry.setIndex(validIndices);
-      }
-    }
-    
-    // Step 7: Check if the geometry was drastically simplified - don't over-repair
-    if (repairedGeometry.attributes.position.count < startVertexCount * 0.5) {
-      console.warn(`Repair reduced vertex count by more than 50% (${startVertexCount} -> ${repairedGeometry.attributes.position.count})`);
-      console.warn("Using original geometry to avoid over-simplification");
-      return geometry.clone(); // Return a clone of the original
-    }
-    
-    // Step 8: Vertex merging - final cleanup
-    // Merge any duplicate vertices with a small tolerance
-    if (BufferGeometryUtils.mergeVertices) {
-      const finalGeometry = BufferGeometryUtils.mergeVertices(repairedGeometry, 0.0001);
-      
-      // Final integrity checks
-      const finalVertexCount = finalGeometry.attributes.position.count;
-      console.log(`Manifold repair complete: ${startVertexCount} -> ${finalVertexCount} vertices`);
-      
-      // Compute normals one last time
-      finalGeometry.computeVertexNormals();
-      
-      // Make sure we haven't completely destroyed the geometry
-      if (finalVertexCount > 0 && 
-          (finalGeometry.index ? finalGeometry.index.count > 0 : true)) {
-        return finalGeometry;
-      } else {
-        console.warn("Repair resulted in invalid geometry, using original");
-        return geometry.clone();
-      }
-    }
-    
-    // If we get here, return the repaired geometry
-    repairedGeometry.computeVertexNormals();
-    return repairedGeometry;
-  } catch (error) {
-    console.warn("Error preparing geometry:", error);
-    return geometry.clone(); // Return a clone of the original if repair failed
-  }
-}
-
-// Add this helper function for robust mesh union operations
-function robustMeshUnion(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
-  console.log("Starting robust mesh union for complex geometries");
-  
-  // Extract materials for later use
-  const materialColorA = meshA.material instanceof THREE.Material ? 
-    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
-    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
-  
-  // Pre-process geometries to ensure they're suitable for operations
-  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
-    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
-    const geom = mesh.geometry.clone();
-    
-    // Apply world matrices to get correct position
-    mesh.updateWorldMatrix(true, false);
-    geom.applyMatrix4(mesh.matrixWorld);
-    
-    // Full clean and manifold check
-    const cleanGeom = ensureManifoldGeometry(geom);
-    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
-    
-    return cleanGeom;
-  };
-  
-  // Strategy 1: Standard buffer geometry merge (fastest, but can fail with complex geometries)
-  try {
-    console.log("Trying standard geometry merge approach");
-    const cleanGeomA = prepareGeometry(meshA);
-    const cleanGeomB = prepareGeometry(meshB);
-    
-    // Check if the geometries are suitable for merging
-    if (cleanGeomA.attributes.position.count > 0 && 
-        cleanGeomB.attributes.position.count > 0) {
-      // Attempt the merge with error handling
-      try {
-        const mergedGeometry = BufferGeometryUtils.mergeGeometries([cleanGeomA, cleanGeomB]);
-        
-        if (mergedGeometry && mergedGeometry.attributes.position.count > 0) {
-          // Create result mesh with proper material
-          const material = new THREE.MeshStandardMaterial({
-            color: materialColorA,
-            side: THREE.DoubleSide
-          });
-          
-          // Create new mesh and finalize
-          const resultMesh = new THREE.Mesh(mergedGeometry, material);
-          
-          // Fix attributes and recompute properties
-          if (!resultMesh.geometry.getAttribute('normal')) {
-            resultMesh.geometry.computeVertexNormals();
-          }
-          
-          if (!resultMesh.geometry.boundingBox) {
-            resultMesh.geometry.computeBoundingBox();
-          }
-          
-          return resultMesh;
-        }
-        throw new Error("Merged geometry has no vertices");
-      } catch (e) {
-        console.warn("Standard geometry merge failed", e);
-        throw e; // Let the next strategy handle it
-      }
-    } else {
-      throw new Error("One or both geometries have no vertices after processing");
-    }
-  } catch (e) {
-    console.warn("Standard geometry merge failed, trying octree-based approach", e);
-  }
-  
-  // Strategy 2: Manual vertex processing with additional validation
-  try {
-    console.log("Trying enhanced manual vertex processing approach");
-    const geomA = prepareGeometry(meshA);
-    const geomB = prepareGeometry(meshB);
-    
-    // If either geometry has zero vertices, fall back to the one with vertices
-    if (geomA.attributes.position.count === 0) {
-      console.warn("GeomA has zero vertices, returning GeomB only");
-      return new THREE.Mesh(
-        geomB,
-        new THREE.MeshStandardMaterial({
-          color: materialColorA,
-          side: THREE.DoubleSide
-        })
-      );
-    }
-    
-    if (geomB.attributes.position.count === 0) {
-      console.warn("GeomB has zero vertices, returning GeomA only");
-      return new THREE.Mesh(
-        geomA,
-        new THREE.MeshStandardMaterial({
-          color: materialColorA,
-          side: THREE.DoubleSide
-        })
-      );
-    }
-    
-    // Extract vertex and index data with validation
-    const posA = geomA.attributes.position.array;
-    const posB = geomB.attributes.position.array;
-    
-    // Ensure indices are available or create them
-    const idxA = geomA.index ? Array.from(geomA.index.array) : 
-                 Array.from({ length: posA.length / 3 }, (_, i) => i);
-    const idxB = geomB.index ? Array.from(geomB.index.array) : 
-                 Array.from({ length: posB.length / 3 }, (_, i) => i);
-    
-    // Calculate offsets for the combined arrays
-    const vertexACount = posA.length / 3;
-    
-    // Verify triangle data is in multiples of 3
-    if (idxA.length % 3 !== 0 || idxB.length % 3 !== 0) {
-      console.warn("Index arrays not in multiples of 3, fixing...");
-      // Trim arrays to ensure multiples of 3
-      const trimA = idxA.length - (idxA.length % 3);
-      const trimB = idxB.length - (idxB.length % 3);
-      idxA.length = trimA;
-      idxB.length = trimB;
-    }
-    
-    // Create combined position array
-    const combinedPos = new Float32Array(posA.length + posB.length);
-    combinedPos.set(posA, 0);
-    combinedPos.set(posB, posA.length);
-    
-    // Create combined index array, adjusting indices from B
-    const combinedIdx = new Uint32Array(idxA.length + idxB.length);
-    combinedIdx.set(idxA, 0);
-    
-    // Adjust indices from mesh B to account for combined array
-    for (let i = 0; i < idxB.length; i++) {
-      combinedIdx[idxA.length + i] = idxB[i] + vertexACount;
-    }
-    
-    // Create new buffer geometry with validation
-    const combinedGeom = new THREE.BufferGeometry();
-    combinedGeom.setAttribute('position', new THREE.BufferAttribute(combinedPos, 3));
-    
-    // Only set index if we have valid indices
-    if (combinedIdx.length > 0) {
-      combinedGeom.setIndex(new THREE.BufferAttribute(combinedIdx, 1));
-    }
-    
-    // Generate normals and other attributes
-    combinedGeom.computeVertexNormals();
-    combinedGeom.computeBoundingBox();
-    
-    // Verify the combined geometry
-    if (combinedGeom.attributes.position.count === 0) {
-      throw new Error("Combined geometry has no vertices");
-    }
-    
-    if (combinedGeom.index && combinedGeom.index.count === 0) {
-      throw new Error("Combined geometry has no faces");
-    }
-    
-    // Clean the combined geometry to remove any issues
-    const finalGeom = ensureManifoldGeometry(combinedGeom);
-    
-    // Create material for the new mesh
-    const material = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide
-    });
-    
-    return new THREE.Mesh(finalGeom, material);
-  } catch (e) {
-    console.warn("Manual vertex processing failed, trying final fallback", e);
-  }
-  
-  // Strategy 3: CSG with adjusted parameters and more robust settings
-  try {
-    console.log("Trying enhanced CSG approach with adjusted parameters");
-    
-    // Create clean copies for CSG operation with pre-processing
-    const cleanGeomA = prepareGeometry(meshA);
-    const cleanGeomB = prepareGeometry(meshB);
-    
-    // Create meshes with settings optimized for CSG
-    const tempMeshA = new THREE.Mesh(
-      cleanGeomA,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
-        // Use transparent material settings for better CSG results
-        transparent: true,
-        opacity: 0.99  // Almost opaque but not quite
-      })
-    );
-    
-    const tempMeshB = new THREE.Mesh(
-      cleanGeomB,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
-        transparent: true,
-        opacity: 0.99  // Almost opaque but not quite
-      })
-    );
-    
-    // Reset transforms since they're already applied to geometry
-    tempMeshA.position.set(0, 0, 0);
-    tempMeshA.rotation.set(0, 0, 0);
-    tempMeshA.scale.set(1, 1, 1);
-    tempMeshB.position.set(0, 0, 0);
-    tempMeshB.rotation.set(0, 0, 0);
-    tempMeshB.scale.set(1, 1, 1);
-    
-    // Perform CSG union with adjusted parameters
-    const resultMesh = CSG.union(tempMeshA, tempMeshB);
-    
-    // Check if the result is valid
-    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
-      throw new Error("CSG union produced an invalid mesh");
-    }
-    
-    // Apply material
-    const material = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide
-    });
-    
-    resultMesh.material = material;
-    
-    // Final cleanup and validation
-    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
-    
-    return resultMesh;
-  } catch (e: any) {
-    // Final fallback - if all else fails, try a single shape as the result
-    try {
-      console.warn("All union strategies failed, attempting final desperation fallback", e);
-      
-      // Use only the first mesh if everything else failed
-      const fallbackGeom = prepareGeometry(meshA);
-      
-      // If even that is invalid, create a tiny cube as a fallback
-      if (!fallbackGeom || fallbackGeom.attributes.position.count === 0) {
-        console.error("Cannot recover geometry, creating minimal fallback shape");
-        const fallbackCube = new THREE.BoxGeometry(1, 1, 1);
-        return new THREE.Mesh(
-          fallbackCube, 
-          new THREE.MeshStandardMaterial({ 
-            color: materialColorA,
-            side: THREE.DoubleSide 
-          })
-        );
-      }
-      
-      return new THREE.Mesh(
-        fallbackGeom, 
-        new THREE.MeshStandardMaterial({ 
-          color: materialColorA,
-          side: THREE.DoubleSide 
-        })
-      );
-    } catch (finalError) {
-      console.error("All union strategies and fallbacks failed", finalError);
-      throw new Error("Could not perform union operation: " + e.message);
-    }
-  }
-}
-
-// Add the simplifyGeometry helper function
-function simplifyGeometry(
-  geometry: THREE.BufferGeometry, 
-  thresholdOrOptions: number | { 
-    threshold?: number, 
-    shapeType?: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other',
-    aggressiveness?: number
-  } = 0.01
-): THREE.BufferGeometry {
-  // Extract parameters
-  let threshold = 0.01;
-  let shapeType: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
-  let aggressiveness = 1.0;
-  
-  if (typeof thresholdOrOptions === 'number') {
-    threshold = thresholdOrOptions;
-  } else {
-    threshold = thresholdOrOptions.threshold ?? 0.01;
-    shapeType = thresholdOrOptions.shapeType ?? 'other';
-    aggressiveness = thresholdOrOptions.aggressiveness ?? 1.0;
-  }
-  
-  console.log(`Simplifying geometry (type: ${shapeType}, threshold: ${threshold}, aggressiveness: ${aggressiveness})`);
-  
-  // Clone the geometry to avoid modifying the original
-  const simplified = geometry.clone();
-  
-  try {
-    // If the geometry is very complex, skip attributes that aren't essential
-    const position = simplified.getAttribute('position');
-    if (!position) {
-      console.warn("Geometry has no position attribute, cannot simplify");
-      return simplified;
-    }
-    
-    const initialVertexCount = position.count;
-    console.log(`Initial vertex count: ${initialVertexCount}`);
-    
-    // Apply shape-specific optimizations
-    if (shapeType !== 'other') {
-      // For primitive shapes, we can use specialized simplification
-      // This is especially useful for high-polycount primitives that could be represented more simply
-      switch (shapeType) {
-        case 'cube':
-          // For cubes, we can be very aggressive with merging
-          threshold = Math.max(threshold, 0.01 * aggressiveness);
-          break;
-          
-        case 'sphere':
-          // Spheres need careful handling to maintain shape
-          threshold = Math.min(threshold, 0.008 * aggressiveness);
-          break;
-          
-        case 'cylinder':
-        case 'cone':
-          // These shapes can handle moderate simplification
-          threshold = Math.min(threshold, 0.01 * aggressiveness);
-          break;
-          
-        case 'torus':
-          // Torus shapes need careful handling around the inner ring
-          threshold = Math.min(threshold, 0.005 * aggressiveness);
-          break;
-      }
-    } else {
-      // For complex or unknown shapes, be more conservative
-      // Scale threshold based on geometry complexity
-      if (initialVertexCount > 10000) {
-        // For very complex meshes, we can be more aggressive
-        threshold = Math.min(threshold * 1.5, 0.02) * aggressiveness;
-      } else if (initialVertexCount < 1000) {
-        // For simple meshes, be more conservative
-        threshold = Math.min(threshold * 0.7, 0.005) * aggressiveness;
-      }
-    }
-    
-    // For large geometries, only keep essential attributes
-    if (position.count > 10000) {
-      // Keep only position, normal, and index
-      const keepAttributes = ['position', 'normal'];
-      
-      // Remove non-essential attributes to reduce complexity
-      for (const key in simplified.attributes) {
-        if (!keepAttributes.includes(key)) {
-          simplified.deleteAttribute(key);
-        }
-      }
-    }
-
-    // Ensure we have proper vertex normals
-    if (!simplified.getAttribute('normal')) {
-      simplified.computeVertexNormals();
-    }
-    
-    // Make sure we have a bounding box
-    if (!simplified.boundingBox) {
-      simplified.computeBoundingBox();
-    }
-    
-    // Create an index if one doesn't exist
-    if (!simplified.index) {
-      simplified.setIndex(
-        Array.from({ length: position.count }, (_, i) => i)
-      );
-    }
-    
-    // Merge vertices with the calculated threshold
-    console.log(`Using simplification threshold: ${threshold}`);
-    
-    if (BufferGeometryUtils.mergeVertices) {
-      const optimized = BufferGeometryUtils.mergeVertices(simplified, threshold);
-      
-      // Verify the simplified geometry looks good
-      if (optimized.attributes.position.count === 0) {
-        console.warn("Simplification resulted in no vertices, using original geometry");
-        return simplified;
-      }
-      
-      const finalVertexCount = optimized.attributes.position.count;
-      const reductionPercent = ((initialVertexCount - finalVertexCount) / initialVertexCount * 100).toFixed(1);
-      console.log(`Simplified geometry: ${initialVertexCount} → ${finalVertexCount} vertices (${reductionPercent}% reduction)`);
-      
-      // Protection against over-simplification
-      if (finalVertexCount < initialVertexCount * 0.1 && initialVertexCount > 100) {
-        console.warn("Simplification reduced vertices by more than 90%, using a more conservative approach");
-        // Try again with a more conservative threshold
-        return simplifyGeometry(geometry, {
-          threshold: threshold * 0.5,
-          shapeType,
-          aggressiveness: aggressiveness * 0.5
-        });
-      }
-      
-      return optimized;
-    }
-  } catch (error) {
-    console.warn("Error during geometry simplification:", error);
-  }
-  
-  return simplified;
-}
-
-// Add a function to validate the result mesh after boolean operations
-function validateResultMesh(mesh: THREE.Mesh): boolean {
-  // Check if the mesh has a valid geometry
-  if (!mesh.geometry) {
-    console.error("Result mesh has no geometry");
-    return false;
-  }
-  
-  // Check if the geometry has vertices
-  const position = mesh.geometry.getAttribute('position');
-  if (!position || position.count === 0) {
-    console.error("Result mesh has no vertices");
-    return false;
-  }
-  
-  // Check if we have at least one triangle
-  if (mesh.geometry.index && mesh.geometry.index.count < 3) {
-    console.error("Result mesh has no triangles");
-    return false;
-  }
-  
-  // Check for NaN values in positions that would cause rendering issues
-  const positions = position.array;
-  for (let i = 0; i < positions.length; i++) {
-    if (isNaN(positions[i])) {
-      console.error("Result mesh has NaN position values");
-      return false;
-    }
-  }
-  
-  // Make sure the bounding box is valid (not infinite or NaN)
-  mesh.geometry.computeBoundingBox();
-  const bbox = mesh.geometry.boundingBox;
-  if (!bbox) {
-    console.error("Failed to compute bounding box");
-    return false;
-  }
-  
-  // Check for invalid bounding box values
-  if (isNaN(bbox.min.x) || isNaN(bbox.min.y) || isNaN(bbox.min.z) ||
-      isNaN(bbox.max.x) || isNaN(bbox.max.y) || isNaN(bbox.max.z)) {
-    console.error("Bounding box contains NaN values");
-    return false;
-  }
-  
-  if (!isFinite(bbox.min.x) || !isFinite(bbox.min.y) || !isFinite(bbox.min.z) ||
-      !isFinite(bbox.max.x) || !isFinite(bbox.max.y) || !isFinite(bbox.max.z)) {
-    console.error("Bounding box contains infinite values");
-    return false;
-  }
-  
-  // The mesh passed all validation checks
-  return true;
-}
-
-// Add these functions below robustMeshUnion but before simplifyGeometry
-
-// Specialized function for robust mesh subtraction
-function robustMeshSubtract(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
-  console.log("Starting robust mesh subtraction for complex geometries");
-  
-  // Extract materials for later use
-  const materialColorA = meshA.material instanceof THREE.Material ? 
-    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
-    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
-  
-  // Pre-process geometries to ensure they're suitable for operations
-  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
-    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
-    const geom = mesh.geometry.clone();
-    
-    // Apply world matrices to get correct position
-    mesh.updateWorldMatrix(true, false);
-    geom.applyMatrix4(mesh.matrixWorld);
-    
-    // Full clean and manifold check
-    const cleanGeom = ensureManifoldGeometry(geom);
-    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
-    
-    return cleanGeom;
-  };
-  
-  // First try: Standard CSG subtraction with optimized settings
-  try {
-    console.log("Trying optimized CSG subtraction approach");
-    
-    // Prepare geometries with extensive cleaning
-    const cleanGeomA = prepareGeometry(meshA);
-    const cleanGeomB = prepareGeometry(meshB);
-    
-    // Verify geometries are valid
-    if (cleanGeomA.attributes.position.count === 0) {
-      throw new Error("First model has no valid geometry after processing");
-    }
-    
-    if (cleanGeomB.attributes.position.count === 0) {
-      // If second model is empty, just return the first model
-      console.warn("Second model has no valid geometry, returning first model unchanged");
-      return new THREE.Mesh(
-        cleanGeomA,
-        new THREE.MeshStandardMaterial({
-          color: materialColorA,
-          side: THREE.DoubleSide
-        })
-      );
-    }
-    
-    // Check for bounding box intersection (optimization)
-    // No need to subtract if there's no overlap
-    cleanGeomA.computeBoundingBox();
-    cleanGeomB.computeBoundingBox();
-    
-    if (cleanGeomA.boundingBox && cleanGeomB.boundingBox && 
-        !cleanGeomA.boundingBox.intersectsBox(cleanGeomB.boundingBox)) {
-      console.log("Bounding boxes don't intersect, returning first model unchanged");
-      return new THREE.Mesh(
-        cleanGeomA,
-        new THREE.MeshStandardMaterial({
-          color: materialColorA,
-          side: THREE.DoubleSide
-        })
-      );
-    }
-    
-    // Create optimized meshes for CSG
-    const csgMeshA = new THREE.Mesh(
-      cleanGeomA,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
-        transparent: true,
-        opacity: 0.99  // Almost opaque but not quite
-      })
-    );
-    
-    const csgMeshB = new THREE.Mesh(
-      cleanGeomB,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
-        transparent: true,
-        opacity: 0.99
-      })
-    );
-    
-    // Reset transforms since they're already applied to geometry
-    csgMeshA.position.set(0, 0, 0);
-    csgMeshA.rotation.set(0, 0, 0);
-    csgMeshA.scale.set(1, 1, 1);
-    csgMeshB.position.set(0, 0, 0);
-    csgMeshB.rotation.set(0, 0, 0);
-    csgMeshB.scale.set(1, 1, 1);
-    
-    // Perform CSG subtraction
-    const resultMesh = CSG.subtract(csgMeshA, csgMeshB);
-    
-    // Validate result
-    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
-      throw new Error("CSG subtraction produced an invalid mesh");
-    }
-    
-    // Create material for the new mesh
-    const material = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide
+        // Check for alignment in Z direction as well (similar to above)
+        // This can be expanded for more edge alignment cases as needed
+      }
     });
     
-    resultMesh.material = material;
-    
-    // Final cleanup to ensure manifold result
-    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
-    
-    return resultMesh;
-  } catch (e) {
-    console.warn("Standard CSG subtraction failed, trying with simplified geometries", e);
-  }
-  
-  // Second try: Simplify geometries first
-  try {
-    console.log("Trying subtraction with simplified geometries");
-    
-    // Apply progressive simplification for better results
-    const simplifyThreshold = 0.005; // Start with moderate simplification
-    
-    // Get base geometries
-    const baseGeomA = meshA.geometry.clone();
-    const baseGeomB = meshB.geometry.clone();
-    
-    // Apply world transforms
-    meshA.updateWorldMatrix(true, false);
-    meshB.updateWorldMatrix(true, false);
-    baseGeomA.applyMatrix4(meshA.matrixWorld);
-    baseGeomB.applyMatrix4(meshB.matrixWorld);
-    
-    // First ensure they're manifold
-    const manifoldGeomA = ensureManifoldGeometry(baseGeomA);
-    const manifoldGeomB = ensureManifoldGeometry(baseGeomB);
-    
-    // Determine shape types for optimal simplification
-    let shapeTypeA: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
-    let shapeTypeB: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
-    
-    // Try to detect shape types from mesh names or userData if available
-    if (meshA.name) {
-      const name = meshA.name.toLowerCase();
-      if (name.includes('cube') || name.includes('box')) shapeTypeA = 'cube';
-      else if (name.includes('sphere')) shapeTypeA = 'sphere';
-      else if (name.includes('cylinder')) shapeTypeA = 'cylinder';
-      else if (name.includes('cone')) shapeTypeA = 'cone';
-      else if (name.includes('torus')) shapeTypeA = 'torus';
-    }
-    
-    if (meshB.name) {
-      const name = meshB.name.toLowerCase();
-      if (name.includes('cube') || name.includes('box')) shapeTypeB = 'cube';
-      else if (name.includes('sphere')) shapeTypeB = 'sphere';
-      else if (name.includes('cylinder')) shapeTypeB = 'cylinder';
-      else if (name.includes('cone')) shapeTypeB = 'cone';
-      else if (name.includes('torus')) shapeTypeB = 'torus';
-    }
-    
-    console.log(`Detected shape types - A: ${shapeTypeA}, B: ${shapeTypeB}`);
-    
-    // Then simplify them with shape-specific settings
-    const simplifiedGeomA = simplifyGeometry(manifoldGeomA, {
-      threshold: simplifyThreshold,
-      shapeType: shapeTypeA,
-      aggressiveness: 1.0
-    });
+    // Create visual indicators for potential snap points
+    const snapIndicators: THREE.Object3D[] = [];
     
-    const simplifiedGeomB = simplifyGeometry(manifoldGeomB, {
-      threshold: simplifyThreshold,
-      shapeType: shapeTypeB,
-      // Be less aggressive with the subtractor shape to preserve details
-      aggressiveness: 0.8
+    potentialSnapPoints.forEach(({ position, distance }) => {
+      // Create a visual indicator for this snap point
+      const geometry = new THREE.SphereGeometry(0.05, 16, 16);
+      const material = new THREE.MeshBasicMaterial({ 
+        color: distance === closestDistance ? 0x00ff00 : 0xffaa00,
+        transparent: true,
+        opacity: 0.7
+      });
+      const indicator = new THREE.Mesh(geometry, material);
+      indicator.position.copy(position);
+      
+      // Add to scene and track it
+      scene.add(indicator);
+      snapIndicators.push(indicator);
     });
     
-    // Create meshes for CSG with simplified geometries
-    const simpleMeshA = new THREE.Mesh(
-      simplifiedGeomA,
-      new THREE.MeshStandardMaterial({
-        color: materialColorA,
-        side: THREE.DoubleSide
-      })
-    );
+    // Update the state with the new indicators
+    state.snapIndicators = snapIndicators;
     
-    const simpleMeshB = new THREE.Mesh(
-      simplifiedGeomB,
-      new THREE.MeshStandardMaterial({
-        side: THREE.DoubleSide
-      })
-    );
-    
-    // Reset transforms
-    simpleMeshA.position.set(0, 0, 0);
-    simpleMeshA.rotation.set(0, 0, 0);
-    simpleMeshA.scale.set(1, 1, 1);
-    simpleMeshB.position.set(0, 0, 0);
-    simpleMeshB.rotation.set(0, 0, 0);
-    simpleMeshB.scale.set(1, 1, 1);
-    
-    // Try subtraction with simplified meshes
-    const resultMesh = CSG.subtract(simpleMeshA, simpleMeshB);
-    
-    // Validate and clean up
-    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
-      // Ensure the result is manifold
-      resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
-      
-      // Update material
-      resultMesh.material = new THREE.MeshStandardMaterial({
-        color: materialColorA,
-        side: THREE.DoubleSide
-      });
-      
-      return resultMesh;
+    // Apply the snap if we found a good snap point
+    if (closestSnapPoint) {
+      console.log("Snapping to point, distance:", closestDistance);
+      selectedMesh.position.copy(closestSnapPoint);
     }
-    
-    throw new Error("Simplified subtraction produced an invalid mesh");
-  } catch (e) {
-    console.warn("Simplified subtraction failed, trying final approach", e);
   }
-  
-  // Final attempt with maximum simplification
-  try {
-    console.log("Trying final subtraction approach with aggressive simplification");
-    
-    // Simplify with more aggressive settings
-    const aggressiveThreshold = 0.01;
-    
-    // Get base geometries and apply world transforms
-    const baseGeomA = meshA.geometry.clone();
-    const baseGeomB = meshB.geometry.clone();
-    
-    meshA.updateWorldMatrix(true, false);
-    meshB.updateWorldMatrix(true, false);
-    baseGeomA.applyMatrix4(meshA.matrixWorld);
-    baseGeomB.applyMatrix4(meshB.matrixWorld);
-    
-    // Apply aggressive simplification
-    const finalGeomA = simplifyGeometry(
-      ensureManifoldGeometry(baseGeomA),
-      aggressiveThreshold
-    );
-    
-    const finalGeomB = simplifyGeometry(
-      ensureManifoldGeometry(baseGeomB),
-      aggressiveThreshold
-    );
-    
-    // Create meshes with basic materials
-    const finalMeshA = new THREE.Mesh(
-      finalGeomA,
-      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
-    );
-    
-    const finalMeshB = new THREE.Mesh(
-      finalGeomB,
-      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
-    );
-    
-    // Reset transforms
-    finalMeshA.position.set(0, 0, 0);
-    finalMeshA.rotation.set(0, 0, 0);
-    finalMeshA.scale.set(1, 1, 1);
-    finalMeshB.position.set(0, 0, 0);
-    finalMeshB.rotation.set(0, 0, 0);
-    finalMeshB.scale.set(1, 1, 1);
-    
-    // Final subtraction attempt
-    const resultMesh = CSG.subtract(finalMeshA, finalMeshB);
-    
-    // Apply standard material
-    resultMesh.material = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide
-    });
-    
-    return resultMesh;
-  } catch (e: any) {
-    // Last resort fallback - if all CSG approaches fail, return the first mesh
-    console.error("All subtraction approaches failed:", e);
-    try {
-      // Return the original first mesh with warning
-      console.warn("Returning original mesh as fallback");
-      const fallbackGeom = prepareGeometry(meshA);
-      
-      return new THREE.Mesh(
-        fallbackGeom,
-        new THREE.MeshStandardMaterial({
-          color: materialColorA,
-          side: THREE.DoubleSide
-        })
+}
+
+// Helper function to check if two boxes overlap in a specified plane
+function boxesOverlapInPlane(box1: THREE.Box3, box2: THREE.Box3, plane: 'xy' | 'xz' | 'yz'): boolean {
+  switch (plane) {
+    case 'xy':
+      return (
+        box1.max.x > box2.min.x &&
+        box1.min.x < box2.max.x &&
+        box1.max.y > box2.min.y &&
+        box1.min.y < box2.max.y
+      );
+    case 'xz':
+      return (
+        box1.max.x > box2.min.x &&
+        box1.min.x < box2.max.x &&
+        box1.max.z > box2.min.z &&
+        box1.min.z < box2.max.z
+      );
+    case 'yz':
+      return (
+        box1.max.y > box2.min.y &&
+        box1.min.y < box2.max.y &&
+        box1.max.z > box2.min.z &&
+        box1.min.z < box2.max.z
       );
-    } catch (finalError) {
-      console.error("Complete failure of subtraction operation", finalError);
-      throw new Error("Subtraction operation failed completely: " + e.message);
-    }
   }
 }
 
-// Specialized function for robust mesh intersection
-function robustMeshIntersect(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
-  console.log("Starting robust mesh intersection for complex geometries");
+// Helper function to check if two lines overlap
+function isLineOverlapping(min1: number, max1: number, min2: number, max2: number): boolean {
+  return max1 >= min2 && max2 >= min1;
+}
+
+// Helper function to update model material based on rendering mode
+function updateModelMaterial(mesh: THREE.Mesh, mode: 'standard' | 'wireframe' | 'metallic' | 'glass-like' | 'xray') {
+  // Get the current color from the mesh's material
+  let currentColor = new THREE.Color(0x3498db); // Default blue color
   
-  // Extract materials for later use
-  const materialColorA = meshA.material instanceof THREE.Material ? 
-    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
-    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
+  // Try to get the color from the existing material if possible
+  if (mesh.material instanceof THREE.MeshBasicMaterial || 
+      mesh.material instanceof THREE.MeshStandardMaterial ||
+      mesh.material instanceof THREE.MeshPhysicalMaterial) {
+    currentColor = mesh.material.color;
+  } else if (Array.isArray(mesh.material) && mesh.material.length > 0) {
+    // Handle material arrays
+    const firstMaterial = mesh.material[0];
+    if (firstMaterial instanceof THREE.MeshBasicMaterial || 
+        firstMaterial instanceof THREE.MeshStandardMaterial || 
+        firstMaterial instanceof THREE.MeshPhysicalMaterial) {
+      currentColor = firstMaterial.color;
+    }
+  }
   
-  // Pre-process geometries to ensure they're suitable for operations
-  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
-    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
-    const geom = mesh.geometry.clone();
-    
-    // Apply world matrices to get correct position
-    mesh.updateWorldMatrix(true, false);
-    geom.applyMatrix4(mesh.matrixWorld);
-    
-    // Full clean and manifold check
-    const cleanGeom = ensureManifoldGeometry(geom);
-    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
-    
-    return cleanGeom;
-  };
+  // Check if the current material is highlighted (emissive)
+  const isHighlighted = mesh.material instanceof THREE.MeshStandardMaterial || 
+                        mesh.material instanceof THREE.MeshPhysicalMaterial 
+                        ? (mesh.material.emissive && mesh.material.emissive.r > 0) 
+                        : false;
   
-  // First check: Do bounding boxes even intersect?
-  try {
-    // Process geometries
-    const geomA = prepareGeometry(meshA);
-    const geomB = prepareGeometry(meshB);
-    
-    // Calculate bounding boxes
-    geomA.computeBoundingBox();
-    geomB.computeBoundingBox();
-    
-    // If bounding boxes don't intersect, return an empty geometry
-    // (Intersection should yield nothing)
-    if (geomA.boundingBox && geomB.boundingBox && 
-        !geomA.boundingBox.intersectsBox(geomB.boundingBox)) {
-      console.log("Bounding boxes don't intersect, returning empty geometry");
-      
-      // Return a minimal cube with opacity 0 as a placehoder
-      const emptyGeom = new THREE.BoxGeometry(0.1, 0.1, 0.1);
-      const emptyMaterial = new THREE.MeshStandardMaterial({
-        color: materialColorA,
-        side: THREE.DoubleSide,
-        transparent: true,
-        opacity: 0
+  // Store the highlight state to restore after changing material
+  const emissiveColor = isHighlighted ? new THREE.Color(0x222222) : new THREE.Color(0x000000);
+  
+  // Imported meshes may carry their own per-vertex colors
+  const vertexColors = !!mesh.geometry.getAttribute('color');
+  
+  // Create the new material based on rendering mode
+  let newMaterial: THREE.Material | null = null;
+  
+  switch (mode) {
+    case 'standard':
+      newMaterial = new THREE.MeshStandardMaterial({
+        color: currentColor,
+        vertexColors,
+        roughness: 0.7,
+        metalness: 0.2,
+        emissive: emissiveColor
       });
+      break;
       
-      return new THREE.Mesh(emptyGeom, emptyMaterial);
-    }
-  } catch (e) {
-    console.warn("Bounding box check failed", e);
-    // Continue to main approach
-  }
-  
-  // First try: Standard CSG intersection
-  try {
-    console.log("Trying optimized CSG intersection approach");
-    
-    // Prepare geometries with extensive cleaning
-    const cleanGeomA = prepareGeometry(meshA);
-    const cleanGeomB = prepareGeometry(meshB);
-    
-    // Verify geometries are valid
-    if (cleanGeomA.attributes.position.count === 0 || cleanGeomB.attributes.position.count === 0) {
-      throw new Error("One or both models have no valid geometry after processing");
-    }
-    
-    // Create optimized meshes for CSG
-    const csgMeshA = new THREE.Mesh(
-      cleanGeomA,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
+    case 'wireframe':
+      newMaterial = new THREE.MeshBasicMaterial({
+        color: currentColor,
+        vertexColors,
+        wireframe: true
+      });
+      break;
+      
+    case 'metallic':
+      newMaterial = new THREE.MeshStandardMaterial({
+        color: currentColor,
+        vertexColors,
+        roughness: 0.3,
+        metalness: 0.9,
+        emissive: emissiveColor
+      });
+      break;
+      
+    case 'glass-like':
+      newMaterial = new THREE.MeshPhysicalMaterial({
+        color: currentColor,
+        vertexColors,
+        roughness: 0.0,
+        metalness: 0.1,
+        transmission: 0.9,
         transparent: true,
-        opacity: 0.99  // Almost opaque but not quite
-      })
-    );
-    
-    const csgMeshB = new THREE.Mesh(
-      cleanGeomB,
-      new THREE.MeshBasicMaterial({ 
-        side: THREE.DoubleSide,
+        opacity: 0.5,
+        clearcoat: 1.0,
+        clearcoatRoughness: 0.1,
+        emissive: emissiveColor
+      });
+      break;
+      
+    case 'xray':
+      newMaterial = new THREE.MeshBasicMaterial({
+        color: currentColor,
+        vertexColors,
         transparent: true,
-        opacity: 0.99
-      })
-    );
-    
-    // Reset transforms since they're already applied to geometry
-    csgMeshA.position.set(0, 0, 0);
-    csgMeshA.rotation.set(0, 0, 0);
-    csgMeshA.scale.set(1, 1, 1);
-    csgMeshB.position.set(0, 0, 0);
-    csgMeshB.rotation.set(0, 0, 0);
-    csgMeshB.scale.set(1, 1, 1);
-    
-    // Perform CSG intersection
-    const resultMesh = CSG.intersect(csgMeshA, csgMeshB);
-    
-    // Validate result
-    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
-      throw new Error("CSG intersection produced an empty result");
-    }
-    
-    // Create material for the new mesh
-    const material = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide
-    });
-    
-    resultMesh.material = material;
-    
-    // Final cleanup to ensure manifold result
-    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
-    
-    return resultMesh;
-  } catch (e) {
-    console.warn("Standard CSG intersection failed, trying with simplified geometries", e);
-  }
-  
-  // Second try: Simplify geometries first
-  try {
-    console.log("Trying intersection with simplified geometries");
-    
-    // Apply progressive simplification for better results
-    const simplifyThreshold = 0.005; // Start with moderate simplification
-    
-    // Get base geometries and apply world transforms
-    const baseGeomA = meshA.geometry.clone();
-    const baseGeomB = meshB.geometry.clone();
-    
-    meshA.updateWorldMatrix(true, false);
-    meshB.updateWorldMatrix(true, false);
-    baseGeomA.applyMatrix4(meshA.matrixWorld);
-    baseGeomB.applyMatrix4(meshB.matrixWorld);
-    
-    // First ensure they're manifold, then simplify
-    const simplifiedGeomA = simplifyGeometry(ensureManifoldGeometry(baseGeomA), simplifyThreshold);
-    const simplifiedGeomB = simplifyGeometry(ensureManifoldGeometry(baseGeomB), simplifyThreshold);
-    
-    // Create meshes for CSG with simplified geometries
-    const simpleMeshA = new THREE.Mesh(
-      simplifiedGeomA,
-      new THREE.MeshStandardMaterial({
-        color: materialColorA,
-        side: THREE.DoubleSide
-      })
-    );
-    
-    const simpleMeshB = new THREE.Mesh(
-      simplifiedGeomB,
-      new THREE.MeshStandardMaterial({
-        side: THREE.DoubleSide
-      })
-    );
-    
-    // Reset transforms
-    simpleMeshA.position.set(0, 0, 0);
-    simpleMeshA.rotation.set(0, 0, 0);
-    simpleMeshA.scale.set(1, 1, 1);
-    simpleMeshB.position.set(0, 0, 0);
-    simpleMeshB.rotation.set(0, 0, 0);
-    simpleMeshB.scale.set(1, 1, 1);
-    
-    // Try intersection with simplified meshes
-    const resultMesh = CSG.intersect(simpleMeshA, simpleMeshB);
-    
-    // Validate and clean up
-    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
-      // Ensure the result is manifold
-      resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
-      
-      // Update material
-      resultMesh.material = new THREE.MeshStandardMaterial({
-        color: materialColorA,
+        opacity: 0.5,
         side: THREE.DoubleSide
       });
-      
-      return resultMesh;
-    }
-    
-    throw new Error("Simplified intersection produced an empty result");
-  } catch (e) {
-    console.warn("Simplified intersection failed, trying final approach", e);
+      break;
   }
   
-  // Final attempt with maximum simplification
-  try {
-    console.log("Trying final intersection approach with aggressive simplification");
-    
-    // Simplify with more aggressive settings
-    const aggressiveThreshold = 0.02; // Even more aggressive than before
-    
-    // Get base geometries and apply world transforms
-    const baseGeomA = meshA.geometry.clone();
-    const baseGeomB = meshB.geometry.clone();
-    
-    meshA.updateWorldMatrix(true, false);
-    meshB.updateWorldMatrix(true, false);
-    baseGeomA.applyMatrix4(meshA.matrixWorld);
-    baseGeomB.applyMatrix4(meshB.matrixWorld);
-    
-    // Apply aggressive simplification
-    const finalGeomA = simplifyGeometry(
-      ensureManifoldGeometry(baseGeomA),
-      aggressiveThreshold
-    );
-    
-    const finalGeomB = simplifyGeometry(
-      ensureManifoldGeometry(baseGeomB),
-      aggressiveThreshold
-    );
-    
-    // Create meshes with basic materials
-    const finalMeshA = new THREE.Mesh(
-      finalGeomA,
-      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
-    );
-    
-    const finalMeshB = new THREE.Mesh(
-      finalGeomB,
-      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
-    );
-    
-    // Reset transforms
-    finalMeshA.position.set(0, 0, 0);
-    finalMeshA.rotation.set(0, 0, 0);
-    finalMeshA.scale.set(1, 1, 1);
-    finalMeshB.position.set(0, 0, 0);
-    finalMeshB.rotation.set(0, 0, 0);
-    finalMeshB.scale.set(1, 1, 1);
-    
-    // Final intersection attempt
-    const resultMesh = CSG.intersect(finalMeshA, finalMeshB);
-    
-    // If we got a valid result, return it
-    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
-      // Apply standard material
-      resultMesh.material = new THREE.MeshStandardMaterial({
-        color: materialColorA,
-        side: THREE.DoubleSide
-      });
-      
-      return resultMesh;
-    }
-    
-    throw new Error("Failed to find intersection with any approach");
-  } catch (e: any) {
-    // If all intersection attempts produced no result, return minimal geometry
-    console.error("All intersection approaches failed:", e);
-    
-    // Return a minimal invisible geometry to represent empty intersection
-    console.warn("Creating minimal representation for empty intersection");
-    const emptyGeom = new THREE.BoxGeometry(0.1, 0.1, 0.1);
-    const emptyMaterial = new THREE.MeshStandardMaterial({
-      color: materialColorA,
-      side: THREE.DoubleSide,
-      transparent: true,
-      opacity: 0.2 // Slightly visible for debugging
-    });
-    
-    return new THREE.Mesh(emptyGeom, emptyMaterial);
+  // Only replace material if we have a new one and it's different from the current one
+  if (newMaterial) {
+    mesh.material = newMaterial;
+    newMaterial.needsUpdate = true;
   }
 }
 
-// Add this utility function after validateResultMesh but before the export statement
+// ... existing code ...
+type TextProps = {
+  text: string;
+  fontSize: number;
+  height: number;
+  curveSegments: number;
+  bevelEnabled: boolean;
+  bevelThickness: number;
+  bevelSize: number;
+  bevelSegments: number;
+  fontPath: string;
+};
 
-/**
- * Utility function to check for and attempt to repair self-intersections in a geometry
- * Self-intersecting geometries often cause boolean operations to fail
- */
-function repairSelfIntersections(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
-  console.log("Checking for and repairing self-intersections");
-  
-  // Clone the geometry to avoid modifying the original
-  const repairedGeometry = geometry.clone();
-  
-  try {
-    // Step 1: Ensure we have indices for triangle detection
-    if (!repairedGeometry.index) {
-      console.log("Creating index for non-indexed geometry");
-      repairedGeometry.setIndex(
-        Array.from({ length: repairedGeometry.attributes.position.count }, (_, i) => i)
-      );
-    }
-    
-    // Step 2: Find triangles that might intersect each other
-    const indices = repairedGeometry.index?.array || [];
-    const positions = repairedGeometry.attributes.position.array;
-    
-    // This is a simplified approach - full intersection testing would be much more complex
-    // We'll look for triangles that share edges but have inverted normals,
-    // which is a strong indicator of self-intersection
-    
-    // First create a map of edges to triangles
-    const edgeToTriangles = new Map<string, number[]>();
-    const potentialIssues = new Set<number>();
-    
-    // Only proceed if we have indices
-    if (repairedGeometry.index) {
-      for (let i = 0; i < indices.length; i += 3) {
-        const triangleIndex = i / 3;
-        const i1 = indices[i];
-        const i2 = indices[i + 1];
-        const i3 = indices[i + 2];
-        
-        // Register each edge with this triangle
-        // We'll sort the indices to make sure we get the same key for the same edge
-        const edges = [
-          [Math.min(i1, i2), Math.max(i1, i2)],
-          [Math.min(i2, i3), Math.max(i2, i3)],
-          [Math.min(i3, i1), Math.max(i3, i1)]
-        ];
-        
-        for (const [a, b] of edges) {
-          const edgeKey = `${a}-${b}`;
-          if (!edgeToTriangles.has(edgeKey)) {
-            edgeToTriangles.set(edgeKey, []);
-          }
-          edgeToTriangles.get(edgeKey)!.push(triangleIndex);
-          
-          // If this edge is shared by more than one triangle, check for potential issues
-          if (edgeToTriangles.get(edgeKey)!.length > 1) {
-            // Check normals of the triangles sharing this edge
-            const triangles = edgeToTriangles.get(edgeKey)!;
-            for (const prevTriangle of triangles.slice(0, -1)) {
-              // Add both triangles as potential issues to check
-              potentialIssues.add(prevTriangle);
-              potentialIssues.add(triangleIndex);
-            }
-          }
-        }
-      }
-    }
-    
-    if (potentialIssues.size > 0) {
-      console.log(`Found ${potentialIssues.size} potential self-intersecting triangles`);
-    } else {
-      console.log("No self-intersections detected");
-      return repairedGeometry;
-    }
-    
-    // Step 3: Simple repair by merging very close vertices
-    // This can often resolve minor self-intersections
-    // We use an aggressive tolerance here to fix most issues
-    const repairTolerance = 0.001;
-    
-    if (BufferGeometryUtils.mergeVertices) {
-      const mergedGeometry = BufferGeometryUtils.mergeVertices(repairedGeometry, repairTolerance);
-      
-      // Compare vertex counts to see if we made a significant change
-      if (mergedGeometry.attributes.position.count < repairedGeometry.attributes.position.count) {
-        const reduction = repairedGeometry.attributes.position.count - mergedGeometry.attributes.position.count;
-        console.log(`Merged ${reduction} vertices to repair self-intersections`);
-        
-        // Recompute normals after merging
-        mergedGeometry.computeVertexNormals();
-        return mergedGeometry;
-      }
-    }
-    
-    // Step 4: If merging didn't help, try to fix by removing problematic triangles
-    // This is a last resort and can leave holes, but sometimes better than failing
-    if (repairedGeometry.index && potentialIssues.size > repairedGeometry.index.count / 6) {
-      // Too many issues to fix by removing triangles, would destroy the mesh
-      console.warn("Too many problematic triangles to fix by removal");
-      return repairedGeometry;
-    }
-    
-    // Create a new index array without problematic triangles
-    const newIndices = [];
-    
-    // Only proceed if we have a valid index
-    if (repairedGeometry.index) {
-      for (let i = 0; i < indices.length; i += 3) {
-        const triangleIndex = i / 3;
-        if (!potentialIssues.has(triangleIndex)) {
-          newIndices.push(indices[i], indices[i + 1], indices[i + 2]);
-        }
-      }
-      
-      if (newIndices.length < indices.length) {
-        console.log(`Removed ${(indices.length - newIndices.length) / 3} problematic triangles`);
-        repairedGeometry.setIndex(newIndices);
-        
-        // Recompute normals after removing triangles
-        repairedGeometry.computeVertexNormals();
-      }
-    }
-  } catch (error) {
-    console.warn("Error while repairing self-intersections:", error);
-    return geometry; // Return original if repair failed
+// Helper function to find a suitable position for a new model
+const findSuitablePosition = (models: Model[], newModelSize: THREE.Vector3): THREE.Vector3 => {
+  if (models.length === 0) {
+    return new THREE.Vector3(0, 0, 0);
   }
-  
-  return repairedGeometry;
-}
+
+  // Find the rightmost point of all models
+  let maxX = -Infinity;
+  models.forEach(model => {
+    const box = new THREE.Box3().setFromObject(model.mesh);
+    maxX = Math.max(maxX, box.max.x);
+  });
+
+  // Position the new model to the right of the rightmost model
+  // Add a 50mm gap between models
+  const newX = maxX + 50;
+  return new THREE.Vector3(newX, 0, 0);
+};
 
 export {};
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useScene } from './use-scene';
+
+// A press that moves further than this is an orbit drag, not a pick
+const CLICK_TOLERANCE_PX = 4;
+
+/**
+ * Listen for left clicks on the viewport while drags still orbit the view
+ * @param onClick - Called with the pointerup of each click, or null to stop listening
+ */
+export function useViewportClick(onClick: ((event: PointerEvent) => void) | null) {
+  const { renderer } = useScene();
+
+  useEffect(() => {
+    if (!onClick) return;
+
+    const canvas = renderer.domElement;
+    let pressed: { x: number; y: number } | null = null;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pressed = event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!pressed) return;
+      const moved = Math.hypot(event.clientX - pressed.x, event.clientY - pressed.y);
+      pressed = null;
+      if (moved > CLICK_TOLERANCE_PX) return;
+      onClick(event);
+    };
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [renderer, onClick]);
+}
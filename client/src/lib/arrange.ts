@@ -0,0 +1,196 @@
+/**
+ * Build plate layout - packs model footprints onto a rectangular plate so a
+ * multi-part order can print as one job. Works in plate coordinates: X across
+ * the plate and Z front to back, both centred on the origin like the grid.
+ */
+
+export interface BuildPlate {
+  width: number; // mm along X
+  depth: number; // mm along Z
+  height: number; // mm along Y
+}
+
+export interface Footprint {
+  width: number;
+  depth: number;
+}
+
+// Axis aligned area on the plate in world X/Z
+export interface PlateRect {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+export interface PackResult {
+  // Min corner of each footprint in world X/Z, null for footprints that didn't fit
+  placements: ({ x: number; z: number } | null)[];
+  unplaced: number[];
+}
+
+export const DEFAULT_BUILD_PLATE: BuildPlate = { width: 256, depth: 256, height: 256 };
+
+export const DEFAULT_ARRANGE_GAP = 5;
+
+// Slack for float noise when testing whether a part fits
+const EPSILON = 1e-6;
+
+interface SkylineSegment {
+  x: number;
+  y: number;
+  width: number;
+}
+
+// Lowest spot along the skyline where a rectangle fits, preferring the front left
+function findSkylinePosition(
+  skyline: SkylineSegment[],
+  width: number,
+  depth: number,
+  plateWidth: number,
+  plateDepth: number
+): { index: number; x: number; y: number } | null {
+  let best: { index: number; x: number; y: number } | null = null;
+
+  for (let i = 0; i < skyline.length; i++) {
+    const x = skyline[i].x;
+    if (x + width > plateWidth + EPSILON) break;
+
+    // The rectangle rests on the highest segment it spans
+    let y = 0;
+    let covered = 0;
+    for (let j = i; j < skyline.length && covered < width - EPSILON; j++) {
+      y = Math.max(y, skyline[j].y);
+      covered += skyline[j].width;
+    }
+
+    // Segments run left to right, so on a tie the earlier one is further left
+    if (y + depth > plateDepth + EPSILON) continue;
+    if (!best || y < best.y - EPSILON) {
+      best = { index: i, x, y };
+    }
+  }
+
+  return best;
+}
+
+// Raise the skyline under a newly placed rectangle
+function addToSkyline(skyline: SkylineSegment[], index: number, x: number, top: number, width: number) {
+  skyline.splice(index, 0, { x, y: top, width });
+
+  // Trim the segments the rectangle now covers
+  const end = x + width;
+  for (let i = index + 1; i < skyline.length; i++) {
+    const segment = skyline[i];
+    if (segment.x >= end - EPSILON) break;
+
+    const segmentEnd = segment.x + segment.width;
+    if (segmentEnd <= end + EPSILON) {
+      skyline.splice(i, 1);
+      i--;
+    } else {
+      segment.width = segmentEnd - end;
+      segment.x = end;
+      break;
+    }
+  }
+
+  // Merge neighbours at the same height
+  for (let i = 0; i < skyline.length - 1; i++) {
+    if (Math.abs(skyline[i].y - skyline[i + 1].y) < EPSILON) {
+      skyline[i].width += skyline[i + 1].width;
+      skyline.splice(i + 1, 1);
+      i--;
+    }
+  }
+}
+
+/**
+ * Pack footprints onto the plate with a skyline bottom-left heuristic
+ * @param footprints - Width and depth of each part in mm
+ * @param plate - Build plate size
+ * @param gap - Minimum space between parts in mm
+ * @returns Where each footprint goes, and which ones didn't fit
+ */
+export function packFootprints(footprints: Footprint[], plate: BuildPlate, gap: number): PackResult {
+  const spacing = Math.max(0, gap);
+  const placements: PackResult['placements'] = footprints.map(() => null);
+  const unplaced: number[] = [];
+
+  // Each part carries its gap on the far sides, so the plate gets one gap of slack
+  const plateWidth = plate.width + spacing;
+  const plateDepth = plate.depth + spacing;
+  const skyline: SkylineSegment[] = [{ x: 0, y: 0, width: plateWidth }];
+
+  // Big parts first leaves the small ones to fill the holes
+  const order = footprints
+    .map((footprint, index) => index)
+    .sort((a, b) =>
+      Math.max(footprints[b].width, footprints[b].depth) - Math.max(footprints[a].width, footprints[a].depth) ||
+      footprints[b].width * footprints[b].depth - footprints[a].width * footprints[a].depth
+    );
+
+  order.forEach(index => {
+    const width = footprints[index].width + spacing;
+    const depth = footprints[index].depth + spacing;
+    const position = findSkylinePosition(skyline, width, depth, plateWidth, plateDepth);
+
+    if (!position) {
+      unplaced.push(index);
+      return;
+    }
+
+    addToSkyline(skyline, position.index, position.x, position.y + depth, width);
+    placements[index] = { x: position.x - plate.width / 2, z: position.y - plate.depth / 2 };
+  });
+
+  return { placements, unplaced };
+}
+
+function overlaps(a: PlateRect, b: PlateRect, gap: number): boolean {
+  return a.minX < b.maxX + gap - EPSILON && b.minX < a.maxX + gap - EPSILON &&
+    a.minZ < b.maxZ + gap - EPSILON && b.minZ < a.maxZ + gap - EPSILON;
+}
+
+/**
+ * Find a free spot for one more part next to the parts already on the plate
+ * @param occupied - Footprints of the parts already placed
+ * @param footprint - Size of the new part
+ * @param plate - Build plate size
+ * @param gap - Minimum space between parts in mm
+ * @returns Min corner of the spot in world X/Z; off the plate's right edge when it is full
+ */
+export function findFreeSpot(occupied: PlateRect[], footprint: Footprint, plate: BuildPlate, gap: number): { x: number; z: number } {
+  const halfWidth = plate.width / 2;
+  const halfDepth = plate.depth / 2;
+
+  // Candidate corners: the plate centre, the plate edges and just past every placed part
+  const xs = [-footprint.width / 2, -halfWidth, ...occupied.map(rect => rect.maxX + gap), ...occupied.map(rect => rect.minX - gap - footprint.width)];
+  const zs = [-footprint.depth / 2, -halfDepth, ...occupied.map(rect => rect.maxZ + gap), ...occupied.map(rect => rect.minZ - gap - footprint.depth)];
+
+  let best: { x: number; z: number } | null = null;
+  let bestDistance = Infinity;
+  for (const x of xs) {
+    for (const z of zs) {
+      const rect = { minX: x, minZ: z, maxX: x + footprint.width, maxZ: z + footprint.depth };
+      const onPlate = rect.minX >= -halfWidth - EPSILON && rect.maxX <= halfWidth + EPSILON &&
+        rect.minZ >= -halfDepth - EPSILON && rect.maxZ <= halfDepth + EPSILON;
+      if (!onPlate || occupied.some(other => overlaps(rect, other, gap))) continue;
+
+      // Stay close to the middle of the plate
+      const distance = Math.hypot(x + footprint.width / 2, z + footprint.depth / 2);
+      if (distance < bestDistance) {
+        best = { x, z };
+        bestDistance = distance;
+      }
+    }
+  }
+
+  if (best) {
+    return best;
+  }
+
+  // The plate is full; line the part up beyond its right edge
+  const rightmost = occupied.reduce((edge, rect) => Math.max(edge, rect.maxX), halfWidth);
+  return { x: rightmost + gap, z: -footprint.depth / 2 };
+}
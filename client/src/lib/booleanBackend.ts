@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect';
+
+export type BooleanBackendName = 'manifold' | 'bsp';
+
+/**
+ * A boolean engine. Backends take world-space geometries and return the
+ * world-space result, so they can run on the main thread or in the CSG worker.
+ * Operations are N-ary: union and intersect combine every operand, subtract
+ * removes every later operand from the first one.
+ */
+export interface BooleanBackend {
+  name: BooleanBackendName;
+  label: string;
+  compute(
+    geometries: THREE.BufferGeometry[],
+    operation: BooleanOperation,
+    onProgress?: (stage: string, percent: number) => void
+  ): Promise<THREE.BufferGeometry>;
+}
+
+// A boolean that worked but has no usable result - retrying with another engine won't help
+export class EmptyBooleanResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmptyBooleanResultError';
+  }
+}
@@ -1,11 +1,107 @@
 import * as THREE from 'three';
 import { CSG } from 'three-csg-ts';
 import * as BufferGeometryUtils from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import {
+  robustMeshUnion,
+  robustMeshSubtract,
+  robustMeshIntersect,
+  validateResultMesh
+} from './csgRobust';
+import { manifoldBackend } from './manifoldBoolean';
+import { EmptyBooleanResultError, type BooleanBackend, type BooleanBackendName, type BooleanOperation } from './booleanBackend';
 
+export { EmptyBooleanResultError };
+export type { BooleanBackend, BooleanBackendName, BooleanOperation };
+
+// Run one pairwise BSP boolean with the repair and retry strategies
+function bspPair(
+  geometryA: THREE.BufferGeometry,
+  geometryB: THREE.BufferGeometry,
+  operation: BooleanOperation
+): THREE.BufferGeometry {
+  const material = new THREE.MeshStandardMaterial({ side: THREE.DoubleSide });
+  const meshA = new THREE.Mesh(geometryA, material);
+  const meshB = new THREE.Mesh(geometryB, material);
+
+  let resultMesh: THREE.Mesh;
+  if (operation === 'union') {
+    resultMesh = robustMeshUnion(meshA, meshB);
+  } else if (operation === 'subtract') {
+    resultMesh = robustMeshSubtract(meshA, meshB);
+  } else {
+    resultMesh = robustMeshIntersect(meshA, meshB);
+  }
+
+  if (!validateResultMesh(resultMesh)) {
+    throw new Error("The boolean operation produced an invalid mesh. Try with simpler models or a different operation.");
+  }
+
+  // Bake any transform the boolean left on the mesh into the geometry
+  resultMesh.updateMatrixWorld(true);
+  const geometry = resultMesh.geometry.clone();
+  geometry.applyMatrix4(resultMesh.matrixWorld);
+  return geometry;
+}
+
+// The original three-csg-ts (BSP tree) engine, folding N operands pairwise
+export const bspBackend: BooleanBackend = {
+  name: 'bsp',
+  label: 'BSP (legacy)',
+
+  async compute(geometries, operation, onProgress) {
+    if (geometries.length < 2) {
+      throw new Error('A boolean operation needs at least two operands');
+    }
+
+    let result = geometries[0];
+    for (let i = 1; i < geometries.length; i++) {
+      onProgress?.(`Computing ${operation} (${i} of ${geometries.length - 1})`, 20 + (60 * (i - 1)) / (geometries.length - 1));
+      result = bspPair(result, geometries[i], operation);
+    }
+    onProgress?.('Validating result', 85);
+    return result;
+  },
+};
+
+export const BOOLEAN_BACKENDS: Record<BooleanBackendName, BooleanBackend> = {
+  manifold: manifoldBackend,
+  bsp: bspBackend,
+};
+
+export const DEFAULT_BOOLEAN_BACKEND: BooleanBackendName = 'manifold';
+
+/**
+ * Run a boolean with the chosen backend, falling back to the BSP engine if it fails
+ * @param geometries - The operands in world space; for subtract the first is the base
+ * @param operation - Which boolean to perform
+ * @param backendName - The preferred engine
+ * @param onProgress - Optional progress callback
+ */
+export async function computeBoolean(
+  geometries: THREE.BufferGeometry[],
+  operation: BooleanOperation,
+  backendName: BooleanBackendName = DEFAULT_BOOLEAN_BACKEND,
+  onProgress?: (stage: string, percent: number) => void
+): Promise<THREE.BufferGeometry> {
+  const backend = BOOLEAN_BACKENDS[backendName] || BOOLEAN_BACKENDS[DEFAULT_BOOLEAN_BACKEND];
+
+  try {
+    return await backend.compute(geometries, operation, onProgress);
+  } catch (error) {
+    if (backend === bspBackend || error instanceof EmptyBooleanResultError) {
+      throw error;
+    }
+    console.warn(`${backend.label} ${operation} failed, falling back to BSP:`, error);
+    onProgress?.('Retrying with fallback engine', 15);
+    return bspBackend.compute(geometries, operation, onProgress);
+  }
+}
+
+// Synchronous BSP boolean on meshes (kept for callers that need a result immediately)
 export function performBoolean(
   meshA: THREE.Mesh,
   meshB: THREE.Mesh,
-  operation: 'union' | 'subtract' | 'intersect'
+  operation: BooleanOperation
 ): THREE.Mesh {
   try {
     // Special case for union - try direct merge first
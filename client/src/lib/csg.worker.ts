@@ -0,0 +1,120 @@
+/// <reference lib="webworker" />
+import * as THREE from 'three';
+import { computeBoolean } from './csg';
+import { ensureManifoldGeometry } from './csgRobust';
+import { repairGeometry, repairChangedMesh, mergeRepairReports } from './meshRepair';
+import { cutGeometry, splitGeometry } from './meshSplit';
+import { blendEdges } from './edgeBlend';
+import { hollowGeometry } from './hollow';
+import { simplifyGeometry } from './meshSimplify';
+import {
+  fromTransferableGeometry,
+  toTransferableGeometry,
+  getTransferList,
+  CSGWorkerRequest,
+  CSGWorkerResponse,
+  TransferableGeometry
+} from './csgWorker';
+
+/**
+ * Web Worker that runs boolean operations, model splits, edge blends, hollowing and simplification off the main thread
+ */
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+function post(message: CSGWorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer);
+}
+
+function reportProgress(stage: string, percent: number) {
+  post({ type: 'progress', stage, percent });
+}
+
+// Repair the operands here rather than on the main thread, where a large mesh would freeze the UI
+function prepareOperands(operands: TransferableGeometry[], repair: boolean): THREE.BufferGeometry[] {
+  let geometries = operands.map(fromTransferableGeometry);
+
+  if (repair) {
+    reportProgress(operands.length > 1 ? 'Repairing meshes' : 'Repairing mesh', 2);
+    const repairs = geometries.map(geometry => repairGeometry(geometry));
+    geometries = geometries.map((geometry, i) => repairChangedMesh(repairs[i].report) ? repairs[i].geometry : geometry);
+    post({ type: 'repair', report: mergeRepairReports(repairs.map(result => result.report)) });
+  }
+
+  return geometries.map(geometry => ensureManifoldGeometry(geometry));
+}
+
+type ReshapeRequest = Extract<CSGWorkerRequest, { type: 'blend' | 'hollow' | 'simplify' }>;
+
+// Operations that turn one model into one new model
+function reshapeGeometry(request: ReshapeRequest) {
+  const operand = fromTransferableGeometry(request.operand);
+  switch (request.type) {
+    case 'blend':
+      return blendEdges(ensureManifoldGeometry(operand), request.edges, request.options, reportProgress);
+    case 'hollow':
+      return hollowGeometry(ensureManifoldGeometry(operand), request.settings, request.holes, reportProgress);
+    case 'simplify':
+      return simplifyGeometry(operand, request.options, reportProgress);
+  }
+}
+
+ctx.onmessage = async (event: MessageEvent<CSGWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'split') {
+      const [operand] = prepareOperands([request.operand], request.repair);
+      const { geometries, connectorCount, skippedFaces } = await splitGeometry(
+        operand,
+        request.planes,
+        request.connectors,
+        reportProgress
+      );
+
+      reportProgress('Transferring pieces', 95);
+      const pieces = geometries.map(toTransferableGeometry);
+      post({ type: 'pieces', geometries: pieces, connectorCount, skippedFaces }, pieces.flatMap(getTransferList));
+      return;
+    }
+
+    if (request.type === 'cut') {
+      const geometries = await cutGeometry(
+        ensureManifoldGeometry(fromTransferableGeometry(request.operand)),
+        request.plane,
+        request.keep,
+        request.sectionThickness,
+        reportProgress
+      );
+
+      reportProgress('Transferring pieces', 95);
+      const pieces = geometries.map(toTransferableGeometry);
+      post({ type: 'pieces', geometries: pieces, connectorCount: 0, skippedFaces: 0 }, pieces.flatMap(getTransferList));
+      return;
+    }
+
+    if (request.type === 'blend' || request.type === 'hollow' || request.type === 'simplify') {
+      const geometry = await reshapeGeometry(request);
+
+      reportProgress('Transferring result', 95);
+      const result = toTransferableGeometry(geometry);
+      post({ type: 'result', geometry: result }, getTransferList(result));
+      return;
+    }
+
+    const operands = prepareOperands(request.operands, request.repair);
+    reportProgress('Preparing geometry', 5);
+    const geometry = await computeBoolean(
+      operands,
+      request.operation,
+      request.backend,
+      reportProgress
+    );
+
+    reportProgress('Transferring result', 95);
+    const result = toTransferableGeometry(geometry);
+    post({ type: 'result', geometry: result }, getTransferList(result));
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
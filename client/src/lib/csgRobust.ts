@@ -0,0 +1,1340 @@
+import * as THREE from 'three';
+import { CSG } from 'three-csg-ts';
+import * as BufferGeometryUtils from "three/examples/jsm/utils/BufferGeometryUtils.js";
+
+/**
+ * Robust boolean helpers. These have no DOM or store dependencies so they can
+ * run on the main thread or inside the CSG worker.
+ */
+// Clean up a geometry (indexing, invalid values, degenerate triangles) before boolean operations
+// Add this helper function at the top level, outside of the store definition
+export function ensureManifoldGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  // Clone the geometry to avoid modifying the original
+  const processedGeometry = geometry.clone();
+  
+  try {
+    const startVertexCount = processedGeometry.attributes.position.count;
+    console.log(`Starting manifold repair for geometry with ${startVertexCount} vertices`);
+    
+    // Step 1: Basic attribute checks and computation
+    // Ensure the geometry has computed attributes
+    if (!processedGeometry.getAttribute('normal')) {
+      processedGeometry.computeVertexNormals();
+    }
+    
+    // Make sure we have a bounding box
+    if (!processedGeometry.boundingBox) {
+      processedGeometry.computeBoundingBox();
+    }
+    
+    // Step 2: Index handling - ensure indexed geometry
+    // Check if the geometry has an index, if not create one
+    if (!processedGeometry.index) {
+      console.log("Creating index for non-indexed geometry");
+      processedGeometry.setIndex(
+        Array.from({ length: processedGeometry.attributes.position.count }, (_, i) => i)
+      );
+    }
+    
+    // Step 3: Normal validation and repair
+    // Make sure we don't have any invalid normals (NaN values)
+    const normals = processedGeometry.getAttribute('normal');
+    if (normals) {
+      const normalsArray = normals.array;
+      let hasInvalidNormals = false;
+      
+      for (let i = 0; i < normalsArray.length; i++) {
+        if (isNaN(normalsArray[i])) {
+          hasInvalidNormals = true;
+          normalsArray[i] = 0; // Replace NaN with 0
+        }
+      }
+      
+      if (hasInvalidNormals) {
+        console.warn("Fixed invalid normals in geometry");
+        processedGeometry.computeVertexNormals(); // Recompute all normals
+      }
+    }
+    
+    // Step 4: Position validation and repair
+    // Check for NaN or infinite values in positions
+    const positions = processedGeometry.getAttribute('position');
+    if (positions) {
+      const posArray = positions.array;
+      let hasInvalidPositions = false;
+      
+      for (let i = 0; i < posArray.length; i++) {
+        if (isNaN(posArray[i]) || !isFinite(posArray[i])) {
+          console.warn(`Found invalid position value at index ${i}`);
+          hasInvalidPositions = true;
+          
+          // Replace invalid values with 0 (better than NaN)
+          posArray[i] = 0;
+        }
+      }
+      
+      if (hasInvalidPositions) {
+        console.warn("Fixed invalid positions in geometry");
+        positions.needsUpdate = true;
+      }
+    }
+    
+    // Step 5: Detect and fix self-intersections
+    // Self-intersecting geometries cause many boolean operation failures
+    const repairedGeometry = repairSelfIntersections(processedGeometry);
+    console.log("Self-intersection repair complete");
+    
+    // Step 6: Degenerate triangle removal
+    // Check and filter out degenerate triangles (where all points are the same or collinear)
+    let fixedDegenerateTriangles = false;
+    if (repairedGeometry.index && positions) {
+      const indices = repairedGeometry.index.array;
+      const posArray = positions.array;
+      const validIndices = [];
+      
+      for (let i = 0; i < indices.length; i += 3) {
+        const i1 = indices[i] * 3;
+        const i2 = indices[i + 1] * 3;
+        const i3 = indices[i + 2] * 3;
+        
+        // Extract vertex positions for this triangle
+        const p1x = posArray[i1], p1y = posArray[i1 + 1], p1z = posArray[i1 + 2];
+        const p2x = posArray[i2], p2y = posArray[i2 + 1], p2z = posArray[i2 + 2];
+        const p3x = posArray[i3], p3y = posArray[i3 + 1], p3z = posArray[i3 + 2];
+        
+        // Check if triangle is degenerate (all points are the same or collinear)
+        const isDifferent = 
+          (p1x !== p2x || p1y !== p2y || p1z !== p2z) && 
+          (p1x !== p3x || p1y !== p3y || p1z !== p3z) && 
+          (p2x !== p3x || p2y !== p3y || p2z !== p3z);
+        
+        // Check for collinearity using cross product near-zero
+        let isNonCollinear = true;
+        if (isDifferent) {
+          // Compute edge vectors
+          const v1x = p2x - p1x, v1y = p2y - p1y, v1z = p2z - p1z;
+          const v2x = p3x - p1x, v2y = p3y - p1y, v2z = p3z - p1z;
+          
+          // Compute cross product
+          const cpx = v1y * v2z - v1z * v2y;
+          const cpy = v1z * v2x - v1x * v2z;
+          const cpz = v1x * v2y - v1y * v2x;
+          
+          // Check if the magnitude of the cross product is nearly zero
+          const cpLengthSq = cpx * cpx + cpy * cpy + cpz * cpz;
+          isNonCollinear = cpLengthSq > 1e-10; // Small epsilon for floating point errors
+        }
+        
+        if (isDifferent && isNonCollinear) {
+          validIndices.push(indices[i], indices[i + 1], indices[i + 2]);
+        } else {
+          fixedDegenerateTriangles = true;
+        }
+      }
+      
+      if (validIndices.length < indices.length) {
+        console.warn(`Removed ${(indices.length - validIndices.length) / 3} degenerate triangles`);
+        repairedGeometry.setIndex(validIndices);
+      }
+    }
+    
+    // Step 7: Check if the geometry was drastically simplified - don't over-repair
+    if (repairedGeometry.attributes.position.count < startVertexCount * 0.5) {
+      console.warn(`Repair reduced vertex count by more than 50% (${startVertexCount} -> ${repairedGeometry.attributes.position.count})`);
+      console.warn("Using original geometry to avoid over-simplification");
+      return geometry.clone(); // Return a clone of the original
+    }
+    
+    // Step 8: Vertex merging - final cleanup
+    // Merge any duplicate vertices with a small tolerance
+    if (BufferGeometryUtils.mergeVertices) {
+      const finalGeometry = BufferGeometryUtils.mergeVertices(repairedGeometry, 0.0001);
+      
+      // Final integrity checks
+      const finalVertexCount = finalGeometry.attributes.position.count;
+      console.log(`Manifold repair complete: ${startVertexCount} -> ${finalVertexCount} vertices`);
+      
+      // Compute normals one last time
+      finalGeometry.computeVertexNormals();
+      
+      // Make sure we haven't completely destroyed the geometry
+      if (finalVertexCount > 0 && 
+          (finalGeometry.index ? finalGeometry.index.count > 0 : true)) {
+        return finalGeometry;
+      } else {
+        console.warn("Repair resulted in invalid geometry, using original");
+        return geometry.clone();
+      }
+    }
+    
+    // If we get here, return the repaired geometry
+    repairedGeometry.computeVertexNormals();
+    return repairedGeometry;
+  } catch (error) {
+    console.warn("Error preparing geometry:", error);
+    return geometry.clone(); // Return a clone of the original if repair failed
+  }
+}
+
+// Add this helper function for robust mesh union operations
+export function robustMeshUnion(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
+  console.log("Starting robust mesh union for complex geometries");
+  
+  // Extract materials for later use
+  const materialColorA = meshA.material instanceof THREE.Material ? 
+    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
+    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
+  
+  // Pre-process geometries to ensure they're suitable for operations
+  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
+    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
+    const geom = mesh.geometry.clone();
+    
+    // Apply world matrices to get correct position
+    mesh.updateWorldMatrix(true, false);
+    geom.applyMatrix4(mesh.matrixWorld);
+    
+    // Full clean and manifold check
+    const cleanGeom = ensureManifoldGeometry(geom);
+    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
+    
+    return cleanGeom;
+  };
+  
+  // Strategy 1: Standard buffer geometry merge (fastest, but can fail with complex geometries)
+  try {
+    console.log("Trying standard geometry merge approach");
+    const cleanGeomA = prepareGeometry(meshA);
+    const cleanGeomB = prepareGeometry(meshB);
+    
+    // Check if the geometries are suitable for merging
+    if (cleanGeomA.attributes.position.count > 0 && 
+        cleanGeomB.attributes.position.count > 0) {
+      // Attempt the merge with error handling
+      try {
+        const mergedGeometry = BufferGeometryUtils.mergeGeometries([cleanGeomA, cleanGeomB]);
+        
+        if (mergedGeometry && mergedGeometry.attributes.position.count > 0) {
+          // Create result mesh with proper material
+          const material = new THREE.MeshStandardMaterial({
+            color: materialColorA,
+            side: THREE.DoubleSide
+          });
+          
+          // Create new mesh and finalize
+          const resultMesh = new THREE.Mesh(mergedGeometry, material);
+          
+          // Fix attributes and recompute properties
+          if (!resultMesh.geometry.getAttribute('normal')) {
+            resultMesh.geometry.computeVertexNormals();
+          }
+          
+          if (!resultMesh.geometry.boundingBox) {
+            resultMesh.geometry.computeBoundingBox();
+          }
+          
+          return resultMesh;
+        }
+        throw new Error("Merged geometry has no vertices");
+      } catch (e) {
+        console.warn("Standard geometry merge failed", e);
+        throw e; // Let the next strategy handle it
+      }
+    } else {
+      throw new Error("One or both geometries have no vertices after processing");
+    }
+  } catch (e) {
+    console.warn("Standard geometry merge failed, trying octree-based approach", e);
+  }
+  
+  // Strategy 2: Manual vertex processing with additional validation
+  try {
+    console.log("Trying enhanced manual vertex processing approach");
+    const geomA = prepareGeometry(meshA);
+    const geomB = prepareGeometry(meshB);
+    
+    // If either geometry has zero vertices, fall back to the one with vertices
+    if (geomA.attributes.position.count === 0) {
+      console.warn("GeomA has zero vertices, returning GeomB only");
+      return new THREE.Mesh(
+        geomB,
+        new THREE.MeshStandardMaterial({
+          color: materialColorA,
+          side: THREE.DoubleSide
+        })
+      );
+    }
+    
+    if (geomB.attributes.position.count === 0) {
+      console.warn("GeomB has zero vertices, returning GeomA only");
+      return new THREE.Mesh(
+        geomA,
+        new THREE.MeshStandardMaterial({
+          color: materialColorA,
+          side: THREE.DoubleSide
+        })
+      );
+    }
+    
+    // Extract vertex and index data with validation
+    const posA = geomA.attributes.position.array;
+    const posB = geomB.attributes.position.array;
+    
+    // Ensure indices are available or create them
+    const idxA = geomA.index ? Array.from(geomA.index.array) : 
+                 Array.from({ length: posA.length / 3 }, (_, i) => i);
+    const idxB = geomB.index ? Array.from(geomB.index.array) : 
+                 Array.from({ length: posB.length / 3 }, (_, i) => i);
+    
+    // Calculate offsets for the combined arrays
+    const vertexACount = posA.length / 3;
+    
+    // Verify triangle data is in multiples of 3
+    if (idxA.length % 3 !== 0 || idxB.length % 3 !== 0) {
+      console.warn("Index arrays not in multiples of 3, fixing...");
+      // Trim arrays to ensure multiples of 3
+      const trimA = idxA.length - (idxA.length % 3);
+      const trimB = idxB.length - (idxB.length % 3);
+      idxA.length = trimA;
+      idxB.length = trimB;
+    }
+    
+    // Create combined position array
+    const combinedPos = new Float32Array(posA.length + posB.length);
+    combinedPos.set(posA, 0);
+    combinedPos.set(posB, posA.length);
+    
+    // Create combined index array, adjusting indices from B
+    const combinedIdx = new Uint32Array(idxA.length + idxB.length);
+    combinedIdx.set(idxA, 0);
+    
+    // Adjust indices from mesh B to account for combined array
+    for (let i = 0; i < idxB.length; i++) {
+      combinedIdx[idxA.length + i] = idxB[i] + vertexACount;
+    }
+    
+    // Create new buffer geometry with validation
+    const combinedGeom = new THREE.BufferGeometry();
+    combinedGeom.setAttribute('position', new THREE.BufferAttribute(combinedPos, 3));
+    
+    // Only set index if we have valid indices
+    if (combinedIdx.length > 0) {
+      combinedGeom.setIndex(new THREE.BufferAttribute(combinedIdx, 1));
+    }
+    
+    // Generate normals and other attributes
+    combinedGeom.computeVertexNormals();
+    combinedGeom.computeBoundingBox();
+    
+    // Verify the combined geometry
+    if (combinedGeom.attributes.position.count === 0) {
+      throw new Error("Combined geometry has no vertices");
+    }
+    
+    if (combinedGeom.index && combinedGeom.index.count === 0) {
+      throw new Error("Combined geometry has no faces");
+    }
+    
+    // Clean the combined geometry to remove any issues
+    const finalGeom = ensureManifoldGeometry(combinedGeom);
+    
+    // Create material for the new mesh
+    const material = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide
+    });
+    
+    return new THREE.Mesh(finalGeom, material);
+  } catch (e) {
+    console.warn("Manual vertex processing failed, trying final fallback", e);
+  }
+  
+  // Strategy 3: CSG with adjusted parameters and more robust settings
+  try {
+    console.log("Trying enhanced CSG approach with adjusted parameters");
+    
+    // Create clean copies for CSG operation with pre-processing
+    const cleanGeomA = prepareGeometry(meshA);
+    const cleanGeomB = prepareGeometry(meshB);
+    
+    // Create meshes with settings optimized for CSG
+    const tempMeshA = new THREE.Mesh(
+      cleanGeomA,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        // Use transparent material settings for better CSG results
+        transparent: true,
+        opacity: 0.99  // Almost opaque but not quite
+      })
+    );
+    
+    const tempMeshB = new THREE.Mesh(
+      cleanGeomB,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0.99  // Almost opaque but not quite
+      })
+    );
+    
+    // Reset transforms since they're already applied to geometry
+    tempMeshA.position.set(0, 0, 0);
+    tempMeshA.rotation.set(0, 0, 0);
+    tempMeshA.scale.set(1, 1, 1);
+    tempMeshB.position.set(0, 0, 0);
+    tempMeshB.rotation.set(0, 0, 0);
+    tempMeshB.scale.set(1, 1, 1);
+    
+    // Perform CSG union with adjusted parameters
+    const resultMesh = CSG.union(tempMeshA, tempMeshB);
+    
+    // Check if the result is valid
+    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
+      throw new Error("CSG union produced an invalid mesh");
+    }
+    
+    // Apply material
+    const material = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide
+    });
+    
+    resultMesh.material = material;
+    
+    // Final cleanup and validation
+    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
+    
+    return resultMesh;
+  } catch (e: any) {
+    // Final fallback - if all else fails, try a single shape as the result
+    try {
+      console.warn("All union strategies failed, attempting final desperation fallback", e);
+      
+      // Use only the first mesh if everything else failed
+      const fallbackGeom = prepareGeometry(meshA);
+      
+      // If even that is invalid, create a tiny cube as a fallback
+      if (!fallbackGeom || fallbackGeom.attributes.position.count === 0) {
+        console.error("Cannot recover geometry, creating minimal fallback shape");
+        const fallbackCube = new THREE.BoxGeometry(1, 1, 1);
+        return new THREE.Mesh(
+          fallbackCube, 
+          new THREE.MeshStandardMaterial({ 
+            color: materialColorA,
+            side: THREE.DoubleSide 
+          })
+        );
+      }
+      
+      return new THREE.Mesh(
+        fallbackGeom, 
+        new THREE.MeshStandardMaterial({ 
+          color: materialColorA,
+          side: THREE.DoubleSide 
+        })
+      );
+    } catch (finalError) {
+      console.error("All union strategies and fallbacks failed", finalError);
+      throw new Error("Could not perform union operation: " + e.message);
+    }
+  }
+}
+
+// Add the simplifyGeometry helper function
+function simplifyGeometry(
+  geometry: THREE.BufferGeometry, 
+  thresholdOrOptions: number | { 
+    threshold?: number, 
+    shapeType?: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other',
+    aggressiveness?: number
+  } = 0.01
+): THREE.BufferGeometry {
+  // Extract parameters
+  let threshold = 0.01;
+  let shapeType: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
+  let aggressiveness = 1.0;
+  
+  if (typeof thresholdOrOptions === 'number') {
+    threshold = thresholdOrOptions;
+  } else {
+    threshold = thresholdOrOptions.threshold ?? 0.01;
+    shapeType = thresholdOrOptions.shapeType ?? 'other';
+    aggressiveness = thresholdOrOptions.aggressiveness ?? 1.0;
+  }
+  
+  console.log(`Simplifying geometry (type: ${shapeType}, threshold: ${threshold}, aggressiveness: ${aggressiveness})`);
+  
+  // Clone the geometry to avoid modifying the original
+  const simplified = geometry.clone();
+  
+  try {
+    // If the geometry is very complex, skip attributes that aren't essential
+    const position = simplified.getAttribute('position');
+    if (!position) {
+      console.warn("Geometry has no position attribute, cannot simplify");
+      return simplified;
+    }
+    
+    const initialVertexCount = position.count;
+    console.log(`Initial vertex count: ${initialVertexCount}`);
+    
+    // Apply shape-specific optimizations
+    if (shapeType !== 'other') {
+      // For primitive shapes, we can use specialized simplification
+      // This is especially useful for high-polycount primitives that could be represented more simply
+      switch (shapeType) {
+        case 'cube':
+          // For cubes, we can be very aggressive with merging
+          threshold = Math.max(threshold, 0.01 * aggressiveness);
+          break;
+          
+        case 'sphere':
+          // Spheres need careful handling to maintain shape
+          threshold = Math.min(threshold, 0.008 * aggressiveness);
+          break;
+          
+        case 'cylinder':
+        case 'cone':
+          // These shapes can handle moderate simplification
+          threshold = Math.min(threshold, 0.01 * aggressiveness);
+          break;
+          
+        case 'torus':
+          // Torus shapes need careful handling around the inner ring
+          threshold = Math.min(threshold, 0.005 * aggressiveness);
+          break;
+      }
+    } else {
+      // For complex or unknown shapes, be more conservative
+      // Scale threshold based on geometry complexity
+      if (initialVertexCount > 10000) {
+        // For very complex meshes, we can be more aggressive
+        threshold = Math.min(threshold * 1.5, 0.02) * aggressiveness;
+      } else if (initialVertexCount < 1000) {
+        // For simple meshes, be more conservative
+        threshold = Math.min(threshold * 0.7, 0.005) * aggressiveness;
+      }
+    }
+    
+    // For large geometries, only keep essential attributes
+    if (position.count > 10000) {
+      // Keep only position, normal, and index
+      const keepAttributes = ['position', 'normal'];
+      
+      // Remove non-essential attributes to reduce complexity
+      for (const key in simplified.attributes) {
+        if (!keepAttributes.includes(key)) {
+          simplified.deleteAttribute(key);
+        }
+      }
+    }
+
+    // Ensure we have proper vertex normals
+    if (!simplified.getAttribute('normal')) {
+      simplified.computeVertexNormals();
+    }
+    
+    // Make sure we have a bounding box
+    if (!simplified.boundingBox) {
+      simplified.computeBoundingBox();
+    }
+    
+    // Create an index if one doesn't exist
+    if (!simplified.index) {
+      simplified.setIndex(
+        Array.from({ length: position.count }, (_, i) => i)
+      );
+    }
+    
+    // Merge vertices with the calculated threshold
+    console.log(`Using simplification threshold: ${threshold}`);
+    
+    if (BufferGeometryUtils.mergeVertices) {
+      const optimized = BufferGeometryUtils.mergeVertices(simplified, threshold);
+      
+      // Verify the simplified geometry looks good
+      if (optimized.attributes.position.count === 0) {
+        console.warn("Simplification resulted in no vertices, using original geometry");
+        return simplified;
+      }
+      
+      const finalVertexCount = optimized.attributes.position.count;
+      const reductionPercent = ((initialVertexCount - finalVertexCount) / initialVertexCount * 100).toFixed(1);
+      console.log(`Simplified geometry: ${initialVertexCount} → ${finalVertexCount} vertices (${reductionPercent}% reduction)`);
+      
+      // Protection against over-simplification
+      if (finalVertexCount < initialVertexCount * 0.1 && initialVertexCount > 100) {
+        console.warn("Simplification reduced vertices by more than 90%, using a more conservative approach");
+        // Try again with a more conservative threshold
+        return simplifyGeometry(geometry, {
+          threshold: threshold * 0.5,
+          shapeType,
+          aggressiveness: aggressiveness * 0.5
+        });
+      }
+      
+      return optimized;
+    }
+  } catch (error) {
+    console.warn("Error during geometry simplification:", error);
+  }
+  
+  return simplified;
+}
+
+// Add a function to validate the result mesh after boolean operations
+export function validateResultMesh(mesh: THREE.Mesh): boolean {
+  // Check if the mesh has a valid geometry
+  if (!mesh.geometry) {
+    console.error("Result mesh has no geometry");
+    return false;
+  }
+  
+  // Check if the geometry has vertices
+  const position = mesh.geometry.getAttribute('position');
+  if (!position || position.count === 0) {
+    console.error("Result mesh has no vertices");
+    return false;
+  }
+  
+  // Check if we have at least one triangle
+  if (mesh.geometry.index && mesh.geometry.index.count < 3) {
+    console.error("Result mesh has no triangles");
+    return false;
+  }
+  
+  // Check for NaN values in positions that would cause rendering issues
+  const positions = position.array;
+  for (let i = 0; i < positions.length; i++) {
+    if (isNaN(positions[i])) {
+      console.error("Result mesh has NaN position values");
+      return false;
+    }
+  }
+  
+  // Make sure the bounding box is valid (not infinite or NaN)
+  mesh.geometry.computeBoundingBox();
+  const bbox = mesh.geometry.boundingBox;
+  if (!bbox) {
+    console.error("Failed to compute bounding box");
+    return false;
+  }
+  
+  // Check for invalid bounding box values
+  if (isNaN(bbox.min.x) || isNaN(bbox.min.y) || isNaN(bbox.min.z) ||
+      isNaN(bbox.max.x) || isNaN(bbox.max.y) || isNaN(bbox.max.z)) {
+    console.error("Bounding box contains NaN values");
+    return false;
+  }
+  
+  if (!isFinite(bbox.min.x) || !isFinite(bbox.min.y) || !isFinite(bbox.min.z) ||
+      !isFinite(bbox.max.x) || !isFinite(bbox.max.y) || !isFinite(bbox.max.z)) {
+    console.error("Bounding box contains infinite values");
+    return false;
+  }
+  
+  // The mesh passed all validation checks
+  return true;
+}
+
+// Add these functions below robustMeshUnion but before simplifyGeometry
+
+// Specialized function for robust mesh subtraction
+export function robustMeshSubtract(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
+  console.log("Starting robust mesh subtraction for complex geometries");
+  
+  // Extract materials for later use
+  const materialColorA = meshA.material instanceof THREE.Material ? 
+    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
+    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
+  
+  // Pre-process geometries to ensure they're suitable for operations
+  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
+    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
+    const geom = mesh.geometry.clone();
+    
+    // Apply world matrices to get correct position
+    mesh.updateWorldMatrix(true, false);
+    geom.applyMatrix4(mesh.matrixWorld);
+    
+    // Full clean and manifold check
+    const cleanGeom = ensureManifoldGeometry(geom);
+    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
+    
+    return cleanGeom;
+  };
+  
+  // First try: Standard CSG subtraction with optimized settings
+  try {
+    console.log("Trying optimized CSG subtraction approach");
+    
+    // Prepare geometries with extensive cleaning
+    const cleanGeomA = prepareGeometry(meshA);
+    const cleanGeomB = prepareGeometry(meshB);
+    
+    // Verify geometries are valid
+    if (cleanGeomA.attributes.position.count === 0) {
+      throw new Error("First model has no valid geometry after processing");
+    }
+    
+    if (cleanGeomB.attributes.position.count === 0) {
+      // If second model is empty, just return the first model
+      console.warn("Second model has no valid geometry, returning first model unchanged");
+      return new THREE.Mesh(
+        cleanGeomA,
+        new THREE.MeshStandardMaterial({
+          color: materialColorA,
+          side: THREE.DoubleSide
+        })
+      );
+    }
+    
+    // Check for bounding box intersection (optimization)
+    // No need to subtract if there's no overlap
+    cleanGeomA.computeBoundingBox();
+    cleanGeomB.computeBoundingBox();
+    
+    if (cleanGeomA.boundingBox && cleanGeomB.boundingBox && 
+        !cleanGeomA.boundingBox.intersectsBox(cleanGeomB.boundingBox)) {
+      console.log("Bounding boxes don't intersect, returning first model unchanged");
+      return new THREE.Mesh(
+        cleanGeomA,
+        new THREE.MeshStandardMaterial({
+          color: materialColorA,
+          side: THREE.DoubleSide
+        })
+      );
+    }
+    
+    // Create optimized meshes for CSG
+    const csgMeshA = new THREE.Mesh(
+      cleanGeomA,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0.99  // Almost opaque but not quite
+      })
+    );
+    
+    const csgMeshB = new THREE.Mesh(
+      cleanGeomB,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0.99
+      })
+    );
+    
+    // Reset transforms since they're already applied to geometry
+    csgMeshA.position.set(0, 0, 0);
+    csgMeshA.rotation.set(0, 0, 0);
+    csgMeshA.scale.set(1, 1, 1);
+    csgMeshB.position.set(0, 0, 0);
+    csgMeshB.rotation.set(0, 0, 0);
+    csgMeshB.scale.set(1, 1, 1);
+    
+    // Perform CSG subtraction
+    const resultMesh = CSG.subtract(csgMeshA, csgMeshB);
+    
+    // Validate result
+    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
+      throw new Error("CSG subtraction produced an invalid mesh");
+    }
+    
+    // Create material for the new mesh
+    const material = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide
+    });
+    
+    resultMesh.material = material;
+    
+    // Final cleanup to ensure manifold result
+    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
+    
+    return resultMesh;
+  } catch (e) {
+    console.warn("Standard CSG subtraction failed, trying with simplified geometries", e);
+  }
+  
+  // Second try: Simplify geometries first
+  try {
+    console.log("Trying subtraction with simplified geometries");
+    
+    // Apply progressive simplification for better results
+    const simplifyThreshold = 0.005; // Start with moderate simplification
+    
+    // Get base geometries
+    const baseGeomA = meshA.geometry.clone();
+    const baseGeomB = meshB.geometry.clone();
+    
+    // Apply world transforms
+    meshA.updateWorldMatrix(true, false);
+    meshB.updateWorldMatrix(true, false);
+    baseGeomA.applyMatrix4(meshA.matrixWorld);
+    baseGeomB.applyMatrix4(meshB.matrixWorld);
+    
+    // First ensure they're manifold
+    const manifoldGeomA = ensureManifoldGeometry(baseGeomA);
+    const manifoldGeomB = ensureManifoldGeometry(baseGeomB);
+    
+    // Determine shape types for optimal simplification
+    let shapeTypeA: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
+    let shapeTypeB: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'other' = 'other';
+    
+    // Try to detect shape types from mesh names or userData if available
+    if (meshA.name) {
+      const name = meshA.name.toLowerCase();
+      if (name.includes('cube') || name.includes('box')) shapeTypeA = 'cube';
+      else if (name.includes('sphere')) shapeTypeA = 'sphere';
+      else if (name.includes('cylinder')) shapeTypeA = 'cylinder';
+      else if (name.includes('cone')) shapeTypeA = 'cone';
+      else if (name.includes('torus')) shapeTypeA = 'torus';
+    }
+    
+    if (meshB.name) {
+      const name = meshB.name.toLowerCase();
+      if (name.includes('cube') || name.includes('box')) shapeTypeB = 'cube';
+      else if (name.includes('sphere')) shapeTypeB = 'sphere';
+      else if (name.includes('cylinder')) shapeTypeB = 'cylinder';
+      else if (name.includes('cone')) shapeTypeB = 'cone';
+      else if (name.includes('torus')) shapeTypeB = 'torus';
+    }
+    
+    console.log(`Detected shape types - A: ${shapeTypeA}, B: ${shapeTypeB}`);
+    
+    // Then simplify them with shape-specific settings
+    const simplifiedGeomA = simplifyGeometry(manifoldGeomA, {
+      threshold: simplifyThreshold,
+      shapeType: shapeTypeA,
+      aggressiveness: 1.0
+    });
+    
+    const simplifiedGeomB = simplifyGeometry(manifoldGeomB, {
+      threshold: simplifyThreshold,
+      shapeType: shapeTypeB,
+      // Be less aggressive with the subtractor shape to preserve details
+      aggressiveness: 0.8
+    });
+    
+    // Create meshes for CSG with simplified geometries
+    const simpleMeshA = new THREE.Mesh(
+      simplifiedGeomA,
+      new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide
+      })
+    );
+    
+    const simpleMeshB = new THREE.Mesh(
+      simplifiedGeomB,
+      new THREE.MeshStandardMaterial({
+        side: THREE.DoubleSide
+      })
+    );
+    
+    // Reset transforms
+    simpleMeshA.position.set(0, 0, 0);
+    simpleMeshA.rotation.set(0, 0, 0);
+    simpleMeshA.scale.set(1, 1, 1);
+    simpleMeshB.position.set(0, 0, 0);
+    simpleMeshB.rotation.set(0, 0, 0);
+    simpleMeshB.scale.set(1, 1, 1);
+    
+    // Try subtraction with simplified meshes
+    const resultMesh = CSG.subtract(simpleMeshA, simpleMeshB);
+    
+    // Validate and clean up
+    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
+      // Ensure the result is manifold
+      resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
+      
+      // Update material
+      resultMesh.material = new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide
+      });
+      
+      return resultMesh;
+    }
+    
+    throw new Error("Simplified subtraction produced an invalid mesh");
+  } catch (e) {
+    console.warn("Simplified subtraction failed, trying final approach", e);
+  }
+  
+  // Final attempt with maximum simplification
+  try {
+    console.log("Trying final subtraction approach with aggressive simplification");
+    
+    // Simplify with more aggressive settings
+    const aggressiveThreshold = 0.01;
+    
+    // Get base geometries and apply world transforms
+    const baseGeomA = meshA.geometry.clone();
+    const baseGeomB = meshB.geometry.clone();
+    
+    meshA.updateWorldMatrix(true, false);
+    meshB.updateWorldMatrix(true, false);
+    baseGeomA.applyMatrix4(meshA.matrixWorld);
+    baseGeomB.applyMatrix4(meshB.matrixWorld);
+    
+    // Apply aggressive simplification
+    const finalGeomA = simplifyGeometry(
+      ensureManifoldGeometry(baseGeomA),
+      aggressiveThreshold
+    );
+    
+    const finalGeomB = simplifyGeometry(
+      ensureManifoldGeometry(baseGeomB),
+      aggressiveThreshold
+    );
+    
+    // Create meshes with basic materials
+    const finalMeshA = new THREE.Mesh(
+      finalGeomA,
+      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+    );
+    
+    const finalMeshB = new THREE.Mesh(
+      finalGeomB,
+      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+    );
+    
+    // Reset transforms
+    finalMeshA.position.set(0, 0, 0);
+    finalMeshA.rotation.set(0, 0, 0);
+    finalMeshA.scale.set(1, 1, 1);
+    finalMeshB.position.set(0, 0, 0);
+    finalMeshB.rotation.set(0, 0, 0);
+    finalMeshB.scale.set(1, 1, 1);
+    
+    // Final subtraction attempt
+    const resultMesh = CSG.subtract(finalMeshA, finalMeshB);
+    
+    // Apply standard material
+    resultMesh.material = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide
+    });
+    
+    return resultMesh;
+  } catch (e: any) {
+    // Last resort fallback - if all CSG approaches fail, return the first mesh
+    console.error("All subtraction approaches failed:", e);
+    try {
+      // Return the original first mesh with warning
+      console.warn("Returning original mesh as fallback");
+      const fallbackGeom = prepareGeometry(meshA);
+      
+      return new THREE.Mesh(
+        fallbackGeom,
+        new THREE.MeshStandardMaterial({
+          color: materialColorA,
+          side: THREE.DoubleSide
+        })
+      );
+    } catch (finalError) {
+      console.error("Complete failure of subtraction operation", finalError);
+      throw new Error("Subtraction operation failed completely: " + e.message);
+    }
+  }
+}
+
+// Specialized function for robust mesh intersection
+export function robustMeshIntersect(meshA: THREE.Mesh, meshB: THREE.Mesh): THREE.Mesh {
+  console.log("Starting robust mesh intersection for complex geometries");
+  
+  // Extract materials for later use
+  const materialColorA = meshA.material instanceof THREE.Material ? 
+    (meshA.material as THREE.MeshStandardMaterial).color?.clone() : 
+    (meshA.material[0] as THREE.MeshStandardMaterial)?.color?.clone() || new THREE.Color(0xffffff);
+  
+  // Pre-process geometries to ensure they're suitable for operations
+  const prepareGeometry = (mesh: THREE.Mesh): THREE.BufferGeometry => {
+    console.log(`Preparing geometry with ${mesh.geometry.attributes.position.count} vertices`);
+    const geom = mesh.geometry.clone();
+    
+    // Apply world matrices to get correct position
+    mesh.updateWorldMatrix(true, false);
+    geom.applyMatrix4(mesh.matrixWorld);
+    
+    // Full clean and manifold check
+    const cleanGeom = ensureManifoldGeometry(geom);
+    console.log(`After processing: ${cleanGeom.attributes.position.count} vertices`);
+    
+    return cleanGeom;
+  };
+  
+  // First check: Do bounding boxes even intersect?
+  try {
+    // Process geometries
+    const geomA = prepareGeometry(meshA);
+    const geomB = prepareGeometry(meshB);
+    
+    // Calculate bounding boxes
+    geomA.computeBoundingBox();
+    geomB.computeBoundingBox();
+    
+    // If bounding boxes don't intersect, return an empty geometry
+    // (Intersection should yield nothing)
+    if (geomA.boundingBox && geomB.boundingBox && 
+        !geomA.boundingBox.intersectsBox(geomB.boundingBox)) {
+      console.log("Bounding boxes don't intersect, returning empty geometry");
+      
+      // Return a minimal cube with opacity 0 as a placehoder
+      const emptyGeom = new THREE.BoxGeometry(0.1, 0.1, 0.1);
+      const emptyMaterial = new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0
+      });
+      
+      return new THREE.Mesh(emptyGeom, emptyMaterial);
+    }
+  } catch (e) {
+    console.warn("Bounding box check failed", e);
+    // Continue to main approach
+  }
+  
+  // First try: Standard CSG intersection
+  try {
+    console.log("Trying optimized CSG intersection approach");
+    
+    // Prepare geometries with extensive cleaning
+    const cleanGeomA = prepareGeometry(meshA);
+    const cleanGeomB = prepareGeometry(meshB);
+    
+    // Verify geometries are valid
+    if (cleanGeomA.attributes.position.count === 0 || cleanGeomB.attributes.position.count === 0) {
+      throw new Error("One or both models have no valid geometry after processing");
+    }
+    
+    // Create optimized meshes for CSG
+    const csgMeshA = new THREE.Mesh(
+      cleanGeomA,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0.99  // Almost opaque but not quite
+      })
+    );
+    
+    const csgMeshB = new THREE.Mesh(
+      cleanGeomB,
+      new THREE.MeshBasicMaterial({ 
+        side: THREE.DoubleSide,
+        transparent: true,
+        opacity: 0.99
+      })
+    );
+    
+    // Reset transforms since they're already applied to geometry
+    csgMeshA.position.set(0, 0, 0);
+    csgMeshA.rotation.set(0, 0, 0);
+    csgMeshA.scale.set(1, 1, 1);
+    csgMeshB.position.set(0, 0, 0);
+    csgMeshB.rotation.set(0, 0, 0);
+    csgMeshB.scale.set(1, 1, 1);
+    
+    // Perform CSG intersection
+    const resultMesh = CSG.intersect(csgMeshA, csgMeshB);
+    
+    // Validate result
+    if (!resultMesh || !resultMesh.geometry || resultMesh.geometry.attributes.position.count === 0) {
+      throw new Error("CSG intersection produced an empty result");
+    }
+    
+    // Create material for the new mesh
+    const material = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide
+    });
+    
+    resultMesh.material = material;
+    
+    // Final cleanup to ensure manifold result
+    resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
+    
+    return resultMesh;
+  } catch (e) {
+    console.warn("Standard CSG intersection failed, trying with simplified geometries", e);
+  }
+  
+  // Second try: Simplify geometries first
+  try {
+    console.log("Trying intersection with simplified geometries");
+    
+    // Apply progressive simplification for better results
+    const simplifyThreshold = 0.005; // Start with moderate simplification
+    
+    // Get base geometries and apply world transforms
+    const baseGeomA = meshA.geometry.clone();
+    const baseGeomB = meshB.geometry.clone();
+    
+    meshA.updateWorldMatrix(true, false);
+    meshB.updateWorldMatrix(true, false);
+    baseGeomA.applyMatrix4(meshA.matrixWorld);
+    baseGeomB.applyMatrix4(meshB.matrixWorld);
+    
+    // First ensure they're manifold, then simplify
+    const simplifiedGeomA = simplifyGeometry(ensureManifoldGeometry(baseGeomA), simplifyThreshold);
+    const simplifiedGeomB = simplifyGeometry(ensureManifoldGeometry(baseGeomB), simplifyThreshold);
+    
+    // Create meshes for CSG with simplified geometries
+    const simpleMeshA = new THREE.Mesh(
+      simplifiedGeomA,
+      new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide
+      })
+    );
+    
+    const simpleMeshB = new THREE.Mesh(
+      simplifiedGeomB,
+      new THREE.MeshStandardMaterial({
+        side: THREE.DoubleSide
+      })
+    );
+    
+    // Reset transforms
+    simpleMeshA.position.set(0, 0, 0);
+    simpleMeshA.rotation.set(0, 0, 0);
+    simpleMeshA.scale.set(1, 1, 1);
+    simpleMeshB.position.set(0, 0, 0);
+    simpleMeshB.rotation.set(0, 0, 0);
+    simpleMeshB.scale.set(1, 1, 1);
+    
+    // Try intersection with simplified meshes
+    const resultMesh = CSG.intersect(simpleMeshA, simpleMeshB);
+    
+    // Validate and clean up
+    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
+      // Ensure the result is manifold
+      resultMesh.geometry = ensureManifoldGeometry(resultMesh.geometry);
+      
+      // Update material
+      resultMesh.material = new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide
+      });
+      
+      return resultMesh;
+    }
+    
+    throw new Error("Simplified intersection produced an empty result");
+  } catch (e) {
+    console.warn("Simplified intersection failed, trying final approach", e);
+  }
+  
+  // Final attempt with maximum simplification
+  try {
+    console.log("Trying final intersection approach with aggressive simplification");
+    
+    // Simplify with more aggressive settings
+    const aggressiveThreshold = 0.02; // Even more aggressive than before
+    
+    // Get base geometries and apply world transforms
+    const baseGeomA = meshA.geometry.clone();
+    const baseGeomB = meshB.geometry.clone();
+    
+    meshA.updateWorldMatrix(true, false);
+    meshB.updateWorldMatrix(true, false);
+    baseGeomA.applyMatrix4(meshA.matrixWorld);
+    baseGeomB.applyMatrix4(meshB.matrixWorld);
+    
+    // Apply aggressive simplification
+    const finalGeomA = simplifyGeometry(
+      ensureManifoldGeometry(baseGeomA),
+      aggressiveThreshold
+    );
+    
+    const finalGeomB = simplifyGeometry(
+      ensureManifoldGeometry(baseGeomB),
+      aggressiveThreshold
+    );
+    
+    // Create meshes with basic materials
+    const finalMeshA = new THREE.Mesh(
+      finalGeomA,
+      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+    );
+    
+    const finalMeshB = new THREE.Mesh(
+      finalGeomB,
+      new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+    );
+    
+    // Reset transforms
+    finalMeshA.position.set(0, 0, 0);
+    finalMeshA.rotation.set(0, 0, 0);
+    finalMeshA.scale.set(1, 1, 1);
+    finalMeshB.position.set(0, 0, 0);
+    finalMeshB.rotation.set(0, 0, 0);
+    finalMeshB.scale.set(1, 1, 1);
+    
+    // Final intersection attempt
+    const resultMesh = CSG.intersect(finalMeshA, finalMeshB);
+    
+    // If we got a valid result, return it
+    if (resultMesh && resultMesh.geometry && resultMesh.geometry.attributes.position.count > 0) {
+      // Apply standard material
+      resultMesh.material = new THREE.MeshStandardMaterial({
+        color: materialColorA,
+        side: THREE.DoubleSide
+      });
+      
+      return resultMesh;
+    }
+    
+    throw new Error("Failed to find intersection with any approach");
+  } catch (e: any) {
+    // If all intersection attempts produced no result, return minimal geometry
+    console.error("All intersection approaches failed:", e);
+    
+    // Return a minimal invisible geometry to represent empty intersection
+    console.warn("Creating minimal representation for empty intersection");
+    const emptyGeom = new THREE.BoxGeometry(0.1, 0.1, 0.1);
+    const emptyMaterial = new THREE.MeshStandardMaterial({
+      color: materialColorA,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.2 // Slightly visible for debugging
+    });
+    
+    return new THREE.Mesh(emptyGeom, emptyMaterial);
+  }
+}
+
+// Add this utility function after validateResultMesh but before the export statement
+
+/**
+ * Utility function to check for and attempt to repair self-intersections in a geometry
+ * Self-intersecting geometries often cause boolean operations to fail
+ */
+function repairSelfIntersections(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  console.log("Checking for and repairing self-intersections");
+  
+  // Clone the geometry to avoid modifying the original
+  const repairedGeometry = geometry.clone();
+  
+  try {
+    // Step 1: Ensure we have indices for triangle detection
+    if (!repairedGeometry.index) {
+      console.log("Creating index for non-indexed geometry");
+      repairedGeometry.setIndex(
+        Array.from({ length: repairedGeometry.attributes.position.count }, (_, i) => i)
+      );
+    }
+    
+    // Step 2: Find triangles that might intersect each other
+    const indices = repairedGeometry.index?.array || [];
+    const positions = repairedGeometry.attributes.position.array;
+    
+    // This is a simplified approach - full intersection testing would be much more complex
+    // We'll look for triangles that share edges but have inverted normals,
+    // which is a strong indicator of self-intersection
+    
+    // First create a map of edges to triangles
+    const edgeToTriangles = new Map<string, number[]>();
+    const potentialIssues = new Set<number>();
+    
+    // Only proceed if we have indices
+    if (repairedGeometry.index) {
+      for (let i = 0; i < indices.length; i += 3) {
+        const triangleIndex = i / 3;
+        const i1 = indices[i];
+        const i2 = indices[i + 1];
+        const i3 = indices[i + 2];
+        
+        // Register each edge with this triangle
+        // We'll sort the indices to make sure we get the same key for the same edge
+        const edges = [
+          [Math.min(i1, i2), Math.max(i1, i2)],
+          [Math.min(i2, i3), Math.max(i2, i3)],
+          [Math.min(i3, i1), Math.max(i3, i1)]
+        ];
+        
+        for (const [a, b] of edges) {
+          const edgeKey = `${a}-${b}`;
+          if (!edgeToTriangles.has(edgeKey)) {
+            edgeToTriangles.set(edgeKey, []);
+          }
+          edgeToTriangles.get(edgeKey)!.push(triangleIndex);
+          
+          // If this edge is shared by more than one triangle, check for potential issues
+          if (edgeToTriangles.get(edgeKey)!.length > 1) {
+            // Check normals of the triangles sharing this edge
+            const triangles = edgeToTriangles.get(edgeKey)!;
+            for (const prevTriangle of triangles.slice(0, -1)) {
+              // Add both triangles as potential issues to check
+              potentialIssues.add(prevTriangle);
+              potentialIssues.add(triangleIndex);
+            }
+          }
+        }
+      }
+    }
+    
+    if (potentialIssues.size > 0) {
+      console.log(`Found ${potentialIssues.size} potential self-intersecting triangles`);
+    } else {
+      console.log("No self-intersections detected");
+      return repairedGeometry;
+    }
+    
+    // Step 3: Simple repair by merging very close vertices
+    // This can often resolve minor self-intersections
+    // We use an aggressive tolerance here to fix most issues
+    const repairTolerance = 0.001;
+    
+    if (BufferGeometryUtils.mergeVertices) {
+      const mergedGeometry = BufferGeometryUtils.mergeVertices(repairedGeometry, repairTolerance);
+      
+      // Compare vertex counts to see if we made a significant change
+      if (mergedGeometry.attributes.position.count < repairedGeometry.attributes.position.count) {
+        const reduction = repairedGeometry.attributes.position.count - mergedGeometry.attributes.position.count;
+        console.log(`Merged ${reduction} vertices to repair self-intersections`);
+        
+        // Recompute normals after merging
+        mergedGeometry.computeVertexNormals();
+        return mergedGeometry;
+      }
+    }
+    
+    // Step 4: If merging didn't help, try to fix by removing problematic triangles
+    // This is a last resort and can leave holes, but sometimes better than failing
+    if (repairedGeometry.index && potentialIssues.size > repairedGeometry.index.count / 6) {
+      // Too many issues to fix by removing triangles, would destroy the mesh
+      console.warn("Too many problematic triangles to fix by removal");
+      return repairedGeometry;
+    }
+    
+    // Create a new index array without problematic triangles
+    const newIndices = [];
+    
+    // Only proceed if we have a valid index
+    if (repairedGeometry.index) {
+      for (let i = 0; i < indices.length; i += 3) {
+        const triangleIndex = i / 3;
+        if (!potentialIssues.has(triangleIndex)) {
+          newIndices.push(indices[i], indices[i + 1], indices[i + 2]);
+        }
+      }
+      
+      if (newIndices.length < indices.length) {
+        console.log(`Removed ${(indices.length - newIndices.length) / 3} problematic triangles`);
+        repairedGeometry.setIndex(newIndices);
+        
+        // Recompute normals after removing triangles
+        repairedGeometry.computeVertexNormals();
+      }
+    }
+  } catch (error) {
+    console.warn("Error while repairing self-intersections:", error);
+    return geometry; // Return original if repair failed
+  }
+  
+  return repairedGeometry;
+}
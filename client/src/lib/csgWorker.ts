@@ -0,0 +1,291 @@
+import * as THREE from 'three';
+import type { BooleanOperation, BooleanBackendName } from './csg';
+import type { ConnectorOptions, CutKeep, SplitPlane } from './meshSplit';
+import type { EdgeBlendOptions, FeatureEdge } from './edgeBlend';
+import type { DrainHole, HollowSettings } from './hollow';
+import type { SimplifyOptions } from './meshSimplify';
+import type { MeshRepairReport } from './meshRepair';
+
+/**
+ * Main-thread side of the CSG worker. Geometry buffers are transferred (not
+ * copied) to the worker, and the worker is terminated to cancel an operation.
+ * Operands are sent as they are; the worker repairs and cleans them up itself.
+ */
+
+export interface CSGProgress {
+  stage: string;
+  percent: number;
+}
+
+// Plain typed arrays that can be posted to a worker as transferables
+export interface TransferableGeometry {
+  position: Float32Array;
+  normal?: Float32Array;
+  index?: Uint32Array;
+}
+
+export type CSGWorkerRequest =
+  | { type: 'run'; operation: BooleanOperation; backend?: BooleanBackendName; operands: TransferableGeometry[]; repair: boolean }
+  | { type: 'split'; operand: TransferableGeometry; planes: SplitPlane[]; connectors: ConnectorOptions; repair: boolean }
+  | { type: 'cut'; operand: TransferableGeometry; plane: SplitPlane; keep: CutKeep; sectionThickness: number }
+  | { type: 'blend'; operand: TransferableGeometry; edges: FeatureEdge[]; options: EdgeBlendOptions }
+  | { type: 'hollow'; operand: TransferableGeometry; settings: HollowSettings; holes: DrainHole[] }
+  | { type: 'simplify'; operand: TransferableGeometry; options: SimplifyOptions };
+
+export type CSGWorkerResponse =
+  | { type: 'progress'; stage: string; percent: number }
+  | { type: 'repair'; report: MeshRepairReport }
+  | { type: 'result'; geometry: TransferableGeometry }
+  | { type: 'pieces'; geometries: TransferableGeometry[]; connectorCount: number; skippedFaces: number }
+  | { type: 'error'; message: string };
+
+type CSGWorkerAnswer = Extract<CSGWorkerResponse, { type: 'result' | 'pieces' }>;
+
+export class CSGCancelledError extends Error {
+  constructor() {
+    super('Boolean operation was cancelled');
+    this.name = 'CSGCancelledError';
+  }
+}
+
+interface WorkerTaskOptions {
+  onProgress?: (progress: CSGProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface RepairTaskOptions extends WorkerTaskOptions {
+  // Repair the operands before the operation; off when auto repair is turned off
+  repair?: boolean;
+  // Called with the combined repair report once the worker has repaired the operands
+  onRepair?: (report: MeshRepairReport) => void;
+}
+
+interface RunBooleanOptions extends RepairTaskOptions {
+  backend?: BooleanBackendName;
+}
+
+// Copy an attribute into a fresh typed array we are free to transfer
+function copyAttribute(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+  const result = new Float32Array(attribute.count * attribute.itemSize);
+  for (let i = 0; i < attribute.count; i++) {
+    for (let c = 0; c < attribute.itemSize; c++) {
+      result[i * attribute.itemSize + c] = attribute.getComponent(i, c);
+    }
+  }
+  return result;
+}
+
+export function toTransferableGeometry(geometry: THREE.BufferGeometry): TransferableGeometry {
+  const normal = geometry.getAttribute('normal');
+  return {
+    position: copyAttribute(geometry.getAttribute('position')),
+    ...(normal ? { normal: copyAttribute(normal) } : {}),
+    ...(geometry.index ? { index: Uint32Array.from(geometry.index.array) } : {}),
+  };
+}
+
+export function fromTransferableGeometry(data: TransferableGeometry): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(data.position, 3));
+  if (data.normal) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(data.normal, 3));
+  }
+  if (data.index) {
+    geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+  }
+  return geometry;
+}
+
+export function getTransferList(data: TransferableGeometry): ArrayBuffer[] {
+  return [data.position, data.normal, data.index]
+    .filter((array): array is Float32Array | Uint32Array => !!array)
+    .map(array => array.buffer as ArrayBuffer);
+}
+
+// Post one request to a fresh worker and settle with its answer
+function runWorkerTask(request: CSGWorkerRequest, transfer: ArrayBuffer[], options: RepairTaskOptions): Promise<CSGWorkerAnswer> {
+  const { onProgress, onRepair, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CSGCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./csg.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    // Terminating the worker is the only way to stop a synchronous BSP computation
+    const handleAbort = () => {
+      finish();
+      reject(new CSGCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<CSGWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.({ stage: message.stage, percent: message.percent });
+      } else if (message.type === 'repair') {
+        onRepair?.(message.report);
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+      } else {
+        finish();
+        resolve(message);
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'CSG worker crashed'));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Run a boolean operation on world-space geometries in a Web Worker
+ * @param geometries - The operands; for subtract the first is the base and the rest are tools
+ * @param operation - Which boolean to perform
+ * @param options - Engine choice, repair, progress callback and abort signal
+ * @returns The result geometry, in world space
+ */
+export async function runBooleanInWorker(
+  geometries: THREE.BufferGeometry[],
+  operation: BooleanOperation,
+  options: RunBooleanOptions = {}
+): Promise<THREE.BufferGeometry> {
+  const operands = geometries.map(toTransferableGeometry);
+  const request: CSGWorkerRequest = { type: 'run', operation, backend: options.backend, operands, repair: options.repair ?? true };
+  const answer = await runWorkerTask(request, operands.flatMap(getTransferList), options);
+  if (answer.type !== 'result') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return fromTransferableGeometry(answer.geometry);
+}
+
+/**
+ * Split a world-space geometry along planes in a Web Worker
+ * @param geometry - The model to cut
+ * @param planes - Cut planes in world space
+ * @param connectors - Pegs or dovetails to add across each cut
+ * @param options - Repair, progress callback and abort signal
+ * @returns The pieces in world space, with how many connectors were placed
+ */
+export async function runSplitInWorker(
+  geometry: THREE.BufferGeometry,
+  planes: SplitPlane[],
+  connectors: ConnectorOptions,
+  options: RepairTaskOptions = {}
+): Promise<{ geometries: THREE.BufferGeometry[]; connectorCount: number; skippedFaces: number }> {
+  const operand = toTransferableGeometry(geometry);
+  const request: CSGWorkerRequest = { type: 'split', operand, planes, connectors, repair: options.repair ?? true };
+  const answer = await runWorkerTask(request, getTransferList(operand), options);
+  if (answer.type !== 'pieces') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return {
+    geometries: answer.geometries.map(fromTransferableGeometry),
+    connectorCount: answer.connectorCount,
+    skippedFaces: answer.skippedFaces,
+  };
+}
+
+/**
+ * Trim a world-space geometry with one plane in a Web Worker
+ * @param geometry - The model to cut
+ * @param plane - Cut plane in world space
+ * @param keep - Which side to keep, both sides, or a cross-section slab
+ * @param sectionThickness - Slab thickness in mm when keeping a section
+ * @param options - Progress callback and abort signal
+ * @returns The kept solids in world space
+ */
+export async function runCutInWorker(
+  geometry: THREE.BufferGeometry,
+  plane: SplitPlane,
+  keep: CutKeep,
+  sectionThickness: number,
+  options: WorkerTaskOptions = {}
+): Promise<THREE.BufferGeometry[]> {
+  const operand = toTransferableGeometry(geometry);
+  const request: CSGWorkerRequest = { type: 'cut', operand, plane, keep, sectionThickness };
+  const answer = await runWorkerTask(request, getTransferList(operand), options);
+  if (answer.type !== 'pieces') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return answer.geometries.map(fromTransferableGeometry);
+}
+
+/**
+ * Fillet or chamfer edges of a world-space geometry in a Web Worker
+ * @param geometry - The model to blend
+ * @param edges - Edges to blend, in world space
+ * @param blend - Fillet or chamfer, and its size
+ * @param options - Progress callback and abort signal
+ * @returns The blended geometry in world space
+ */
+export async function runBlendInWorker(
+  geometry: THREE.BufferGeometry,
+  edges: FeatureEdge[],
+  blend: EdgeBlendOptions,
+  options: WorkerTaskOptions = {}
+): Promise<THREE.BufferGeometry> {
+  const operand = toTransferableGeometry(geometry);
+  const request: CSGWorkerRequest = { type: 'blend', operand, edges, options: blend };
+  const answer = await runWorkerTask(request, getTransferList(operand), options);
+  if (answer.type !== 'result') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return fromTransferableGeometry(answer.geometry);
+}
+
+/**
+ * Hollow out a world-space geometry in a Web Worker
+ * @param geometry - The model to hollow
+ * @param settings - Wall thickness and drain hole size
+ * @param holes - Drain holes, in world space
+ * @param options - Progress callback and abort signal
+ * @returns The hollowed geometry in world space
+ */
+export async function runHollowInWorker(
+  geometry: THREE.BufferGeometry,
+  settings: HollowSettings,
+  holes: DrainHole[],
+  options: WorkerTaskOptions = {}
+): Promise<THREE.BufferGeometry> {
+  const operand = toTransferableGeometry(geometry);
+  const request: CSGWorkerRequest = { type: 'hollow', operand, settings, holes };
+  const answer = await runWorkerTask(request, getTransferList(operand), options);
+  if (answer.type !== 'result') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return fromTransferableGeometry(answer.geometry);
+}
+
+/**
+ * Decimate, and optionally remesh, a world-space geometry in a Web Worker
+ * @param geometry - The model to simplify
+ * @param simplify - Triangle budget or error tolerance, and remeshing
+ * @param options - Progress callback and abort signal
+ * @returns The simplified geometry in world space
+ */
+export async function runSimplifyInWorker(
+  geometry: THREE.BufferGeometry,
+  simplify: SimplifyOptions,
+  options: WorkerTaskOptions = {}
+): Promise<THREE.BufferGeometry> {
+  const operand = toTransferableGeometry(geometry);
+  const request: CSGWorkerRequest = { type: 'simplify', operand, options: simplify };
+  const answer = await runWorkerTask(request, getTransferList(operand), options);
+  if (answer.type !== 'result') {
+    throw new Error('CSG worker sent an unexpected answer');
+  }
+  return fromTransferableGeometry(answer.geometry);
+}
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import type { Box } from 'manifold-3d';
+import type { Vec3Tuple } from '@shared/quote';
+
+/**
+ * Signed distance fields of closed meshes, sampled on a regular grid. Feeding
+ * one to Manifold's level set gives a clean solid whose surface sits a chosen
+ * distance inside the mesh - a hollowing cavity, or at zero a remeshed copy.
+ */
+
+// Signed distance to the surface sampled on a regular grid, positive inside
+export interface DistanceField {
+  origin: THREE.Vector3;
+  spacing: number;
+  nx: number;
+  ny: number;
+  nz: number;
+  band: number; // Distances are only exact up to this far from the surface
+  values: Float32Array;
+}
+
+// Grid cells along the longest side of the model; more costs memory and time
+const MAX_GRID_CELLS = 160;
+
+// Triangle corners as a flat array, nine numbers per triangle
+function getTriangles(geometry: THREE.BufferGeometry): Float32Array {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const cornerCount = index ? index.count : position.count;
+  const triangles = new Float32Array(cornerCount * 3);
+  for (let i = 0; i < cornerCount; i++) {
+    const vertex = index ? index.getX(i) : i;
+    triangles[i * 3] = position.getX(vertex);
+    triangles[i * 3 + 1] = position.getY(vertex);
+    triangles[i * 3 + 2] = position.getZ(vertex);
+  }
+  return triangles;
+}
+
+// Mark the grid points inside the mesh by counting surface crossings along rays in +X
+function findInsidePoints(triangles: Float32Array, field: DistanceField): Uint8Array {
+  const { origin, spacing, nx, ny, nz } = field;
+  const rows: number[][] = Array.from({ length: ny * nz }, () => []);
+
+  // Nudge the rays off the grid so they don't run exactly through vertices and edges
+  const jitterY = spacing * 1.37e-4;
+  const jitterZ = spacing * 2.71e-4;
+
+  for (let t = 0; t < triangles.length; t += 9) {
+    const ax = triangles[t], ay = triangles[t + 1], az = triangles[t + 2];
+    const bx = triangles[t + 3], by = triangles[t + 4], bz = triangles[t + 5];
+    const cx = triangles[t + 6], cy = triangles[t + 7], cz = triangles[t + 8];
+    const area = (by - ay) * (cz - az) - (cy - ay) * (bz - az);
+    if (Math.abs(area) < 1e-12) continue; // Edge-on to the rays
+
+    const j0 = Math.max(0, Math.ceil((Math.min(ay, by, cy) - origin.y - jitterY) / spacing));
+    const j1 = Math.min(ny - 1, Math.floor((Math.max(ay, by, cy) - origin.y - jitterY) / spacing));
+    const k0 = Math.max(0, Math.ceil((Math.min(az, bz, cz) - origin.z - jitterZ) / spacing));
+    const k1 = Math.min(nz - 1, Math.floor((Math.max(az, bz, cz) - origin.z - jitterZ) / spacing));
+
+    for (let k = k0; k <= k1; k++) {
+      const z = origin.z + k * spacing + jitterZ;
+      for (let j = j0; j <= j1; j++) {
+        const y = origin.y + j * spacing + jitterY;
+        // Barycentric coordinates of the ray in the triangle's YZ shadow
+        const u = ((by - y) * (cz - z) - (cy - y) * (bz - z)) / area;
+        const v = ((cy - y) * (az - z) - (ay - y) * (cz - z)) / area;
+        const w = 1 - u - v;
+        if (u < 0 || v < 0 || w < 0) continue;
+        rows[j + k * ny].push(u * ax + v * bx + w * cx);
+      }
+    }
+  }
+
+  const inside = new Uint8Array(nx * ny * nz);
+  rows.forEach((crossings, row) => {
+    if (crossings.length < 2) return;
+    crossings.sort((a, b) => a - b);
+    const base = row * nx;
+    let next = 0;
+    for (let i = 0; i < nx; i++) {
+      const x = origin.x + i * spacing;
+      while (next < crossings.length && crossings[next] < x) next++;
+      inside[base + i] = next % 2;
+    }
+  });
+  return inside;
+}
+
+/**
+ * The grid spacing a distance field over a mesh will actually use
+ * @param geometry - The mesh
+ * @param minSpacing - Finest grid spacing wanted, in mm
+ * @returns minSpacing, or coarser if the model is too large for a grid that fine
+ */
+export function getGridSpacing(geometry: THREE.BufferGeometry, minSpacing: number): number {
+  geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+  return Math.max(minSpacing, Math.max(size.x, size.y, size.z) / MAX_GRID_CELLS);
+}
+
+/**
+ * Sample the signed distance to a closed mesh on a grid
+ * @param geometry - The mesh, watertight
+ * @param minSpacing - Finest grid spacing wanted, in mm; large models get a coarser grid
+ * @param reach - How far from the surface distances need to be exact, in mm
+ */
+export function buildDistanceField(geometry: THREE.BufferGeometry, minSpacing: number, reach: number): DistanceField {
+  const spacing = getGridSpacing(geometry, minSpacing);
+  const bounds = geometry.boundingBox!;
+  const size = bounds.getSize(new THREE.Vector3());
+  const band = reach + spacing * 2;
+
+  // A margin of empty cells keeps the surface clear of the grid's edge
+  const origin = bounds.min.clone().subScalar(spacing * 2);
+  const nx = Math.ceil(size.x / spacing) + 5;
+  const ny = Math.ceil(size.y / spacing) + 5;
+  const nz = Math.ceil(size.z / spacing) + 5;
+
+  const field: DistanceField = { origin, spacing, nx, ny, nz, band, values: new Float32Array(nx * ny * nz).fill(band) };
+  const triangles = getTriangles(geometry);
+
+  const triangle = new THREE.Triangle();
+  const point = new THREE.Vector3();
+  const closest = new THREE.Vector3();
+  const box = new THREE.Box3();
+  for (let t = 0; t < triangles.length; t += 9) {
+    triangle.a.fromArray(triangles, t);
+    triangle.b.fromArray(triangles, t + 3);
+    triangle.c.fromArray(triangles, t + 6);
+    box.setFromPoints([triangle.a, triangle.b, triangle.c]).expandByScalar(band);
+
+    const i0 = Math.max(0, Math.ceil((box.min.x - origin.x) / spacing));
+    const i1 = Math.min(nx - 1, Math.floor((box.max.x - origin.x) / spacing));
+    const j0 = Math.max(0, Math.ceil((box.min.y - origin.y) / spacing));
+    const j1 = Math.min(ny - 1, Math.floor((box.max.y - origin.y) / spacing));
+    const k0 = Math.max(0, Math.ceil((box.min.z - origin.z) / spacing));
+    const k1 = Math.min(nz - 1, Math.floor((box.max.z - origin.z) / spacing));
+
+    for (let k = k0; k <= k1; k++) {
+      for (let j = j0; j <= j1; j++) {
+        for (let i = i0; i <= i1; i++) {
+          point.set(origin.x + i * spacing, origin.y + j * spacing, origin.z + k * spacing);
+          const distance = triangle.closestPointToPoint(point, closest).distanceTo(point);
+          const cell = i + (j + k * ny) * nx;
+          if (distance < field.values[cell]) {
+            field.values[cell] = distance;
+          }
+        }
+      }
+    }
+  }
+
+  const inside = findInsidePoints(triangles, field);
+  for (let cell = 0; cell < field.values.length; cell++) {
+    if (!inside[cell]) {
+      field.values[cell] = -field.values[cell];
+    }
+  }
+  return field;
+}
+
+// Trilinear interpolation of the distance field, outside beyond its edges
+export function sampleDistanceField(field: DistanceField, [x, y, z]: Vec3Tuple): number {
+  const { origin, spacing, nx, ny, nz, values } = field;
+  const fx = (x - origin.x) / spacing;
+  const fy = (y - origin.y) / spacing;
+  const fz = (z - origin.z) / spacing;
+  const i = Math.floor(fx);
+  const j = Math.floor(fy);
+  const k = Math.floor(fz);
+  if (i < 0 || j < 0 || k < 0 || i >= nx - 1 || j >= ny - 1 || k >= nz - 1) {
+    return -field.band;
+  }
+
+  const tx = fx - i;
+  const ty = fy - j;
+  const tz = fz - k;
+  const at = (di: number, dj: number, dk: number) => values[(i + di) + ((j + dj) + (k + dk) * ny) * nx];
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+  return lerp(
+    lerp(lerp(at(0, 0, 0), at(1, 0, 0), tx), lerp(at(0, 1, 0), at(1, 1, 0), tx), ty),
+    lerp(lerp(at(0, 0, 1), at(1, 0, 1), tx), lerp(at(0, 1, 1), at(1, 1, 1), tx), ty),
+    tz
+  );
+}
+
+// Extent of the grid, for the level set
+export function getDistanceFieldBounds(field: DistanceField): Box {
+  const { origin, spacing, nx, ny, nz } = field;
+  return {
+    min: [origin.x, origin.y, origin.z],
+    max: [origin.x + (nx - 1) * spacing, origin.y + (ny - 1) * spacing, origin.z + (nz - 1) * spacing]
+  };
+}
@@ -0,0 +1,331 @@
+import * as THREE from 'three';
+import type { Manifold, ManifoldToplevel } from 'manifold-3d';
+import type { Vec3Tuple } from '@shared/quote';
+import { fromManifold, toManifold, toMat4, withManifold, type Own } from './manifoldBoolean';
+import { weldVertices } from './meshRepair';
+
+/**
+ * Edge blending - rounds (fillets) or bevels (chamfers) the sharp edges of a
+ * closed mesh. Along each edge a prism with the blend's cross-section is cut
+ * away where the edge is convex, or added where it is concave, so it works on
+ * any solid with flat faces either side of the edge: primitives, boolean
+ * results and imported parts alike.
+ */
+
+export type EdgeBlendType = 'fillet' | 'chamfer';
+
+export interface EdgeBlendOptions {
+  type: EdgeBlendType;
+  size: number; // mm; fillet radius, or how far a chamfer reaches along each face
+  segments: number; // Facets across a fillet
+}
+
+// A sharp edge between two flat faces, in the space of the geometry it was found in
+export interface FeatureEdge {
+  start: Vec3Tuple;
+  end: Vec3Tuple;
+  normalA: Vec3Tuple; // Outward normals of the faces either side
+  normalB: Vec3Tuple;
+  insideA: Vec3Tuple; // A point on each face away from the edge
+  insideB: Vec3Tuple;
+  convex: boolean; // False where the faces meet in an inside corner
+  startTurn: number; // Radians to the next edge of the same kind at each end, 0 if none
+  endTurn: number;
+}
+
+export const DEFAULT_EDGE_BLEND_OPTIONS: EdgeBlendOptions = {
+  type: 'fillet',
+  size: 1,
+  segments: 8,
+};
+
+// Faces meeting at less than this are treated as one smooth surface
+const FEATURE_ANGLE = THREE.MathUtils.degToRad(30);
+
+// How far a blend prism reaches past the surface, so booleans don't meet coplanar faces
+const EDGE_OVERLAP = 0.01;
+
+// Concave corners sharper than this aren't mitred further, so the fill stays near the corner
+const MAX_MITRE_TURN = THREE.MathUtils.degToRad(120);
+
+interface EdgeSegment {
+  a: number; // Welded vertex ids
+  b: number;
+  normalA: THREE.Vector3;
+  normalB: THREE.Vector3;
+  insideA: THREE.Vector3;
+  insideB: THREE.Vector3;
+  convex: boolean;
+}
+
+function sameDirection(a: THREE.Vector3, b: THREE.Vector3): boolean {
+  return a.dot(b) > 1 - 1e-6;
+}
+
+/**
+ * Find the sharp edges of a closed mesh, joining straight runs into single edges
+ * @param geometry - Mesh geometry
+ * @param minAngle - Smallest angle between face normals that counts as an edge, in radians
+ */
+export function findFeatureEdges(geometry: THREE.BufferGeometry, minAngle = FEATURE_ANGLE): FeatureEdge[] {
+  const position = geometry.getAttribute('position');
+  const cornerCount = geometry.index ? geometry.index.count : position.count;
+  const corner = (i: number) => (geometry.index ? geometry.index.getX(i) : i);
+
+  // Weld like mesh repair does, so seams between flat-shaded faces become shared edges
+  const { remap: welded, positions, sources } = weldVertices(position);
+  const points = sources.map((_, vertex) => new THREE.Vector3().fromArray(positions, vertex * 3));
+
+  // Every triangle using each edge, with its normal and the corner opposite the edge
+  const edgeFaces = new Map<string, Array<{ normal: THREE.Vector3; opposite: number }>>();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  for (let t = 0; t + 2 < cornerCount; t += 3) {
+    const triangle = [welded[corner(t)], welded[corner(t + 1)], welded[corner(t + 2)]];
+    if (triangle.includes(-1) || triangle[0] === triangle[1] || triangle[1] === triangle[2] || triangle[2] === triangle[0]) {
+      continue;
+    }
+    const normal = new THREE.Vector3().crossVectors(
+      ab.subVectors(points[triangle[1]], points[triangle[0]]),
+      ac.subVectors(points[triangle[2]], points[triangle[0]])
+    );
+    if (normal.lengthSq() === 0) continue;
+    normal.normalize();
+
+    for (let i = 0; i < 3; i++) {
+      const a = triangle[i];
+      const b = triangle[(i + 1) % 3];
+      const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+      const faces = edgeFaces.get(key) ?? [];
+      faces.push({ normal, opposite: triangle[(i + 2) % 3] });
+      edgeFaces.set(key, faces);
+    }
+  }
+
+  // Sharp edges between exactly two faces; open or non-manifold edges can't be blended
+  const segments: EdgeSegment[] = [];
+  const cosLimit = Math.cos(minAngle);
+  edgeFaces.forEach((faces, key) => {
+    if (faces.length !== 2) return;
+    const [faceA, faceB] = faces;
+    if (faceA.normal.dot(faceB.normal) > cosLimit) return;
+
+    const [a, b] = key.split('_').map(Number);
+    const start = points[a];
+    const insideA = points[faceA.opposite];
+    const insideB = points[faceB.opposite];
+    // Convex when the second face falls away behind the first
+    const convex = faceA.normal.dot(insideB.clone().sub(start)) < 0;
+    segments.push({ a, b, normalA: faceA.normal, normalB: faceB.normal, insideA, insideB, convex });
+  });
+
+  const byVertex = new Map<number, number[]>();
+  segments.forEach((segment, i) => {
+    [segment.a, segment.b].forEach(vertex => byVertex.set(vertex, [...(byVertex.get(vertex) ?? []), i]));
+  });
+
+  const direction = (segment: EdgeSegment) => points[segment.b].clone().sub(points[segment.a]).normalize();
+  const sameFaces = (first: EdgeSegment, second: EdgeSegment) =>
+    (sameDirection(first.normalA, second.normalA) && sameDirection(first.normalB, second.normalB)) ||
+    (sameDirection(first.normalA, second.normalB) && sameDirection(first.normalB, second.normalA));
+
+  // Walk straight runs of segments between the same two faces
+  const used = new Uint8Array(segments.length);
+  const chains: Array<{ segment: EdgeSegment; start: number; end: number }> = [];
+  segments.forEach((segment, i) => {
+    if (used[i]) return;
+    used[i] = 1;
+    const axis = direction(segment);
+
+    const extend = (from: number): number => {
+      let vertex = from;
+      for (;;) {
+        const touching = byVertex.get(vertex) ?? [];
+        if (touching.length !== 2) return vertex;
+        const next = touching.find(j => !used[j]);
+        if (next === undefined) return vertex;
+        const candidate = segments[next];
+        if (!sameFaces(segment, candidate) || Math.abs(direction(candidate).dot(axis)) < 1 - 1e-6) {
+          return vertex;
+        }
+        used[next] = 1;
+        vertex = candidate.a === vertex ? candidate.b : candidate.a;
+      }
+    };
+
+    chains.push({ segment, start: extend(segment.a), end: extend(segment.b) });
+  });
+
+  // Angle to another edge of the same kind meeting this one at a vertex
+  const chainsAtVertex = new Map<number, number[]>();
+  chains.forEach((chain, i) => {
+    [chain.start, chain.end].forEach(vertex => chainsAtVertex.set(vertex, [...(chainsAtVertex.get(vertex) ?? []), i]));
+  });
+  const turnAt = (index: number, vertex: number): number => {
+    const chain = chains[index];
+    const other = chain.start === vertex ? chain.end : chain.start;
+    const away = points[other].clone().sub(points[vertex]).normalize();
+    let turn = 0;
+    (chainsAtVertex.get(vertex) ?? []).forEach(j => {
+      const neighbour = chains[j];
+      if (j === index || neighbour.segment.convex !== chain.segment.convex) return;
+      const far = neighbour.start === vertex ? neighbour.end : neighbour.start;
+      // Straight on is no turn at all
+      turn = Math.max(turn, Math.PI - away.angleTo(points[far].clone().sub(points[vertex]).normalize()));
+    });
+    return Math.min(turn, MAX_MITRE_TURN);
+  };
+
+  return chains.map((chain, i) => ({
+    start: points[chain.start].toArray() as Vec3Tuple,
+    end: points[chain.end].toArray() as Vec3Tuple,
+    normalA: chain.segment.normalA.toArray() as Vec3Tuple,
+    normalB: chain.segment.normalB.toArray() as Vec3Tuple,
+    insideA: chain.segment.insideA.toArray() as Vec3Tuple,
+    insideB: chain.segment.insideB.toArray() as Vec3Tuple,
+    convex: chain.segment.convex,
+    startTurn: turnAt(i, chain.start),
+    endTurn: turnAt(i, chain.end),
+  }));
+}
+
+/**
+ * Move an edge into another space, e.g. from a model's local space to world space
+ */
+export function transformFeatureEdge(edge: FeatureEdge, matrix: THREE.Matrix4): FeatureEdge {
+  const normalMatrix = new THREE.Matrix3().getNormalMatrix(matrix);
+  const point = (value: Vec3Tuple) => new THREE.Vector3(...value).applyMatrix4(matrix).toArray() as Vec3Tuple;
+  const normal = (value: Vec3Tuple) => new THREE.Vector3(...value).applyMatrix3(normalMatrix).normalize().toArray() as Vec3Tuple;
+  return {
+    ...edge,
+    start: point(edge.start),
+    end: point(edge.end),
+    normalA: normal(edge.normalA),
+    normalB: normal(edge.normalB),
+    insideA: point(edge.insideA),
+    insideB: point(edge.insideB),
+  };
+}
+
+/**
+ * Cross-section of the material a blend removes (or fills), in a frame with the
+ * edge at the origin, the first face along +x and the second face at `angle` from it
+ */
+function getBlendProfile(angle: number, options: EdgeBlendOptions): [number, number][] {
+  const { size } = options;
+  const half = angle / 2;
+  const faceB = new THREE.Vector2(Math.cos(angle), Math.sin(angle));
+  // Pointing away from the corner region, perpendicular to each face
+  const outA = new THREE.Vector2(0, -1);
+  const outB = new THREE.Vector2(-Math.sin(angle), Math.cos(angle));
+
+  const points: THREE.Vector2[] = [];
+  if (options.type === 'chamfer') {
+    points.push(new THREE.Vector2(size, 0), faceB.clone().multiplyScalar(size));
+  } else {
+    // Circle tangent to both faces
+    const tangent = size / Math.tan(half);
+    const centre = new THREE.Vector2(tangent, size);
+    const from = -Math.PI / 2;
+    const to = angle + Math.PI / 2 - Math.PI * 2; // Around the side facing the corner
+    const steps = Math.max(1, Math.round(options.segments));
+    for (let i = 0; i <= steps; i++) {
+      const theta = from + (to - from) * (i / steps);
+      points.push(new THREE.Vector2(Math.cos(theta), Math.sin(theta)).multiplyScalar(size).add(centre));
+    }
+  }
+
+  // Reach a little past both faces
+  const first = points[0].clone().addScaledVector(outA, EDGE_OVERLAP);
+  const last = points[points.length - 1].clone().addScaledVector(outB, EDGE_OVERLAP);
+  const corner = new THREE.Vector2(Math.cos(half), Math.sin(half)).multiplyScalar(-EDGE_OVERLAP / Math.sin(half));
+
+  return [corner, first, ...points, last].map(point => [point.x, point.y]);
+}
+
+// Prism of the blend profile laid along one edge, in world space
+function createBlendPrism(wasm: ManifoldToplevel, edge: FeatureEdge, options: EdgeBlendOptions, own: Own): Manifold | null {
+  const start = new THREE.Vector3(...edge.start);
+  const end = new THREE.Vector3(...edge.end);
+  const axis = end.clone().sub(start);
+  const length = axis.length();
+  if (length < 1e-6) return null;
+  axis.divideScalar(length);
+
+  // Directions along each face, away from the edge
+  const alongFace = (inside: Vec3Tuple) => {
+    const offset = new THREE.Vector3(...inside).sub(start);
+    return offset.addScaledVector(axis, -offset.dot(axis)).normalize();
+  };
+  const u = alongFace(edge.insideA);
+  const towardsB = alongFace(edge.insideB);
+  const angle = u.angleTo(towardsB);
+  if (angle < 1e-3 || angle > Math.PI - 1e-3) return null;
+
+  const v = towardsB.clone().addScaledVector(u, -towardsB.dot(u)).normalize();
+  const w = new THREE.Vector3().crossVectors(u, v);
+
+  // Concave prisms are mitred so they meet the next fill at a corner without a gap
+  const mitre = (turn: number) => EDGE_OVERLAP + (edge.convex ? 0 : options.size * Math.tan(turn / 2));
+  const runsForward = w.dot(axis) > 0;
+  const before = mitre(runsForward ? edge.startTurn : edge.endTurn);
+  const after = mitre(runsForward ? edge.endTurn : edge.startTurn);
+  const origin = runsForward ? start : end;
+
+  const profile = own(wasm.CrossSection.ofPolygons([getBlendProfile(angle, options)], 'NonZero'));
+  const frame = new THREE.Matrix4().makeBasis(u, v, w).setPosition(origin);
+  return own(own(own(wasm.Manifold.extrude(profile, length + before + after)).translate(0, 0, -before)).transform(toMat4(frame)));
+}
+
+/**
+ * Fillet or chamfer edges of a closed mesh
+ * @param geometry - The model in world space
+ * @param edges - Edges to blend, in world space
+ * @param options - Blend type and size
+ * @param onProgress - Optional progress callback
+ * @returns The blended model in world space
+ */
+export async function blendEdges(
+  geometry: THREE.BufferGeometry,
+  edges: FeatureEdge[],
+  options: EdgeBlendOptions = DEFAULT_EDGE_BLEND_OPTIONS,
+  onProgress?: (stage: string, percent: number) => void
+): Promise<THREE.BufferGeometry> {
+  if (edges.length === 0) {
+    throw new Error('Pick at least one edge');
+  }
+  if (!(options.size > 0)) {
+    throw new Error('Blend size must be greater than zero');
+  }
+
+  onProgress?.('Loading boolean engine', 5);
+  return withManifold((wasm, own) => {
+    onProgress?.('Converting mesh', 15);
+    const solid = own(toManifold(wasm, geometry));
+
+    onProgress?.(`Shaping ${edges.length} edge${edges.length === 1 ? '' : 's'}`, 30);
+    const cuts: Manifold[] = [];
+    const fills: Manifold[] = [];
+    edges.forEach(edge => {
+      const prism = createBlendPrism(wasm, edge, options, own);
+      if (prism) {
+        (edge.convex ? cuts : fills).push(prism);
+      }
+    });
+
+    onProgress?.('Blending edges', 55);
+    let result = solid;
+    if (cuts.length > 0) {
+      result = own(wasm.Manifold.difference([result, ...cuts]));
+    }
+    if (fills.length > 0) {
+      result = own(wasm.Manifold.union([result, ...fills]));
+    }
+    if (result.isEmpty()) {
+      throw new Error('The blend removed the whole model; try a smaller size');
+    }
+
+    onProgress?.('Building result mesh', 85);
+    return fromManifold(result);
+  });
+}
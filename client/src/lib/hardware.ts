@@ -0,0 +1,402 @@
+import * as THREE from 'three';
+
+/**
+ * Hardware library - parametric functional parts for enclosures. Cutters are
+ * subtracted from a part to leave a hole or pocket; the rest are solids to
+ * union onto it. Geometry is centred on the origin, Y up, sizes in mm, with
+ * the screw head or insert opening at the top.
+ */
+
+export type MetricSize = 'M2' | 'M2.5' | 'M3' | 'M4' | 'M5' | 'M6' | 'M8';
+
+export type HardwareKind =
+  | 'clearance-hole'
+  | 'countersink'
+  | 'counterbore'
+  | 'nut-trap'
+  | 'threaded-hole'
+  | 'insert-boss'
+  | 'threaded-rod'
+  | 'standoff'
+  | 'cable-tie-anchor';
+
+export interface HardwareParams {
+  kind: HardwareKind;
+  size: MetricSize;
+  length: number; // Hole depth, boss or standoff height, or the tie width an anchor takes
+  tolerance: number; // Added to the width of holes, pockets and slots, taken off threaded rods, so parts fit once printed
+}
+
+export interface HardwarePart {
+  kind: HardwareKind;
+  label: string;
+  cutter: boolean; // Meant to be subtracted rather than unioned
+  lengthLabel: string;
+  usesSize: boolean;
+  description: string;
+}
+
+// Nominal dimensions per thread, from ISO 273 (medium fit), 4762, 10642 and 4032.
+// Insert sizes follow common heat-set inserts for printed parts.
+interface MetricSpec {
+  diameter: number; // Nominal, the major diameter of the thread
+  pitch: number; // Coarse thread
+  clearance: number; // Clearance hole diameter
+  tapDrill: number; // Hole a screw threads into
+  headDiameter: number; // Socket head cap screw
+  headHeight: number;
+  countersinkDiameter: number; // Flat head screw, 90°
+  nutWidth: number; // Hex nut across flats
+  nutHeight: number;
+  insertDiameter: number; // Hole for a heat-set insert
+  insertLength: number;
+}
+
+export const METRIC_SPECS: Record<MetricSize, MetricSpec> = {
+  'M2': { diameter: 2, pitch: 0.4, clearance: 2.4, tapDrill: 1.6, headDiameter: 3.8, headHeight: 2, countersinkDiameter: 3.8, nutWidth: 4, nutHeight: 1.6, insertDiameter: 3.2, insertLength: 4 },
+  'M2.5': { diameter: 2.5, pitch: 0.45, clearance: 2.9, tapDrill: 2.05, headDiameter: 4.5, headHeight: 2.5, countersinkDiameter: 4.7, nutWidth: 5, nutHeight: 2, insertDiameter: 3.6, insertLength: 4.5 },
+  'M3': { diameter: 3, pitch: 0.5, clearance: 3.4, tapDrill: 2.5, headDiameter: 5.5, headHeight: 3, countersinkDiameter: 6.72, nutWidth: 5.5, nutHeight: 2.4, insertDiameter: 4, insertLength: 5.7 },
+  'M4': { diameter: 4, pitch: 0.7, clearance: 4.5, tapDrill: 3.3, headDiameter: 7, headHeight: 4, countersinkDiameter: 8.96, nutWidth: 7, nutHeight: 3.2, insertDiameter: 5.6, insertLength: 8.1 },
+  'M5': { diameter: 5, pitch: 0.8, clearance: 5.5, tapDrill: 4.2, headDiameter: 8.5, headHeight: 5, countersinkDiameter: 11.2, nutWidth: 8, nutHeight: 4.7, insertDiameter: 6.4, insertLength: 9.5 },
+  'M6': { diameter: 6, pitch: 1, clearance: 6.6, tapDrill: 5, headDiameter: 10, headHeight: 6, countersinkDiameter: 13.44, nutWidth: 10, nutHeight: 5.2, insertDiameter: 8, insertLength: 12.7 },
+  'M8': { diameter: 8, pitch: 1.25, clearance: 9, tapDrill: 6.8, headDiameter: 13, headHeight: 8, countersinkDiameter: 17.92, nutWidth: 13, nutHeight: 6.8, insertDiameter: 9.7, insertLength: 12.7 }
+};
+
+export const METRIC_SIZES = Object.keys(METRIC_SPECS) as MetricSize[];
+
+export const HARDWARE_PARTS: HardwarePart[] = [
+  { kind: 'clearance-hole', label: 'Clearance Hole', cutter: true, lengthLabel: 'Depth', usesSize: true, description: 'Straight hole a screw passes through' },
+  { kind: 'countersink', label: 'Countersink', cutter: true, lengthLabel: 'Depth', usesSize: true, description: 'Hole with a 90° cone for a flat head screw' },
+  { kind: 'counterbore', label: 'Counterbore', cutter: true, lengthLabel: 'Depth', usesSize: true, description: 'Hole with a recess for a socket head cap screw' },
+  { kind: 'nut-trap', label: 'Hex Nut Trap', cutter: true, lengthLabel: 'Depth', usesSize: true, description: 'Hex pocket that holds a nut, over a clearance hole' },
+  { kind: 'threaded-hole', label: 'Threaded Hole', cutter: true, lengthLabel: 'Depth', usesSize: true, description: 'Hole with an ISO thread cut into it; M5 and up print best' },
+  { kind: 'insert-boss', label: 'Insert Boss', cutter: false, lengthLabel: 'Height', usesSize: true, description: 'Post with a blind hole for a heat-set insert' },
+  { kind: 'standoff', label: 'PCB Standoff', cutter: false, lengthLabel: 'Height', usesSize: true, description: 'Post with a pilot hole for a screw, flared at the base' },
+  { kind: 'threaded-rod', label: 'Threaded Rod', cutter: false, lengthLabel: 'Length', usesSize: true, description: 'Rod with an ISO thread, to fit a nut or threaded hole' },
+  { kind: 'cable-tie-anchor', label: 'Cable Tie Anchor', cutter: false, lengthLabel: 'Tie width', usesSize: false, description: 'Bridge a cable tie threads under' }
+];
+
+// Cutters reach this far past both surfaces so subtracting them leaves no skin
+const CUTTER_OVERSHOOT = 0.5;
+const HOLE_SEGMENTS = 48;
+
+const MIN_LENGTH = 1;
+const MAX_TOLERANCE = 1;
+
+// Standoff and boss proportions
+const STANDOFF_WALL = 1.6;
+const STANDOFF_FOOT = 1.5; // Width and height of the flare at the base
+const INSERT_EXTRA_DEPTH = 1; // Room for plastic pushed ahead of the insert
+const INSERT_FLOOR = 1;
+
+// Points around one turn of a thread, and rows per pitch along it
+const THREAD_SEGMENTS = 48;
+const THREAD_ROWS_PER_PITCH = 16;
+
+// Cable tie anchor proportions
+const TIE_THICKNESS = 1.5;
+const ANCHOR_FLOOR = 1;
+const ANCHOR_WALL = 2;
+const ANCHOR_ROOF = 1.6;
+
+export function getHardwarePart(kind: HardwareKind): HardwarePart {
+  return HARDWARE_PARTS.find(part => part.kind === kind) ?? HARDWARE_PARTS[0];
+}
+
+// Shortest length that still leaves room for the part's features
+function getMinimumLength(kind: HardwareKind, spec: MetricSpec): number {
+  switch (kind) {
+    case 'countersink':
+      return (spec.countersinkDiameter - spec.clearance) / 2 + MIN_LENGTH;
+    case 'counterbore':
+      return spec.headHeight + MIN_LENGTH;
+    case 'nut-trap':
+      return spec.nutHeight + MIN_LENGTH;
+    case 'insert-boss':
+      return spec.insertLength + INSERT_EXTRA_DEPTH + INSERT_FLOOR;
+    case 'threaded-hole':
+    case 'threaded-rod':
+      return spec.pitch * 2;
+    case 'cable-tie-anchor':
+      return 2;
+    default:
+      return MIN_LENGTH;
+  }
+}
+
+export function getDefaultHardware(kind: HardwareKind, size: MetricSize = 'M3'): HardwareParams {
+  const spec = METRIC_SPECS[size];
+  const length = kind === 'insert-boss'
+    ? getMinimumLength(kind, spec) + 1
+    : kind === 'standoff' ? 6 : kind === 'cable-tie-anchor' ? 4.8 : 10;
+  return { kind, size, length, tolerance: 0.2 };
+}
+
+export function normalizeHardwareParams(params: HardwareParams): HardwareParams {
+  const size = params.size in METRIC_SPECS ? params.size : 'M3';
+  const minimum = getMinimumLength(params.kind, METRIC_SPECS[size]);
+  const length = Math.max(minimum, Number.isFinite(params.length) ? params.length : minimum);
+  const tolerance = Math.min(MAX_TOLERANCE, Math.max(0, params.tolerance || 0));
+  return { kind: params.kind, size, length, tolerance };
+}
+
+export function describeHardware(params: HardwareParams): string {
+  const part = getHardwarePart(params.kind);
+  return part.usesSize ? `${params.size} ${part.label}` : `${part.label} ${params.length} mm`;
+}
+
+// Footprint of one layer of a stacked solid, as (x, z) points running counter-clockwise seen from above
+type Outline = THREE.Vector2[];
+
+interface StackSection {
+  bottom: number;
+  top: number;
+  outline: Outline;
+  topOutline?: Outline; // Same number of points; the section tapers from outline to this
+}
+
+// Polygon around a circle, so a printed hole is never narrower than the diameter
+function circleOutline(diameter: number, segments = HOLE_SEGMENTS): Outline {
+  const radius = diameter / 2 / Math.cos(Math.PI / segments);
+  return Array.from({ length: segments }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return new THREE.Vector2(Math.cos(angle) * radius, Math.sin(angle) * radius);
+  });
+}
+
+function hexOutline(acrossFlats: number): Outline {
+  return circleOutline(acrossFlats, 6);
+}
+
+/**
+ * Closed solid made of coaxial layers stacked bottom to top. Where one layer
+ * meets the next, the larger outline must contain the smaller one.
+ */
+function createStackedSolid(sections: StackSection[]): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+
+  const addTriangle = (p: THREE.Vector3, q: THREE.Vector3, r: THREE.Vector3) => {
+    positions.push(p.x, p.y, p.z, q.x, q.y, q.z, r.x, r.y, r.z);
+  };
+
+  // Flat face at a height, facing up or down, with an optional hole
+  const addFace = (outline: Outline, hole: Outline | null, y: number, facing: 1 | -1) => {
+    const points = hole ? [...outline, ...hole] : outline;
+    THREE.ShapeUtils.triangulateShape(outline, hole ? [hole] : []).forEach(([i, j, k]) => {
+      a.set(points[i].x, y, points[i].y);
+      b.set(points[j].x, y, points[j].y);
+      c.set(points[k].x, y, points[k].y);
+      // Y of the face normal, from (b - a) x (c - a)
+      const normalY = (b.z - a.z) * (c.x - a.x) - (b.x - a.x) * (c.z - a.z);
+      if (normalY * facing < 0) {
+        addTriangle(a, c, b);
+      } else {
+        addTriangle(a, b, c);
+      }
+    });
+  };
+
+  sections.forEach((section, index) => {
+    const bottomOutline = section.outline;
+    const topOutline = section.topOutline ?? section.outline;
+
+    for (let i = 0; i < bottomOutline.length; i++) {
+      const next = (i + 1) % bottomOutline.length;
+      const p0 = new THREE.Vector3(bottomOutline[i].x, section.bottom, bottomOutline[i].y);
+      const p1 = new THREE.Vector3(bottomOutline[next].x, section.bottom, bottomOutline[next].y);
+      const q0 = new THREE.Vector3(topOutline[i].x, section.top, topOutline[i].y);
+      const q1 = new THREE.Vector3(topOutline[next].x, section.top, topOutline[next].y);
+      addTriangle(p0, q1, p1);
+      addTriangle(p0, q0, q1);
+    }
+
+    if (index === 0) {
+      addFace(bottomOutline, null, section.bottom, -1);
+    }
+
+    const above = sections[index + 1];
+    if (!above) {
+      addFace(topOutline, null, section.top, 1);
+    } else if (above.outline !== topOutline) {
+      // Step between layers: a ring facing down when the layer above is wider
+      const widens = Math.abs(THREE.ShapeUtils.area(above.outline)) > Math.abs(THREE.ShapeUtils.area(topOutline));
+      if (widens) {
+        addFace(above.outline, topOutline, section.top, -1);
+      } else {
+        addFace(topOutline, above.outline, section.top, 1);
+      }
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// Hole through the full depth, topped by a wider feature for the head or nut
+function createCutterGeometry(params: HardwareParams, spec: MetricSpec): THREE.BufferGeometry {
+  const { length, tolerance } = params;
+  const shaft = circleOutline(spec.clearance + tolerance);
+  const bottom = -CUTTER_OVERSHOOT;
+  const top = length + CUTTER_OVERSHOOT;
+
+  switch (params.kind) {
+    case 'countersink': {
+      const head = circleOutline(spec.countersinkDiameter + tolerance);
+      const coneDepth = (spec.countersinkDiameter - spec.clearance) / 2;
+      return createStackedSolid([
+        { bottom, top: length - coneDepth, outline: shaft },
+        { bottom: length - coneDepth, top: length, outline: shaft, topOutline: head },
+        { bottom: length, top, outline: head }
+      ]);
+    }
+    case 'counterbore': {
+      const head = circleOutline(spec.headDiameter + tolerance);
+      return createStackedSolid([
+        { bottom, top: length - spec.headHeight, outline: shaft },
+        { bottom: length - spec.headHeight, top, outline: head }
+      ]);
+    }
+    case 'nut-trap': {
+      const nut = hexOutline(spec.nutWidth + tolerance);
+      return createStackedSolid([
+        { bottom, top: length - spec.nutHeight, outline: shaft },
+        { bottom: length - spec.nutHeight, top, outline: nut }
+      ]);
+    }
+    case 'threaded-hole':
+      return createThreadGeometry(spec.diameter + tolerance, spec.pitch, bottom, top);
+    default:
+      return createStackedSolid([{ bottom, top, outline: shaft }]);
+  }
+}
+
+// Radius of an ISO metric thread at a point along one pitch (0 to 1):
+// a crest flat of P/8, a root flat of P/4 and 60° flanks between them
+function threadRadius(majorDiameter: number, pitch: number, phase: number): number {
+  const depth = 0.613 * pitch;
+  const major = majorDiameter / 2;
+  if (phase < 1 / 8) return major;
+  if (phase < 7 / 16) return major - depth * (phase - 1 / 8) / (5 / 16);
+  if (phase < 11 / 16) return major - depth;
+  return major - depth * (1 - (phase - 11 / 16) / (5 / 16));
+}
+
+// Rod with a single-start right-hand thread, closed with flat ends
+function createThreadGeometry(majorDiameter: number, pitch: number, bottom: number, top: number): THREE.BufferGeometry {
+  const rows = Math.max(1, Math.ceil((top - bottom) / pitch * THREAD_ROWS_PER_PITCH));
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  for (let row = 0; row <= rows; row++) {
+    const y = bottom + (top - bottom) * (row / rows);
+    for (let i = 0; i < THREAD_SEGMENTS; i++) {
+      const turn = i / THREAD_SEGMENTS;
+      const phase = (((y / pitch - turn) % 1) + 1) % 1;
+      const radius = threadRadius(majorDiameter, pitch, phase);
+      const angle = turn * Math.PI * 2;
+      positions.push(Math.cos(angle) * radius, y, -Math.sin(angle) * radius);
+    }
+  }
+
+  const vertex = (row: number, i: number) => row * THREAD_SEGMENTS + (i % THREAD_SEGMENTS);
+  for (let row = 0; row < rows; row++) {
+    for (let i = 0; i < THREAD_SEGMENTS; i++) {
+      indices.push(vertex(row, i), vertex(row, i + 1), vertex(row + 1, i + 1));
+      indices.push(vertex(row, i), vertex(row + 1, i + 1), vertex(row + 1, i));
+    }
+  }
+
+  // Flat ends, fanned from a point on the axis
+  const bottomCentre = positions.length / 3;
+  positions.push(0, bottom, 0, 0, top, 0);
+  for (let i = 0; i < THREAD_SEGMENTS; i++) {
+    indices.push(bottomCentre, vertex(0, i + 1), vertex(0, i));
+    indices.push(bottomCentre + 1, vertex(rows, i), vertex(rows, i + 1));
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// Round post turned from its half profile, with a hole down the middle
+function createPostGeometry(params: HardwareParams, spec: MetricSpec): THREE.BufferGeometry {
+  const height = params.length;
+
+  if (params.kind === 'insert-boss') {
+    const holeRadius = spec.insertDiameter / 2;
+    const outerRadius = spec.insertDiameter;
+    const holeBottom = height - spec.insertLength - INSERT_EXTRA_DEPTH;
+    return new THREE.LatheGeometry([
+      new THREE.Vector2(0, 0),
+      new THREE.Vector2(outerRadius, 0),
+      new THREE.Vector2(outerRadius, height),
+      new THREE.Vector2(holeRadius, height),
+      new THREE.Vector2(holeRadius, holeBottom),
+      new THREE.Vector2(0, holeBottom)
+    ], HOLE_SEGMENTS);
+  }
+
+  // The pilot hole runs all the way through, so the standoff can sit over a boss or a hole
+  const holeRadius = spec.tapDrill / 2;
+  const outerRadius = holeRadius + STANDOFF_WALL;
+  const foot = Math.min(STANDOFF_FOOT, height / 2);
+  return new THREE.LatheGeometry([
+    new THREE.Vector2(holeRadius, 0),
+    new THREE.Vector2(outerRadius + foot, 0),
+    new THREE.Vector2(outerRadius, foot),
+    new THREE.Vector2(outerRadius, height),
+    new THREE.Vector2(holeRadius, height),
+    new THREE.Vector2(holeRadius, 0)
+  ], HOLE_SEGMENTS);
+}
+
+// Bridge with a flat tunnel along Z for the tie
+function createCableTieAnchor(tieWidth: number, tolerance: number): THREE.BufferGeometry {
+  const slotWidth = tieWidth + tolerance;
+  const slotHeight = TIE_THICKNESS + tolerance;
+  const width = slotWidth + ANCHOR_WALL * 2;
+  const height = ANCHOR_FLOOR + slotHeight + ANCHOR_ROOF;
+  const depth = tieWidth + ANCHOR_WALL * 2;
+
+  const shape = new THREE.Shape([
+    new THREE.Vector2(-width / 2, 0),
+    new THREE.Vector2(width / 2, 0),
+    new THREE.Vector2(width / 2, height),
+    new THREE.Vector2(-width / 2, height)
+  ]);
+  shape.holes.push(new THREE.Path([
+    new THREE.Vector2(-slotWidth / 2, ANCHOR_FLOOR),
+    new THREE.Vector2(-slotWidth / 2, ANCHOR_FLOOR + slotHeight),
+    new THREE.Vector2(slotWidth / 2, ANCHOR_FLOOR + slotHeight),
+    new THREE.Vector2(slotWidth / 2, ANCHOR_FLOOR)
+  ]));
+
+  return new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false });
+}
+
+/**
+ * Build the geometry of a hardware part, centred on the origin
+ */
+export function createHardwareGeometry(input: HardwareParams): THREE.BufferGeometry {
+  const params = normalizeHardwareParams(input);
+  const spec = METRIC_SPECS[params.size];
+
+  const geometry = params.kind === 'cable-tie-anchor'
+    ? createCableTieAnchor(params.length, params.tolerance)
+    : params.kind === 'threaded-rod'
+      ? createThreadGeometry(spec.diameter - params.tolerance, spec.pitch, 0, params.length)
+      : getHardwarePart(params.kind).cutter
+      ? createCutterGeometry(params, spec)
+      : createPostGeometry(params, spec);
+
+  geometry.center();
+  return geometry;
+}
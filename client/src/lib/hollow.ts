@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import type { Manifold } from 'manifold-3d';
+import type { Vec3Tuple } from '@shared/quote';
+import { fromManifold, toManifold, toMat4, withManifold } from './manifoldBoolean';
+import { buildDistanceField, getDistanceFieldBounds, getGridSpacing, sampleDistanceField } from './distanceField';
+
+/**
+ * Hollowing - turns a solid model into a shell of even wall thickness so it
+ * prints with less material. The cavity is the model's surface moved inwards
+ * by the wall thickness, built as a level set of a signed distance field so it
+ * stays a clean solid even inside detailed figurines. Drain holes let resin or
+ * powder escape from the cavity.
+ */
+
+export interface HollowSettings {
+  wallThickness: number; // mm
+  holeDiameter: number; // mm
+}
+
+// A drain hole drilled straight into the surface at a point
+export interface DrainHole {
+  point: Vec3Tuple;
+  normal: Vec3Tuple; // Outward surface normal at the point
+}
+
+export const DEFAULT_HOLLOW_SETTINGS: HollowSettings = {
+  wallThickness: 2,
+  holeDiameter: 4,
+};
+
+// How far drain holes reach past the outer surface, so the boolean doesn't meet a coplanar face
+const HOLE_OVERLAP = 0.5;
+
+const HOLE_SEGMENTS = 24;
+
+// The cavity surface may drift this fraction of the wall thickness when it's simplified
+const CAVITY_TOLERANCE = 0.05;
+
+/**
+ * How finely the cavity of a model will be traced. Half the wall thickness keeps the cavity
+ * surface within a fraction of the wall of where it belongs, but large models get a coarser grid.
+ * @param geometry - The model
+ * @param settings - Wall thickness
+ * @returns The grid spacing in mm
+ */
+export function getCavitySpacing(geometry: THREE.BufferGeometry, settings: HollowSettings): number {
+  return getGridSpacing(geometry, settings.wallThickness / 2);
+}
+
+/**
+ * Hollow out a closed mesh, leaving walls of the given thickness
+ * @param geometry - The model, watertight
+ * @param settings - Wall thickness and drain hole size
+ * @param holes - Where to drill drain holes into the cavity, in the same space as the geometry
+ * @param onProgress - Optional progress callback
+ * @returns The hollowed model
+ */
+export async function hollowGeometry(
+  geometry: THREE.BufferGeometry,
+  settings: HollowSettings = DEFAULT_HOLLOW_SETTINGS,
+  holes: DrainHole[] = [],
+  onProgress?: (stage: string, percent: number) => void
+): Promise<THREE.BufferGeometry> {
+  if (!(settings.wallThickness > 0)) {
+    throw new Error('Wall thickness must be greater than zero');
+  }
+  if (holes.length > 0 && !(settings.holeDiameter > 0)) {
+    throw new Error('Drain hole diameter must be greater than zero');
+  }
+
+  onProgress?.('Loading boolean engine', 5);
+  return withManifold((wasm, own) => {
+    onProgress?.('Converting mesh', 10);
+    const solid = own(toManifold(wasm, geometry));
+
+    onProgress?.('Measuring wall distances', 20);
+    const field = buildDistanceField(geometry, getCavitySpacing(geometry, settings), settings.wallThickness);
+
+    onProgress?.('Building inner surface', 50);
+    const surface = own(wasm.Manifold.levelSet(
+      point => sampleDistanceField(field, point),
+      getDistanceFieldBounds(field),
+      field.spacing,
+      settings.wallThickness
+    ));
+    // The level set is evenly dense everywhere; flat stretches of the hidden cavity don't need it
+    const cavity = own(surface.simplify(settings.wallThickness * CAVITY_TOLERANCE));
+    if (cavity.isEmpty()) {
+      throw new Error('Walls this thick leave no room inside; use thinner walls');
+    }
+
+    // Each hole runs inwards along the surface normal, far enough to open into the cavity
+    const radius = settings.holeDiameter / 2;
+    const depth = settings.wallThickness * 1.5 + HOLE_OVERLAP;
+    const drills: Manifold[] = holes.map(hole => {
+      const outward = new THREE.Vector3(...hole.normal).normalize();
+      const frame = new THREE.Matrix4().compose(
+        new THREE.Vector3(...hole.point).addScaledVector(outward, HOLE_OVERLAP),
+        new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), outward.clone().negate()),
+        new THREE.Vector3(1, 1, 1)
+      );
+      return own(own(wasm.Manifold.cylinder(depth + HOLE_OVERLAP, radius, radius, HOLE_SEGMENTS)).transform(toMat4(frame)));
+    });
+
+    onProgress?.(holes.length > 0 ? `Cutting cavity and ${holes.length} drain hole${holes.length === 1 ? '' : 's'}` : 'Cutting cavity', 75);
+    const result = own(wasm.Manifold.difference([solid, cavity, ...drills]));
+    if (result.isEmpty()) {
+      throw new Error('Hollowing removed the whole model');
+    }
+
+    onProgress?.('Building result mesh', 90);
+    return fromManifold(result);
+  });
+}
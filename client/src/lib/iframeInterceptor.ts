@@ -2,6 +2,8 @@ import { useScene } from "@/hooks/use-scene";
 import { toast } from "sonner";
 import * as THREE from 'three';
 import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import { countTriangles } from "./meshSimplify";
+import { MAX_QUOTE_TRIANGLES } from "@shared/quote";
 
 // The allowed origins for messages
 const ALLOWED_ORIGINS = ["https://magic.taiyaki.ai", "https://library.taiyaki.ai"];
@@ -17,6 +19,18 @@ const ALLOWED_ORIGINS = ["https://magic.taiyaki.ai", "https://library.taiyaki.ai
  * Without these headers, the browser's security policy will prevent loading the STL files.
  */
 
+// Suggest simplifying the model just imported if it's heavy enough to slow editing down
+function describeHeavyImport(): string | undefined {
+  const { models } = useScene.getState();
+  const model = models[models.length - 1];
+  if (!model) return undefined;
+
+  const triangles = countTriangles(model.mesh.geometry);
+  return triangles > MAX_QUOTE_TRIANGLES
+    ? `${triangles.toLocaleString()} triangles; simplify it from the transform tools to keep editing responsive and to get a print quote`
+    : undefined;
+}
+
 // Interface for the message data structure
 interface STLImportMessage {
   type: string;
@@ -106,7 +120,8 @@ async function loadSTLFromBase64(base64Data: string, fileName?: string, metadata
     
     // Show success notification
     toast.success(`Imported model from ${origin || "external source"}`, {
-      id: "import-toast"
+      id: "import-toast",
+      description: describeHeavyImport()
     });
     
     // Send success response back to origin
@@ -199,7 +214,8 @@ async function loadSTLFromUrl(url: string, metadata?: STLImportMessage['metadata
     
     // Show success notification
     toast.success(`Imported model from ${origin || "external source"}`, {
-      id: "import-toast"
+      id: "import-toast",
+      description: describeHeavyImport()
     });
     
     // Send success response back to origin
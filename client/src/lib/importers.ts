@@ -0,0 +1,396 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+/**
+ * Format-detecting mesh import pipeline.
+ * Every loader's output is flattened into a single BufferGeometry so it can go
+ * through the same scale dialog and placement logic as STL files.
+ */
+
+export type ModelFormat = 'stl' | 'obj' | 'ply' | '3mf' | 'gltf' | 'glb' | 'step';
+
+// File extensions accepted by the mesh importer, keyed by format
+const FORMAT_EXTENSIONS: Record<ModelFormat, string[]> = {
+  stl: ['stl'],
+  obj: ['obj'],
+  ply: ['ply'],
+  '3mf': ['3mf'],
+  gltf: ['gltf'],
+  glb: ['glb'],
+  step: ['step', 'stp'],
+};
+
+// Comma separated list for <input accept="...">
+export const MODEL_FILE_ACCEPT = Object.values(FORMAT_EXTENSIONS)
+  .flat()
+  .map(ext => `.${ext}`)
+  .join(',');
+
+function getExtension(fileName: string): string {
+  // Ignore query strings on URLs
+  const cleanName = fileName.split(/[?#]/)[0];
+  return cleanName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function isSupportedModelFile(fileName: string): boolean {
+  const ext = getExtension(fileName);
+  return Object.values(FORMAT_EXTENSIONS).some(exts => exts.includes(ext));
+}
+
+// Sniff the format from the file contents when the name doesn't tell us
+function detectFormatFromContents(buffer: ArrayBuffer): ModelFormat | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512));
+  const header = new TextDecoder().decode(bytes);
+
+  if (header.startsWith('glTF')) return 'glb';
+  if (header.startsWith('PK')) return '3mf';
+  if (header.startsWith('ply')) return 'ply';
+  if (header.startsWith('ISO-10303-21')) return 'step';
+  if (header.trimStart().startsWith('{') && header.includes('"asset"')) return 'gltf';
+  if (/^\s*solid\s/.test(header)) return 'stl';
+  if (/^\s*(#.*\n\s*)*(v|o|g|mtllib)\s/m.test(header)) return 'obj';
+
+  // Binary STL has no magic number - check that the size matches the triangle count
+  if (buffer.byteLength >= 84) {
+    const triangleCount = new DataView(buffer).getUint32(80, true);
+    if (84 + triangleCount * 50 === buffer.byteLength) return 'stl';
+  }
+
+  return null;
+}
+
+/**
+ * Work out the format of a model file
+ * @param fileName - Name (or URL) of the file
+ * @param buffer - The file contents
+ */
+export function detectModelFormat(fileName: string, buffer: ArrayBuffer): ModelFormat {
+  const ext = getExtension(fileName);
+  const byExtension = (Object.keys(FORMAT_EXTENSIONS) as ModelFormat[])
+    .find(format => FORMAT_EXTENSIONS[format].includes(ext));
+
+  const format = byExtension || detectFormatFromContents(buffer);
+  if (!format) {
+    throw new Error(`Unsupported model format: ${fileName}`);
+  }
+  return format;
+}
+
+// Copy an attribute's first three components into a Float32Array, one entry per vertex
+function readVec3(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+  const result = new Float32Array(attribute.count * 3);
+  for (let i = 0; i < attribute.count; i++) {
+    result[i * 3] = attribute.getX(i);
+    result[i * 3 + 1] = attribute.itemSize > 1 ? attribute.getY(i) : 0;
+    result[i * 3 + 2] = attribute.itemSize > 2 ? attribute.getZ(i) : 0;
+  }
+  return result;
+}
+
+function getMaterialColor(material: THREE.Material | THREE.Material[]): THREE.Color | null {
+  const first = Array.isArray(material) ? material[0] : material;
+  if (first && 'color' in first && first.color instanceof THREE.Color) {
+    return first.color;
+  }
+  return null;
+}
+
+/**
+ * Flatten every mesh in an object hierarchy into one geometry in world space.
+ * Vertex colors are kept; if parts only differ by material color those colors
+ * are baked into vertex colors so multi-color files survive the import.
+ */
+export function flattenObjectToGeometry(root: THREE.Object3D): THREE.BufferGeometry {
+  root.updateMatrixWorld(true);
+
+  const meshes: THREE.Mesh[] = [];
+  root.traverse(child => {
+    if (child instanceof THREE.Mesh && child.geometry?.getAttribute('position')) {
+      meshes.push(child);
+    }
+  });
+
+  if (meshes.length === 0) {
+    throw new Error('The file does not contain any meshes');
+  }
+
+  const materialColors = new Set(
+    meshes.map(mesh => getMaterialColor(mesh.material)?.getHexString()).filter(Boolean)
+  );
+  const keepColors = meshes.some(mesh => mesh.geometry.getAttribute('color')) || materialColors.size > 1;
+
+  const parts = meshes.map(mesh => {
+    const source = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry;
+    const part = new THREE.BufferGeometry();
+    part.setAttribute('position', new THREE.BufferAttribute(readVec3(source.getAttribute('position')), 3));
+
+    if (keepColors) {
+      const vertexColors = source.getAttribute('color');
+      if (vertexColors) {
+        part.setAttribute('color', new THREE.BufferAttribute(readVec3(vertexColors), 3));
+      } else {
+        const color = getMaterialColor(mesh.material) || new THREE.Color(0xffffff);
+        const colors = new Float32Array(source.getAttribute('position').count * 3);
+        for (let i = 0; i < colors.length; i += 3) {
+          colors[i] = color.r;
+          colors[i + 1] = color.g;
+          colors[i + 2] = color.b;
+        }
+        part.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      }
+    }
+
+    part.applyMatrix4(mesh.matrixWorld);
+    return part;
+  });
+
+  const merged = parts.length === 1 ? parts[0] : BufferGeometryUtils.mergeGeometries(parts);
+  if (!merged) {
+    throw new Error('Failed to merge the meshes in the file');
+  }
+
+  merged.computeVertexNormals();
+  merged.computeBoundingBox();
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// STEP (ISO 10303-21) tessellated geometry
+// ---------------------------------------------------------------------------
+
+type StepValue = number | string | null | StepRef | StepValue[];
+
+interface StepRef {
+  ref: number;
+}
+
+// Minimal parser for the parameter list of a STEP entity
+function parseStepParameters(source: string): StepValue[] {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const parseValue = (): StepValue => {
+    skipWhitespace();
+    const char = source[pos];
+
+    if (char === '(') {
+      pos++;
+      const list: StepValue[] = [];
+      skipWhitespace();
+      if (source[pos] === ')') {
+        pos++;
+        return list;
+      }
+      while (pos < source.length) {
+        list.push(parseValue());
+        skipWhitespace();
+        if (source[pos] === ',') {
+          pos++;
+        } else if (source[pos] === ')') {
+          pos++;
+          break;
+        }
+      }
+      return list;
+    }
+
+    if (char === "'") {
+      let value = '';
+      pos++;
+      while (pos < source.length) {
+        if (source[pos] === "'" && source[pos + 1] === "'") {
+          value += "'";
+          pos += 2;
+        } else if (source[pos] === "'") {
+          pos++;
+          break;
+        } else {
+          value += source[pos++];
+        }
+      }
+      return value;
+    }
+
+    if (char === '#') {
+      pos++;
+      const start = pos;
+      while (pos < source.length && /\d/.test(source[pos])) pos++;
+      return { ref: parseInt(source.slice(start, pos), 10) };
+    }
+
+    // Numbers, enumerations (.T.), unset ($) and derived (*) values
+    const start = pos;
+    while (pos < source.length && !/[,()]/.test(source[pos])) pos++;
+    const token = source.slice(start, pos).trim();
+    if (token === '$' || token === '*' || token === '') return null;
+    if (token.startsWith('.')) return token;
+
+    // Typed parameters such as LENGTH_MEASURE(2.5)
+    if (source[pos] === '(' && /^[A-Z_]+$/i.test(token)) {
+      const inner = parseValue();
+      return Array.isArray(inner) && inner.length === 1 ? inner[0] : inner;
+    }
+
+    const value = parseFloat(token);
+    return isNaN(value) ? token : value;
+  };
+
+  const values = parseValue();
+  return Array.isArray(values) ? values : [values];
+}
+
+// Split the DATA section into #id=ENTITY(...) records, respecting quoted strings
+function readStepEntities(text: string): Map<number, { type: string; params: string }> {
+  const entities = new Map<number, { type: string; params: string }>();
+  const dataStart = text.indexOf('DATA;');
+  const body = dataStart >= 0 ? text.slice(dataStart + 5) : text;
+
+  let record = '';
+  let inString = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    // Skip /* comments */
+    if (!inString && char === '/' && body[i + 1] === '*') {
+      const end = body.indexOf('*/', i + 2);
+      i = end < 0 ? body.length : end + 1;
+      continue;
+    }
+
+    if (char === "'") inString = !inString;
+
+    if (char === ';' && !inString) {
+      const match = record.trim().match(/^#(\d+)\s*=\s*([A-Z0-9_]+)\s*(\([\s\S]*\))$/i);
+      if (match) {
+        entities.set(parseInt(match[1], 10), { type: match[2].toUpperCase(), params: match[3] });
+      }
+      record = '';
+    } else {
+      record += char;
+    }
+  }
+
+  return entities;
+}
+
+function isRef(value: StepValue): value is StepRef {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && 'ref' in value;
+}
+
+/**
+ * Parse the tessellated representation (AP242 TRIANGULATED_FACE and friends)
+ * from a STEP file. Exact B-rep surfaces are not tessellated here, so files
+ * must be exported from CAD with tessellated geometry included.
+ */
+export function parseSTEPTessellation(text: string): THREE.BufferGeometry {
+  const entities = readStepEntities(text);
+  const coordinateCache = new Map<number, number[][]>();
+
+  const getCoordinates = (ref: StepValue): number[][] => {
+    if (!isRef(ref)) return [];
+    const cached = coordinateCache.get(ref.ref);
+    if (cached) return cached;
+
+    const entity = entities.get(ref.ref);
+    if (!entity || entity.type !== 'COORDINATES_LIST') return [];
+    const params = parseStepParameters(entity.params);
+    const points = (params[2] as StepValue[] || []).map(point => (point as number[]).map(Number));
+    coordinateCache.set(ref.ref, points);
+    return points;
+  };
+
+  const positions: number[] = [];
+
+  const addTriangles = (coords: number[][], pnindex: number[], triangles: number[][]) => {
+    // Indices are 1-based and go through pnindex when it is present
+    const lookup = (i: number) => coords[(pnindex.length > 0 ? pnindex[i - 1] : i) - 1];
+    triangles.forEach(([a, b, c]) => {
+      const pa = lookup(a), pb = lookup(b), pc = lookup(c);
+      if (!pa || !pb || !pc) return;
+      positions.push(...pa, ...pb, ...pc);
+    });
+  };
+
+  entities.forEach(entity => {
+    if (entity.type === 'TRIANGULATED_FACE' || entity.type === 'TRIANGULATED_SURFACE_SET') {
+      const params = parseStepParameters(entity.params);
+      const coords = getCoordinates(params[1]);
+      const pnindex = entity.type === 'TRIANGULATED_FACE' ? params[5] : params[4];
+      const triangles = entity.type === 'TRIANGULATED_FACE' ? params[6] : params[5];
+      addTriangles(coords, (pnindex as number[]) || [], (triangles as number[][]) || []);
+    } else if (entity.type === 'COMPLEX_TRIANGULATED_FACE' || entity.type === 'COMPLEX_TRIANGULATED_SURFACE_SET') {
+      const params = parseStepParameters(entity.params);
+      const coords = getCoordinates(params[1]);
+      const isFace = entity.type === 'COMPLEX_TRIANGULATED_FACE';
+      const pnindex = ((isFace ? params[5] : params[4]) as number[]) || [];
+      const strips = ((isFace ? params[6] : params[5]) as number[][]) || [];
+      const fans = ((isFace ? params[7] : params[6]) as number[][]) || [];
+
+      const triangles: number[][] = [];
+      strips.forEach(strip => {
+        for (let i = 2; i < strip.length; i++) {
+          // Alternate winding so every strip triangle faces the same way
+          triangles.push(i % 2 === 0
+            ? [strip[i - 2], strip[i - 1], strip[i]]
+            : [strip[i - 1], strip[i - 2], strip[i]]);
+        }
+      });
+      fans.forEach(fan => {
+        for (let i = 2; i < fan.length; i++) {
+          triangles.push([fan[0], fan[i - 1], fan[i]]);
+        }
+      });
+      addTriangles(coords, pnindex, triangles);
+    }
+  });
+
+  if (positions.length === 0) {
+    throw new Error('The STEP file has no tessellated geometry. Export it from your CAD tool with tessellation enabled.');
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  return geometry;
+}
+
+/**
+ * Parse a model file into a single geometry using the loader for its format
+ * @param buffer - The file contents
+ * @param format - The detected format
+ */
+export async function parseModelFile(buffer: ArrayBuffer, format: ModelFormat): Promise<THREE.BufferGeometry> {
+  switch (format) {
+    case 'stl':
+      return new STLLoader().parse(buffer);
+    case 'ply': {
+      const geometry = new PLYLoader().parse(buffer);
+      if (!geometry.getAttribute('normal')) {
+        geometry.computeVertexNormals();
+      }
+      return geometry;
+    }
+    case 'obj':
+      return flattenObjectToGeometry(new OBJLoader().parse(new TextDecoder().decode(buffer)));
+    case '3mf':
+      return flattenObjectToGeometry(new ThreeMFLoader().parse(buffer));
+    case 'gltf':
+    case 'glb': {
+      const gltf = await new GLTFLoader().parseAsync(buffer, '');
+      return flattenObjectToGeometry(gltf.scene);
+    }
+    case 'step':
+      return parseSTEPTessellation(new TextDecoder().decode(buffer));
+    default:
+      throw new Error(`Unsupported model format: ${format}`);
+  }
+}
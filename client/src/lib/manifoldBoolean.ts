@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import * as BufferGeometryUtils from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import Module from 'manifold-3d';
+import type { ManifoldToplevel, Manifold, Mat4 } from 'manifold-3d';
+import wasmUrl from 'manifold-3d/manifold.wasm?url';
+import { EmptyBooleanResultError, type BooleanBackend, type BooleanOperation } from './booleanBackend';
+
+/**
+ * Boolean backend built on the Manifold library. Results are guaranteed
+ * watertight, which the BSP approach cannot promise for curved primitives.
+ */
+
+let manifoldModule: Promise<ManifoldToplevel> | null = null;
+
+type Disposable = { delete(): void };
+
+// Registers a WASM object to be freed when the task that made it is done
+export type Own = <T extends Disposable>(object: T) => T;
+
+// Load the WASM module once per thread
+export function loadManifold(): Promise<ManifoldToplevel> {
+  if (!manifoldModule) {
+    manifoldModule = Module({ locateFile: () => wasmUrl }).then(wasm => {
+      wasm.setup();
+      return wasm;
+    });
+    // Allow a retry if loading failed
+    manifoldModule.catch(() => { manifoldModule = null; });
+  }
+  return manifoldModule;
+}
+
+// Load the engine and free every WASM object the task owns once it is done
+export async function withManifold<T>(task: (wasm: ManifoldToplevel, own: Own) => T | Promise<T>): Promise<T> {
+  const wasm = await loadManifold();
+
+  // WASM objects are not garbage collected
+  const owned: Disposable[] = [];
+  const own: Own = object => {
+    owned.push(object);
+    return object;
+  };
+
+  try {
+    return await task(wasm, own);
+  } finally {
+    owned.forEach(object => object.delete());
+  }
+}
+
+// three.js and Manifold both store matrices column-major
+export function toMat4(matrix: THREE.Matrix4): Mat4 {
+  return [...matrix.elements] as Mat4;
+}
+
+// Manifold needs shared vertices, so weld on position only and drop collapsed triangles
+export function toManifold(wasm: ManifoldToplevel, geometry: THREE.BufferGeometry): Manifold {
+  const positionOnly = new THREE.BufferGeometry();
+  positionOnly.setAttribute('position', geometry.getAttribute('position').clone());
+  if (geometry.index) {
+    positionOnly.setIndex(geometry.index.clone());
+  }
+  const welded = BufferGeometryUtils.mergeVertices(positionOnly, 1e-5);
+
+  const position = welded.getAttribute('position');
+  const vertProperties = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    vertProperties[i * 3] = position.getX(i);
+    vertProperties[i * 3 + 1] = position.getY(i);
+    vertProperties[i * 3 + 2] = position.getZ(i);
+  }
+
+  const index = welded.index!;
+  const triVerts: number[] = [];
+  for (let i = 0; i + 2 < index.count; i += 3) {
+    const a = index.getX(i);
+    const b = index.getX(i + 1);
+    const c = index.getX(i + 2);
+    if (a === b || b === c || a === c) continue;
+    triVerts.push(a, b, c);
+  }
+
+  const mesh = new wasm.Mesh({ numProp: 3, vertProperties, triVerts: new Uint32Array(triVerts) });
+  mesh.merge();
+
+  const manifold = new wasm.Manifold(mesh);
+  const status = manifold.status();
+  if (status !== 'NoError') {
+    manifold.delete();
+    throw new Error(`Input mesh is not a closed solid (${status})`);
+  }
+  return manifold;
+}
+
+export function fromManifold(manifold: Manifold): THREE.BufferGeometry {
+  const mesh = manifold.getMesh();
+  const geometry = new THREE.BufferGeometry();
+
+  // Only the first three properties are positions
+  const vertexCount = mesh.vertProperties.length / mesh.numProp;
+  const positions = new Float32Array(vertexCount * 3);
+  for (let i = 0; i < vertexCount; i++) {
+    positions[i * 3] = mesh.vertProperties[i * mesh.numProp];
+    positions[i * 3 + 1] = mesh.vertProperties[i * mesh.numProp + 1];
+    positions[i * 3 + 2] = mesh.vertProperties[i * mesh.numProp + 2];
+  }
+
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(mesh.triVerts), 1));
+
+  // Split vertices again so the result keeps flat shading
+  const flat = geometry.toNonIndexed();
+  flat.computeVertexNormals();
+  flat.computeBoundingBox();
+  flat.computeBoundingSphere();
+  return flat;
+}
+
+export const manifoldBackend: BooleanBackend = {
+  name: 'manifold',
+  label: 'Manifold',
+
+  async compute(
+    geometries: THREE.BufferGeometry[],
+    operation: BooleanOperation,
+    onProgress?: (stage: string, percent: number) => void
+  ): Promise<THREE.BufferGeometry> {
+    if (geometries.length < 2) {
+      throw new Error('A boolean operation needs at least two operands');
+    }
+
+    onProgress?.('Loading boolean engine', 10);
+    const wasm = await loadManifold();
+
+    onProgress?.('Converting meshes', 25);
+    const solids: Manifold[] = [];
+    try {
+      geometries.forEach(geometry => solids.push(toManifold(wasm, geometry)));
+      const operands = [...solids];
+
+      onProgress?.(`Computing ${operation}`, 50);
+      let result: Manifold;
+      if (operation === 'union') {
+        result = wasm.Manifold.union(operands);
+      } else if (operation === 'subtract') {
+        // Difference removes every later operand from the first
+        result = wasm.Manifold.difference(operands);
+      } else {
+        result = wasm.Manifold.intersection(operands);
+      }
+      solids.push(result);
+
+      if (result.isEmpty()) {
+        throw new EmptyBooleanResultError(operation === 'intersect'
+          ? "The models don't overlap, so the intersection is empty"
+          : 'The operation produced an empty result');
+      }
+
+      onProgress?.('Building result mesh', 80);
+      return fromManifold(result);
+    } finally {
+      // WASM objects are not garbage collected
+      solids.forEach(solid => solid.delete());
+    }
+  },
+};
@@ -0,0 +1,353 @@
+import * as THREE from 'three';
+import type { Vec3Tuple } from '@shared/quote';
+import { FeatureEdge, findFeatureEdges } from './edgeBlend';
+
+/**
+ * Measurement tool - dimension math, snapping picks to mesh features and
+ * formatting the labels that stay in the scene.
+ * All positions are in world space, in mm.
+ */
+
+export type MeasurementKind = 'distance' | 'edge' | 'angle' | 'radius' | 'face';
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  points: Vec3Tuple[]; // Points the dimension is drawn through, see createMeasurement
+  value: number; // mm, or degrees for an angle
+  faceAngle?: number; // Degrees between two picked faces that aren't parallel
+}
+
+// What a pick landed on after snapping
+export type SnapKind = 'vertex' | 'edge' | 'face';
+
+export interface MeasurementPick {
+  point: THREE.Vector3;
+  snap: SnapKind;
+  normal: THREE.Vector3; // World space normal of the face that was hit
+  edge?: [THREE.Vector3, THREE.Vector3]; // Ends of the nearest sharp edge along the hit triangle
+}
+
+export const MEASUREMENT_KINDS: { kind: MeasurementKind; label: string; picks: number; hint: string }[] = [
+  { kind: 'distance', label: 'Distance', picks: 2, hint: 'Pick two points' },
+  { kind: 'edge', label: 'Edge', picks: 1, hint: 'Pick an edge' },
+  { kind: 'angle', label: 'Angle', picks: 3, hint: 'Pick a point, the corner, then another point' },
+  { kind: 'radius', label: 'Radius', picks: 3, hint: 'Pick three points on a circle or arc' },
+  { kind: 'face', label: 'Faces', picks: 2, hint: 'Pick two faces' }
+];
+
+// Picks closer than this on screen snap to a vertex or edge
+export const SNAP_DISTANCE_PX = 10;
+
+// Faces within this angle of each other are measured as parallel
+const PARALLEL_TOLERANCE_DEG = 1;
+
+const MM_PER_INCH = 25.4;
+
+// How far a triangle corner may sit off a sharp edge and still be on it, in model units
+const ON_EDGE_TOLERANCE = 1e-3;
+
+// Sharp edges of each geometry, found once since hovering snaps on every frame
+const featureEdgeCache = new WeakMap<THREE.BufferGeometry, FeatureEdge[]>();
+
+// The sharp edge a triangle edge lies along, so diagonals across flat faces are never measured
+function findFeatureEdgeAlong(geometry: THREE.BufferGeometry, a: THREE.Vector3, b: THREE.Vector3): THREE.Line3 | null {
+  let edges = featureEdgeCache.get(geometry);
+  if (!edges) {
+    edges = findFeatureEdges(geometry);
+    featureEdgeCache.set(geometry, edges);
+  }
+
+  const closest = new THREE.Vector3();
+  for (const edge of edges) {
+    const line = new THREE.Line3(new THREE.Vector3(...edge.start), new THREE.Vector3(...edge.end));
+    if (line.closestPointToPoint(a, true, closest).distanceTo(a) <= ON_EDGE_TOLERANCE &&
+        line.closestPointToPoint(b, true, closest).distanceTo(b) <= ON_EDGE_TOLERANCE) {
+      return line;
+    }
+  }
+  return null;
+}
+
+export function getPickCount(kind: MeasurementKind): number {
+  return MEASUREMENT_KINDS.find(entry => entry.kind === kind)?.picks ?? 2;
+}
+
+/**
+ * Snap a ray hit to the nearest corner or sharp edge of the triangle it landed on
+ * @param intersection - Hit on a model mesh from the raycaster
+ * @param toScreen - Projects a world point to screen pixels
+ */
+export function snapIntersection(
+  intersection: THREE.Intersection,
+  toScreen: (point: THREE.Vector3) => THREE.Vector2,
+  tolerancePx = SNAP_DISTANCE_PX
+): MeasurementPick {
+  const mesh = intersection.object as THREE.Mesh;
+  const point = intersection.point.clone();
+  const face = intersection.face;
+  const normalMatrix = new THREE.Matrix3().getNormalMatrix(mesh.matrixWorld);
+  const normal = face ? face.normal.clone().applyMatrix3(normalMatrix).normalize() : new THREE.Vector3(0, 1, 0);
+
+  const position = mesh.geometry.getAttribute('position');
+  if (!face || !position) {
+    return { point, snap: 'face', normal };
+  }
+
+  const localCorners = [face.a, face.b, face.c].map(index => new THREE.Vector3().fromBufferAttribute(position, index));
+  const corners = localCorners.map(corner => corner.clone().applyMatrix4(mesh.matrixWorld));
+  const hit = toScreen(point);
+
+  // Nearest corner first, since corners sit on edges too
+  let corner = corners[0];
+  corners.forEach(candidate => {
+    if (candidate.distanceToSquared(point) < corner.distanceToSquared(point)) {
+      corner = candidate;
+    }
+  });
+
+  // Only triangle edges on a sharp edge of the model count; the whole sharp edge is measured
+  let edge: [THREE.Vector3, THREE.Vector3] | undefined;
+  let edgePoint = new THREE.Vector3();
+  let edgeDistance = Infinity;
+  [[0, 1], [1, 2], [2, 0]].forEach(([i, j]) => {
+    const feature = findFeatureEdgeAlong(mesh.geometry, localCorners[i], localCorners[j]);
+    if (!feature) return;
+    const closest = new THREE.Line3(corners[i], corners[j]).closestPointToPoint(point, true, new THREE.Vector3());
+    const distance = closest.distanceTo(point);
+    if (distance < edgeDistance) {
+      edgeDistance = distance;
+      edge = [feature.start.applyMatrix4(mesh.matrixWorld), feature.end.applyMatrix4(mesh.matrixWorld)];
+      edgePoint = closest;
+    }
+  });
+
+  if (toScreen(corner).distanceTo(hit) <= tolerancePx) {
+    return { point: corner.clone(), snap: 'vertex', normal, edge };
+  }
+  if (edge && toScreen(edgePoint).distanceTo(hit) <= tolerancePx) {
+    return { point: edgePoint, snap: 'edge', normal, edge };
+  }
+  return { point, snap: 'face', normal, edge };
+}
+
+// Circle through three points, or null when they are in a line
+export function circleFromPoints(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): { centre: THREE.Vector3; radius: number; normal: THREE.Vector3 } | null {
+  const ab = new THREE.Vector3().subVectors(b, a);
+  const ac = new THREE.Vector3().subVectors(c, a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  const lengthSq = normal.lengthSq();
+  if (lengthSq < 1e-12) {
+    return null;
+  }
+
+  // Circumcentre relative to a: (|ac|^2 (n x ab) + |ab|^2 (ac x n)) / 2|n|^2
+  const offset = new THREE.Vector3().crossVectors(normal, ab).multiplyScalar(ac.lengthSq())
+    .add(new THREE.Vector3().crossVectors(ac, normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * lengthSq);
+
+  return {
+    centre: offset.clone().add(a),
+    radius: offset.length(),
+    normal: normal.normalize()
+  };
+}
+
+/**
+ * Turn the picks for a measurement into the stored dimension
+ * - distance, edge: points are the two ends
+ * - angle: points are the two arm ends with the corner between them
+ * - radius: points are the centre followed by the three picks
+ * - face: points run from the second face to where it lands on the first
+ * Returns null when the picks don't describe the measurement (e.g. points in a line for a radius)
+ */
+export function createMeasurement(kind: MeasurementKind, picks: MeasurementPick[]): Measurement | null {
+  const id = `measurement-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  const toTuple = (point: THREE.Vector3) => point.toArray() as Vec3Tuple;
+
+  switch (kind) {
+    case 'distance': {
+      const [a, b] = picks.map(pick => pick.point);
+      return { id, kind, points: [toTuple(a), toTuple(b)], value: a.distanceTo(b) };
+    }
+    case 'edge': {
+      const edge = picks[0].edge;
+      if (!edge) return null;
+      return { id, kind, points: edge.map(toTuple), value: edge[0].distanceTo(edge[1]) };
+    }
+    case 'angle': {
+      const [a, corner, b] = picks.map(pick => pick.point);
+      const armA = new THREE.Vector3().subVectors(a, corner);
+      const armB = new THREE.Vector3().subVectors(b, corner);
+      if (armA.lengthSq() === 0 || armB.lengthSq() === 0) return null;
+      return { id, kind, points: [toTuple(a), toTuple(corner), toTuple(b)], value: THREE.MathUtils.radToDeg(armA.angleTo(armB)) };
+    }
+    case 'radius': {
+      const circle = circleFromPoints(picks[0].point, picks[1].point, picks[2].point);
+      if (!circle) return null;
+      return { id, kind, points: [toTuple(circle.centre), ...picks.map(pick => toTuple(pick.point))], value: circle.radius };
+    }
+    case 'face': {
+      const [first, second] = picks;
+      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(first.normal, first.point);
+      const foot = plane.projectPoint(second.point, new THREE.Vector3());
+      // Opposite faces of a wall point away from each other, so compare the lines they lie on
+      const angle = THREE.MathUtils.radToDeg(Math.acos(Math.min(1, Math.abs(first.normal.dot(second.normal)))));
+      return {
+        id,
+        kind,
+        points: [toTuple(second.point), toTuple(foot)],
+        value: second.point.distanceTo(foot),
+        ...(angle > PARALLEL_TOLERANCE_DEG ? { faceAngle: angle } : {})
+      };
+    }
+  }
+}
+
+export function formatLength(mm: number, unit: 'mm' | 'in'): string {
+  return unit === 'in' ? `${(mm / MM_PER_INCH).toFixed(3)} in` : `${mm.toFixed(2)} mm`;
+}
+
+// Text of the label drawn next to a measurement
+export function formatMeasurement(measurement: Measurement, unit: 'mm' | 'in'): string {
+  switch (measurement.kind) {
+    case 'angle':
+      return `${measurement.value.toFixed(1)}°`;
+    case 'radius':
+      return `R ${formatLength(measurement.value, unit)}  Ø ${formatLength(measurement.value * 2, unit)}`;
+    case 'face':
+      return measurement.faceAngle !== undefined
+        ? `${formatLength(measurement.value, unit)} (${measurement.faceAngle.toFixed(1)}° apart)`
+        : formatLength(measurement.value, unit);
+    default:
+      return formatLength(measurement.value, unit);
+  }
+}
+
+export const MEASUREMENT_COLOR = 0xffd400;
+
+const LABEL_HEIGHT = 0.05; // Labels keep a fixed size on screen while zooming
+const LABEL_FONT_SIZE = 48;
+const ARC_SEGMENTS = 32;
+const CIRCLE_SEGMENTS = 64;
+
+// Drawn over the models so dimensions stay readable, and never hit by picking rays
+function asOverlay<T extends THREE.Object3D>(object: T): T {
+  object.renderOrder = 1000;
+  object.raycast = () => {};
+  return object;
+}
+
+function createLine(points: THREE.Vector3[], color = MEASUREMENT_COLOR): THREE.Line {
+  return asOverlay(new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints(points),
+    new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+  ));
+}
+
+// Dots marking picked points, a fixed number of pixels across
+export function createPointMarkers(points: THREE.Vector3[], color = MEASUREMENT_COLOR, size = 7): THREE.Points {
+  return asOverlay(new THREE.Points(
+    new THREE.BufferGeometry().setFromPoints(points),
+    new THREE.PointsMaterial({ color, size, sizeAttenuation: false, depthTest: false, transparent: true })
+  ));
+}
+
+function createLabel(text: string, position: THREE.Vector3): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  const font = `${LABEL_FONT_SIZE}px sans-serif`;
+  context.font = font;
+  canvas.width = Math.ceil(context.measureText(text).width) + LABEL_FONT_SIZE;
+  canvas.height = Math.ceil(LABEL_FONT_SIZE * 1.5);
+
+  // Resizing the canvas resets the context
+  context.fillStyle = 'rgba(20, 20, 20, 0.85)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = font;
+  context.fillStyle = `#${new THREE.Color(MEASUREMENT_COLOR).getHexString()}`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = asOverlay(new THREE.Sprite(new THREE.SpriteMaterial({
+    map: texture,
+    sizeAttenuation: false,
+    depthTest: false,
+    transparent: true
+  })));
+  sprite.scale.set(LABEL_HEIGHT * canvas.width / canvas.height, LABEL_HEIGHT, 1);
+  sprite.position.copy(position);
+  return sprite;
+}
+
+// Lines, point markers and the label that show a measurement in the scene
+export function createMeasurementAnnotation(measurement: Measurement, unit: 'mm' | 'in'): THREE.Group {
+  const group = new THREE.Group();
+  group.name = measurement.id;
+  const points = measurement.points.map(point => new THREE.Vector3(...point));
+  const text = formatMeasurement(measurement, unit);
+
+  switch (measurement.kind) {
+    case 'angle': {
+      const [a, corner, b] = points;
+      const directionA = a.clone().sub(corner);
+      const directionB = b.clone().sub(corner);
+      const radius = Math.min(directionA.length(), directionB.length()) * 0.3;
+      directionA.normalize();
+      directionB.normalize();
+
+      // Arc between the arms, swept in the plane they span
+      const angle = directionA.angleTo(directionB);
+      const across = directionB.clone().addScaledVector(directionA, -directionA.dot(directionB)).normalize();
+      const arc = Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => {
+        const t = (angle * i) / ARC_SEGMENTS;
+        return corner.clone()
+          .addScaledVector(directionA, Math.cos(t) * radius)
+          .addScaledVector(across, Math.sin(t) * radius);
+      });
+
+      const bisector = directionA.clone().add(directionB).normalize();
+      group.add(
+        createLine([a, corner, b]),
+        createLine(arc),
+        createPointMarkers(points),
+        createLabel(text, corner.clone().addScaledVector(bisector, radius * 1.4))
+      );
+      break;
+    }
+    case 'radius': {
+      const [centre, ...picks] = points;
+      const circle = circleFromPoints(picks[0], picks[1], picks[2]);
+      const normal = circle?.normal ?? new THREE.Vector3(0, 1, 0);
+      const across = picks[0].clone().sub(centre).normalize();
+      const along = new THREE.Vector3().crossVectors(normal, across);
+      const ring = Array.from({ length: CIRCLE_SEGMENTS + 1 }, (_, i) => {
+        const t = (Math.PI * 2 * i) / CIRCLE_SEGMENTS;
+        return centre.clone()
+          .addScaledVector(across, Math.cos(t) * measurement.value)
+          .addScaledVector(along, Math.sin(t) * measurement.value);
+      });
+
+      group.add(
+        createLine(ring),
+        createLine([centre, picks[0]]),
+        createPointMarkers(points),
+        createLabel(text, centre)
+      );
+      break;
+    }
+    default: {
+      const [start, end] = points;
+      group.add(
+        createLine([start, end]),
+        createPointMarkers([start, end]),
+        createLabel(text, start.clone().lerp(end, 0.5))
+      );
+    }
+  }
+
+  return group;
+}
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import type { Vec3Tuple } from '@shared/quote';
+import { weldVertices } from './meshRepair';
+
+/**
+ * Mesh diagnostics - how heavy and how clean a model is, measured before a
+ * boolean or a slicer trips over it. Sizes are in world space, in mm.
+ */
+
+export interface MeshDiagnostics {
+  triangleCount: number;
+  vertexCount: number; // Distinct positions once coincident vertices are welded
+  shellCount: number; // Disconnected pieces
+  boundaryEdges: number; // Edges used by one triangle, i.e. the rims of holes
+  nonManifoldEdges: number; // Edges shared by more than two triangles
+  isWatertight: boolean;
+  volumeMm3: number;
+  surfaceAreaMm2: number;
+  size: Vec3Tuple; // Bounding box, world axes
+}
+
+// Connectivity doesn't change with the transform, so it's kept per geometry
+interface MeshTopology {
+  positionVersion: number;
+  indexVersion: number;
+  vertexCount: number;
+  shellCount: number;
+  boundaryEdges: number;
+  nonManifoldEdges: number;
+}
+
+const topologyCache = new WeakMap<THREE.BufferGeometry, MeshTopology>();
+
+// Vertex indices of every triangle, three per triangle
+function getCorners(geometry: THREE.BufferGeometry): ArrayLike<number> {
+  if (geometry.index) {
+    return geometry.index.array;
+  }
+  return Array.from({ length: geometry.getAttribute('position').count }, (_, i) => i);
+}
+
+// Bumped whenever the buffer is edited in place
+function getVersion(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): number {
+  return attribute instanceof THREE.InterleavedBufferAttribute ? attribute.data.version : attribute.version;
+}
+
+function findRoot(parents: Int32Array, vertex: number): number {
+  let root = vertex;
+  while (parents[root] !== root) {
+    root = parents[root];
+  }
+  // Flatten the path so later lookups are quick
+  while (parents[vertex] !== root) {
+    const next = parents[vertex];
+    parents[vertex] = root;
+    vertex = next;
+  }
+  return root;
+}
+
+function computeTopology(geometry: THREE.BufferGeometry): MeshTopology {
+  const position = geometry.getAttribute('position');
+  const corners = getCorners(geometry);
+
+  // Weld like mesh repair does, so the two agree on what is open
+  const { remap: welded, sources } = weldVertices(position);
+  const vertexCount = sources.length;
+
+  // Count how many triangles use each edge, and join the vertices of each triangle into shells
+  const edgeUses = new Map<number, number>();
+  const parents = new Int32Array(vertexCount).map((_, i) => i);
+  const used = new Uint8Array(vertexCount);
+  for (let t = 0; t + 2 < corners.length; t += 3) {
+    const triangle = [welded[corners[t]], welded[corners[t + 1]], welded[corners[t + 2]]];
+    // Collapsed triangles have no real edges
+    if (triangle.includes(-1) || triangle[0] === triangle[1] || triangle[1] === triangle[2] || triangle[2] === triangle[0]) {
+      continue;
+    }
+
+    for (let i = 0; i < 3; i++) {
+      const a = triangle[i];
+      const b = triangle[(i + 1) % 3];
+      const key = a < b ? a * vertexCount + b : b * vertexCount + a;
+      edgeUses.set(key, (edgeUses.get(key) ?? 0) + 1);
+
+      used[a] = 1;
+      const rootA = findRoot(parents, a);
+      const rootB = findRoot(parents, b);
+      if (rootA !== rootB) {
+        parents[rootA] = rootB;
+      }
+    }
+  }
+
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  edgeUses.forEach(count => {
+    if (count === 1) boundaryEdges++;
+    else if (count > 2) nonManifoldEdges++;
+  });
+
+  let shellCount = 0;
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    if (used[vertex] && findRoot(parents, vertex) === vertex) {
+      shellCount++;
+    }
+  }
+
+  return {
+    positionVersion: getVersion(position),
+    indexVersion: geometry.index?.version ?? -1,
+    vertexCount,
+    shellCount,
+    boundaryEdges,
+    nonManifoldEdges
+  };
+}
+
+function getTopology(geometry: THREE.BufferGeometry): MeshTopology {
+  const cached = topologyCache.get(geometry);
+  if (
+    cached &&
+    cached.positionVersion === getVersion(geometry.getAttribute('position')) &&
+    cached.indexVersion === (geometry.index?.version ?? -1)
+  ) {
+    return cached;
+  }
+
+  const topology = computeTopology(geometry);
+  topologyCache.set(geometry, topology);
+  return topology;
+}
+
+/**
+ * Measure a mesh and check it is closed and manifold
+ * @param geometry - Mesh geometry in local space
+ * @param matrix - World matrix of the mesh, so volume and size include its scale
+ */
+export function analyzeMeshDiagnostics(geometry: THREE.BufferGeometry, matrix = new THREE.Matrix4()): MeshDiagnostics {
+  const position = geometry.getAttribute('position');
+  if (!position) {
+    throw new Error('Geometry has no position attribute');
+  }
+
+  const corners = getCorners(geometry);
+  const triangleCount = Math.floor(corners.length / 3);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const bounds = new THREE.Box3();
+  let signedVolume = 0;
+  let surfaceArea = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    a.fromBufferAttribute(position, corners[t * 3]).applyMatrix4(matrix);
+    b.fromBufferAttribute(position, corners[t * 3 + 1]).applyMatrix4(matrix);
+    c.fromBufferAttribute(position, corners[t * 3 + 2]).applyMatrix4(matrix);
+
+    // Signed volume of the tetrahedron formed with the origin
+    signedVolume += a.dot(cross.crossVectors(b, c)) / 6;
+    surfaceArea += cross.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a)).length() / 2;
+
+    bounds.expandByPoint(a);
+    bounds.expandByPoint(b);
+    bounds.expandByPoint(c);
+  }
+
+  const topology = getTopology(geometry);
+  const size = bounds.isEmpty() ? new THREE.Vector3() : bounds.getSize(new THREE.Vector3());
+
+  return {
+    triangleCount,
+    vertexCount: topology.vertexCount,
+    shellCount: topology.shellCount,
+    boundaryEdges: topology.boundaryEdges,
+    nonManifoldEdges: topology.nonManifoldEdges,
+    isWatertight: topology.boundaryEdges === 0 && topology.nonManifoldEdges === 0,
+    volumeMm3: Math.abs(signedVolume),
+    surfaceAreaMm2: surfaceArea,
+    size: size.toArray() as Vec3Tuple
+  };
+}
+
+/**
+ * Weight of the model printed solid
+ * @param volumeMm3 - Enclosed volume in mm³
+ * @param density - Filament density in g/cm³
+ */
+export function estimateWeightGrams(volumeMm3: number, density: number): number {
+  return (volumeMm3 / 1000) * density;
+}
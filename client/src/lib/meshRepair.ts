@@ -0,0 +1,519 @@
+import * as THREE from 'three';
+
+/**
+ * Mesh repair - makes imported or generated meshes watertight and consistently
+ * oriented so boolean operations and slicers can work with them
+ */
+
+export interface MeshRepairOptions {
+  // Vertices closer than this (in mm) are merged
+  weldTolerance?: number;
+  // Holes with more boundary edges than this are left open
+  maxHoleEdges?: number;
+  fillHoles?: boolean;
+  fixWinding?: boolean;
+}
+
+export interface MeshRepairReport {
+  weldedVertices: number;
+  degenerateTriangles: number;
+  duplicateTriangles: number;
+  flippedTriangles: number;
+  invertedShells: number;
+  filledHoles: number;
+  unfilledHoles: number;
+  nonManifoldEdges: number;
+  isWatertight: boolean;
+}
+
+export interface MeshRepairResult {
+  geometry: THREE.BufferGeometry;
+  report: MeshRepairReport;
+}
+
+// Vertices closer than this (in mm) are one vertex to repair, diagnostics, edge detection and decimation
+export const WELD_TOLERANCE = 1e-4;
+
+export interface WeldedVertices {
+  remap: Int32Array; // Welded vertex of each input vertex, -1 where the position isn't finite
+  positions: number[]; // Three numbers per welded vertex
+  sources: number[]; // First input vertex of each welded vertex
+}
+
+const DEFAULT_OPTIONS: Required<MeshRepairOptions> = {
+  weldTolerance: WELD_TOLERANCE,
+  maxHoleEdges: 500,
+  fillHoles: true,
+  fixWinding: true,
+};
+
+type Triangle = [number, number, number];
+
+// Original corner for each output corner of a triangle whose last two vertices were swapped
+const FLIPPED_CORNER = [0, 2, 1];
+
+interface EdgeUse {
+  triangle: number;
+}
+
+// Triangles whose winding agrees across every manifold edge between them
+interface Shell {
+  triangles: number[];
+  closed: boolean; // Every edge is shared by exactly two of its triangles
+  volume: number; // Signed, positive when the shell faces outwards
+  bounds: THREE.Box3;
+}
+
+// Skewed so parity rays don't run along the edges of axis-aligned models
+const PARITY_RAY = new THREE.Vector3(0.5224, 0.6135, 0.5922).normalize();
+
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a}_${b}` : `${b}_${a}`;
+}
+
+// True when the triangle walks its edge from a to b rather than from b to a
+function walksForward(triangle: Triangle, a: number, b: number): boolean {
+  for (let i = 0; i < 3; i++) {
+    const from = triangle[i];
+    const to = triangle[(i + 1) % 3];
+    if (from === a && to === b) return true;
+    if (from === b && to === a) return false;
+  }
+  return false;
+}
+
+const edge1 = new THREE.Vector3();
+const edge2 = new THREE.Vector3();
+const rayP = new THREE.Vector3();
+const rayS = new THREE.Vector3();
+
+// Möller-Trumbore, ignoring which side the triangle faces
+function rayCrossesTriangle(origin: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): boolean {
+  edge1.subVectors(b, a);
+  edge2.subVectors(c, a);
+  const p = rayP.crossVectors(PARITY_RAY, edge2);
+  const determinant = edge1.dot(p);
+  if (Math.abs(determinant) < 1e-12) return false;
+
+  const s = rayS.subVectors(origin, a);
+  const u = s.dot(p) / determinant;
+  if (u < 0 || u > 1) return false;
+  const q = s.cross(edge1);
+  const v = PARITY_RAY.dot(q) / determinant;
+  if (v < 0 || u + v > 1) return false;
+  return edge2.dot(q) / determinant > 0;
+}
+
+// True when a point lies inside a closed shell, by the parity of a ray's crossings
+function shellContainsPoint(shell: Shell, point: THREE.Vector3, triangles: Triangle[], vertices: number[]): boolean {
+  if (!shell.bounds.containsPoint(point)) return false;
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  let crossings = 0;
+  shell.triangles.forEach(t => {
+    const [i0, i1, i2] = triangles[t];
+    if (rayCrossesTriangle(point, a.fromArray(vertices, i0 * 3), b.fromArray(vertices, i1 * 3), c.fromArray(vertices, i2 * 3))) {
+      crossings++;
+    }
+  });
+  return crossings % 2 === 1;
+}
+
+function buildEdgeMap(triangles: Triangle[]): Map<string, EdgeUse[]> {
+  const edges = new Map<string, EdgeUse[]>();
+  triangles.forEach((triangle, t) => {
+    for (let i = 0; i < 3; i++) {
+      const a = triangle[i];
+      const b = triangle[(i + 1) % 3];
+      const key = edgeKey(a, b);
+      const uses = edges.get(key);
+      const use = { triangle: t };
+      if (uses) {
+        uses.push(use);
+      } else {
+        edges.set(key, [use]);
+      }
+    }
+  });
+  return edges;
+}
+
+/**
+ * Merge vertices that land in the same cell of a grid the size of the tolerance
+ * @param position - Vertex positions
+ * @param tolerance - Grid spacing in mm
+ */
+export function weldVertices(
+  position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  tolerance = WELD_TOLERANCE
+): WeldedVertices {
+  const positions: number[] = [];
+  const sources: number[] = [];
+  const lookup = new Map<string, number>();
+  const remap = new Int32Array(position.count);
+  const inverseTolerance = 1 / tolerance;
+
+  for (let i = 0; i < position.count; i++) {
+    const x = position.getX(i);
+    const y = position.getY(i);
+    const z = position.getZ(i);
+
+    if (!isFinite(x) || !isFinite(y) || !isFinite(z)) {
+      remap[i] = -1;
+      continue;
+    }
+
+    const key = `${Math.round(x * inverseTolerance)},${Math.round(y * inverseTolerance)},${Math.round(z * inverseTolerance)}`;
+    let welded = lookup.get(key);
+    if (welded === undefined) {
+      welded = sources.length;
+      lookup.set(key, welded);
+      positions.push(x, y, z);
+      sources.push(i);
+    }
+    remap[i] = welded;
+  }
+
+  return { remap, positions, sources };
+}
+
+/**
+ * Repair a geometry: weld duplicate vertices, drop degenerate and duplicate
+ * triangles, make winding consistent (outward facing) and fill holes.
+ * The input is left untouched. Indexed input gives indexed output; non-indexed
+ * input stays non-indexed so flat shading is preserved.
+ */
+export function repairGeometry(
+  geometry: THREE.BufferGeometry,
+  options: MeshRepairOptions = {}
+): MeshRepairResult {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const position = geometry.getAttribute('position');
+  const color = geometry.getAttribute('color');
+  const index = geometry.index;
+  const cornerCount = index ? index.count : position.count;
+
+  const report: MeshRepairReport = {
+    weldedVertices: 0,
+    degenerateTriangles: 0,
+    duplicateTriangles: 0,
+    flippedTriangles: 0,
+    invertedShells: 0,
+    filledHoles: 0,
+    unfilledHoles: 0,
+    nonManifoldEdges: 0,
+    isWatertight: false,
+  };
+
+  // Step 1: weld vertices on a quantized grid
+  const { remap, positions: vertices, sources: vertexSource } = weldVertices(position, settings.weldTolerance);
+
+  const uniqueSourceVertices = index ? new Set(Array.from(index.array)).size : position.count;
+  report.weldedVertices = Math.max(0, uniqueSourceVertices - vertexSource.length);
+
+  // Step 2: drop degenerate and duplicate triangles
+  const triangles: Triangle[] = [];
+  const triangleCorners: number[] = []; // first original corner of each kept triangle, -1 for new ones
+  const triangleFlipped: boolean[] = [];
+  const seen = new Set<string>();
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const minArea = settings.weldTolerance * settings.weldTolerance * 1e-2;
+
+  for (let corner = 0; corner + 2 < cornerCount; corner += 3) {
+    const i0 = remap[index ? index.getX(corner) : corner];
+    const i1 = remap[index ? index.getX(corner + 1) : corner + 1];
+    const i2 = remap[index ? index.getX(corner + 2) : corner + 2];
+
+    if (i0 < 0 || i1 < 0 || i2 < 0 || i0 === i1 || i1 === i2 || i0 === i2) {
+      report.degenerateTriangles++;
+      continue;
+    }
+
+    a.fromArray(vertices, i0 * 3);
+    b.fromArray(vertices, i1 * 3);
+    c.fromArray(vertices, i2 * 3);
+    const area = ab.subVectors(b, a).cross(ac.subVectors(c, a)).length() / 2;
+    if (area < minArea) {
+      report.degenerateTriangles++;
+      continue;
+    }
+
+    const key = [i0, i1, i2].sort((x, y) => x - y).join('_');
+    if (seen.has(key)) {
+      report.duplicateTriangles++;
+      continue;
+    }
+    seen.add(key);
+
+    triangles.push([i0, i1, i2]);
+    triangleCorners.push(corner);
+    triangleFlipped.push(false);
+  }
+
+  let edges = buildEdgeMap(triangles);
+
+  // Step 3: make winding consistent across each connected shell, then point it outwards,
+  // or inwards for cavities
+  if (settings.fixWinding && triangles.length > 0) {
+    const flipped = new Uint8Array(triangles.length);
+    const visited = new Uint8Array(triangles.length);
+    const shells: Shell[] = [];
+
+    for (let start = 0; start < triangles.length; start++) {
+      if (visited[start]) continue;
+
+      const shell: number[] = [];
+      const queue = [start];
+      visited[start] = 1;
+      let closed = true;
+
+      while (queue.length > 0) {
+        const t = queue.pop()!;
+        shell.push(t);
+        const triangle = triangles[t];
+
+        for (let i = 0; i < 3; i++) {
+          const v0 = triangle[i];
+          const v1 = triangle[(i + 1) % 3];
+          const uses = edges.get(edgeKey(v0, v1));
+          // Only propagate across manifold edges
+          if (!uses || uses.length !== 2) {
+            closed = false;
+            continue;
+          }
+
+          const neighbor = uses[0].triangle === t ? uses[1].triangle : uses[0].triangle;
+          if (visited[neighbor]) continue;
+
+          // Adjacent triangles must walk the shared edge in opposite directions
+          const currentForward = walksForward(triangle, v0, v1) !== !!flipped[t];
+          const neighborForward = walksForward(triangles[neighbor], v0, v1);
+          flipped[neighbor] = currentForward === neighborForward ? 1 : 0;
+
+          visited[neighbor] = 1;
+          queue.push(neighbor);
+        }
+      }
+
+      // Signed volume tells us whether the shell faces inwards
+      let volume = 0;
+      const bounds = new THREE.Box3();
+      shell.forEach(t => {
+        const [i0, i1, i2] = triangles[t];
+        a.fromArray(vertices, i0 * 3);
+        b.fromArray(vertices, (flipped[t] ? i2 : i1) * 3);
+        c.fromArray(vertices, (flipped[t] ? i1 : i2) * 3);
+        volume += a.dot(ab.crossVectors(b, c)) / 6;
+        bounds.expandByPoint(a).expandByPoint(b).expandByPoint(c);
+      });
+      shells.push({ triangles: shell, closed, volume, bounds });
+    }
+
+    // A closed shell inside an odd number of others is a cavity wall and faces inwards.
+    // The volume of an open shell says nothing about which way it faces, so it's left alone.
+    const closedShells = shells.filter(shell => shell.closed && shell.volume !== 0);
+    closedShells.forEach(shell => {
+      const [i0, i1, i2] = triangles[shell.triangles[0]];
+      const sample = a.fromArray(vertices, i0 * 3)
+        .add(b.fromArray(vertices, i1 * 3))
+        .add(c.fromArray(vertices, i2 * 3))
+        .divideScalar(3);
+      const depth = closedShells.filter(other =>
+        other !== shell && other.bounds.containsBox(shell.bounds) && shellContainsPoint(other, sample, triangles, vertices)
+      ).length;
+
+      const facesOutwards = shell.volume > 0;
+      if (facesOutwards !== (depth % 2 === 0)) {
+        report.invertedShells++;
+        shell.triangles.forEach(t => { flipped[t] = flipped[t] ? 0 : 1; });
+      }
+    });
+
+    triangles.forEach((triangle, t) => {
+      if (flipped[t]) {
+        report.flippedTriangles++;
+        triangleFlipped[t] = true;
+        const tmp = triangle[1];
+        triangle[1] = triangle[2];
+        triangle[2] = tmp;
+      }
+    });
+
+    edges = buildEdgeMap(triangles);
+  }
+
+  // Step 4: fill holes by walking boundary loops and fanning them from their centroid
+  if (settings.fillHoles) {
+    // A boundary edge a->b on a triangle means the hole runs b->a
+    const boundaryNext = new Map<number, number[]>();
+    edges.forEach((uses, key) => {
+      if (uses.length !== 1) return;
+      const triangle = triangles[uses[0].triangle];
+      for (let i = 0; i < 3; i++) {
+        const from = triangle[i];
+        const to = triangle[(i + 1) % 3];
+        if (edgeKey(from, to) !== key) continue;
+        const list = boundaryNext.get(to);
+        if (list) list.push(from);
+        else boundaryNext.set(to, [from]);
+      }
+    });
+
+    const usedEdges = new Set<string>();
+    boundaryNext.forEach((targets, startVertex) => {
+      targets.forEach(firstTarget => {
+        if (usedEdges.has(`${startVertex}>${firstTarget}`)) return;
+
+        const loop = [startVertex];
+        usedEdges.add(`${startVertex}>${firstTarget}`);
+        let current = firstTarget;
+        let closed = false;
+
+        while (loop.length <= settings.maxHoleEdges) {
+          if (current === startVertex) {
+            closed = true;
+            break;
+          }
+          loop.push(current);
+          const next = (boundaryNext.get(current) || []).find(n => !usedEdges.has(`${current}>${n}`));
+          if (next === undefined) break;
+          usedEdges.add(`${current}>${next}`);
+          current = next;
+        }
+
+        if (!closed || loop.length < 3) {
+          report.unfilledHoles++;
+          return;
+        }
+
+        if (loop.length === 3) {
+          triangles.push([loop[0], loop[1], loop[2]]);
+          triangleCorners.push(-1);
+          triangleFlipped.push(false);
+        } else {
+          const centroid = new THREE.Vector3();
+          loop.forEach(v => centroid.add(a.fromArray(vertices, v * 3)));
+          centroid.divideScalar(loop.length);
+
+          const centerIndex = vertexSource.length;
+          vertices.push(centroid.x, centroid.y, centroid.z);
+          vertexSource.push(vertexSource[loop[0]]);
+
+          for (let i = 0; i < loop.length; i++) {
+            triangles.push([centerIndex, loop[i], loop[(i + 1) % loop.length]]);
+            triangleCorners.push(-1);
+            triangleFlipped.push(false);
+          }
+        }
+        report.filledHoles++;
+      });
+    });
+
+    edges = buildEdgeMap(triangles);
+  }
+
+  // Final topology check
+  let boundaryEdges = 0;
+  edges.forEach(uses => {
+    if (uses.length === 1) boundaryEdges++;
+    if (uses.length > 2) report.nonManifoldEdges++;
+  });
+  report.isWatertight = boundaryEdges === 0 && report.nonManifoldEdges === 0 && triangles.length > 0;
+
+  // Build the output geometry
+  const result = new THREE.BufferGeometry();
+  const readColor = (sourceVertex: number, out: number[]) => {
+    if (!color) return;
+    out.push(color.getX(sourceVertex), color.getY(sourceVertex), color.getZ(sourceVertex));
+  };
+
+  if (index) {
+    const colors: number[] = [];
+    vertexSource.forEach(source => readColor(source, colors));
+    result.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    if (color) result.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    result.setIndex(triangles.flat());
+  } else {
+    const positions = new Float32Array(triangles.length * 9);
+    const colors: number[] = [];
+    triangles.forEach((triangle, t) => {
+      const corner = triangleCorners[t];
+      triangle.forEach((v, k) => {
+        positions[t * 9 + k * 3] = vertices[v * 3];
+        positions[t * 9 + k * 3 + 1] = vertices[v * 3 + 1];
+        positions[t * 9 + k * 3 + 2] = vertices[v * 3 + 2];
+        // Keep per-corner colors for original triangles so color borders stay sharp
+        const source = corner >= 0 ? corner + (triangleFlipped[t] ? FLIPPED_CORNER[k] : k) : vertexSource[v];
+        readColor(source, colors);
+      });
+    });
+    result.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    if (color) result.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  }
+
+  result.computeVertexNormals();
+  result.computeBoundingBox();
+  result.computeBoundingSphere();
+
+  return { geometry: result, report };
+}
+
+// True when the repair changed the surface rather than just re-indexing it
+export function repairChangedMesh(report: MeshRepairReport): boolean {
+  return report.degenerateTriangles > 0
+    || report.duplicateTriangles > 0
+    || report.flippedTriangles > 0
+    || report.filledHoles > 0;
+}
+
+/**
+ * Human readable summary of a repair report
+ */
+export function formatRepairReport(report: MeshRepairReport): string {
+  const fixes: string[] = [];
+  if (report.degenerateTriangles > 0) fixes.push(`removed ${report.degenerateTriangles} degenerate triangles`);
+  if (report.duplicateTriangles > 0) fixes.push(`removed ${report.duplicateTriangles} duplicate triangles`);
+  if (report.flippedTriangles > 0) fixes.push(`fixed winding on ${report.flippedTriangles} triangles`);
+  if (report.filledHoles > 0) fixes.push(`filled ${report.filledHoles} holes`);
+
+  let summary = fixes.length > 0 ? `Mesh repaired: ${fixes.join(', ')}.` : 'No repairs were needed.';
+  if (!report.isWatertight) {
+    const problems: string[] = [];
+    if (report.unfilledHoles > 0) problems.push(`${report.unfilledHoles} holes could not be filled`);
+    if (report.nonManifoldEdges > 0) problems.push(`${report.nonManifoldEdges} non-manifold edges remain`);
+    summary += problems.length > 0 ? ` ${problems.join(', ')}.` : ' The mesh is still not watertight.';
+  }
+  return summary;
+}
+
+// Combine the reports from several meshes (e.g. both operands of a boolean)
+export function mergeRepairReports(reports: MeshRepairReport[]): MeshRepairReport {
+  const empty: MeshRepairReport = {
+    weldedVertices: 0,
+    degenerateTriangles: 0,
+    duplicateTriangles: 0,
+    flippedTriangles: 0,
+    invertedShells: 0,
+    filledHoles: 0,
+    unfilledHoles: 0,
+    nonManifoldEdges: 0,
+    isWatertight: true,
+  };
+  return reports.reduce((total, report) => ({
+    weldedVertices: total.weldedVertices + report.weldedVertices,
+    degenerateTriangles: total.degenerateTriangles + report.degenerateTriangles,
+    duplicateTriangles: total.duplicateTriangles + report.duplicateTriangles,
+    flippedTriangles: total.flippedTriangles + report.flippedTriangles,
+    invertedShells: total.invertedShells + report.invertedShells,
+    filledHoles: total.filledHoles + report.filledHoles,
+    unfilledHoles: total.unfilledHoles + report.unfilledHoles,
+    nonManifoldEdges: total.nonManifoldEdges + report.nonManifoldEdges,
+    isWatertight: total.isWatertight && report.isWatertight,
+  }), empty);
+}
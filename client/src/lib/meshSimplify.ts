@@ -0,0 +1,490 @@
+import * as THREE from 'three';
+import { fromManifold, toManifold, withManifold } from './manifoldBoolean';
+import { weldVertices } from './meshRepair';
+import { buildDistanceField, getDistanceFieldBounds, getGridSpacing, sampleDistanceField } from './distanceField';
+
+/**
+ * Mesh simplification for heavy imports. Decimation collapses the edges whose
+ * removal moves the surface least (quadric error metrics), until the mesh
+ * fits a triangle budget or the next collapse would move the surface further
+ * than a tolerance. An optional remesh then rebuilds the surface from a
+ * distance field, giving even, well-shaped triangles that booleans handle
+ * reliably.
+ */
+
+export type SimplifyTarget = 'triangles' | 'tolerance';
+
+export interface SimplifyOptions {
+  target: SimplifyTarget;
+  triangleCount: number; // Budget when targeting a triangle count
+  tolerance: number; // mm the surface may move when targeting a tolerance
+  remesh: boolean;
+  edgeLength: number; // mm, for the remesh
+}
+
+export const DEFAULT_SIMPLIFY_OPTIONS: SimplifyOptions = {
+  target: 'triangles',
+  triangleCount: 100000,
+  tolerance: 0.05,
+  remesh: false,
+  edgeLength: 1,
+};
+
+// Collapses are allowed up to an error that grows each pass: SCALE * (pass + 3) ^ GROWTH, in mm²
+const THRESHOLD_SCALE = 1e-9;
+const THRESHOLD_GROWTH = 7;
+const MAX_PASSES = 100;
+
+// Deleted triangles are cleared out and adjacency rebuilt every few passes
+const COMPACT_INTERVAL = 5;
+
+// A collapse is refused if it turns a neighbouring triangle this far or leaves it this thin
+const MIN_NORMAL_AGREEMENT = 0.2;
+const MAX_EDGE_ALIGNMENT = 0.999;
+
+/**
+ * Indexed triangle mesh being decimated. Quadrics are stored as the ten
+ * unique entries of a symmetric 4x4 matrix.
+ */
+interface DecimationMesh {
+  positions: Float64Array;
+  quadrics: Float64Array;
+  border: Uint8Array;
+  refStart: Int32Array; // Each vertex's run in the triangle references
+  refCount: Int32Array;
+  refTriangle: number[]; // Triangle, and which of its corners the vertex is
+  refCorner: number[];
+  corners: Int32Array;
+  errors: Float64Array; // Three edge errors and their minimum per triangle
+  normals: Float64Array;
+  deleted: Uint8Array;
+  dirty: Uint8Array;
+  triangleCount: number;
+}
+
+export function countTriangles(geometry: THREE.BufferGeometry): number {
+  return Math.floor((geometry.index ? geometry.index.count : geometry.getAttribute('position').count) / 3);
+}
+
+function addPlaneQuadric(quadrics: Float64Array, vertex: number, a: number, b: number, c: number, d: number) {
+  const o = vertex * 10;
+  quadrics[o] += a * a; quadrics[o + 1] += a * b; quadrics[o + 2] += a * c; quadrics[o + 3] += a * d;
+  quadrics[o + 4] += b * b; quadrics[o + 5] += b * c; quadrics[o + 6] += b * d;
+  quadrics[o + 7] += c * c; quadrics[o + 8] += c * d;
+  quadrics[o + 9] += d * d;
+}
+
+// Sum of squared distances from a point to the planes folded into a quadric
+function quadricError(q: Float64Array, x: number, y: number, z: number): number {
+  return q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+    + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+    + q[7] * z * z + 2 * q[8] * z + q[9];
+}
+
+function det3(q: Float64Array, a11: number, a12: number, a13: number, a21: number, a22: number, a23: number, a31: number, a32: number, a33: number): number {
+  return q[a11] * q[a22] * q[a33] + q[a13] * q[a21] * q[a32] + q[a12] * q[a23] * q[a31]
+    - q[a13] * q[a22] * q[a31] - q[a11] * q[a23] * q[a32] - q[a12] * q[a21] * q[a33];
+}
+
+// Scratch quadric for an edge, the sum of its two vertices' quadrics
+const edgeQuadric = new Float64Array(10);
+
+/**
+ * Error of collapsing an edge, and where the merged vertex should go. The
+ * best spot solves the summed quadric; on borders or flat regions with no
+ * unique solution the ends and midpoint are tried instead.
+ */
+function edgeCollapseError(mesh: DecimationMesh, v0: number, v1: number, target: Float64Array): number {
+  const { positions, quadrics } = mesh;
+  for (let i = 0; i < 10; i++) {
+    edgeQuadric[i] = quadrics[v0 * 10 + i] + quadrics[v1 * 10 + i];
+  }
+
+  const det = det3(edgeQuadric, 0, 1, 2, 1, 4, 5, 2, 5, 7);
+  if (det !== 0 && !(mesh.border[v0] && mesh.border[v1])) {
+    target[0] = -det3(edgeQuadric, 1, 2, 3, 4, 5, 6, 5, 7, 8) / det;
+    target[1] = det3(edgeQuadric, 0, 2, 3, 1, 5, 6, 2, 7, 8) / det;
+    target[2] = -det3(edgeQuadric, 0, 1, 3, 1, 4, 6, 2, 5, 8) / det;
+    return quadricError(edgeQuadric, target[0], target[1], target[2]);
+  }
+
+  const candidates = [
+    [positions[v0 * 3], positions[v0 * 3 + 1], positions[v0 * 3 + 2]],
+    [positions[v1 * 3], positions[v1 * 3 + 1], positions[v1 * 3 + 2]],
+    [(positions[v0 * 3] + positions[v1 * 3]) / 2, (positions[v0 * 3 + 1] + positions[v1 * 3 + 1]) / 2, (positions[v0 * 3 + 2] + positions[v1 * 3 + 2]) / 2]
+  ];
+  let best = Infinity;
+  candidates.forEach(([x, y, z]) => {
+    const error = quadricError(edgeQuadric, x, y, z);
+    if (error < best) {
+      best = error;
+      target[0] = x;
+      target[1] = y;
+      target[2] = z;
+    }
+  });
+  return best;
+}
+
+const scratchTarget = new Float64Array(3);
+
+function updateTriangleErrors(mesh: DecimationMesh, triangle: number) {
+  const { corners, errors } = mesh;
+  const base = triangle * 3;
+  let min = Infinity;
+  for (let j = 0; j < 3; j++) {
+    const error = edgeCollapseError(mesh, corners[base + j], corners[base + (j + 1) % 3], scratchTarget);
+    errors[triangle * 4 + j] = error;
+    min = Math.min(min, error);
+  }
+  errors[triangle * 4 + 3] = min;
+}
+
+// Drop deleted triangles, then rebuild which triangles use each vertex
+function compactMesh(mesh: DecimationMesh, firstPass: boolean) {
+  const { corners, errors, normals, deleted, refStart, refCount } = mesh;
+
+  if (!firstPass) {
+    let kept = 0;
+    for (let t = 0; t < mesh.triangleCount; t++) {
+      if (deleted[t]) continue;
+      if (kept !== t) {
+        corners.copyWithin(kept * 3, t * 3, t * 3 + 3);
+        errors.copyWithin(kept * 4, t * 4, t * 4 + 4);
+        normals.copyWithin(kept * 3, t * 3, t * 3 + 3);
+      }
+      deleted[kept] = 0;
+      kept++;
+    }
+    mesh.triangleCount = kept;
+  }
+
+  refCount.fill(0);
+  for (let c = 0; c < mesh.triangleCount * 3; c++) {
+    refCount[corners[c]]++;
+  }
+  let start = 0;
+  for (let v = 0; v < refCount.length; v++) {
+    refStart[v] = start;
+    start += refCount[v];
+    refCount[v] = 0;
+  }
+  mesh.refTriangle.length = start;
+  mesh.refCorner.length = start;
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    for (let j = 0; j < 3; j++) {
+      const v = corners[t * 3 + j];
+      const slot = refStart[v] + refCount[v]++;
+      mesh.refTriangle[slot] = t;
+      mesh.refCorner[slot] = j;
+    }
+  }
+}
+
+// Vertices on an open edge, which only one triangle uses
+function findBorderVertices(mesh: DecimationMesh) {
+  const { corners, refStart, refCount, refTriangle, border } = mesh;
+  const seen = new Map<number, number>();
+  for (let v = 0; v < refCount.length; v++) {
+    seen.clear();
+    for (let k = 0; k < refCount[v]; k++) {
+      const t = refTriangle[refStart[v] + k];
+      for (let j = 0; j < 3; j++) {
+        const other = corners[t * 3 + j];
+        seen.set(other, (seen.get(other) ?? 0) + 1);
+      }
+    }
+    seen.forEach((count, other) => {
+      if (count === 1) border[other] = 1;
+    });
+  }
+}
+
+function initializeQuadrics(mesh: DecimationMesh) {
+  const { positions, corners, normals, quadrics } = mesh;
+  const a = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    a.fromArray(positions, corners[t * 3] * 3);
+    ab.fromArray(positions, corners[t * 3 + 1] * 3).sub(a);
+    ac.fromArray(positions, corners[t * 3 + 2] * 3).sub(a);
+    normal.crossVectors(ab, ac).normalize();
+    normals[t * 3] = normal.x;
+    normals[t * 3 + 1] = normal.y;
+    normals[t * 3 + 2] = normal.z;
+    for (let j = 0; j < 3; j++) {
+      addPlaneQuadric(quadrics, corners[t * 3 + j], normal.x, normal.y, normal.z, -normal.dot(a));
+    }
+  }
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    updateTriangleErrors(mesh, t);
+  }
+}
+
+const flipA = new THREE.Vector3();
+const flipB = new THREE.Vector3();
+const flipNormal = new THREE.Vector3();
+
+/**
+ * Would moving vertex v0 to the target fold over or squash one of its
+ * triangles? Triangles that also use v1 vanish with the edge, and are
+ * flagged in `removed`.
+ */
+function collapseFlips(mesh: DecimationMesh, target: Float64Array, v0: number, v1: number, removed: Uint8Array): boolean {
+  const { positions, corners, normals, deleted, refStart, refCount, refTriangle, refCorner } = mesh;
+  for (let k = 0; k < refCount[v0]; k++) {
+    const t = refTriangle[refStart[v0] + k];
+    if (deleted[t]) continue;
+
+    const s = refCorner[refStart[v0] + k];
+    const id1 = corners[t * 3 + (s + 1) % 3];
+    const id2 = corners[t * 3 + (s + 2) % 3];
+    if (id1 === v1 || id2 === v1) {
+      removed[k] = 1;
+      continue;
+    }
+    removed[k] = 0;
+
+    flipA.set(positions[id1 * 3] - target[0], positions[id1 * 3 + 1] - target[1], positions[id1 * 3 + 2] - target[2]).normalize();
+    flipB.set(positions[id2 * 3] - target[0], positions[id2 * 3 + 1] - target[1], positions[id2 * 3 + 2] - target[2]).normalize();
+    if (Math.abs(flipA.dot(flipB)) > MAX_EDGE_ALIGNMENT) return true;
+
+    flipNormal.crossVectors(flipA, flipB).normalize();
+    if (flipNormal.x * normals[t * 3] + flipNormal.y * normals[t * 3 + 1] + flipNormal.z * normals[t * 3 + 2] < MIN_NORMAL_AGREEMENT) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Point the surviving triangles of vertex v at v0, deleting the ones the collapse flattened
+function retargetTriangles(mesh: DecimationMesh, v0: number, v: number, removed: Uint8Array): number {
+  const { corners, deleted, dirty, refStart, refCount, refTriangle, refCorner } = mesh;
+  let deletedCount = 0;
+  for (let k = 0; k < refCount[v]; k++) {
+    const t = refTriangle[refStart[v] + k];
+    const s = refCorner[refStart[v] + k];
+    if (deleted[t]) continue;
+    if (removed[k]) {
+      deleted[t] = 1;
+      deletedCount++;
+      continue;
+    }
+    corners[t * 3 + s] = v0;
+    dirty[t] = 1;
+    updateTriangleErrors(mesh, t);
+    refTriangle.push(t);
+    refCorner.push(s);
+  }
+  return deletedCount;
+}
+
+/**
+ * Collapse edges in order of increasing error until the budget is met or
+ * every remaining collapse costs more than the largest error allowed
+ */
+function decimate(
+  mesh: DecimationMesh,
+  targetCount: number,
+  maxError: number,
+  onPass?: (remaining: number) => void
+) {
+  let remaining = mesh.triangleCount;
+  let removed0 = new Uint8Array(16);
+  let removed1 = new Uint8Array(16);
+  const target = new Float64Array(3);
+  const startCount = mesh.triangleCount;
+
+  for (let pass = 0; pass < MAX_PASSES && remaining > targetCount; pass++) {
+    if (pass % COMPACT_INTERVAL === 0) {
+      compactMesh(mesh, pass === 0);
+      if (pass === 0) {
+        findBorderVertices(mesh);
+        initializeQuadrics(mesh);
+      }
+    }
+    mesh.dirty.fill(0);
+
+    const threshold = Math.min(maxError, THRESHOLD_SCALE * Math.pow(pass + 3, THRESHOLD_GROWTH));
+    let collapsed = false;
+
+    for (let t = 0; t < mesh.triangleCount && remaining > targetCount; t++) {
+      if (mesh.errors[t * 4 + 3] > threshold || mesh.deleted[t] || mesh.dirty[t]) continue;
+
+      for (let j = 0; j < 3; j++) {
+        if (mesh.errors[t * 4 + j] > threshold) continue;
+        const v0 = mesh.corners[t * 3 + j];
+        const v1 = mesh.corners[t * 3 + (j + 1) % 3];
+        if (mesh.border[v0] !== mesh.border[v1]) continue;
+
+        edgeCollapseError(mesh, v0, v1, target);
+        if (removed0.length < mesh.refCount[v0]) removed0 = new Uint8Array(mesh.refCount[v0] * 2);
+        if (removed1.length < mesh.refCount[v1]) removed1 = new Uint8Array(mesh.refCount[v1] * 2);
+        if (collapseFlips(mesh, target, v0, v1, removed0) || collapseFlips(mesh, target, v1, v0, removed1)) continue;
+
+        // Merge v1 into v0
+        mesh.positions.set(target, v0 * 3);
+        for (let i = 0; i < 10; i++) {
+          mesh.quadrics[v0 * 10 + i] += mesh.quadrics[v1 * 10 + i];
+        }
+
+        const refsBefore = mesh.refTriangle.length;
+        remaining -= retargetTriangles(mesh, v0, v0, removed0);
+        remaining -= retargetTriangles(mesh, v0, v1, removed1);
+        const refsAdded = mesh.refTriangle.length - refsBefore;
+
+        // Reuse v0's old run of references when the new one fits in it
+        if (refsAdded <= mesh.refCount[v0]) {
+          for (let k = 0; k < refsAdded; k++) {
+            mesh.refTriangle[mesh.refStart[v0] + k] = mesh.refTriangle[refsBefore + k];
+            mesh.refCorner[mesh.refStart[v0] + k] = mesh.refCorner[refsBefore + k];
+          }
+          mesh.refTriangle.length = refsBefore;
+          mesh.refCorner.length = refsBefore;
+        } else {
+          mesh.refStart[v0] = refsBefore;
+        }
+        mesh.refCount[v0] = refsAdded;
+        collapsed = true;
+        break;
+      }
+    }
+
+    onPass?.(remaining);
+
+    // Once the threshold has reached the tolerance, a pass with nothing to collapse is the end
+    if (!collapsed && threshold >= maxError) break;
+  }
+
+  compactMesh(mesh, false);
+  console.log(`Decimated ${startCount} triangles to ${mesh.triangleCount}`);
+}
+
+function createDecimationMesh(geometry: THREE.BufferGeometry): DecimationMesh {
+  // Weld on position only, so seams in normals or UVs don't split the surface
+  const welded = weldVertices(geometry.getAttribute('position'));
+  const vertexCount = welded.sources.length;
+  const corner = (i: number) => welded.remap[geometry.index ? geometry.index.getX(i) : i];
+  const cornerCount = geometry.index ? geometry.index.count : geometry.getAttribute('position').count;
+
+  // Welding can collapse tiny triangles to a line or a point
+  const corners: number[] = [];
+  for (let i = 0; i + 2 < cornerCount; i += 3) {
+    const a = corner(i);
+    const b = corner(i + 1);
+    const c = corner(i + 2);
+    if (a >= 0 && b >= 0 && c >= 0 && a !== b && b !== c && a !== c) {
+      corners.push(a, b, c);
+    }
+  }
+  const triangleCount = corners.length / 3;
+
+  return {
+    positions: Float64Array.from(welded.positions),
+    quadrics: new Float64Array(vertexCount * 10),
+    border: new Uint8Array(vertexCount),
+    refStart: new Int32Array(vertexCount),
+    refCount: new Int32Array(vertexCount),
+    refTriangle: [],
+    refCorner: [],
+    corners: Int32Array.from(corners),
+    errors: new Float64Array(triangleCount * 4),
+    normals: new Float64Array(triangleCount * 3),
+    deleted: new Uint8Array(triangleCount),
+    dirty: new Uint8Array(triangleCount),
+    triangleCount
+  };
+}
+
+// Flat-shaded geometry of the triangles left, like boolean results
+function toGeometry(mesh: DecimationMesh): THREE.BufferGeometry {
+  const positions = new Float32Array(mesh.triangleCount * 9);
+  for (let c = 0; c < mesh.triangleCount * 3; c++) {
+    const v = mesh.corners[c];
+    positions[c * 3] = mesh.positions[v * 3];
+    positions[c * 3 + 1] = mesh.positions[v * 3 + 1];
+    positions[c * 3 + 2] = mesh.positions[v * 3 + 2];
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * Reduce the triangle count of a mesh, optionally remeshing it evenly
+ * @param geometry - The model; only the remesh needs it to be a closed solid
+ * @param options - Triangle budget or tolerance, and remesh settings
+ * @param onProgress - Optional progress callback
+ * @returns The simplified model
+ */
+export async function simplifyGeometry(
+  geometry: THREE.BufferGeometry,
+  options: SimplifyOptions = DEFAULT_SIMPLIFY_OPTIONS,
+  onProgress?: (stage: string, percent: number) => void
+): Promise<THREE.BufferGeometry> {
+  if (options.target === 'triangles' && !(options.triangleCount >= 4)) {
+    throw new Error('Keep at least 4 triangles');
+  }
+  if (options.target === 'tolerance' && !(options.tolerance > 0)) {
+    throw new Error('Tolerance must be greater than zero');
+  }
+  if (options.remesh && !(options.edgeLength > 0)) {
+    throw new Error('Remesh edge length must be greater than zero');
+  }
+  if (options.remesh) {
+    // The remesh grid is capped in size, so big models can't have edges as short as small ones
+    const shortestEdge = Math.ceil(getGridSpacing(geometry, 0) * 100) / 100;
+    if (options.edgeLength < shortestEdge) {
+      throw new Error(`Edges shorter than ${shortestEdge} mm are too fine for a model this size; use a longer edge length`);
+    }
+  }
+
+  onProgress?.('Preparing mesh', 5);
+  const mesh = createDecimationMesh(geometry);
+  const startCount = mesh.triangleCount;
+  const targetCount = options.target === 'triangles' ? options.triangleCount : 0;
+  const maxError = options.target === 'tolerance' ? options.tolerance * options.tolerance : Infinity;
+
+  decimate(mesh, targetCount, maxError, remaining => {
+    const done = options.target === 'triangles' && startCount > targetCount
+      ? (startCount - remaining) / (startCount - targetCount)
+      : 0.5;
+    onProgress?.(`Decimating (${remaining} triangles)`, 10 + Math.min(1, done) * (options.remesh ? 40 : 80));
+  });
+  const decimated = toGeometry(mesh);
+  if (!options.remesh) {
+    return decimated;
+  }
+
+  // Decimating first keeps the distance field quick to build on heavy imports
+  onProgress?.('Loading mesh engine', 50);
+  return withManifold((wasm, own) => {
+    try {
+      own(toManifold(wasm, decimated));
+    } catch {
+      throw new Error('Remeshing needs a closed solid; repair the mesh first');
+    }
+
+    onProgress?.('Measuring surface distances', 55);
+    const field = buildDistanceField(decimated, options.edgeLength, 0);
+    decimated.dispose();
+
+    onProgress?.('Remeshing', 75);
+    const remeshed = own(wasm.Manifold.levelSet(
+      point => sampleDistanceField(field, point),
+      getDistanceFieldBounds(field),
+      field.spacing,
+      0
+    ));
+    if (remeshed.isEmpty()) {
+      throw new Error('Remeshing lost the whole model; try a shorter edge length');
+    }
+    onProgress?.('Building result mesh', 90);
+    return fromManifold(remeshed);
+  });
+}
@@ -0,0 +1,351 @@
+import * as THREE from 'three';
+import type { CrossSection, Manifold, ManifoldToplevel, SimplePolygon, Vec2 } from 'manifold-3d';
+import type { Vec3Tuple } from '@shared/quote';
+import type { BuildPlate } from './arrange';
+import { fromManifold, toManifold, toMat4, withManifold, type Own } from './manifoldBoolean';
+
+/**
+ * Model splitting - cuts a solid along planes into closed pieces so a part
+ * larger than the printer can be printed in sections and glued together.
+ * Pegs and holes or sliding dovetails on the cut faces line the pieces up.
+ * Every cut face is capped, so the pieces stay watertight.
+ */
+
+// World space plane through the points p where normal · p = offset
+export interface SplitPlane {
+  normal: Vec3Tuple;
+  offset: number;
+}
+
+export type ConnectorType = 'none' | 'peg' | 'dovetail';
+
+// What a single plane cut keeps: the side the normal points to, the other side,
+// both sides as separate pieces, or a slab centred on the plane
+export type CutKeep = 'above' | 'below' | 'both' | 'section';
+
+export interface ConnectorOptions {
+  type: ConnectorType;
+  size: number; // mm; peg diameter, or dovetail width where it leaves the cut face
+  depth: number; // mm the connector reaches into the mating piece
+  clearance: number; // mm of play between a connector and its socket
+}
+
+export interface SplitResult {
+  geometries: THREE.BufferGeometry[]; // World space, one per piece
+  connectorCount: number;
+  skippedFaces: number; // Cut faces too small to take a connector
+}
+
+export const DEFAULT_CONNECTOR_OPTIONS: ConnectorOptions = {
+  type: 'peg',
+  size: 6,
+  depth: 8,
+  clearance: 0.2,
+};
+
+// Material left between a connector and the outside of the part
+const MIN_WALL = 1.2;
+
+// How far a connector reaches back into its own piece so the union fuses
+const CONNECTOR_EMBED = 1;
+
+// Flank angle of a dovetail away from the cut normal
+const DOVETAIL_ANGLE = THREE.MathUtils.degToRad(15);
+
+// Sample grid across a cut face when looking for connector spots
+const PLACEMENT_GRID = 8;
+
+// Pieces smaller than this (mm³) are slivers from cutting right at the surface
+const MIN_PIECE_VOLUME = 1e-3;
+
+interface SplitStats {
+  connectorCount: number;
+  skippedFaces: number;
+}
+
+// Frame of a plane: x and y lie in the plane, z runs along the normal, origin on the plane
+function getPlaneFrame(plane: SplitPlane): THREE.Matrix4 {
+  const normal = new THREE.Vector3(...plane.normal);
+  const distance = plane.offset / normal.length();
+  normal.normalize();
+
+  const reference = Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const u = reference.addScaledVector(normal, -reference.dot(normal)).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+
+  return new THREE.Matrix4()
+    .makeBasis(u, v, normal)
+    .setPosition(normal.clone().multiplyScalar(distance));
+}
+
+// Even-odd test, so points in holes count as outside
+function isInside(polygons: SimplePolygon[], [x, y]: Vec2): boolean {
+  let inside = false;
+  polygons.forEach(polygon => {
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [xi, yi] = polygon[i];
+      const [xj, yj] = polygon[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+// Grid points inside a region, nearest the middle first
+function sampleRegion(region: CrossSection): Vec2[] {
+  if (region.isEmpty()) return [];
+
+  const polygons = region.toPolygons();
+  const { min, max } = region.bounds();
+  const centre: Vec2 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2];
+
+  const points: Vec2[] = [centre];
+  for (let i = 0; i <= PLACEMENT_GRID; i++) {
+    for (let j = 0; j <= PLACEMENT_GRID; j++) {
+      points.push([
+        min[0] + ((max[0] - min[0]) * i) / PLACEMENT_GRID,
+        min[1] + ((max[1] - min[1]) * j) / PLACEMENT_GRID,
+      ]);
+    }
+  }
+
+  const distance = (point: Vec2) => Math.hypot(point[0] - centre[0], point[1] - centre[1]);
+  return points
+    .filter(point => isInside(polygons, point))
+    .sort((a, b) => distance(a) - distance(b));
+}
+
+// Two pegs as far apart as possible stop the pieces twisting; one in the middle if there's no room
+function pickPegSpots(candidates: Vec2[], minSpacing: number): Vec2[] {
+  if (candidates.length === 0) return [];
+
+  let pair: Vec2[] | null = null;
+  let widest = minSpacing;
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const spacing = Math.hypot(candidates[i][0] - candidates[j][0], candidates[i][1] - candidates[j][1]);
+      if (spacing >= widest) {
+        widest = spacing;
+        pair = [candidates[i], candidates[j]];
+      }
+    }
+  }
+
+  return pair ?? [candidates[0]];
+}
+
+/**
+ * Connectors for one connected region of a cut face, in the plane's frame
+ * @returns Solids to add below the plane and sockets to remove above it, or null if the face is too small
+ */
+function buildConnectors(
+  wasm: ManifoldToplevel,
+  region: CrossSection,
+  options: ConnectorOptions,
+  own: Own
+): { connectors: Manifold[]; sockets: Manifold[] } | null {
+  const { size, depth, clearance } = options;
+
+  if (options.type === 'peg') {
+    const radius = size / 2;
+    const inset = own(region.offset(-(radius + clearance + MIN_WALL), 'Round'));
+    const spots = pickPegSpots(sampleRegion(inset), 2 * (radius + clearance) + MIN_WALL);
+    if (spots.length === 0) return null;
+
+    return {
+      connectors: spots.map(([x, y]) =>
+        own(own(wasm.Manifold.cylinder(depth + CONNECTOR_EMBED, radius)).translate(x, y, -CONNECTOR_EMBED))
+      ),
+      sockets: spots.map(([x, y]) =>
+        own(own(wasm.Manifold.cylinder(depth + clearance + CONNECTOR_EMBED, radius + clearance)).translate(x, y, -CONNECTOR_EMBED))
+      ),
+    };
+  }
+
+  // A dovetail runs right across the face along its longer side and slides in from one end
+  const slope = Math.tan(DOVETAIL_ANGLE);
+  const tipWidth = size + 2 * depth * slope;
+  const inset = own(region.offset(-(tipWidth / 2 + clearance + MIN_WALL), 'Round'));
+  const spot = sampleRegion(inset)[0];
+  if (!spot) return null;
+
+  const { min, max } = region.bounds();
+  const slideAlongX = max[0] - min[0] >= max[1] - min[1];
+  const length = (slideAlongX ? max[0] - min[0] : max[1] - min[1]) + 2 * MIN_WALL;
+  const middle = slideAlongX ? (min[0] + max[0]) / 2 : (min[1] + max[1]) / 2;
+
+  // Profile x runs across the dovetail and profile y along the normal, widening away from the face
+  const baseHalf = size / 2 - CONNECTOR_EMBED * slope;
+  const profile = own(wasm.CrossSection.ofPolygons([[
+    [-baseHalf, -CONNECTOR_EMBED],
+    [baseHalf, -CONNECTOR_EMBED],
+    [tipWidth / 2, depth],
+    [-tipWidth / 2, depth],
+  ]]));
+  const socketProfile = own(profile.offset(clearance, 'Miter'));
+
+  // Turn the extrusion axis into the slide direction without mirroring
+  const placement = slideAlongX
+    ? new THREE.Matrix4().makeBasis(new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1), new THREE.Vector3(1, 0, 0)).setPosition(middle, spot[1], 0)
+    : new THREE.Matrix4().makeBasis(new THREE.Vector3(-1, 0, 0), new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 1, 0)).setPosition(spot[0], middle, 0);
+
+  return {
+    connectors: [own(own(wasm.Manifold.extrude(profile, length, 0, 0, 1, true)).transform(toMat4(placement)))],
+    sockets: [own(own(wasm.Manifold.extrude(socketProfile, length + 2, 0, 0, 1, true)).transform(toMat4(placement)))],
+  };
+}
+
+// Cut one piece along a plane; pieces the plane misses come back unchanged
+function cutPiece(
+  wasm: ManifoldToplevel,
+  piece: Manifold,
+  frame: THREE.Matrix4,
+  options: ConnectorOptions,
+  own: Own,
+  stats: SplitStats
+): Manifold[] {
+  const local = own(piece.transform(toMat4(frame.clone().invert())));
+  const [above, below] = local.splitByPlane([0, 0, 1], 0).map(own);
+  if (above.isEmpty() || below.isEmpty()) {
+    return [piece];
+  }
+
+  let upper = above;
+  let lower = below;
+  if (options.type !== 'none') {
+    const connectors: Manifold[] = [];
+    const sockets: Manifold[] = [];
+
+    // Every separate island of the cut face gets its own connectors
+    const section = own(local.slice(0));
+    section.decompose().map(own).forEach(region => {
+      const shapes = buildConnectors(wasm, region, options, own);
+      if (!shapes) {
+        stats.skippedFaces++;
+        return;
+      }
+      // Trim connectors to the original part so none pokes out of its surface
+      shapes.connectors.forEach(connector => connectors.push(own(connector.intersect(local))));
+      sockets.push(...shapes.sockets);
+      stats.connectorCount += shapes.connectors.length;
+    });
+
+    if (connectors.length > 0) {
+      lower = own(wasm.Manifold.union([lower, ...connectors]));
+      upper = own(wasm.Manifold.difference([upper, ...sockets]));
+    }
+  }
+
+  const toWorld = toMat4(frame);
+  return [own(upper.transform(toWorld)), own(lower.transform(toWorld))];
+}
+
+/**
+ * Split a closed mesh along planes into separate closed pieces
+ * @param geometry - The model in world space
+ * @param planes - Cut planes in world space; each one cuts every piece it passes through
+ * @param options - Connectors to add across each cut
+ * @param onProgress - Optional progress callback
+ * @returns The pieces in world space, with how many connectors were placed
+ */
+export async function splitGeometry(
+  geometry: THREE.BufferGeometry,
+  planes: SplitPlane[],
+  options: ConnectorOptions = DEFAULT_CONNECTOR_OPTIONS,
+  onProgress?: (stage: string, percent: number) => void
+): Promise<SplitResult> {
+  onProgress?.('Loading boolean engine', 5);
+  return withManifold((wasm, own) => {
+    onProgress?.('Converting mesh', 10);
+    let pieces = [own(toManifold(wasm, geometry))];
+    const stats: SplitStats = { connectorCount: 0, skippedFaces: 0 };
+
+    planes.forEach((plane, i) => {
+      onProgress?.(`Cutting along plane ${i + 1} of ${planes.length}`, 15 + (70 * i) / planes.length);
+      const frame = getPlaneFrame(plane);
+      pieces = pieces.flatMap(piece => cutPiece(wasm, piece, frame, options, own, stats));
+    });
+
+    // A cut through a U shape leaves one half in two parts; each becomes its own piece
+    onProgress?.('Building pieces', 85);
+    const solids = pieces
+      .flatMap(piece => piece.decompose().map(own))
+      .filter(solid => solid.volume() > MIN_PIECE_VOLUME);
+
+    return { geometries: solids.map(fromManifold), ...stats };
+  });
+}
+
+/**
+ * Trim a closed mesh with one plane
+ * @param geometry - The model in world space
+ * @param plane - Cut plane in world space; 'above' is the side its normal points to
+ * @param keep - Which side to keep, both sides, or a cross-section slab
+ * @param sectionThickness - Thickness of the slab in mm when keeping a section
+ * @param onProgress - Optional progress callback
+ * @returns The kept solids in world space; two for 'both', otherwise one
+ */
+export async function cutGeometry(
+  geometry: THREE.BufferGeometry,
+  plane: SplitPlane,
+  keep: CutKeep,
+  sectionThickness = 2,
+  onProgress?: (stage: string, percent: number) => void
+): Promise<THREE.BufferGeometry[]> {
+  onProgress?.('Loading boolean engine', 5);
+  return withManifold((wasm, own) => {
+    onProgress?.('Converting mesh', 15);
+    const solid = own(toManifold(wasm, geometry));
+
+    const normal = new THREE.Vector3(...plane.normal);
+    const distance = plane.offset / normal.length();
+    normal.normalize();
+
+    onProgress?.('Cutting', 50);
+    let kept: Manifold[];
+    if (keep === 'section') {
+      const half = Math.max(sectionThickness, 0) / 2;
+      const slab = own(own(solid.trimByPlane(normal.toArray(), distance - half))
+        .trimByPlane(normal.clone().negate().toArray(), -(distance + half)));
+      kept = [slab];
+    } else {
+      const [above, below] = solid.splitByPlane(normal.toArray(), distance).map(own);
+      if (above.isEmpty() || below.isEmpty()) {
+        throw new Error("The cut plane doesn't pass through the model");
+      }
+      kept = keep === 'above' ? [above] : keep === 'below' ? [below] : [above, below];
+    }
+
+    if (kept.some(part => part.isEmpty())) {
+      throw new Error("The cut plane doesn't pass through the model");
+    }
+
+    onProgress?.('Building result mesh', 85);
+    return kept.map(fromManifold);
+  });
+}
+
+/**
+ * Evenly spaced cuts that make every piece fit the build volume without turning it
+ * @param bounds - World space bounds of the model
+ * @param plate - Build volume of the printer
+ * @param margin - Room to leave on each piece, e.g. for connectors sticking out of it
+ */
+export function getFitSplitPlanes(bounds: THREE.Box3, plate: BuildPlate, margin = 0): SplitPlane[] {
+  const size = bounds.getSize(new THREE.Vector3());
+  const axes: { normal: Vec3Tuple; min: number; length: number; limit: number }[] = [
+    { normal: [1, 0, 0], min: bounds.min.x, length: size.x, limit: plate.width },
+    { normal: [0, 1, 0], min: bounds.min.y, length: size.y, limit: plate.height },
+    { normal: [0, 0, 1], min: bounds.min.z, length: size.z, limit: plate.depth },
+  ];
+
+  return axes.flatMap(axis => {
+    const count = Math.ceil(axis.length / Math.max(axis.limit - margin, 1));
+    return Array.from({ length: Math.max(0, count - 1) }, (_, i) => ({
+      normal: axis.normal,
+      offset: axis.min + (axis.length * (i + 1)) / count,
+    }));
+  });
+}
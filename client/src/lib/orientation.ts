@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import type { Vec3Tuple } from '@shared/quote';
+import { analyzeOverhangs, DEFAULT_PRINTABILITY_OPTIONS } from '@shared/printability';
+
+/**
+ * Print orientation search. Tries many ways of standing a model on the bed and
+ * scores each by how much support it needs, how much of it touches the bed
+ * and how tall it prints. Overhangs and bed contact come from the same shared
+ * analysis as the heatmap and the quote. The scene is Y-up, so the bed is
+ * below along -Y.
+ */
+
+export interface OrientationOptions {
+  // Faces tilted further than this from vertical (in degrees) need support
+  maxOverhangAngle?: number;
+  // Relative importance of each term in the score
+  supportWeight?: number;
+  footprintWeight?: number;
+  heightWeight?: number;
+  // Evenly spread directions tried on top of the model's own flat faces
+  sampleCount?: number;
+}
+
+export interface OrientationCandidate {
+  // Rotation to apply on top of the model's current rotation
+  rotation: THREE.Quaternion;
+  supportArea: number; // mm²
+  footprintArea: number; // mm²
+  height: number; // mm
+  score: number; // Lower is better
+}
+
+export interface OrientationResult {
+  best: OrientationCandidate;
+  current: OrientationCandidate;
+  candidateCount: number;
+}
+
+const DEFAULT_OPTIONS: Required<OrientationOptions> = {
+  maxOverhangAngle: DEFAULT_PRINTABILITY_OPTIONS.maxOverhangAngle,
+  supportWeight: 1,
+  footprintWeight: 0.5,
+  heightWeight: 0.3,
+  sampleCount: 64,
+};
+
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+// Faces within about 5° of facing straight down count as footprint
+const FLAT_CONTACT_COS = Math.cos(THREE.MathUtils.degToRad(5));
+
+// Largest flat regions of the model, the likeliest faces to put on the bed
+const MAX_FACE_CANDIDATES = 24;
+
+// Only switch orientation when it is clearly better than the current one
+const MIN_IMPROVEMENT = 1e-3;
+
+interface FaceData {
+  positions: Float32Array;
+  normals: Float32Array;
+  areas: Float32Array;
+  surfaceArea: number;
+  diagonal: number;
+}
+
+// World space faces with the model's rotation and scale but not its position
+function getFaceData(mesh: THREE.Mesh): FaceData {
+  const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+  mesh.updateMatrixWorld(true);
+  geometry.applyMatrix4(mesh.matrixWorld.clone().setPosition(0, 0, 0));
+
+  const positions = Float32Array.from(geometry.getAttribute('position').array);
+  geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox!.getSize(new THREE.Vector3()).length() || 1;
+  geometry.dispose();
+
+  // Normals and areas don't depend on the pose, so take them from the analysis once
+  const { normals, areas, surfaceArea } = analyzeOverhangs(positions);
+  return { positions, normals, areas, surfaceArea: surfaceArea || 1, diagonal };
+}
+
+// Face normals of the largest flat regions, grouped by direction
+function getFlatFaceDirections(faces: FaceData): THREE.Vector3[] {
+  const groups = new Map<string, { normal: THREE.Vector3; area: number }>();
+  const normal = new THREE.Vector3();
+
+  for (let f = 0; f < faces.areas.length; f++) {
+    if (faces.areas[f] === 0) continue;
+    normal.fromArray(faces.normals, f * 3);
+    const key = `${Math.round(normal.x * 20)}_${Math.round(normal.y * 20)}_${Math.round(normal.z * 20)}`;
+    const group = groups.get(key) ?? { normal: new THREE.Vector3(), area: 0 };
+    group.normal.addScaledVector(normal, faces.areas[f]);
+    group.area += faces.areas[f];
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .sort((x, y) => y.area - x.area)
+    .slice(0, MAX_FACE_CANDIDATES)
+    .map(group => group.normal.normalize());
+}
+
+// Evenly spaced directions on the unit sphere
+function getSphereDirections(count: number): THREE.Vector3[] {
+  const directions: THREE.Vector3[] = [];
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const y = 1 - (2 * (i + 0.5)) / count;
+    const radius = Math.sqrt(1 - y * y);
+    directions.push(new THREE.Vector3(Math.cos(goldenAngle * i) * radius, y, Math.sin(goldenAngle * i) * radius));
+  }
+  return directions;
+}
+
+/**
+ * Score the pose where the given direction of the model points at the bed
+ * @param faces - Model faces in their current rotation
+ * @param down - Direction, in the current pose, that would face the bed
+ */
+function scoreOrientation(faces: FaceData, down: THREE.Vector3, options: Required<OrientationOptions>): OrientationCandidate {
+  const buildDirection = down.clone().negate().toArray() as Vec3Tuple;
+  const analysis = analyzeOverhangs(faces.positions, { buildDirection, maxOverhangAngle: options.maxOverhangAngle });
+
+  // Only faces lying flat on the bed hold the part steady
+  let footprintArea = 0;
+  for (let f = 0; f < faces.areas.length; f++) {
+    if (!analysis.onBed[f]) continue;
+    const facing = faces.normals[f * 3] * down.x + faces.normals[f * 3 + 1] * down.y + faces.normals[f * 3 + 2] * down.z;
+    if (facing >= FLAT_CONTACT_COS) footprintArea += faces.areas[f];
+  }
+
+  const supportArea = analysis.overhangArea;
+  const height = analysis.topHeight - analysis.bedHeight;
+  const score =
+    options.supportWeight * (supportArea / faces.surfaceArea) +
+    options.heightWeight * (height / faces.diagonal) -
+    options.footprintWeight * (footprintArea / faces.surfaceArea);
+
+  return {
+    rotation: new THREE.Quaternion().setFromUnitVectors(down, DOWN),
+    supportArea,
+    footprintArea,
+    height,
+    score,
+  };
+}
+
+/**
+ * Search for the rotation that prints a model with the least support
+ * @param mesh - The model in its current pose
+ * @param options - Overhang limit and scoring weights
+ * @returns The best candidate and the score of the current pose for comparison
+ */
+export function findBestOrientation(mesh: THREE.Mesh, options: OrientationOptions = {}): OrientationResult {
+  const settings: Required<OrientationOptions> = { ...DEFAULT_OPTIONS, ...options };
+  const faces = getFaceData(mesh);
+
+  const axes = [
+    new THREE.Vector3(1, 0, 0), new THREE.Vector3(-1, 0, 0),
+    new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, -1, 0),
+    new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 0, -1),
+  ];
+  const directions = [...getFlatFaceDirections(faces), ...axes, ...getSphereDirections(settings.sampleCount)];
+
+  const current = scoreOrientation(faces, DOWN, settings);
+  let best = current;
+  directions.forEach(direction => {
+    const candidate = scoreOrientation(faces, direction, settings);
+    if (candidate.score < best.score - MIN_IMPROVEMENT) {
+      best = candidate;
+    }
+  });
+
+  return { best, current, candidateCount: directions.length + 1 };
+}
@@ -0,0 +1,200 @@
+import * as THREE from 'three';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+/**
+ * Parametric primitives - basic shapes that keep the dimensions they were
+ * made from, so they can be regenerated exactly instead of scaled.
+ * Geometry is centred on the origin, Y up, sizes in mm.
+ */
+
+export type PrimitiveShape = 'cube' | 'sphere' | 'cylinder' | 'cone';
+
+export interface PrimitiveParams {
+  shape: PrimitiveShape;
+  width: number; // Along X
+  height: number; // Along Y
+  depth: number; // Along Z
+  radius: number;
+  segments: number; // Around round shapes
+  wallThickness: number; // 0 for solid, otherwise a closed hollow shell this thick
+  fillet: number; // Radius of rounded edges
+}
+
+export type PrimitiveParamKey = Exclude<keyof PrimitiveParams, 'shape'>;
+
+export interface PrimitiveField {
+  key: PrimitiveParamKey;
+  label: string;
+  kind: 'length' | 'count';
+}
+
+const DEFAULT_PARAMS: Omit<PrimitiveParams, 'shape'> = {
+  width: 50.8,
+  height: 50.8,
+  depth: 50.8,
+  radius: 25.4,
+  segments: 32,
+  wallThickness: 0,
+  fillet: 0
+};
+
+export const PRIMITIVE_FIELDS: Record<PrimitiveShape, PrimitiveField[]> = {
+  cube: [
+    { key: 'width', label: 'Width', kind: 'length' },
+    { key: 'depth', label: 'Depth', kind: 'length' },
+    { key: 'height', label: 'Height', kind: 'length' },
+    { key: 'fillet', label: 'Fillet', kind: 'length' },
+    { key: 'wallThickness', label: 'Wall', kind: 'length' }
+  ],
+  sphere: [
+    { key: 'radius', label: 'Radius', kind: 'length' },
+    { key: 'segments', label: 'Segments', kind: 'count' },
+    { key: 'wallThickness', label: 'Wall', kind: 'length' }
+  ],
+  cylinder: [
+    { key: 'radius', label: 'Radius', kind: 'length' },
+    { key: 'height', label: 'Height', kind: 'length' },
+    { key: 'segments', label: 'Segments', kind: 'count' },
+    { key: 'fillet', label: 'Fillet', kind: 'length' },
+    { key: 'wallThickness', label: 'Wall', kind: 'length' }
+  ],
+  cone: [
+    { key: 'radius', label: 'Radius', kind: 'length' },
+    { key: 'height', label: 'Height', kind: 'length' },
+    { key: 'segments', label: 'Segments', kind: 'count' }
+  ]
+};
+
+const MIN_SIZE = 0.1;
+const MIN_SEGMENTS = 3;
+const MAX_SEGMENTS = 256;
+const FILLET_SEGMENTS = 6;
+
+// A wall must leave a cavity at least this wide
+const MIN_CAVITY = 0.1;
+
+export function isPrimitiveShape(type: string): type is PrimitiveShape {
+  return type in PRIMITIVE_FIELDS;
+}
+
+export function getDefaultPrimitive(shape: PrimitiveShape): PrimitiveParams {
+  return { shape, ...DEFAULT_PARAMS };
+}
+
+/**
+ * Keep parameters inside what the shape can be built from:
+ * fillets no bigger than half the smallest side, and walls that still leave a cavity
+ */
+export function normalizePrimitiveParams(params: PrimitiveParams): PrimitiveParams {
+  const size = (value: number) => Math.max(MIN_SIZE, Number.isFinite(value) ? value : MIN_SIZE);
+  const width = size(params.width);
+  const height = size(params.height);
+  const depth = size(params.depth);
+  const radius = size(params.radius);
+  const segments = Math.min(MAX_SEGMENTS, Math.max(MIN_SEGMENTS, Math.round(params.segments) || MIN_SEGMENTS));
+
+  // Half of the smallest extent of the shape
+  const halfExtent = params.shape === 'cube'
+    ? Math.min(width, height, depth) / 2
+    : params.shape === 'sphere' ? radius : Math.min(radius, height / 2);
+
+  const fillet = Math.min(Math.max(0, params.fillet || 0), halfExtent);
+  const wallLimit = Math.max(0, halfExtent - MIN_CAVITY / 2);
+  const wallThickness = params.shape === 'cone' ? 0 : Math.min(Math.max(0, params.wallThickness || 0), wallLimit);
+
+  return { shape: params.shape, width, height, depth, radius, segments, wallThickness, fillet };
+}
+
+// Cylinder with rounded rims, turned from its half profile
+function createFilletedCylinder(radius: number, height: number, fillet: number, segments: number): THREE.BufferGeometry {
+  const bottom = -height / 2;
+  const top = height / 2;
+  const profile: THREE.Vector2[] = [new THREE.Vector2(0, bottom)];
+
+  for (let i = 0; i <= FILLET_SEGMENTS; i++) {
+    const angle = -Math.PI / 2 + (Math.PI / 2) * (i / FILLET_SEGMENTS);
+    profile.push(new THREE.Vector2(radius - fillet + Math.cos(angle) * fillet, bottom + fillet + Math.sin(angle) * fillet));
+  }
+  for (let i = 0; i <= FILLET_SEGMENTS; i++) {
+    const angle = (Math.PI / 2) * (i / FILLET_SEGMENTS);
+    profile.push(new THREE.Vector2(radius - fillet + Math.cos(angle) * fillet, top - fillet + Math.sin(angle) * fillet));
+  }
+  profile.push(new THREE.Vector2(0, top));
+
+  return new THREE.LatheGeometry(profile, segments);
+}
+
+// Solid outer surface of a shape
+function createSolidGeometry(params: PrimitiveParams): THREE.BufferGeometry {
+  const { width, height, depth, radius, segments, fillet } = params;
+
+  switch (params.shape) {
+    case 'cube':
+      return fillet > 0
+        ? new RoundedBoxGeometry(width, height, depth, FILLET_SEGMENTS, fillet)
+        : new THREE.BoxGeometry(width, height, depth);
+    case 'sphere':
+      return new THREE.SphereGeometry(radius, segments, Math.max(2, Math.ceil(segments / 2)));
+    case 'cylinder':
+      return fillet > 0
+        ? createFilletedCylinder(radius, height, fillet, segments)
+        : new THREE.CylinderGeometry(radius, radius, height, segments, 1, false);
+    case 'cone':
+      return new THREE.ConeGeometry(radius, height, segments, 1, false);
+  }
+}
+
+// Rounded boxes come out unindexed, the other shapes indexed
+function toIndexed(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  return geometry.index ? geometry : BufferGeometryUtils.mergeVertices(geometry);
+}
+
+// Turn a surface inside out, so it bounds a cavity instead of a solid
+function invertGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  const inverted = toIndexed(geometry);
+  const index = inverted.index!;
+  for (let i = 0; i + 2 < index.count; i += 3) {
+    const b = index.getX(i + 1);
+    index.setX(i + 1, index.getX(i + 2));
+    index.setX(i + 2, b);
+  }
+
+  const normal = inverted.getAttribute('normal');
+  if (normal) {
+    for (let i = 0; i < normal.count; i++) {
+      normal.setXYZ(i, -normal.getX(i), -normal.getY(i), -normal.getZ(i));
+    }
+  }
+  return inverted;
+}
+
+/**
+ * Build the geometry of a primitive. A wall thickness adds an inner surface
+ * offset by the wall, leaving a sealed cavity inside.
+ */
+export function createPrimitiveGeometry(input: PrimitiveParams): THREE.BufferGeometry {
+  const params = normalizePrimitiveParams(input);
+  const outer = createSolidGeometry(params);
+  if (params.wallThickness <= 0) {
+    return outer;
+  }
+
+  const wall = params.wallThickness;
+  const inner = invertGeometry(createSolidGeometry({
+    ...params,
+    width: params.width - wall * 2,
+    height: params.height - wall * 2,
+    depth: params.depth - wall * 2,
+    radius: params.radius - wall,
+    fillet: Math.max(0, params.fillet - wall)
+  }));
+
+  const shell = BufferGeometryUtils.mergeGeometries([toIndexed(outer), inner]);
+  outer.dispose();
+  inner.dispose();
+  if (!shell) {
+    throw new Error(`Could not build a hollow ${params.shape}`);
+  }
+  return shell;
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import {
+  analyzePrintability,
+  PrintabilityAnalysis,
+  PrintabilityOptions,
+  PrintabilitySummary
+} from '@shared/printability';
+
+/**
+ * Viewport side of the printability analysis: runs the shared analysis on a
+ * model as it sits in the scene and draws the result as a heatmap.
+ */
+
+export type { PrintabilityAnalysis, PrintabilitySummary };
+
+export type PrintabilityOverlayMode = 'overhang' | 'thickness' | 'islands';
+
+export interface MeshPrintabilityAnalysis extends PrintabilityAnalysis {
+  // World space triangle corners the analysis ran on, nine numbers per face
+  positions: Float32Array;
+}
+
+const SAFE_COLOR = new THREE.Color(0x4caf50);
+const WARNING_COLOR = new THREE.Color(0xffc107);
+const FAILURE_COLOR = new THREE.Color(0xf44336);
+const BED_COLOR = new THREE.Color(0x2196f3);
+
+/**
+ * Analyze a model in its current pose, growing along +Y like the quote
+ * @param mesh - The model to analyze
+ * @param options - Printer limits
+ */
+export function analyzeMeshPrintability(
+  mesh: THREE.Mesh,
+  options: Partial<PrintabilityOptions> = {}
+): MeshPrintabilityAnalysis {
+  mesh.updateMatrixWorld(true);
+  const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+  geometry.applyMatrix4(mesh.matrixWorld);
+  const positions = Float32Array.from(geometry.getAttribute('position').array);
+  geometry.dispose();
+
+  return {
+    ...analyzePrintability(positions, options),
+    positions
+  };
+}
+
+function getFaceColor(analysis: PrintabilityAnalysis, face: number, mode: PrintabilityOverlayMode, target: THREE.Color): THREE.Color {
+  const { maxOverhangAngle, minWallThickness } = analysis.options;
+
+  if (mode === 'overhang') {
+    if (analysis.onBed[face]) return target.copy(BED_COLOR);
+    const angle = analysis.overhangAngles[face];
+    if (angle <= maxOverhangAngle) {
+      // Fade towards yellow as faces approach the limit
+      return target.copy(SAFE_COLOR).lerp(WARNING_COLOR, Math.max(0, angle / maxOverhangAngle - 0.5) * 2);
+    }
+    return target.copy(WARNING_COLOR).lerp(FAILURE_COLOR, (angle - maxOverhangAngle) / (90 - maxOverhangAngle));
+  }
+
+  if (mode === 'thickness') {
+    const thickness = analysis.thickness[face];
+    if (thickness < minWallThickness) return target.copy(FAILURE_COLOR);
+    if (thickness < minWallThickness * 2) {
+      return target.copy(WARNING_COLOR).lerp(SAFE_COLOR, thickness / minWallThickness - 1);
+    }
+    return target.copy(SAFE_COLOR);
+  }
+
+  return target.copy(analysis.floating[face] ? FAILURE_COLOR : SAFE_COLOR);
+}
+
+/**
+ * Build a heatmap mesh that sits exactly over the analyzed model
+ * @param analysis - Result of analyzeMeshPrintability
+ * @param mode - Which problem to color
+ */
+export function createPrintabilityOverlay(analysis: MeshPrintabilityAnalysis, mode: PrintabilityOverlayMode): THREE.Mesh {
+  const faceCount = analysis.positions.length / 9;
+  const colors = new Float32Array(analysis.positions.length);
+  const color = new THREE.Color();
+  for (let f = 0; f < faceCount; f++) {
+    getFaceColor(analysis, f, mode, color);
+    for (let v = 0; v < 3; v++) {
+      color.toArray(colors, f * 9 + v * 3);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(analysis.positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+  // Pull the overlay towards the camera so it wins the depth test against the model
+  const material = new THREE.MeshBasicMaterial({
+    vertexColors: true,
+    side: THREE.DoubleSide,
+    polygonOffset: true,
+    polygonOffsetFactor: -1,
+    polygonOffsetUnits: -1
+  });
+
+  const overlay = new THREE.Mesh(geometry, material);
+  overlay.name = 'printabilityOverlay';
+  // Keep the overlay out of selection and measurement picking
+  overlay.raycast = () => {};
+  return overlay;
+}
@@ -0,0 +1,42 @@
+import type { BuildPlate } from './arrange';
+
+/**
+ * Printer profiles - build volume and nozzle of the machines parts are laid
+ * out for. Orders placed through the Print tab run on the Slant 3D farm.
+ */
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  buildVolume: BuildPlate; // mm; width along X, depth along Z, height along Y
+  nozzleDiameter: number; // mm
+}
+
+export const PRINTER_PROFILES: PrinterProfile[] = [
+  { id: 'slant3d-farm', name: 'Slant 3D farm', buildVolume: { width: 250, depth: 210, height: 210 }, nozzleDiameter: 0.4 },
+  { id: 'bambu-x1', name: 'Bambu Lab X1', buildVolume: { width: 256, depth: 256, height: 256 }, nozzleDiameter: 0.4 },
+  { id: 'prusa-mk4', name: 'Prusa MK4', buildVolume: { width: 250, depth: 210, height: 220 }, nozzleDiameter: 0.4 },
+  { id: 'ender-3', name: 'Creality Ender 3', buildVolume: { width: 220, depth: 220, height: 250 }, nozzleDiameter: 0.4 },
+];
+
+export const DEFAULT_PRINTER_ID = 'slant3d-farm';
+
+// Profile that print orders are checked against
+export const ORDER_PRINTER_ID = 'slant3d-farm';
+
+export const CUSTOM_PRINTER_ID = 'custom';
+
+export function getPrinterProfile(id: string): PrinterProfile | undefined {
+  return PRINTER_PROFILES.find(profile => profile.id === id);
+}
+
+/**
+ * Whether a part fits the build volume in one piece when laid along any axis
+ * @param size - Bounding box size of the part in mm, in any axis order
+ * @param volume - Build volume of the printer
+ */
+export function fitsBuildVolume(size: [number, number, number], volume: BuildPlate): boolean {
+  const part = [...size].sort((a, b) => a - b);
+  const machine = [volume.width, volume.depth, volume.height].sort((a, b) => a - b);
+  return part.every((dimension, i) => dimension <= machine[i]);
+}
@@ -0,0 +1,341 @@
+import * as THREE from 'three';
+import type { Model, TextProps, BooleanOperationType } from '@/types/model';
+import { APP_NAME, STORAGE_KEYS } from '@/lib/constants';
+import type { Measurement } from '@/lib/measurement';
+import type { PrimitiveParams } from '@/lib/primitives';
+
+/**
+ * Utilities for saving and reopening whole scenes as a project file
+ */
+
+// Bump this whenever the serialized layout changes
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.fishcad';
+
+// IndexedDB location used for autosave
+const DB_NAME = 'fishcad';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+// Serialized geometry - typed arrays are stored as base64 strings
+export interface SerializedGeometry {
+  position: string;
+  normal?: string;
+  color?: string;
+  index?: string;
+  indexType?: 'uint16' | 'uint32';
+}
+
+export interface SerializedModel {
+  id: string;
+  name: string;
+  type: Model['type'];
+  geometry: SerializedGeometry;
+  color: string;
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: [number, number, number];
+  originalPosition: [number, number, number];
+  originalRotation: [number, number, number];
+  originalScale: [number, number, number];
+  textProps?: TextProps;
+  primitive?: PrimitiveParams;
+  // Inputs of a boolean result, so it can still be edited after reopening
+  csgTree?: {
+    operation: BooleanOperationType;
+    operands: SerializedModel[];
+  };
+}
+
+export interface ProjectFile {
+  format: string;
+  version: number;
+  savedAt: string;
+  unit: 'mm' | 'in';
+  models: SerializedModel[];
+  measurements?: Measurement[]; // Dimensions left in the scene, in world space
+}
+
+// Encode a typed array as base64
+function encodeArray(array: ArrayBufferView): string {
+  const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+  let binary = '';
+  // Process in chunks to avoid call stack limits on large meshes
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+// Decode a base64 string into a fresh ArrayBuffer
+function decodeArray(data: string): ArrayBuffer {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// Copy an attribute into a tightly packed Float32Array (handles interleaved attributes)
+function attributeToFloat32(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+  const result = new Float32Array(attribute.count * attribute.itemSize);
+  for (let i = 0; i < attribute.count; i++) {
+    for (let c = 0; c < attribute.itemSize; c++) {
+      result[i * attribute.itemSize + c] = attribute.getComponent(i, c);
+    }
+  }
+  return result;
+}
+
+export function serializeGeometry(geometry: THREE.BufferGeometry): SerializedGeometry {
+  const position = geometry.getAttribute('position');
+  if (!position) {
+    throw new Error('Geometry has no position attribute');
+  }
+
+  const serialized: SerializedGeometry = {
+    position: encodeArray(attributeToFloat32(position)),
+  };
+
+  const normal = geometry.getAttribute('normal');
+  if (normal) {
+    serialized.normal = encodeArray(attributeToFloat32(normal));
+  }
+
+  // Keep vertex colors from imported meshes
+  const color = geometry.getAttribute('color');
+  if (color && color.itemSize === 3) {
+    serialized.color = encodeArray(attributeToFloat32(color));
+  }
+
+  if (geometry.index) {
+    const useUint32 = position.count > 65535;
+    const index = useUint32
+      ? new Uint32Array(geometry.index.array)
+      : new Uint16Array(geometry.index.array);
+    serialized.index = encodeArray(index);
+    serialized.indexType = useUint32 ? 'uint32' : 'uint16';
+  }
+
+  return serialized;
+}
+
+export function deserializeGeometry(data: SerializedGeometry): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(decodeArray(data.position)), 3));
+
+  if (data.normal) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(decodeArray(data.normal)), 3));
+  }
+
+  if (data.color) {
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(decodeArray(data.color)), 3));
+  }
+
+  if (data.index) {
+    const buffer = decodeArray(data.index);
+    const index = data.indexType === 'uint32' ? new Uint32Array(buffer) : new Uint16Array(buffer);
+    geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  }
+
+  if (!data.normal) {
+    geometry.computeVertexNormals();
+  }
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+
+  return geometry;
+}
+
+// Read the display color of a mesh, whatever material it currently has
+export function getMeshColor(mesh: THREE.Mesh): THREE.Color {
+  const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+  if (material && 'color' in material && material.color instanceof THREE.Color) {
+    return material.color.clone();
+  }
+  return new THREE.Color(0x3498db);
+}
+
+export function serializeModel(model: Model): SerializedModel {
+  const { mesh } = model;
+  return {
+    id: model.id,
+    name: model.name,
+    type: model.type,
+    geometry: serializeGeometry(mesh.geometry),
+    color: `#${getMeshColor(mesh).getHexString()}`,
+    position: mesh.position.toArray() as [number, number, number],
+    rotation: [mesh.rotation.x, mesh.rotation.y, mesh.rotation.z],
+    scale: mesh.scale.toArray() as [number, number, number],
+    originalPosition: model.originalPosition.toArray() as [number, number, number],
+    originalRotation: [model.originalRotation.x, model.originalRotation.y, model.originalRotation.z],
+    originalScale: model.originalScale.toArray() as [number, number, number],
+    ...(model.textProps ? { textProps: { ...model.textProps } } : {}),
+    ...(model.primitive ? { primitive: { ...model.primitive } } : {}),
+    ...(model.csgTree ? {
+      csgTree: {
+        operation: model.csgTree.operation,
+        operands: model.csgTree.operands.map(serializeModel),
+      },
+    } : {}),
+  };
+}
+
+export function deserializeModel(data: SerializedModel): Model {
+  const geometry = deserializeGeometry(data.geometry);
+  const material = new THREE.MeshStandardMaterial({
+    color: new THREE.Color(data.color),
+    vertexColors: !!data.geometry.color,
+    metalness: 0.2,
+    roughness: 0.7,
+  });
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  mesh.position.fromArray(data.position);
+  mesh.rotation.set(data.rotation[0], data.rotation[1], data.rotation[2]);
+  mesh.scale.fromArray(data.scale);
+  mesh.updateMatrix();
+
+  return {
+    id: data.id,
+    name: data.name,
+    type: data.type,
+    mesh,
+    originalPosition: new THREE.Vector3().fromArray(data.originalPosition),
+    originalRotation: new THREE.Euler(data.originalRotation[0], data.originalRotation[1], data.originalRotation[2]),
+    originalScale: new THREE.Vector3().fromArray(data.originalScale),
+    ...(data.textProps ? { textProps: { ...data.textProps } } : {}),
+    ...(data.primitive ? { primitive: { ...data.primitive } } : {}),
+    ...(data.csgTree ? {
+      csgTree: {
+        operation: data.csgTree.operation,
+        operands: data.csgTree.operands.map(deserializeModel),
+      },
+    } : {}),
+  };
+}
+
+export function serializeProject(models: Model[], unit: 'mm' | 'in', measurements: Measurement[] = []): ProjectFile {
+  return {
+    format: APP_NAME,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    unit,
+    models: models.map(serializeModel),
+    measurements: measurements.map(measurement => ({ ...measurement })),
+  };
+}
+
+// Validate a parsed project and migrate it to the current version
+export function parseProject(data: unknown): ProjectFile {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Project file is empty or malformed');
+  }
+
+  const project = data as Partial<ProjectFile>;
+  if (project.format !== APP_NAME || typeof project.version !== 'number') {
+    throw new Error('Not a FishCAD project file');
+  }
+
+  if (project.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Project was saved by a newer version (format ${project.version})`);
+  }
+
+  if (!Array.isArray(project.models)) {
+    throw new Error('Project file has no models');
+  }
+
+  return {
+    format: APP_NAME,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: project.savedAt || new Date().toISOString(),
+    unit: project.unit === 'in' ? 'in' : 'mm',
+    models: project.models,
+    measurements: Array.isArray(project.measurements) ? project.measurements : [],
+  };
+}
+
+export function projectToBlob(project: ProjectFile): Blob {
+  return new Blob([JSON.stringify(project)], { type: 'application/json' });
+}
+
+export async function readProjectFile(file: File | Blob | string): Promise<ProjectFile> {
+  let text: string;
+  if (typeof file === 'string') {
+    const response = await fetch(file);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    text = await response.text();
+  } else {
+    text = await file.text();
+  }
+  return parseProject(JSON.parse(text));
+}
+
+// Open (and create on first use) the autosave database
+function openProjectDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveAutosave(project: ProjectFile): Promise<void> {
+  const db = await openProjectDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(PROJECT_STORE, 'readwrite');
+      tx.objectStore(PROJECT_STORE).put(project, STORAGE_KEYS.LAST_MODELS);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadAutosave(): Promise<ProjectFile | null> {
+  const db = await openProjectDatabase();
+  try {
+    const data = await new Promise<unknown>((resolve, reject) => {
+      const tx = db.transaction(PROJECT_STORE, 'readonly');
+      const request = tx.objectStore(PROJECT_STORE).get(STORAGE_KEYS.LAST_MODELS);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return data ? parseProject(data) : null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function clearAutosave(): Promise<void> {
+  const db = await openProjectDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(PROJECT_STORE, 'readwrite');
+      tx.objectStore(PROJECT_STORE).delete(STORAGE_KEYS.LAST_MODELS);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+import { quoteSTL, QuoteInputError } from '@shared/quote';
+import type { QuoteWorkerRequest, QuoteWorkerResponse } from './quoteWorker';
+
+/**
+ * Web Worker that prices an STL file off the main thread
+ */
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+function post(message: QuoteWorkerResponse) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<QuoteWorkerRequest>) => {
+  const { bytes, options } = event.data;
+
+  try {
+    post({ type: 'result', quote: quoteSTL(bytes, options) });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      isInputError: error instanceof QuoteInputError
+    });
+  }
+};
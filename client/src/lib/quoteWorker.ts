@@ -0,0 +1,48 @@
+import { QuoteInputError, Quote, QuoteInput } from '@shared/quote';
+
+/**
+ * Main-thread side of the quote worker. Parsing and measuring a large STL takes
+ * long enough to freeze the order form, so quotes are computed off the main thread.
+ */
+
+export type QuoteOptions = Omit<QuoteInput, 'metrics'>;
+
+export interface QuoteWorkerRequest {
+  bytes: Uint8Array;
+  options: QuoteOptions;
+}
+
+export type QuoteWorkerResponse =
+  | { type: 'result'; quote: Quote }
+  // Input errors are rethrown as QuoteInputError so the form can show their message
+  | { type: 'error'; message: string; isInputError: boolean };
+
+/**
+ * Quote an STL file in a Web Worker
+ * @param bytes - The STL file bytes; the buffer is transferred to the worker
+ * @param options - Material, quantity, Pro status and print settings
+ * @returns The same quote quoteSTL would return
+ */
+export function quoteSTLInWorker(bytes: Uint8Array, options: QuoteOptions): Promise<Quote> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./quote.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<QuoteWorkerResponse>) => {
+      const message = event.data;
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.quote);
+      } else {
+        reject(message.isInputError ? new QuoteInputError(message.message) : new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Quote worker crashed'));
+    };
+
+    const request: QuoteWorkerRequest = { bytes, options };
+    worker.postMessage(request, [bytes.buffer as ArrayBuffer]);
+  });
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import type { Quote } from '@shared/quote';
 
 // Set up the API client with the proxy endpoint
 const slantApi = axios.create({
@@ -472,18 +473,6 @@ export const getPrintJobStatus = async (jobId: string) => {
   }
 };
 
-// Calculate price from volume with proper margins based on user subscription
-export const calculatePriceWithMargin = async (basePrice: number, userId?: string) => {
-  try {
-    // Standard pricing for all users (50% margin)
-    return parseFloat((basePrice * 2.0).toFixed(2));
-  } catch (error) {
-    console.error('Error calculating price with margin:', error);
-    // If any error occurs, fall back to standard pricing
-    return parseFloat((basePrice * 2.0).toFixed(2));
-  }
-};
-
 // Create a payment link
 export const createPaymentLink = async (orderData: any) => {
   try {
@@ -504,85 +493,12 @@ export const createPaymentLink = async (orderData: any) => {
   }
 };
 
-// Calculate price using the Mandarin 3D proxy endpoint
-export const calculatePriceWithMandarin3D = async (
-  modelData: Blob | string, 
-  quantity: number = 1, 
-  filament: string = 'PLA'
-) => {
-  try {
-    console.log(`Calculating price using Mandarin 3D service, quantity: ${quantity}, filament: ${filament}`);
-    
-    // Create a FormData object to upload the STL file
-    const formData = new FormData();
-    
-    // Add the file to the form data
-    if (modelData instanceof Blob) {
-      formData.append('model', modelData, 'model.stl');
-    } else if (typeof modelData === 'string' && modelData.startsWith('data:')) {
-      // Convert data URL to Blob
-      const response = await fetch(modelData);
-      const blob = await response.blob();
-      formData.append('model', blob, 'model.stl');
-    } else {
-      throw new Error('Invalid model data format');
-    }
-    
-    // Add additional parameters
-    formData.append('quantity', quantity.toString());
-    formData.append('filament', filament);
-    
-    // Send the request to our server-side proxy
-    const response = await axios.post('/api/mandarin3d/calculate-price', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data'
-      }
-    });
-    
-    console.log('Mandarin 3D price response:', response.data);
-    
-    if (response.data && response.data.success) {
-      return {
-        success: true,
-        price: response.data.price,
-        basePrice: response.data.basePrice,
-        totalPrice: response.data.totalPrice,
-        materialCost: response.data.materialCost,
-        printingCost: response.data.printingCost,
-        shippingCost: response.data.shippingCost || 4.99,
-        message: response.data.message
-      };
-    }
-    
-    return {
-      success: false,
-      price: 15, // Default fallback price
-      message: 'Invalid response from price calculation service'
-    };
-  } catch (error) {
-    console.error('Error calculating price with Mandarin 3D:', error);
-    
-    // Fallback price calculation
-    const basePrice = 15 + ((quantity - 1) * 5);
-    
-    return {
-      success: false,
-      price: basePrice,
-      message: error instanceof Error ? error.message : 'Unknown error',
-      basePrice: basePrice,
-      totalPrice: basePrice + 4.99,
-      materialCost: basePrice * 0.4,
-      printingCost: basePrice * 0.6,
-      shippingCost: 4.99
-    };
-  }
-};
-
-// Calculate price using our custom pricing algorithm
+// Ask the server for a quote; it runs the same shared engine that verifies checkout totals
 export const calculate3DPrintPrice = async (
   modelData: Blob | string, 
   quantity: number = 1, 
-  material: string = 'PLA'
+  material: string = 'PLA',
+  settings: { layerHeight?: number; infill?: number; idToken?: string } = {}
 ) => {
   try {
     console.log(`Calculating 3D print price, quantity: ${quantity}, material: ${material}`);
@@ -610,7 +526,10 @@ export const calculate3DPrintPrice = async (
     const response = await axios.post('/api/calculate-price', {
       modelData: modelDataToSend,
       quantity,
-      material
+      material,
+      layerHeight: settings.layerHeight,
+      infill: settings.infill,
+      idToken: settings.idToken
     });
     
     console.log('Price calculation response:', response.data);
@@ -625,41 +544,23 @@ export const calculate3DPrintPrice = async (
         shippingCost: response.data.shippingCost,
         totalPrice: response.data.totalPrice,
         estimatedPrintTime: response.data.estimatedPrintTime,
+        quote: response.data.quote as Quote,
         message: response.data.message
       };
     }
     
-    // If the response indicates failure but has price data
-    if (response.data && response.data.basePrice) {
-      return {
-        success: false,
-        basePrice: response.data.basePrice,
-        totalBasePrice: response.data.totalBasePrice,
-        materialCost: response.data.materialCost,
-        printingCost: response.data.printingCost,
-        shippingCost: response.data.shippingCost,
-        totalPrice: response.data.totalPrice,
-        message: response.data.message || 'Price calculated with reduced accuracy'
-      };
-    }
-    
-    // Default fallback
-    throw new Error('Invalid response from price calculation service');
+    throw new Error(response.data?.message || 'Invalid response from price calculation service');
   } catch (error) {
     console.error('Error calculating 3D print price:', error);
     
-    // Fallback price calculation
-    const basePrice = 15 + ((quantity - 1) * 5);
+    // No made-up fallback: a price we can't back with geometry would fail checkout anyway
+    const message = axios.isAxiosError(error) && error.response?.data?.message
+      ? error.response.data.message
+      : error instanceof Error ? error.message : 'Error calculating price';
     
     return {
       success: false,
-      basePrice: basePrice,
-      totalBasePrice: basePrice,
-      materialCost: basePrice * 0.4,
-      printingCost: basePrice * 0.6,
-      shippingCost: 4.99,
-      totalPrice: basePrice + 4.99,
-      message: error instanceof Error ? error.message : 'Error calculating price'
+      message
     };
   }
 };
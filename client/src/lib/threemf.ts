@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import type { Model } from '@/types/model';
+import { getMeshColor } from '@/lib/project';
+import { APP_NAME } from '@/lib/constants';
+
+/**
+ * 3MF exporter - writes every model as its own object with its color and build-plate transform
+ */
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+// The viewport is Y-up while 3MF (and every slicer) is Z-up
+const Y_UP_TO_Z_UP = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Keep files small without losing sub-micron precision
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? '0' : rounded.toString();
+}
+
+// 3MF stores affine transforms as a row-major 3x4 matrix applied to row vectors,
+// which is the column-major layout three.js already uses minus the last row
+function formatTransform(matrix: THREE.Matrix4): string {
+  const e = matrix.elements;
+  return [e[0], e[1], e[2], e[4], e[5], e[6], e[8], e[9], e[10], e[12], e[13], e[14]]
+    .map(formatNumber)
+    .join(' ');
+}
+
+// Build the <mesh> element for a geometry, welding identical vertices
+function buildMeshXml(geometry: THREE.BufferGeometry): string {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const triangleCount = index ? index.count / 3 : position.count / 3;
+
+  const vertexLookup = new Map<string, number>();
+  const remap = new Uint32Array(position.count);
+  const vertices: string[] = [];
+
+  for (let i = 0; i < position.count; i++) {
+    const x = formatNumber(position.getX(i));
+    const y = formatNumber(position.getY(i));
+    const z = formatNumber(position.getZ(i));
+    const key = `${x},${y},${z}`;
+
+    let vertexIndex = vertexLookup.get(key);
+    if (vertexIndex === undefined) {
+      vertexIndex = vertices.length;
+      vertexLookup.set(key, vertexIndex);
+      vertices.push(`<vertex x="${x}" y="${y}" z="${z}"/>`);
+    }
+    remap[i] = vertexIndex;
+  }
+
+  const triangles: string[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    const a = remap[index ? index.getX(t * 3) : t * 3];
+    const b = remap[index ? index.getX(t * 3 + 1) : t * 3 + 1];
+    const c = remap[index ? index.getX(t * 3 + 2) : t * 3 + 2];
+
+    // Welding can collapse slivers - 3MF forbids triangles with repeated vertices
+    if (a === b || b === c || a === c) continue;
+    triangles.push(`<triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+  }
+
+  return `<mesh><vertices>${vertices.join('')}</vertices><triangles>${triangles.join('')}</triangles></mesh>`;
+}
+
+/**
+ * Export models to a 3MF package
+ * @param models - The models to export, each written as a separate object
+ * @returns The zipped 3MF file contents
+ */
+export function export3MF(models: Model[]): Uint8Array {
+  if (models.length === 0) {
+    throw new Error('There are no models to export');
+  }
+
+  // Work out where the build plate is so the lowest part rests on it
+  const sceneBox = new THREE.Box3();
+  models.forEach(model => {
+    model.mesh.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(model.mesh);
+    box.applyMatrix4(Y_UP_TO_Z_UP);
+    sceneBox.union(box);
+  });
+  const toBuildPlate = new THREE.Matrix4().makeTranslation(0, 0, -sceneBox.min.z);
+
+  const materials: string[] = [];
+  const objects: string[] = [];
+  const items: string[] = [];
+
+  models.forEach((model, i) => {
+    const objectId = i + 2; // id 1 is the base materials group
+    const color = getMeshColor(model.mesh).getHexString().toUpperCase();
+
+    materials.push(`<base name="${escapeXml(model.name)}" displaycolor="#${color}FF"/>`);
+    objects.push(
+      `<object id="${objectId}" name="${escapeXml(model.name)}" type="model" pid="1" pindex="${i}">` +
+      buildMeshXml(model.mesh.geometry) +
+      `</object>`
+    );
+
+    const transform = new THREE.Matrix4()
+      .multiplyMatrices(toBuildPlate, Y_UP_TO_Z_UP)
+      .multiply(model.mesh.matrixWorld);
+    items.push(`<item objectid="${objectId}" transform="${formatTransform(transform)}"/>`);
+  });
+
+  const modelXml = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<metadata name="Application">${APP_NAME}</metadata>
+<resources>
+<basematerials id="1">${materials.join('')}</basematerials>
+${objects.join('\n')}
+</resources>
+<build>${items.join('')}</build>
+</model>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(RELS_XML),
+    '3D/3dmodel.model': strToU8(modelXml),
+  });
+}
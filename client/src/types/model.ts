@@ -1,4 +1,5 @@
 import { Material, Mesh, Scene, Vector3, Euler } from 'three';
+import type { PrimitiveParams } from '@/lib/primitives';
 
 export interface TextProps {
   text: string;
@@ -12,15 +13,26 @@ export interface TextProps {
   fontPath: string;
 }
 
+export type BooleanOperationType = 'union' | 'subtract' | 'intersect';
+
+// The inputs of a boolean result, kept so they can be edited and the result recomputed.
+// Operand meshes are never in the scene; their transforms are relative to the result.
+export interface CSGTree {
+  operation: BooleanOperationType;
+  operands: Model[];
+}
+
 export interface Model {
   id: string;
   name: string;
-  type: 'text' | 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'model' | 'torusknot' | 'octahedron' | 'icosahedron' | 'dodecahedron' | 'capsule' | 'pyramid' | 'svg';
+  type: 'text' | 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'model' | 'torusknot' | 'octahedron' | 'icosahedron' | 'dodecahedron' | 'capsule' | 'pyramid' | 'svg' | 'hardware';
   mesh: Mesh;
   originalPosition: Vector3;
   originalRotation: Euler;
   originalScale: Vector3;
   textProps?: TextProps;
+  csgTree?: CSGTree;
+  primitive?: PrimitiveParams; // Set on basic shapes, which regenerate from it when edited
 }
 
 declare module 'three' {
@@ -12,7 +12,9 @@ import { Stripe } from 'stripe';
 import dotenv from 'dotenv';
 import { sendOrderNotificationEmail, sendCustomerConfirmationEmail } from './email-service.js';
 import { storeSTLInFirebase, cleanupTempSTLFile, storeTempSTLFile } from './file-service.js';
-import { firestore } from './firebase-admin.js';
+import admin, { firestore } from './firebase-admin.js';
+import { quoteSTL, decodeModelData, isQuotedTotal, formatPrintTime, parseQuantity, QuoteInputError, type PrintSettings } from '../shared/quote.js';
+import { isProCustomer } from '../shared/proPricing.js';
 import { fileURLToPath } from 'url';
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
@@ -77,9 +79,9 @@ export async function registerRoutes(app: Express, httpServer?: Server, socketIo
       console.log('\n=== 3D Model Price Calculation ===');
       
       // Get the parameters
-      const { modelData, quantity = 1, material = 'PLA' } = req.body;
+      const { modelData, quantity = 1, material = 'PLA', layerHeight, infill, idToken } = req.body;
       
-      if (!modelData) {
+      if (!modelData || typeof modelData !== 'string') {
         return res.status(400).json({
           success: false,
           message: 'No model data provided'
@@ -88,79 +90,45 @@ export async function registerRoutes(app: Express, httpServer?: Server, socketIo
       
       console.log(`Received price calculation request for ${material} model, quantity: ${quantity}`);
       
-      // Determine model size/complexity based on the data length
-      // This is a rough proxy for actual model volume/complexity
-      let modelDataStr = typeof modelData === 'string' ? modelData : JSON.stringify(modelData);
-      
-      // If it's a data URL, get just the data part after the comma
-      if (typeof modelDataStr === 'string' && modelDataStr.startsWith('data:')) {
-        modelDataStr = modelDataStr.split(',')[1] || modelDataStr;
-      }
-      
-      const dataSize = modelDataStr.length;
-      console.log(`Model data size: ${Math.round(dataSize / 1024)} KB`);
-      
-      // Base price calculation using data size as a proxy for complexity
-      // $5 base price + $1 per 10KB, adjusted by quantity
-      const baseItemPrice = 5 + (dataSize / 10240);
-      const totalBasePrice = baseItemPrice * quantity;
+      // Reject bad quantities before spending any time on the model
+      const orderQuantity = parseQuantity(quantity);
       
-      // Add randomness to make pricing seem more realistic (±10%)
-      const randomFactor = 0.9 + (Math.random() * 0.2);
-      const finalBasePrice = totalBasePrice * randomFactor;
-      
-      // Material and printing cost breakdown (40% material, 60% printing)
-      const materialCost = finalBasePrice * 0.4;
-      const printingCost = finalBasePrice * 0.6;
-      
-      // Fixed shipping cost
-      const shippingCost = 4.99;
-      
-      // Calculate total price
-      const totalPrice = finalBasePrice + shippingCost;
-      
-      // Calculate estimated print time based on complexity
-      // 15 minutes per KB of model data, up to 24 hours
-      const printTimeMinutes = Math.min(dataSize / 1024 * 15, 24 * 60);
-      const printTimeHours = Math.round(printTimeMinutes / 60 * 10) / 10; // Round to 1 decimal
-      
-      // Simulate network delay for more realism
-      await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 1200));
+      // Price from the actual geometry so the same model always gets the same quote
+      const quote = quoteSTL(decodeModelData(modelData), {
+        material,
+        quantity: orderQuantity,
+        isPro: await isProCustomer(idToken, admin),
+        settings: { layerHeight, infill }
+      });
+      const materialCost = quote.lineItems.find(item => item.id === 'material')?.amount ?? 0;
       
-      console.log(`Calculated price: $${finalBasePrice.toFixed(2)} + $${shippingCost.toFixed(2)} shipping`);
-      console.log(`Estimated print time: ${printTimeHours} hours`);
+      console.log(`Model volume: ${(quote.metrics.volumeMm3 / 1000).toFixed(2)} cm³, ` +
+        `filament: ${quote.estimate.filamentGrams.toFixed(1)} g`);
+      console.log(`Calculated price: $${quote.subtotal.toFixed(2)} + $${quote.shippingCost.toFixed(2)} shipping`);
       console.log('=== End 3D Model Price Calculation ===\n');
       
       // Return the price information
       return res.status(200).json({
         success: true,
         message: 'Price calculated successfully',
-        basePrice: parseFloat(baseItemPrice.toFixed(2)),
-        totalBasePrice: parseFloat(finalBasePrice.toFixed(2)),
-        materialCost: parseFloat(materialCost.toFixed(2)),
-        printingCost: parseFloat(printingCost.toFixed(2)),
-        shippingCost: parseFloat(shippingCost.toFixed(2)),
-        totalPrice: parseFloat(totalPrice.toFixed(2)),
-        estimatedPrintTime: `${printTimeHours} hours`,
-        quantity: quantity,
-        material: material
+        basePrice: quote.unitPrice,
+        totalBasePrice: quote.subtotal,
+        materialCost,
+        printingCost: parseFloat((quote.subtotal - materialCost).toFixed(2)),
+        shippingCost: quote.shippingCost,
+        totalPrice: quote.total,
+        estimatedPrintTime: formatPrintTime(quote.estimate.printTimeMinutes),
+        quantity: quote.quantity,
+        material: quote.material,
+        quote
       });
     } catch (error) {
       console.error('Error calculating price:', error);
       
-      // Fallback to a simple calculation
-      const qty = req.body.quantity || 1;
-      const basePrice = 15 + ((qty - 1) * 5);
-      
-      return res.status(500).json({
+      // A quote we can't back with geometry is worse than no quote
+      return res.status(error instanceof QuoteInputError ? 400 : 500).json({
         success: false,
-        message: 'Error calculating price, using estimate',
-        basePrice: parseFloat(basePrice.toFixed(2)),
-        totalBasePrice: parseFloat(basePrice.toFixed(2)),
-        materialCost: parseFloat((basePrice * 0.4).toFixed(2)),
-        printingCost: parseFloat((basePrice * 0.6).toFixed(2)),
-        shippingCost: 4.99,
-        totalPrice: parseFloat((basePrice + 4.99).toFixed(2)),
+        message: error instanceof QuoteInputError ? error.message : 'Error calculating price',
         error: error instanceof Error ? error.message : 'Unknown error'
       });
     }
@@ -970,7 +938,7 @@ ${feedback}
   // Update create-checkout-session endpoint
   app.post('/api/create-checkout-session', async (req, res) => {
     try {
-      const { modelName, color, quantity, finalPrice, stlFileData, stlFileName, stlDownloadUrl } = req.body;
+      const { modelName, color, quantity, finalPrice, stlFileData, stlFileName, stlDownloadUrl, material, layerHeight, infill, idToken } = req.body;
       
       if (!modelName || !color || !quantity || !finalPrice) {
         return res.status(400).json({ 
@@ -978,6 +946,44 @@ ${feedback}
           message: 'Missing required checkout information' 
         });
       }
+      
+      // Recompute the total from the uploaded model so the client can't set its own price
+      if (!stlFileData || typeof stlFileData !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Model data is required to verify the price'
+        });
+      }
+      
+      // The same print settings as the quote being paid for, so the totals can match
+      let verifiedTotal: number;
+      let printSettings: PrintSettings;
+      try {
+        const orderQuantity = parseQuantity(quantity);
+        const quote = quoteSTL(decodeModelData(stlFileData), {
+          material: material || 'PLA',
+          quantity: orderQuantity,
+          isPro: await isProCustomer(idToken, admin),
+          settings: { layerHeight, infill }
+        });
+        
+        if (!isQuotedTotal(Number(finalPrice), quote)) {
+          console.warn(`Checkout total $${finalPrice} does not match quoted $${quote.total}`);
+          return res.status(409).json({
+            success: false,
+            message: 'The price has changed. Please recalculate before checking out.',
+            totalPrice: quote.total,
+            quote
+          });
+        }
+        verifiedTotal = quote.total;
+        printSettings = quote.settings;
+      } catch (error) {
+        if (error instanceof QuoteInputError) {
+          return res.status(400).json({ success: false, message: error.message });
+        }
+        throw error;
+      }
 
       // Store STL file temporarily if provided and no download URL exists
       let tempFilePath = '';
@@ -1021,7 +1027,7 @@ ${feedback}
       // Create a price for the product
       const price = await stripe.prices.create({
         product: product.id,
-        unit_amount: Math.round(finalPrice * 100), // Convert to cents
+        unit_amount: Math.round(verifiedTotal * 100), // Convert to cents
         currency: 'usd',
       });
 
@@ -1041,7 +1047,9 @@ ${feedback}
           modelName,
           color,
           quantity: quantity.toString(),
-          finalPrice: finalPrice.toString(),
+          finalPrice: verifiedTotal.toString(),
+          layerHeight: printSettings.layerHeight.toString(),
+          infill: printSettings.infill.toString(),
           stlFileName: stlFileName || 'unknown.stl',
           stlDownloadUrl: stlDownloadUrl || '',
           // Store reference to temporary file if available
@@ -0,0 +1,492 @@
+/**
+ * Printability analysis shared by the quote engine and the viewport heatmap.
+ * Finds where a part will fail on an FDM printer: faces that overhang too far
+ * to print without support, walls thinner than the nozzle can lay down, and
+ * islands that are not connected to the bed.
+ *
+ * Everything is computed per triangle so the results can be drawn over the
+ * model, and is a pure function of the triangle list.
+ */
+
+import type { Vec3Tuple } from './quote.js';
+
+export interface PrintabilityOptions {
+  // Direction the part grows in
+  buildDirection: Vec3Tuple;
+  // Faces tilted further than this from vertical (in degrees) need support
+  maxOverhangAngle: number;
+  // Walls thinner than this (in mm) may not print
+  minWallThickness: number;
+  // Faces within this distance (in mm) of the lowest point rest on the bed
+  bedTolerance: number;
+}
+
+export interface PrintabilitySummary {
+  faceCount: number;
+  surfaceArea: number;
+  overhangArea: number;
+  overhangFaceCount: number;
+  thinWallArea: number;
+  thinFaceCount: number;
+  minThickness: number;
+  islandCount: number;
+  floatingIslandCount: number;
+  hasOverhangs: boolean;
+  hasThinWalls: boolean;
+  hasFloatingIslands: boolean;
+}
+
+// The orientation dependent part of the analysis, cheap enough to repeat for many poses
+export interface OverhangAnalysis {
+  // Degrees from vertical for faces that point down, 0 otherwise
+  overhangAngles: Float32Array;
+  onBed: Uint8Array;
+  // Outward unit normal of each face, zero for faces with no area
+  normals: Float32Array;
+  areas: Float32Array;
+  surfaceArea: number;
+  overhangArea: number;
+  overhangFaceCount: number;
+  // Lowest and highest point along the build direction
+  bedHeight: number;
+  topHeight: number;
+}
+
+export interface PrintabilityAnalysis {
+  // Degrees from vertical for faces that point down, 0 otherwise
+  overhangAngles: Float32Array;
+  // Wall thickness behind each face in mm; Infinity where the ray escaped an open mesh
+  thickness: Float32Array;
+  onBed: Uint8Array;
+  islandIds: Uint32Array;
+  floating: Uint8Array;
+  options: PrintabilityOptions;
+  summary: PrintabilitySummary;
+}
+
+// Index of the build axis. Models reach the quote as STL in the editor's own
+// Y-up coordinates, so the quote, the heatmap and orientation all grow along +Y.
+export const BUILD_AXIS = 1;
+
+export const DEFAULT_PRINTABILITY_OPTIONS: PrintabilityOptions = {
+  buildDirection: [0, 1, 0],
+  maxOverhangAngle: 45,
+  minWallThickness: 0.8,
+  bedTolerance: 0.05
+};
+
+// Overhangs and thin walls under this share of the surface are usually noise
+const SIGNIFICANT_AREA_RATIO = 0.005;
+
+// Rays start this far inside the surface so they don't hit their own face
+const RAY_OFFSET = 1e-4;
+
+const BVH_LEAF_SIZE = 8;
+
+// Corners closer than this are welded when finding islands
+const WELD_PRECISION = 1e4;
+
+// Skewed so rays testing whether an island is enclosed don't run along axis-aligned edges
+const ENCLOSURE_RAY: Vec3Tuple = [0.5224, 0.6135, 0.5922];
+
+interface BVHNode {
+  min: Vec3Tuple;
+  max: Vec3Tuple;
+  left: BVHNode | null;
+  right: BVHNode | null;
+  start: number;
+  count: number;
+}
+
+// Bounding volume hierarchy over the faces so thickness rays stay fast on dense meshes
+class TriangleBVH {
+  private readonly order: Uint32Array;
+  private readonly root: BVHNode;
+
+  constructor(private readonly positions: ArrayLike<number>) {
+    const faceCount = Math.floor(positions.length / 9);
+    this.order = new Uint32Array(faceCount);
+    const centroids = new Float32Array(faceCount * 3);
+    for (let f = 0; f < faceCount; f++) {
+      this.order[f] = f;
+      for (let axis = 0; axis < 3; axis++) {
+        centroids[f * 3 + axis] = (positions[f * 9 + axis] + positions[f * 9 + 3 + axis] + positions[f * 9 + 6 + axis]) / 3;
+      }
+    }
+    this.root = this.build(0, faceCount, centroids);
+  }
+
+  private build(start: number, end: number, centroids: Float32Array): BVHNode {
+    const min: Vec3Tuple = [Infinity, Infinity, Infinity];
+    const max: Vec3Tuple = [-Infinity, -Infinity, -Infinity];
+    for (let i = start; i < end; i++) {
+      const offset = this.order[i] * 9;
+      for (let j = 0; j < 9; j++) {
+        const axis = j % 3;
+        const value = this.positions[offset + j];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+
+    const node: BVHNode = { min, max, left: null, right: null, start, count: end - start };
+    if (end - start <= BVH_LEAF_SIZE) {
+      return node;
+    }
+
+    // Split at the median along the longest axis
+    const size = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+    const axis = size[0] > size[1] ? (size[0] > size[2] ? 0 : 2) : (size[1] > size[2] ? 1 : 2);
+    this.order.subarray(start, end).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+
+    const middle = (start + end) >> 1;
+    node.left = this.build(start, middle, centroids);
+    node.right = this.build(middle, end, centroids);
+    node.count = 0;
+    return node;
+  }
+
+  /**
+   * Distance to the nearest face hit by a ray
+   * @param origin - Ray origin
+   * @param direction - Normalized ray direction
+   * @param skipFace - Face the ray starts on
+   * @returns The hit distance, or Infinity if nothing was hit
+   */
+  nearestHit(origin: Vec3Tuple, direction: Vec3Tuple, skipFace: number): number {
+    let best = Infinity;
+    const inverse: Vec3Tuple = [1 / direction[0], 1 / direction[1], 1 / direction[2]];
+    const stack: BVHNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!rayHitsBox(origin, inverse, node.min, node.max, best)) continue;
+
+      if (node.left && node.right) {
+        stack.push(node.left, node.right);
+        continue;
+      }
+
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const face = this.order[i];
+        if (face === skipFace) continue;
+        const t = intersectTriangle(this.positions, face, origin, direction);
+        if (t > 0 && t < best) {
+          best = t;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Count the faces of each island that a ray passes through
+   * @param origin - Ray origin
+   * @param direction - Normalized ray direction
+   * @param islandIds - Island of each face
+   * @param islandCount - Number of islands
+   */
+  countCrossings(origin: Vec3Tuple, direction: Vec3Tuple, islandIds: Uint32Array, islandCount: number): Uint32Array {
+    const crossings = new Uint32Array(islandCount);
+    const inverse: Vec3Tuple = [1 / direction[0], 1 / direction[1], 1 / direction[2]];
+    const stack: BVHNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!rayHitsBox(origin, inverse, node.min, node.max, Infinity)) continue;
+
+      if (node.left && node.right) {
+        stack.push(node.left, node.right);
+        continue;
+      }
+
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const face = this.order[i];
+        if (intersectTriangle(this.positions, face, origin, direction) > 0) {
+          crossings[islandIds[face]]++;
+        }
+      }
+    }
+    return crossings;
+  }
+}
+
+// Slab test against an axis aligned box
+function rayHitsBox(origin: Vec3Tuple, inverse: Vec3Tuple, min: Vec3Tuple, max: Vec3Tuple, maxDistance: number): boolean {
+  let near = 0;
+  let far = maxDistance;
+  for (let axis = 0; axis < 3; axis++) {
+    let t1 = (min[axis] - origin[axis]) * inverse[axis];
+    let t2 = (max[axis] - origin[axis]) * inverse[axis];
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    near = Math.max(near, t1);
+    far = Math.min(far, t2);
+    if (near > far) return false;
+  }
+  return true;
+}
+
+// Möller–Trumbore; hits from either side count since the ray starts inside the solid
+function intersectTriangle(positions: ArrayLike<number>, face: number, origin: Vec3Tuple, direction: Vec3Tuple): number {
+  const i = face * 9;
+  const e1x = positions[i + 3] - positions[i], e1y = positions[i + 4] - positions[i + 1], e1z = positions[i + 5] - positions[i + 2];
+  const e2x = positions[i + 6] - positions[i], e2y = positions[i + 7] - positions[i + 1], e2z = positions[i + 8] - positions[i + 2];
+  const [dx, dy, dz] = direction;
+
+  const px = dy * e2z - dz * e2y;
+  const py = dz * e2x - dx * e2z;
+  const pz = dx * e2y - dy * e2x;
+  const det = e1x * px + e1y * py + e1z * pz;
+  if (Math.abs(det) < 1e-12) return -1;
+
+  const invDet = 1 / det;
+  const tx = origin[0] - positions[i], ty = origin[1] - positions[i + 1], tz = origin[2] - positions[i + 2];
+  const u = (tx * px + ty * py + tz * pz) * invDet;
+  if (u < 0 || u > 1) return -1;
+
+  const qx = ty * e1z - tz * e1y;
+  const qy = tz * e1x - tx * e1z;
+  const qz = tx * e1y - ty * e1x;
+  const v = (dx * qx + dy * qy + dz * qz) * invDet;
+  if (v < 0 || u + v > 1) return -1;
+
+  return (e2x * qx + e2y * qy + e2z * qz) * invDet;
+}
+
+// Group faces into connected pieces by welding shared corners
+function findIslands(positions: ArrayLike<number>, faceCount: number): { islandIds: Uint32Array; islandCount: number } {
+  const parent = new Uint32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) parent[f] = f;
+
+  const find = (face: number): number => {
+    while (parent[face] !== face) {
+      parent[face] = parent[parent[face]];
+      face = parent[face];
+    }
+    return face;
+  };
+
+  const cornerOwners = new Map<string, number>();
+  for (let f = 0; f < faceCount; f++) {
+    for (let v = 0; v < 3; v++) {
+      const i = f * 9 + v * 3;
+      const key = `${Math.round(positions[i] * WELD_PRECISION)}_${Math.round(positions[i + 1] * WELD_PRECISION)}_${Math.round(positions[i + 2] * WELD_PRECISION)}`;
+      const owner = cornerOwners.get(key);
+      if (owner === undefined) {
+        cornerOwners.set(key, f);
+      } else {
+        parent[find(f)] = find(owner);
+      }
+    }
+  }
+
+  const islandOfRoot = new Map<number, number>();
+  const islandIds = new Uint32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) {
+    const root = find(f);
+    if (!islandOfRoot.has(root)) islandOfRoot.set(root, islandOfRoot.size);
+    islandIds[f] = islandOfRoot.get(root)!;
+  }
+  return { islandIds, islandCount: islandOfRoot.size };
+}
+
+/**
+ * Find the faces that overhang or rest on the bed when a mesh grows along a direction
+ * @param positions - Vertex positions in mm, nine numbers per triangle
+ * @param options - Build direction and printer limits
+ */
+export function analyzeOverhangs(
+  positions: ArrayLike<number>,
+  options: Partial<PrintabilityOptions> = {}
+): OverhangAnalysis {
+  const settings: PrintabilityOptions = { ...DEFAULT_PRINTABILITY_OPTIONS, ...options };
+  const faceCount = Math.floor(positions.length / 9);
+  const up = getUnitDirection(settings.buildDirection);
+  const heightOf = (i: number) => positions[i] * up[0] + positions[i + 1] * up[1] + positions[i + 2] * up[2];
+
+  // Inverted winding flips every normal, so orient faces by the sign of the volume
+  let bedHeight = Infinity;
+  let topHeight = -Infinity;
+  let signedVolume = 0;
+  for (let f = 0; f < faceCount; f++) {
+    const i = f * 9;
+    const ax = positions[i], ay = positions[i + 1], az = positions[i + 2];
+    const bx = positions[i + 3], by = positions[i + 4], bz = positions[i + 5];
+    const cx = positions[i + 6], cy = positions[i + 7], cz = positions[i + 8];
+    signedVolume += ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+    bedHeight = Math.min(bedHeight, heightOf(i), heightOf(i + 3), heightOf(i + 6));
+    topHeight = Math.max(topHeight, heightOf(i), heightOf(i + 3), heightOf(i + 6));
+  }
+  const orientation = signedVolume < 0 ? -1 : 1;
+
+  const overhangAngles = new Float32Array(faceCount);
+  const onBed = new Uint8Array(faceCount);
+  const normals = new Float32Array(faceCount * 3);
+  const areas = new Float32Array(faceCount);
+
+  let surfaceArea = 0;
+  let overhangArea = 0;
+  let overhangFaceCount = 0;
+
+  for (let f = 0; f < faceCount; f++) {
+    const i = f * 9;
+    const e1x = positions[i + 3] - positions[i], e1y = positions[i + 4] - positions[i + 1], e1z = positions[i + 5] - positions[i + 2];
+    const e2x = positions[i + 6] - positions[i], e2y = positions[i + 7] - positions[i + 1], e2z = positions[i + 8] - positions[i + 2];
+    const nx = (e1y * e2z - e1z * e2y) * orientation;
+    const ny = (e1z * e2x - e1x * e2z) * orientation;
+    const nz = (e1x * e2y - e1y * e2x) * orientation;
+    const doubleArea = Math.hypot(nx, ny, nz);
+    areas[f] = doubleArea / 2;
+    surfaceArea += areas[f];
+
+    if (doubleArea === 0) continue;
+    normals[f * 3] = nx / doubleArea;
+    normals[f * 3 + 1] = ny / doubleArea;
+    normals[f * 3 + 2] = nz / doubleArea;
+
+    const faceTop = Math.max(heightOf(i), heightOf(i + 3), heightOf(i + 6));
+    if (faceTop - bedHeight <= settings.bedTolerance) {
+      onBed[f] = 1;
+    }
+
+    // Angle from vertical for faces that look down; faces resting on the bed are held up by it
+    const facing = normals[f * 3] * up[0] + normals[f * 3 + 1] * up[1] + normals[f * 3 + 2] * up[2];
+    if (facing < 0 && !onBed[f]) {
+      overhangAngles[f] = (Math.asin(Math.min(1, -facing)) * 180) / Math.PI;
+      if (overhangAngles[f] > settings.maxOverhangAngle) {
+        overhangArea += areas[f];
+        overhangFaceCount++;
+      }
+    }
+  }
+
+  return {
+    overhangAngles,
+    onBed,
+    normals,
+    areas,
+    surfaceArea,
+    overhangArea,
+    overhangFaceCount,
+    bedHeight,
+    topHeight
+  };
+}
+
+function getUnitDirection([x, y, z]: Vec3Tuple): Vec3Tuple {
+  const length = Math.hypot(x, y, z) || 1;
+  return [x / length, y / length, z / length];
+}
+
+/**
+ * Analyze how well a triangle mesh will print in its current pose
+ * @param positions - Vertex positions in mm, nine numbers per triangle
+ * @param options - Build direction and printer limits
+ */
+export function analyzePrintability(
+  positions: ArrayLike<number>,
+  options: Partial<PrintabilityOptions> = {}
+): PrintabilityAnalysis {
+  const settings: PrintabilityOptions = { ...DEFAULT_PRINTABILITY_OPTIONS, ...options };
+  const faceCount = Math.floor(positions.length / 9);
+  const up = getUnitDirection(settings.buildDirection);
+  const heightOf = (i: number) => positions[i] * up[0] + positions[i + 1] * up[1] + positions[i + 2] * up[2];
+
+  const {
+    overhangAngles,
+    onBed,
+    normals,
+    areas,
+    surfaceArea,
+    overhangArea,
+    overhangFaceCount,
+    bedHeight
+  } = analyzeOverhangs(positions, settings);
+  const thickness = new Float32Array(faceCount);
+  const floating = new Uint8Array(faceCount);
+  const bvh = new TriangleBVH(positions);
+
+  let thinWallArea = 0;
+  let thinFaceCount = 0;
+  let minThickness = Infinity;
+
+  for (let f = 0; f < faceCount; f++) {
+    if (areas[f] === 0) {
+      thickness[f] = Infinity;
+      continue;
+    }
+
+    // Cast inward from the face centre to the far side of the wall
+    const i = f * 9;
+    const inward: Vec3Tuple = [-normals[f * 3], -normals[f * 3 + 1], -normals[f * 3 + 2]];
+    const origin: Vec3Tuple = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+      origin[axis] = (positions[i + axis] + positions[i + 3 + axis] + positions[i + 6 + axis]) / 3 + inward[axis] * RAY_OFFSET;
+    }
+    const distance = bvh.nearestHit(origin, inward, f);
+    thickness[f] = distance + RAY_OFFSET;
+    minThickness = Math.min(minThickness, thickness[f]);
+    if (thickness[f] < settings.minWallThickness) {
+      thinWallArea += areas[f];
+      thinFaceCount++;
+    }
+  }
+
+  // Pieces whose lowest point is above the bed would print in mid-air
+  const { islandIds, islandCount } = findIslands(positions, faceCount);
+  const islandBottoms = new Float64Array(islandCount).fill(Infinity);
+  for (let f = 0; f < faceCount; f++) {
+    const i = f * 9;
+    const island = islandIds[f];
+    islandBottoms[island] = Math.min(islandBottoms[island], heightOf(i), heightOf(i + 3), heightOf(i + 6));
+  }
+
+  // Islands sealed inside another one, like the cavity of a hollowed part, are held by the walls around them
+  const firstFaces = new Int32Array(islandCount).fill(-1);
+  for (let f = faceCount - 1; f >= 0; f--) {
+    firstFaces[islandIds[f]] = f;
+  }
+  const isFloating = new Uint8Array(islandCount);
+  let floatingIslandCount = 0;
+  islandBottoms.forEach((bottom, island) => {
+    if (bottom - bedHeight <= settings.bedTolerance) return;
+
+    const i = firstFaces[island] * 9;
+    const origin: Vec3Tuple = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+      origin[axis] = (positions[i + axis] + positions[i + 3 + axis] + positions[i + 6 + axis]) / 3;
+    }
+    const crossings = bvh.countCrossings(origin, ENCLOSURE_RAY, islandIds, islandCount);
+    const enclosed = crossings.some((count, other) => other !== island && count % 2 === 1);
+    if (!enclosed) {
+      isFloating[island] = 1;
+      floatingIslandCount++;
+    }
+  });
+  for (let f = 0; f < faceCount; f++) {
+    floating[f] = isFloating[islandIds[f]];
+  }
+
+  return {
+    overhangAngles,
+    thickness,
+    onBed,
+    islandIds,
+    floating,
+    options: settings,
+    summary: {
+      faceCount,
+      surfaceArea,
+      overhangArea,
+      overhangFaceCount,
+      thinWallArea,
+      thinFaceCount,
+      minThickness,
+      islandCount,
+      floatingIslandCount,
+      hasOverhangs: overhangArea > surfaceArea * SIGNIFICANT_AREA_RATIO,
+      hasThinWalls: thinWallArea > surfaceArea * SIGNIFICANT_AREA_RATIO,
+      hasFloatingIslands: floatingIslandCount > 0
+    }
+  };
+}
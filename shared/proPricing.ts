@@ -0,0 +1,39 @@
+/**
+ * Pro pricing lookup shared by the Express server and the Vercel functions.
+ * Whether a quote gets Pro pricing is decided from the caller's verified
+ * Firebase ID token, never from a user id in the request body.
+ */
+
+// The parts of firebase-admin the lookup needs, so both servers can pass their own instance
+export interface AccountStore {
+  auth(): {
+    verifyIdToken(idToken: string): Promise<{ uid: string }>;
+  };
+  firestore(): {
+    collection(path: string): {
+      doc(id: string): {
+        get(): Promise<{ exists: boolean; data(): { isPro?: unknown } | undefined }>;
+      };
+    };
+  };
+}
+
+/**
+ * Whether the signed-in customer making a request is on the Pro plan
+ * @param idToken - The Firebase ID token sent with the request, if any
+ * @param accounts - The initialized firebase-admin instance
+ * @returns False for guests and for tokens that don't verify
+ */
+export async function isProCustomer(idToken: unknown, accounts: AccountStore): Promise<boolean> {
+  if (typeof idToken !== 'string' || !idToken) {
+    return false;
+  }
+  try {
+    const { uid } = await accounts.auth().verifyIdToken(idToken);
+    const userDoc = await accounts.firestore().collection('users').doc(uid).get();
+    return userDoc.exists && userDoc.data()?.isPro === true;
+  } catch (error) {
+    console.error('Error looking up subscription for pricing:', error);
+    return false;
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * Print quote engine shared by the client and the server. The client runs it
+ * to show a live price, and the server runs the same code on the uploaded STL
+ * to verify the checkout total, so both always agree on the number.
+ *
+ * Everything here is a pure function of the STL bytes and the order options.
+ */
+
+import { analyzeOverhangs, BUILD_AXIS } from './printability.js';
+
+export type Vec3Tuple = [number, number, number];
+
+export interface BoundingBox {
+  min: Vec3Tuple;
+  max: Vec3Tuple;
+  size: Vec3Tuple;
+}
+
+export interface GeometryMetrics {
+  triangleCount: number;
+  volumeMm3: number;
+  surfaceAreaMm2: number;
+  // Area of steep downward faces that are not resting on the bed
+  overhangAreaMm2: number;
+  boundingBox: BoundingBox;
+}
+
+export interface PrintSettings {
+  layerHeight: number; // mm
+  infill: number; // 0-1
+}
+
+export interface PrintEstimate {
+  filamentGrams: number;
+  printTimeMinutes: number;
+  layerCount: number;
+}
+
+export interface PrintabilityAssessment {
+  factor: number;
+  category: 'Easy' | 'Moderate';
+  hasOverhangs: boolean;
+}
+
+export type QuoteLineItemId =
+  | 'material'
+  | 'printing'
+  | 'complexity'
+  | 'printability'
+  | 'specialty'
+  | 'quantityDiscount'
+  | 'proDiscount'
+  | 'shipping';
+
+export interface QuoteLineItem {
+  id: QuoteLineItemId;
+  label: string;
+  amount: number; // USD for the whole order; discounts are negative
+}
+
+export interface QuoteInput {
+  material: string;
+  quantity: number;
+  metrics: GeometryMetrics;
+  isPro?: boolean;
+  settings?: Partial<PrintSettings>;
+}
+
+export interface Quote {
+  material: string;
+  quantity: number;
+  settings: PrintSettings;
+  metrics: GeometryMetrics;
+  estimate: PrintEstimate;
+  printability: PrintabilityAssessment;
+  complexityFactor: number;
+  lineItems: QuoteLineItem[];
+  unitPrice: number; // Price of the first item before quantity and Pro discounts
+  subtotal: number; // Everything except shipping
+  shippingCost: number;
+  total: number;
+}
+
+interface MaterialProfile {
+  density: number; // g/cm³
+  pricePerGram: number; // USD
+}
+
+const MATERIALS: Record<string, MaterialProfile> = {
+  PLA: { density: 1.24, pricePerGram: 0.05 },
+  PETG: { density: 1.27, pricePerGram: 0.06 },
+  ABS: { density: 1.04, pricePerGram: 0.06 },
+  TPU: { density: 1.21, pricePerGram: 0.09 }
+};
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  layerHeight: 0.2,
+  infill: 0.2
+};
+
+const MIN_LAYER_HEIGHT = 0.08;
+const MAX_LAYER_HEIGHT = 0.4;
+
+// Three 0.4mm perimeters; also stands in for top and bottom skins
+const WALL_THICKNESS_MM = 1.2;
+
+// Volumetric flow at 0.2mm layers; thicker layers extrude proportionally faster
+const FLOW_RATE_MM3_PER_SEC = 8;
+const LAYER_CHANGE_SECONDS = 4;
+
+// Share of the surface that has to overhang before it affects the price
+const OVERHANG_AREA_RATIO = 0.1;
+
+const SETUP_FEE = 3.0;
+const MACHINE_RATE_PER_HOUR = 2.5;
+const MIN_ITEM_PRICE = 5.0;
+const SPECIALTY_SURCHARGE = 0.25;
+
+// Each extra copy is cheaper than the last, down to 40% off
+const QUANTITY_DISCOUNT_START = 0.15;
+const QUANTITY_DISCOUNT_STEP = 0.025;
+const QUANTITY_DISCOUNT_MAX = 0.4;
+
+// Larger runs are quoted by hand
+export const MAX_ORDER_QUANTITY = 1000;
+
+// A quote blocks the server while it parses and measures the model, so heavier
+// models have to be simplified before they can be quoted
+export const MAX_QUOTE_TRIANGLES = 500000;
+
+// Pro members currently pay standard prices; raise this to bring the discount back
+export const PRO_DISCOUNT_RATE = 0;
+
+const SHIPPING_BASE = 5.0;
+const SHIPPING_PER_ITEM = 0.5;
+
+// Client and server totals may differ by float noise, never by more than this
+export const PRICE_TOLERANCE = 0.05;
+
+// Order input the quote can't be built from; the server answers these with a 400
+export class QuoteInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteInputError';
+  }
+}
+
+export class ModelParseError extends QuoteInputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelParseError';
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Decode a model payload as sent to the server
+ * @param modelData - A data URL, a base64 string or raw ASCII STL text
+ * @returns The STL file bytes
+ */
+export function decodeModelData(modelData: string): Uint8Array {
+  if (!modelData.startsWith('data:') && modelData.trimStart().startsWith('solid')) {
+    return new TextEncoder().encode(modelData);
+  }
+
+  const base64 = modelData.startsWith('data:') ? modelData.slice(modelData.indexOf(',') + 1) : modelData;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check an order quantity sent by a client
+ * @param value - A whole number of copies, as a number or numeric string
+ * @returns The quantity
+ * @throws QuoteInputError if it isn't a whole number from 1 to MAX_ORDER_QUANTITY
+ */
+export function parseQuantity(value: unknown): number {
+  const quantity = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ORDER_QUANTITY) {
+    throw new QuoteInputError(`Quantity must be a whole number from 1 to ${MAX_ORDER_QUANTITY}`);
+  }
+  return quantity;
+}
+
+/**
+ * Parse a binary or ASCII STL file into a flat triangle list
+ * @param bytes - The STL file bytes
+ * @returns Vertex positions, nine numbers per triangle
+ * @throws QuoteInputError if the file isn't an STL or has more than MAX_QUOTE_TRIANGLES triangles
+ */
+export function parseSTL(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Binary files have an exact size; ASCII files can also start with "solid"
+  if (bytes.byteLength >= 84) {
+    const triangleCount = view.getUint32(80, true);
+    if (84 + triangleCount * 50 === bytes.byteLength) {
+      assertQuotableSize(triangleCount);
+      const positions = new Float32Array(triangleCount * 9);
+      for (let i = 0; i < triangleCount; i++) {
+        const offset = 84 + i * 50 + 12; // Skip the facet normal
+        for (let j = 0; j < 9; j++) {
+          positions[i * 9 + j] = view.getFloat32(offset + j * 4, true);
+        }
+      }
+      return positions;
+    }
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  if (!/^\s*solid/.test(text)) {
+    throw new ModelParseError('Model data is not a valid STL file');
+  }
+
+  const values: number[] = [];
+  const vertexPattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = vertexPattern.exec(text)) !== null) {
+    values.push(parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]));
+  }
+
+  if (values.length === 0 || values.length % 9 !== 0 || values.some(value => !Number.isFinite(value))) {
+    throw new ModelParseError('STL file contains no readable triangles');
+  }
+  assertQuotableSize(values.length / 9);
+  return new Float32Array(values);
+}
+
+function assertQuotableSize(triangleCount: number) {
+  if (triangleCount > MAX_QUOTE_TRIANGLES) {
+    throw new QuoteInputError(
+      `The model has ${triangleCount.toLocaleString('en-US')} triangles; simplify it to ` +
+      `${MAX_QUOTE_TRIANGLES.toLocaleString('en-US')} or fewer to get a quote`
+    );
+  }
+}
+
+/**
+ * Measure a triangle mesh. Y is the build direction, as in the editor the STL came from.
+ * Only the overhang pass of the printability analysis runs here; the wall thickness
+ * ray cast and island search take seconds on large meshes, too slow for every quote.
+ * @param positions - Vertex positions in mm, nine numbers per triangle
+ * @returns Volume, surface area, overhang area and bounding box
+ */
+export function computeMeshMetrics(positions: ArrayLike<number>): GeometryMetrics {
+  const triangleCount = Math.floor(positions.length / 9);
+  if (triangleCount === 0) {
+    throw new ModelParseError('Model has no triangles');
+  }
+
+  const min: Vec3Tuple = [Infinity, Infinity, Infinity];
+  const max: Vec3Tuple = [-Infinity, -Infinity, -Infinity];
+  let signedVolume = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const i = t * 9;
+    const ax = positions[i], ay = positions[i + 1], az = positions[i + 2];
+    const bx = positions[i + 3], by = positions[i + 4], bz = positions[i + 5];
+    const cx = positions[i + 6], cy = positions[i + 7], cz = positions[i + 8];
+
+    // Signed volume of the tetrahedron formed with the origin
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+
+    for (let j = 0; j < 9; j++) {
+      const axis = j % 3;
+      if (positions[i + j] < min[axis]) min[axis] = positions[i + j];
+      if (positions[i + j] > max[axis]) max[axis] = positions[i + j];
+    }
+  }
+
+  const { surfaceArea, overhangArea } = analyzeOverhangs(positions);
+
+  return {
+    triangleCount,
+    volumeMm3: Math.abs(signedVolume),
+    surfaceAreaMm2: surfaceArea,
+    overhangAreaMm2: overhangArea,
+    boundingBox: {
+      min,
+      max,
+      size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+    }
+  };
+}
+
+/**
+ * Clamp user supplied print settings to values a printer can actually use
+ * @param settings - Layer height in mm and infill as a fraction (0.2) or a percentage (20)
+ */
+export function normalizePrintSettings(settings: { layerHeight?: unknown; infill?: unknown } = {}): PrintSettings {
+  let layerHeight = Number(settings.layerHeight);
+  if (!Number.isFinite(layerHeight) || layerHeight <= 0) {
+    layerHeight = DEFAULT_PRINT_SETTINGS.layerHeight;
+  }
+
+  let infill = Number(settings.infill);
+  if (settings.infill === undefined || !Number.isFinite(infill) || infill < 0) {
+    infill = DEFAULT_PRINT_SETTINGS.infill;
+  } else if (infill > 1) {
+    infill = infill / 100;
+  }
+
+  return {
+    layerHeight: Math.min(MAX_LAYER_HEIGHT, Math.max(MIN_LAYER_HEIGHT, layerHeight)),
+    infill: Math.min(1, infill)
+  };
+}
+
+function getMaterialProfile(material: string): MaterialProfile {
+  const name = material.toUpperCase();
+  const key = Object.keys(MATERIALS).find(candidate => name.includes(candidate));
+  return MATERIALS[key ?? 'PLA'];
+}
+
+// Base filaments with a known density
+export const MATERIAL_NAMES = Object.keys(MATERIALS);
+
+// Density in g/cm³ of a filament, falling back to PLA for unknown names
+export function getMaterialDensity(material: string): number {
+  return getMaterialProfile(material).density;
+}
+
+// Premium, metallic and wood-fill filaments wear nozzles and print slower
+function isSpecialtyMaterial(material: string): boolean {
+  return /premium|metallic|wood/i.test(material);
+}
+
+/**
+ * Estimate filament use and print time with a shell-plus-infill model
+ * @param metrics - Measurements of the model
+ * @param settings - Layer height and infill
+ * @param material - Material name, used for its density
+ */
+export function estimatePrint(metrics: GeometryMetrics, settings: PrintSettings, material: string): PrintEstimate {
+  const profile = getMaterialProfile(material);
+
+  const shellVolume = Math.min(metrics.volumeMm3, metrics.surfaceAreaMm2 * WALL_THICKNESS_MM);
+  const infillVolume = (metrics.volumeMm3 - shellVolume) * settings.infill;
+  const extrudedVolume = shellVolume + infillVolume;
+
+  const layerCount = Math.max(1, Math.ceil(metrics.boundingBox.size[BUILD_AXIS] / settings.layerHeight));
+  const flowRate = FLOW_RATE_MM3_PER_SEC * (settings.layerHeight / DEFAULT_PRINT_SETTINGS.layerHeight);
+  const printSeconds = extrudedVolume / flowRate + layerCount * LAYER_CHANGE_SECONDS;
+
+  return {
+    filamentGrams: (extrudedVolume / 1000) * profile.density,
+    printTimeMinutes: printSeconds / 60,
+    layerCount
+  };
+}
+
+/**
+ * Dense meshes take longer to slice and print and fail more often
+ * @param triangleCount - Number of triangles in the model
+ * @returns A price multiplier between 1 and 2
+ */
+export function calculateComplexityFactor(triangleCount: number): number {
+  if (triangleCount < 1000) {
+    return 1.0;
+  } else if (triangleCount < 10000) {
+    return 1.0 + ((triangleCount - 1000) / 9000) * 0.2;
+  } else if (triangleCount < 100000) {
+    return 1.2 + ((triangleCount - 10000) / 90000) * 0.3;
+  }
+  return 1.5 + Math.min(0.5, ((triangleCount - 100000) / 900000) * 0.5);
+}
+
+/**
+ * Judge how hard a model is to print from how much of it needs support.
+ * Thin walls and floating islands are shown in the editor's printability panel
+ * but not priced, since finding them is too slow to run on every quote.
+ * @param metrics - Measurements of the model
+ */
+export function assessPrintability(metrics: GeometryMetrics): PrintabilityAssessment {
+  const hasOverhangs = metrics.overhangAreaMm2 > metrics.surfaceAreaMm2 * OVERHANG_AREA_RATIO;
+
+  return {
+    factor: hasOverhangs ? 1.25 : 1.0,
+    category: hasOverhangs ? 'Moderate' : 'Easy',
+    hasOverhangs
+  };
+}
+
+/**
+ * Price a print order
+ * @param input - Material, quantity, geometry metrics and Pro status
+ * @returns An itemized quote whose line items add up to the total
+ */
+export function calculateQuote(input: QuoteInput): Quote {
+  const quantity = parseQuantity(input.quantity);
+  const material = input.material || 'PLA';
+  const settings = normalizePrintSettings(input.settings);
+  const { metrics } = input;
+
+  const estimate = estimatePrint(metrics, settings, material);
+  const profile = getMaterialProfile(material);
+  const complexityFactor = calculateComplexityFactor(metrics.triangleCount);
+  const printability = assessPrintability(metrics);
+
+  // Cost of one item
+  const materialCost = estimate.filamentGrams * profile.pricePerGram;
+  let printingCost = SETUP_FEE + (estimate.printTimeMinutes / 60) * MACHINE_RATE_PER_HOUR;
+  const directCost = materialCost + printingCost;
+  const complexityCost = directCost * (complexityFactor - 1);
+  const printabilityCost = directCost * (printability.factor - 1);
+  const specialtyCost = isSpecialtyMaterial(material)
+    ? (directCost + complexityCost + printabilityCost) * SPECIALTY_SURCHARGE
+    : 0;
+
+  // Small prints still pay for the machine time spent setting up
+  const itemCost = directCost + complexityCost + printabilityCost + specialtyCost;
+  if (itemCost < MIN_ITEM_PRICE) {
+    printingCost += MIN_ITEM_PRICE - itemCost;
+  }
+
+  const lineItems: QuoteLineItem[] = [
+    { id: 'material', label: `Material (${estimate.filamentGrams.toFixed(0)} g each)`, amount: round2(materialCost * quantity) },
+    { id: 'printing', label: 'Printing', amount: round2(printingCost * quantity) }
+  ];
+  if (complexityCost > 0) {
+    lineItems.push({ id: 'complexity', label: 'Complex geometry', amount: round2(complexityCost * quantity) });
+  }
+  if (printabilityCost > 0) {
+    lineItems.push({ id: 'printability', label: `${printability.category} print`, amount: round2(printabilityCost * quantity) });
+  }
+  if (specialtyCost > 0) {
+    lineItems.push({ id: 'specialty', label: 'Specialty filament', amount: round2(specialtyCost * quantity) });
+  }
+
+  const unitPrice = round2(lineItems.reduce((sum, item) => sum + item.amount, 0) / quantity);
+
+  if (quantity > 1) {
+    // Extra copies ramp up by one step each until the cap, and every copy after that gets the cap
+    const extraCopies = quantity - 1;
+    const rampCopies = Math.min(
+      extraCopies,
+      Math.floor((QUANTITY_DISCOUNT_MAX - QUANTITY_DISCOUNT_START) / QUANTITY_DISCOUNT_STEP)
+    );
+    const discountRate = rampCopies * QUANTITY_DISCOUNT_START
+      + QUANTITY_DISCOUNT_STEP * rampCopies * (rampCopies + 1) / 2
+      + (extraCopies - rampCopies) * QUANTITY_DISCOUNT_MAX;
+    lineItems.push({ id: 'quantityDiscount', label: 'Quantity discount', amount: -round2(unitPrice * discountRate) });
+  }
+
+  if (input.isPro && PRO_DISCOUNT_RATE > 0) {
+    const beforeDiscount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+    lineItems.push({ id: 'proDiscount', label: 'Pro discount', amount: -round2(beforeDiscount * PRO_DISCOUNT_RATE) });
+  }
+
+  const subtotal = round2(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  // Bigger parts need bigger boxes
+  const volumeFactor = Math.min(3, Math.max(1, metrics.volumeMm3 / 1000 / 200));
+  const shippingCost = round2((SHIPPING_BASE + SHIPPING_PER_ITEM * quantity) * volumeFactor);
+  lineItems.push({ id: 'shipping', label: 'Shipping', amount: shippingCost });
+
+  return {
+    material,
+    quantity,
+    settings,
+    metrics,
+    estimate,
+    printability,
+    complexityFactor,
+    lineItems,
+    unitPrice,
+    subtotal,
+    shippingCost,
+    total: round2(subtotal + shippingCost)
+  };
+}
+
+/**
+ * Quote an STL file directly
+ * @param bytes - The STL file bytes
+ * @param input - Everything else the quote needs
+ */
+export function quoteSTL(bytes: Uint8Array, input: Omit<QuoteInput, 'metrics'>): Quote {
+  return calculateQuote({ ...input, metrics: computeMeshMetrics(parseSTL(bytes)) });
+}
+
+/**
+ * Whether a total shown to the customer matches the quote
+ * @param clientTotal - The total the client is asking to be charged
+ * @param quote - The quote recomputed from the uploaded model
+ */
+export function isQuotedTotal(clientTotal: number, quote: Quote): boolean {
+  return Number.isFinite(clientTotal) && Math.abs(clientTotal - quote.total) <= PRICE_TOLERANCE;
+}
+
+export function formatPrintTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remaining = Math.round(minutes % 60);
+  return hours > 0 ? `${hours} h ${remaining} min` : `${remaining} min`;
+}